@@ -0,0 +1,85 @@
+/**
+ * Script to check deck lists against Riftbound's construction rules, with the same
+ * parser and rules engine the deck editor uses.
+ *
+ * This script:
+ * 1. Loads the card list, from the DotGG API or a saved copy of its indexed response
+ * 2. Parses each deck list file like the deck import panel does
+ * 3. Prints lines that did not resolve to one card, then every rule violation
+ *
+ * Exits with status 1 when a deck breaks a rule or has unresolved lines.
+ *
+ * Run with: npx tsx scripts/validateDeck.ts deck.txt [more-decks.txt ...]
+ * Offline:  npx tsx scripts/validateDeck.ts --cards cards.json deck.txt
+ */
+
+import * as fs from 'fs';
+import { CardData } from '@/data/cardDatabase';
+import { readIndexedCardList } from '@/utils/cardMetadata';
+import { deriveCardVariants } from '@/utils/cardVariants';
+import { buildDeckList, parseDeckList } from '@/utils/deckListParser';
+import { validateDeck } from '@/utils/deckRules';
+
+const CARDS_URL = 'https://api.dotgg.gg/cgfw/getcards?game=riftbound&mode=indexed';
+
+/**
+ * Load the card list the same way the app does, from a file when one is given
+ */
+async function loadCards(cardsPath: string | undefined): Promise<CardData[]> {
+  if (cardsPath) {
+    return deriveCardVariants(readIndexedCardList(JSON.parse(fs.readFileSync(cardsPath, 'utf8'))));
+  }
+
+  const response = await fetch(CARDS_URL);
+  if (!response.ok) {
+    throw new Error(`API returned ${response.status}: ${response.statusText}`);
+  }
+  return deriveCardVariants(readIndexedCardList(await response.json()));
+}
+
+/**
+ * Validate one deck list file; returns whether it passed
+ */
+function checkDeck(deckPath: string, cards: CardData[]): boolean {
+  const parsed = parseDeckList(fs.readFileSync(deckPath, 'utf8'), cards);
+  const unresolved = parsed.lines.filter(line => line.status !== 'matched');
+  const validation = validateDeck(buildDeckList(parsed.lines), cards);
+
+  console.log(`\n${deckPath}`);
+  for (const line of unresolved) {
+    const suggestions = line.candidates.slice(0, 3).map(c => `${c.card.name} (${c.card.cardId})`);
+    console.log(`  line ${line.line}: ${line.status} "${line.raw.trim()}"${suggestions.length > 0 ? ` - did you mean ${suggestions.join(', ')}?` : ''}`);
+  }
+  for (const violation of validation.violations) {
+    const ids = violation.cardIds.length > 0 ? ` [${violation.cardIds.join(', ')}]` : '';
+    console.log(`  ${violation.severity}: ${violation.message}${ids}`);
+  }
+
+  const passed = validation.valid && unresolved.length === 0;
+  console.log(passed ? '  ✓ Legal deck' : '  ✗ Not a legal deck');
+  return passed;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const cardsFlag = args.indexOf('--cards');
+  const cardsPath = cardsFlag === -1 ? undefined : args[cardsFlag + 1];
+  const deckPaths = args.filter((_, i) => cardsFlag === -1 || (i !== cardsFlag && i !== cardsFlag + 1));
+
+  if (deckPaths.length === 0 || (cardsFlag !== -1 && !cardsPath)) {
+    console.error('Usage: npx tsx scripts/validateDeck.ts [--cards cards.json] deck.txt [more-decks.txt ...]');
+    process.exit(1);
+  }
+
+  const cards = await loadCards(cardsPath);
+  console.log(`Loaded ${cards.length} cards`);
+
+  // Check every deck before exiting, so one run reports them all
+  const results = deckPaths.map(deckPath => checkDeck(deckPath, cards));
+  process.exit(results.every(Boolean) ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Deck validation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -6,36 +6,47 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { CardDatabaseProvider } from "@/contexts/CardDatabaseContext";
 import { CardHashProvider } from "@/contexts/CardHashContext";
 import { CardEmbeddingProvider } from "@/contexts/CardEmbeddingContext";
+import { PricesProvider } from "@/contexts/PriceContext";
+import { AuthProvider } from "@/contexts/AuthContext";
 import Index from "./pages/Index";
 import Training from "./pages/Training";
 import SanityTests from "./pages/SanityTests";
 import EmbeddingAdmin from "./pages/EmbeddingAdmin";
+import DeckBuilder from "./pages/DeckBuilder";
+import SharedView from "./pages/SharedView";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <CardDatabaseProvider>
-      <CardHashProvider>
-        <CardEmbeddingProvider>
-          <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            <BrowserRouter>
-              <Routes>
-                <Route path="/" element={<Index />} />
-                <Route path="/training" element={<Training />} />
-                <Route path="/sanity-tests" element={<SanityTests />} />
-                <Route path="/embedding-admin" element={<EmbeddingAdmin />} />
-                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </BrowserRouter>
-          </TooltipProvider>
-        </CardEmbeddingProvider>
-      </CardHashProvider>
-    </CardDatabaseProvider>
+    <AuthProvider>
+      <CardDatabaseProvider>
+        <PricesProvider>
+          <CardHashProvider>
+            <CardEmbeddingProvider>
+              <TooltipProvider>
+                <Toaster />
+                <Sonner />
+                <BrowserRouter>
+                  <Routes>
+                    <Route path="/" element={<Index />} />
+                    <Route path="/training" element={<Training />} />
+                    <Route path="/sanity-tests" element={<SanityTests />} />
+                    <Route path="/embedding-admin" element={<EmbeddingAdmin />} />
+                    <Route path="/decks" element={<DeckBuilder />} />
+                    <Route path="/decks/:deckId" element={<DeckBuilder />} />
+                    <Route path="/share/:code" element={<SharedView />} />
+                    {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                </BrowserRouter>
+              </TooltipProvider>
+            </CardEmbeddingProvider>
+          </CardHashProvider>
+        </PricesProvider>
+      </CardDatabaseProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
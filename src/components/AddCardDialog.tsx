@@ -1,22 +1,32 @@
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { Plus, Minus, X, Sparkles, CircleDot } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { CardData } from '@/data/cardDatabase';
+import { CopyAttributes } from '@/types/collection';
+import { useCardDatabase } from '@/contexts/CardDatabaseContext';
+import { CopyAttributesPicker } from '@/components/CopyAttributesPicker';
+import { defaultAttributes } from '@/utils/copySplits';
+import { getPrintings, getVariant, getVariantLabel, isStandardVariant } from '@/utils/cardVariants';
 import { cn } from '@/lib/utils';
 
 interface AddCardDialogProps {
   card: CardData;
-  onConfirm: (normalCount: number, foilCount: number) => void;
+  onConfirm: (normalCount: number, foilCount: number, attributes: CopyAttributes, printing: CardData) => void;
   onCancel: () => void;
 }
 
-export function AddCardDialog({ card, onConfirm, onCancel }: AddCardDialogProps) {
+export function AddCardDialog({ card: initialCard, onConfirm, onCancel }: AddCardDialogProps) {
+  const { cards } = useCardDatabase();
+  const [card, setCard] = useState<CardData>(initialCard);
   const [normalCount, setNormalCount] = useState(1);
   const [foilCount, setFoilCount] = useState(0);
+  const [attributes, setAttributes] = useState<CopyAttributes>(defaultAttributes);
+
+  const printings = useMemo(() => getPrintings(initialCard, cards), [initialCard, cards]);
 
   const handleConfirm = () => {
     if (normalCount > 0 || foilCount > 0) {
-      onConfirm(normalCount, foilCount);
+      onConfirm(normalCount, foilCount, attributes, card);
     }
   };
 
@@ -51,8 +61,34 @@ export function AddCardDialog({ card, onConfirm, onCancel }: AddCardDialogProps)
               {card.rarity}
             </span>
           )}
+          {!isStandardVariant(card) && (
+            <span className="inline-block text-xs px-2 py-0.5 rounded font-medium mt-2 ml-1 bg-primary/10 text-primary">
+              {getVariantLabel(getVariant(card))}
+            </span>
+          )}
         </div>
 
+        {/* Printing selector, when the card has more than one printing */}
+        {printings.length > 1 && (
+          <div className="px-4 pt-4">
+            <p className="text-xs text-muted-foreground mb-2">Printing</p>
+            <div className="flex flex-wrap gap-1.5">
+              {printings.map((printing) => (
+                <Button
+                  key={printing.cardId}
+                  variant={printing.cardId === card.cardId ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setCard(printing)}
+                >
+                  {getVariantLabel(getVariant(printing))}
+                  <span className="font-mono opacity-70">{printing.cardId}</span>
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Count selectors */}
         <div className="p-4 space-y-4">
           {/* Normal count */}
@@ -104,6 +140,12 @@ export function AddCardDialog({ card, onConfirm, onCancel }: AddCardDialogProps)
               </Button>
             </div>
           </div>
+
+          {/* Condition, language and grade of the added copies */}
+          <div className="pt-2 border-t border-border">
+            <p className="text-xs text-muted-foreground mb-2">Condition / Language / Grade</p>
+            <CopyAttributesPicker value={attributes} onChange={setAttributes} />
+          </div>
         </div>
 
         {/* Actions */}
@@ -0,0 +1,50 @@
+import { ReactNode } from 'react';
+import { ShieldAlert, LogOut, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { SignInForm } from './SignInForm';
+
+interface AdminGateProps {
+  children: ReactNode;
+  action: string;                           // What admins can do here, e.g. "rebuild embeddings"
+}
+
+// Shows its children to admins only; everyone else is asked to sign in with an admin account
+export function AdminGate({ children, action }: AdminGateProps) {
+  const { user, isAdmin, isLoading, signOut } = useAuth();
+
+  if (isAdmin) return <>{children}</>;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-5 h-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <ShieldAlert className="w-4 h-4 text-primary" />
+        <h3 className="text-sm font-medium text-foreground">Admins only</h3>
+      </div>
+      {!user ? (
+        <>
+          <p className="text-xs text-muted-foreground">Sign in with an admin account to {action}.</p>
+          <SignInForm />
+        </>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">{user.email}</span> is not an admin, so it can't {action}.
+          </p>
+          <Button variant="ghost" size="sm" onClick={signOut}>
+            <LogOut className="w-4 h-4" />
+            Sign Out
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
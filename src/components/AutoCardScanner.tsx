@@ -3,25 +3,45 @@ import { Camera, X, Loader2, ScanLine, AlertCircle, Search, Zap, ZapOff, Check,
 import { Button } from '@/components/ui/button';
 import { CardData } from '@/data/cardDatabase';
 import { useCardDatabase } from '@/contexts/CardDatabaseContext';
-import { useEmbeddingScanner, EmbeddedCard } from '@/hooks/useEmbeddingScanner';
+import { useEmbeddingScanner, EmbeddedCard, EmbeddingMatchResult } from '@/hooks/useEmbeddingScanner';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import { Progress } from '@/components/ui/progress';
 import { SIMILARITY_THRESHOLDS } from '@/utils/embeddingConfig';
 import { CorrectionDialog } from './CorrectionDialog';
 import { saveTrainingLabel, captureVideoFrame } from '@/services/trainingService';
+import { formatCardName } from '@/utils/cardVariants';
+import { ScanDetails } from '@/types/scanReview';
+
+// Where confirmed scans go; only 'collection' adds them straight away
+export type ScanDestination = 'collection' | 'review' | 'session';
 
 interface AutoCardScannerProps {
-  onCardDetected: (card: CardData) => void;
+  onCardDetected: (card: CardData, source: 'scan' | 'correction', details?: ScanDetails) => void;
   onScanFailed: () => void;
+  onUndo?: () => void;
+  destination?: ScanDestination;
 }
 
-export function AutoCardScanner({ onCardDetected, onScanFailed }: AutoCardScannerProps) {
+const CONFIRMED_MESSAGES: Record<ScanDestination, (label: string) => string> = {
+  collection: label => `Added ${label}`,
+  review: label => `Queued ${label} for review`,
+  session: label => `Shared ${label} to the session`,
+};
+
+export function AutoCardScanner({ onCardDetected, onScanFailed, onUndo, destination = 'collection' }: AutoCardScannerProps) {
   const { cards } = useCardDatabase();
   const [showCorrectionDialog, setShowCorrectionDialog] = useState(false);
   const [isSavingTraining, setIsSavingTraining] = useState(false);
   const lastFrameRef = useRef<string | null>(null);
 
+  // Embedding matches only carry basic card fields; look printings up in the card list
+  const cardsById = useMemo(() => new Map(cards.map(c => [c.cardId, c])), [cards]);
+  const displayName = useCallback((card: { cardId: string; name: string }) => {
+    const known = cardsById.get(card.cardId);
+    return known ? formatCardName(known) : card.name;
+  }, [cardsById]);
+
   // Capture current frame before any confirmation
   const captureCurrentFrame = useCallback((videoEl: HTMLVideoElement | null) => {
     if (videoEl) {
@@ -29,16 +49,27 @@ export function AutoCardScanner({ onCardDetected, onScanFailed }: AutoCardScanne
     }
   }, []);
 
-  const handleCardConfirmed = useCallback(async (card: CardData, cardId: string, source: 'scan_confirm' | 'scan_correction' = 'scan_confirm') => {
-    onCardDetected(card);
+  const handleCardConfirmed = useCallback(async (
+    matched: CardData,
+    cardId: string,
+    details?: ScanDetails,
+    source: 'scan_confirm' | 'scan_correction' = 'scan_confirm'
+  ) => {
+    const card = cardsById.get(matched.cardId) ?? matched;
+    onCardDetected(card, source === 'scan_correction' ? 'correction' : 'scan', details);
     
     toast.success(
-      `Added ${card.name} (${cardId})`,
+      CONFIRMED_MESSAGES[destination](`${formatCardName(card)} (${cardId})`),
       {
         action: {
           label: 'Undo',
           onClick: () => {
-            toast.info('Use the collection list to adjust quantities');
+            if (onUndo) {
+              onUndo();
+              toast.info(`Removed ${card.name}`);
+            } else {
+              toast.info('Use the collection list to adjust quantities');
+            }
           },
         },
         duration: 3000,
@@ -58,7 +89,7 @@ export function AutoCardScanner({ onCardDetected, onScanFailed }: AutoCardScanne
         }
       });
     }
-  }, [onCardDetected]);
+  }, [cardsById, onCardDetected, onUndo, destination]);
 
   const {
     videoRef,
@@ -85,12 +116,20 @@ export function AutoCardScanner({ onCardDetected, onScanFailed }: AutoCardScanne
     handleVideoReady,
     handleVideoError,
     confirmPendingMatch,
+    captureCardThumbnail,
     selectCandidate,
     cancelPendingMatch,
   } = useEmbeddingScanner({
     onCardConfirmed: handleCardConfirmed,
   });
 
+  // Scan details for cards picked outside the pending-match confirmation
+  const detailsFor = (cardId: string, candidates: EmbeddingMatchResult[]): ScanDetails => ({
+    score: candidates.find(c => c.card.cardId === cardId)?.score,
+    candidates: candidates.map(c => ({ cardId: c.card.cardId, score: c.score })),
+    thumbnail: captureCardThumbnail(),
+  });
+
   // Get match quality based on cosine similarity score
   const getMatchQuality = (score: number | null): 'excellent' | 'good' | 'fair' | 'poor' | 'none' => {
     if (score === null) return 'none';
@@ -276,7 +315,7 @@ export function AutoCardScanner({ onCardDetected, onScanFailed }: AutoCardScanne
                   "text-red-400"
                 )}>
                   {matchQuality === 'excellent' || matchQuality === 'good' ? '✓ ' : '? '}
-                  {bestMatch.name} ({bestMatch.cardId})
+                  {displayName(bestMatch)} ({bestMatch.cardId})
                   {bestMatch.setName && <span className="text-white/60 ml-1">– {bestMatch.setName}</span>}
                 </div>
               ) : (
@@ -318,7 +357,7 @@ export function AutoCardScanner({ onCardDetected, onScanFailed }: AutoCardScanne
                             setName: result.card.setName || 'Unknown',
                             rarity: result.card.rarity,
                           };
-                          handleCardConfirmed(cardData, result.card.cardId);
+                          handleCardConfirmed(cardData, result.card.cardId, detailsFor(result.card.cardId, matchCandidates));
                         }}
                         className={cn(
                           "text-xs px-2 py-0.5 rounded",
@@ -327,7 +366,7 @@ export function AutoCardScanner({ onCardDetected, onScanFailed }: AutoCardScanne
                           "bg-primary/30 hover:bg-primary/50 text-primary-foreground"
                         )}
                       >
-                        {result.card.name} ({(result.score * 100).toFixed(0)}%)
+                        {displayName(result.card)} ({(result.score * 100).toFixed(0)}%)
                       </button>
                     ))}
                   </div>
@@ -463,7 +502,7 @@ export function AutoCardScanner({ onCardDetected, onScanFailed }: AutoCardScanne
               />
               <div className="flex-1 text-sm space-y-1">
                 <div className="font-semibold text-foreground text-base">
-                  {pendingMatch.card.name}
+                  {displayName(pendingMatch.card)}
                 </div>
                 <div className="text-muted-foreground font-mono">
                   {pendingMatch.card.cardId}
@@ -509,7 +548,7 @@ export function AutoCardScanner({ onCardDetected, onScanFailed }: AutoCardScanne
                           (e.target as HTMLImageElement).src = '/placeholder.svg';
                         }}
                       />
-                      <div className="text-xs truncate font-medium">{candidate.card.name}</div>
+                      <div className="text-xs truncate font-medium">{displayName(candidate.card)}</div>
                       <div className={cn(
                         "text-xs",
                         candidate.score >= SIMILARITY_THRESHOLDS.GOOD ? "text-green-400" :
@@ -568,7 +607,7 @@ export function AutoCardScanner({ onCardDetected, onScanFailed }: AutoCardScanne
         onClose={() => setShowCorrectionDialog(false)}
         currentGuess={pendingMatch?.card.name}
         onCorrect={(card) => {
-          handleCardConfirmed(card, card.cardId, 'scan_correction');
+          handleCardConfirmed(card, card.cardId, detailsFor(card.cardId, pendingMatch?.candidates ?? []), 'scan_correction');
           setShowCorrectionDialog(false);
           cancelPendingMatch();
         }}
@@ -594,7 +633,7 @@ export function AutoCardScanner({ onCardDetected, onScanFailed }: AutoCardScanne
                 />
                 <div className="flex-1 min-w-0">
                   <div className="font-medium text-sm text-foreground truncate">
-                    {scan.card.name}
+                    {displayName(scan.card)}
                   </div>
                   <div className="text-xs text-muted-foreground font-mono">
                     {scan.card.cardId}
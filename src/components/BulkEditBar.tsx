@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { CheckSquare, X, Trash2, Tag, MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ListExportControls } from '@/components/ListExportControls';
+import { useCardDatabase } from '@/contexts/CardDatabaseContext';
+import { CardVariant } from '@/data/cardDatabase';
+import { CollectionEntry, ExportSettings } from '@/types/collection';
+import { BulkAction, findPrinting } from '@/utils/bulkEdit';
+import { CARD_VARIANTS, STANDARD_VARIANT, getVariantLabel } from '@/utils/cardVariants';
+import { toast } from 'sonner';
+
+interface BulkEditBarProps {
+  selected: CollectionEntry[];
+  visibleCount: number;
+  knownLocations: string[];
+  knownTags: string[];
+  exportSettings: ExportSettings;
+  fileName: string;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onApply: (action: BulkAction) => void;
+}
+
+type Mode = 'counts' | 'adjust' | 'variant' | 'tags' | 'location' | 'export' | 'remove';
+
+const MODES: Array<{ value: Mode; label: string }> = [
+  { value: 'counts', label: 'Set counts' },
+  { value: 'adjust', label: 'Adjust counts' },
+  { value: 'variant', label: 'Change variant' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'location', label: 'Location' },
+  { value: 'export', label: 'Export' },
+  { value: 'remove', label: 'Remove' },
+];
+
+// Blank means "leave unchanged" for set, "no change" (0) for adjust
+function parseCount(value: string): number | undefined {
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+// Batch actions for the entries selected in the collection list
+export function BulkEditBar({
+  selected,
+  visibleCount,
+  knownLocations,
+  knownTags,
+  exportSettings,
+  fileName,
+  onSelectAll,
+  onClear,
+  onApply,
+}: BulkEditBarProps) {
+  const { cards } = useCardDatabase();
+  const [mode, setMode] = useState<Mode>('counts');
+  const [normal, setNormal] = useState('');
+  const [foil, setFoil] = useState('');
+  const [variant, setVariant] = useState<CardVariant>(STANDARD_VARIANT);
+  const [tag, setTag] = useState('');
+  const [location, setLocation] = useState('');
+
+  const apply = (action: BulkAction) => {
+    onApply(action);
+    setNormal('');
+    setFoil('');
+    setTag('');
+  };
+
+  const handleSetCounts = () => {
+    const normalCount = parseCount(normal);
+    const foilCount = parseCount(foil);
+    if (normalCount === undefined && foilCount === undefined) return;
+    apply({ kind: 'setCounts', normal: normalCount, foil: foilCount });
+  };
+
+  const handleAdjustCounts = () => {
+    const normalDelta = parseCount(normal) ?? 0;
+    const foilDelta = parseCount(foil) ?? 0;
+    if (normalDelta === 0 && foilDelta === 0) return;
+    apply({ kind: 'adjustCounts', normal: normalDelta, foil: foilDelta });
+  };
+
+  const handleChangeVariant = () => {
+    const missing = selected.filter(entry => !findPrinting(entry, variant, cards)).length;
+    if (missing === selected.length) {
+      toast.error(`None of the selected cards has a ${getVariantLabel(variant)} printing`);
+      return;
+    }
+    apply({ kind: 'changeVariant', variant });
+    if (missing > 0) {
+      toast.info(`${missing} ${missing === 1 ? 'card has' : 'cards have'} no ${getVariantLabel(variant)} printing and stayed as they were`);
+    }
+  };
+
+  return (
+    <div className="glass-card p-3 space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <CheckSquare className="w-4 h-4 text-primary" />
+        <span className="font-medium text-foreground">{selected.length} selected</span>
+        {selected.length < visibleCount && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onSelectAll}>
+            Select all {visibleCount}
+          </Button>
+        )}
+        <Button variant="ghost" size="icon-sm" className="ml-auto text-muted-foreground" onClick={onClear} title="Clear selection">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={mode} onValueChange={(v) => setMode(v as Mode)}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MODES.map((m) => (
+              <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {(mode === 'counts' || mode === 'adjust') && (
+          <>
+            <Input
+              type="number"
+              min={mode === 'counts' ? 0 : undefined}
+              value={normal}
+              onChange={(e) => setNormal(e.target.value)}
+              placeholder={mode === 'counts' ? 'Normal' : '± Normal'}
+              className="h-8 w-24 text-sm"
+            />
+            <Input
+              type="number"
+              min={mode === 'counts' ? 0 : undefined}
+              value={foil}
+              onChange={(e) => setFoil(e.target.value)}
+              placeholder={mode === 'counts' ? 'Foil' : '± Foil'}
+              className="h-8 w-24 text-sm"
+            />
+            <Button size="sm" onClick={mode === 'counts' ? handleSetCounts : handleAdjustCounts}>
+              Apply
+            </Button>
+          </>
+        )}
+
+        {mode === 'variant' && (
+          <>
+            <Select value={variant} onValueChange={(v) => setVariant(v as CardVariant)}>
+              <SelectTrigger className="h-8 w-40 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CARD_VARIANTS.map((v) => (
+                  <SelectItem key={v.value} value={v.value}>{v.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleChangeVariant}>
+              Apply
+            </Button>
+          </>
+        )}
+
+        {mode === 'tags' && (
+          <>
+            <Input
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              placeholder="Tag"
+              list="bulk-edit-tags"
+              className="h-8 w-36 text-sm"
+            />
+            <datalist id="bulk-edit-tags">
+              {knownTags.map((t) => <option key={t} value={t} />)}
+            </datalist>
+            <Button size="sm" onClick={() => apply({ kind: 'addTag', tag })} disabled={!tag.trim()}>
+              <Tag className="w-3.5 h-3.5" />
+              Add
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => apply({ kind: 'removeTag', tag })} disabled={!tag.trim()}>
+              Remove
+            </Button>
+          </>
+        )}
+
+        {mode === 'location' && (
+          <>
+            <Input
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="Location (blank clears)"
+              list="bulk-edit-locations"
+              className="h-8 w-44 text-sm"
+            />
+            <datalist id="bulk-edit-locations">
+              {knownLocations.map((l) => <option key={l} value={l} />)}
+            </datalist>
+            <Button size="sm" onClick={() => apply({ kind: 'setLocation', location })}>
+              <MapPin className="w-3.5 h-3.5" />
+              Move
+            </Button>
+          </>
+        )}
+
+        {mode === 'remove' && (
+          <Button variant="destructive" size="sm" onClick={() => apply({ kind: 'remove' })}>
+            <Trash2 className="w-3.5 h-3.5" />
+            Remove {selected.length} {selected.length === 1 ? 'card' : 'cards'}
+          </Button>
+        )}
+      </div>
+
+      {mode === 'export' && (
+        <ListExportControls
+          entries={selected}
+          exportSettings={exportSettings}
+          fileName={fileName}
+          itemLabel="selected cards"
+        />
+      )}
+    </div>
+  );
+}
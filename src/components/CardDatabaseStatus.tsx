@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { useCardDatabase } from '@/contexts/CardDatabaseContext';
 import { useCardHashes } from '@/contexts/CardHashContext';
 import { useCardEmbeddings } from '@/contexts/CardEmbeddingContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
 import { useState, useMemo } from 'react';
@@ -15,6 +16,7 @@ export function CardDatabaseStatus() {
   const { cards, lastUpdated, isLoading, error } = useCardDatabase();
   const { cardIndex, isIndexReady, error: hashError, refreshIndex } = useCardHashes();
   const { cards: embeddedCards, loaded: embeddingsLoaded, error: embeddingError, refreshEmbeddings } = useCardEmbeddings();
+  const { isAdmin } = useAuth();
   const [expandedSets, setExpandedSets] = useState<Set<string>>(new Set());
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncProgress, setSyncProgress] = useState<{ processed: number; total: number } | null>(null);
@@ -146,7 +148,7 @@ export function CardDatabaseStatus() {
         {/* Sync All button */}
         <Button
           onClick={() => handleSyncCards()}
-          disabled={isSyncing}
+          disabled={isSyncing || !isAdmin}
           variant="default"
           size="sm"
           className="w-full"
@@ -169,6 +171,7 @@ export function CardDatabaseStatus() {
 
         <p className="text-xs text-muted-foreground">
           Downloads all card images and computes recognition embeddings. Use the set-level sync buttons below for faster partial updates.
+          {!isAdmin && ' Syncing updates the shared card database, so it needs an admin account.'}
         </p>
 
         {/* Embedding status */}
@@ -211,7 +214,7 @@ export function CardDatabaseStatus() {
                         variant="ghost"
                         size="icon"
                         className="h-8 w-8 shrink-0"
-                        disabled={isSyncing}
+                        disabled={isSyncing || !isAdmin}
                         onClick={(e) => {
                           e.stopPropagation();
                           handleSyncCards(setName);
@@ -246,7 +249,7 @@ export function CardDatabaseStatus() {
                                 variant="ghost"
                                 size="icon"
                                 className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
-                                disabled={isSyncing}
+                                disabled={isSyncing || !isAdmin}
                                 onClick={() => handleSyncCards(undefined, card.cardId)}
                                 title={`Refresh ${card.cardId}`}
                               >
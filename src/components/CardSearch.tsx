@@ -2,7 +2,10 @@ import { useState, useMemo, useRef, useEffect, RefObject } from 'react';
 import { Search, Plus, X } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { CardData } from '@/data/cardDatabase';
-import { useCardDatabase, createCardDatabaseHelpers } from '@/contexts/CardDatabaseContext';
+import { useCardDatabase } from '@/contexts/CardDatabaseContext';
+import { VariantBadge } from '@/components/VariantBadge';
+import { QueryHints } from '@/components/QueryHints';
+import { applyQuery, getQueryHints, parseQuery } from '@/utils/cardQuery';
 import { cn } from '@/lib/utils';
 
 interface CardSearchProps {
@@ -13,7 +16,6 @@ interface CardSearchProps {
 
 export function CardSearch({ onCardSelect, autoFocus = false, inputRef: externalRef }: CardSearchProps) {
   const { cards } = useCardDatabase();
-  const cardHelpers = useMemo(() => createCardDatabaseHelpers(cards), [cards]);
   
   const [query, setQuery] = useState('');
   const [isOpen, setIsOpen] = useState(false);
@@ -21,10 +23,15 @@ export function CardSearch({ onCardSelect, autoFocus = false, inputRef: external
   const inputRef = externalRef || internalRef;
   const dropdownRef = useRef<HTMLDivElement>(null);
 
+  // Plain words match name or ID; field terms like rarity>=epic narrow it down
+  const parsed = useMemo(() => parseQuery(query), [query]);
+  const hints = useMemo(() => getQueryHints(query, { cards }), [query, cards]);
+  const hasTerms = parsed.groups.length > 0;
+
   const results = useMemo(() => {
-    if (query.length < 2) return [];
-    return cardHelpers.searchCardsByName(query).slice(0, 10);
-  }, [query, cardHelpers]);
+    if (query.length < 2 || !hasTerms) return [];
+    return applyQuery(cards, parsed).slice(0, 10);
+  }, [query, hasTerms, cards, parsed]);
 
   useEffect(() => {
     if (autoFocus && inputRef.current) {
@@ -66,7 +73,7 @@ export function CardSearch({ onCardSelect, autoFocus = false, inputRef: external
         <Input
           ref={inputRef}
           type="text"
-          placeholder="Search by card name or ID..."
+          placeholder="Search by name or ID, or e.g. rarity>=epic..."
           value={query}
           onChange={(e) => setQuery(e.target.value)}
           onFocus={() => results.length > 0 && setIsOpen(true)}
@@ -82,6 +89,12 @@ export function CardSearch({ onCardSelect, autoFocus = false, inputRef: external
         )}
       </div>
 
+      {query && (
+        <div className="mt-1.5">
+          <QueryHints input={query} hints={hints} errors={parsed.errors} onApply={setQuery} />
+        </div>
+      )}
+
       {/* Search Results Dropdown */}
       {isOpen && (
         <div className="absolute z-50 top-full left-0 right-0 mt-2 bg-card border border-border rounded-lg shadow-lg overflow-hidden animate-in">
@@ -95,6 +108,7 @@ export function CardSearch({ onCardSelect, autoFocus = false, inputRef: external
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2">
                     <span className="font-medium text-foreground truncate">{card.name}</span>
+                    <VariantBadge card={card} />
                     {card.rarity && (
                       <span className={cn(
                         "text-xs px-1.5 py-0.5 rounded font-medium shrink-0",
@@ -123,7 +137,7 @@ export function CardSearch({ onCardSelect, autoFocus = false, inputRef: external
       )}
 
       {/* No results message */}
-      {query.length >= 2 && results.length === 0 && (
+      {query.length >= 2 && hasTerms && results.length === 0 && (
         <div className="absolute z-50 top-full left-0 right-0 mt-2 bg-card border border-border rounded-lg shadow-lg p-4 text-center text-sm text-muted-foreground animate-in">
           No cards found matching "{query}"
         </div>
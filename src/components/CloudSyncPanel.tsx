@@ -0,0 +1,91 @@
+import { format } from 'date-fns';
+import { Cloud, RefreshCw, LogOut, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/contexts/AuthContext';
+import { SyncResult, SyncStatus } from '@/hooks/useCloudSync';
+import { SignInForm } from './SignInForm';
+
+interface CloudSyncPanelProps {
+  isReady: boolean;
+  enabled: boolean;
+  status: SyncStatus;
+  lastError: string | null;
+  lastResult: SyncResult | null;
+  lastSyncedAt?: string;
+  onEnabledChange: (enabled: boolean) => void;
+  onSyncNow: () => void;
+}
+
+export function CloudSyncPanel({
+  isReady,
+  enabled,
+  status,
+  lastError,
+  lastResult,
+  lastSyncedAt,
+  onEnabledChange,
+  onSyncNow,
+}: CloudSyncPanelProps) {
+  const { user, signOut } = useAuth();
+  const email = user?.email ?? null;
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Cloud className="w-4 h-4 text-primary" />
+        <h3 className="text-sm font-medium text-foreground flex-1">Cloud Sync</h3>
+        {email && (
+          <Switch checked={enabled} onCheckedChange={onEnabledChange} disabled={!isReady} />
+        )}
+      </div>
+
+      {!email ? (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Sign in to keep your collections in sync across devices, e.g. scan on your phone and export on your desktop.
+          </p>
+          <SignInForm />
+        </>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Signed in as <span className="font-medium text-foreground">{email}</span>
+            {enabled && lastSyncedAt && <> • synced {format(new Date(lastSyncedAt), 'PPp')}</>}
+          </p>
+          {!enabled && (
+            <p className="text-xs text-muted-foreground">
+              Turn on sync to upload your collections. Cards changed on two devices between syncs keep the most recent version.
+            </p>
+          )}
+          {enabled && lastResult && (lastResult.pushed > 0 || lastResult.pulled > 0) && (
+            <p className="text-xs text-muted-foreground">
+              Last sync: {lastResult.pushed} sent, {lastResult.pulled} received
+              {lastResult.conflicts > 0 && `, ${lastResult.conflicts} settled conflicts`}
+            </p>
+          )}
+
+          {lastError && (
+            <p className="text-xs text-destructive flex items-center gap-1.5">
+              <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+              {lastError}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            {enabled && (
+              <Button variant="outline" size="sm" className="flex-1" onClick={onSyncNow} disabled={status === 'syncing'}>
+                <RefreshCw className={status === 'syncing' ? 'w-4 h-4 animate-spin' : 'w-4 h-4'} />
+                Sync Now
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={signOut}>
+              <LogOut className="w-4 h-4" />
+              Sign Out
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
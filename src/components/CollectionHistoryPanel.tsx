@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { History, Undo2, Redo2, ChevronDown, ChevronRight, ScanLine, Search, Wand2, Upload, RotateCcw, Cloud } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { CollectionEventSource, CollectionHistory } from '@/types/collection';
+import { getEventCopyDelta } from '@/utils/collectionHistory';
+import { cn } from '@/lib/utils';
+
+interface CollectionHistoryPanelProps {
+  history: CollectionHistory;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (position: number) => void;
+}
+
+const sourceIcons: Record<CollectionEventSource, typeof ScanLine> = {
+  scan: ScanLine,
+  manual: Search,
+  correction: Wand2,
+  import: Upload,
+  sync: Cloud,
+};
+
+function formatTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+    : date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+export function CollectionHistoryPanel({
+  history,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJump,
+}: CollectionHistoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Newest first, keeping each event's position in the log
+  const rows = history.events.map((event, index) => ({ event, index })).reverse();
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="glass-card p-3">
+      <div className="flex items-center gap-2">
+        <CollapsibleTrigger className="flex items-center gap-2 flex-1 text-sm font-medium text-foreground">
+          {isOpen ? (
+            <ChevronDown className="w-4 h-4 text-muted-foreground" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-muted-foreground" />
+          )}
+          <History className="w-4 h-4 text-primary" />
+          History
+          <span className="text-xs text-muted-foreground font-normal">({history.events.length})</span>
+        </CollapsibleTrigger>
+        <Button variant="ghost" size="icon-sm" onClick={onUndo} disabled={!canUndo} title="Undo">
+          <Undo2 className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="icon-sm" onClick={onRedo} disabled={!canRedo} title="Redo">
+          <Redo2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <CollapsibleContent>
+        {history.events.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-4">
+            No changes recorded yet
+          </p>
+        ) : (
+          <div className="mt-3 space-y-1 max-h-72 overflow-y-auto scrollbar-hide">
+            {rows.map(({ event, index }) => {
+              const Icon = sourceIcons[event.source];
+              const undone = index >= history.cursor;
+              const isCurrent = index === history.cursor - 1;
+              const delta = getEventCopyDelta(event);
+
+              return (
+                <div
+                  key={event.id}
+                  className={cn(
+                    "flex items-center gap-2 px-2 py-1.5 rounded-md text-xs",
+                    isCurrent ? "bg-primary/10" : "bg-muted/30",
+                    undone && "opacity-50"
+                  )}
+                >
+                  <Icon className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className={cn("truncate text-foreground", undone && "line-through")}>
+                      {event.description}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {formatTime(event.timestamp)} • {event.source}
+                    </p>
+                  </div>
+                  {delta !== 0 && (
+                    <span className={cn(
+                      "font-mono shrink-0",
+                      delta > 0 ? "text-success" : "text-destructive"
+                    )}>
+                      {delta > 0 ? `+${delta}` : delta}
+                    </span>
+                  )}
+                  {!isCurrent && (
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      className="h-7 w-7 shrink-0"
+                      onClick={() => onJump(index + 1)}
+                      title="Restore collection to this point"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+            {history.cursor > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full text-xs text-muted-foreground"
+                onClick={() => onJump(0)}
+              >
+                <RotateCcw className="w-3 h-3" />
+                Restore to before all recorded changes
+              </Button>
+            )}
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
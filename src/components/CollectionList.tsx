@@ -1,15 +1,380 @@
-import { Plus, Minus, Trash2, Sparkles, CircleDot } from 'lucide-react';
+import { useState, useMemo } from 'react';
+import { Plus, Minus, Trash2, Sparkles, CircleDot, Layers, ArrowUpDown, MapPin, Tag, Filter, CheckSquare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { CollectionEntry } from '@/types/collection';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { VariantBadge } from '@/components/VariantBadge';
+import { CollectionEntry, ExportSettings, QuantitySplit } from '@/types/collection';
+import { CopySplitsEditor } from '@/components/CopySplitsEditor';
+import { EntryOrganizationEditor } from '@/components/EntryOrganizationEditor';
+import { describeAttributes, isPlainSplit } from '@/utils/copySplits';
+import {
+  UNASSIGNED_LOCATION_LABEL,
+  collectLocations,
+  collectTags,
+  compareLocations,
+  getEntryLocations,
+  hasTag,
+} from '@/utils/organization';
+import { PriceTable } from '@/types/pricing';
+import { formatPrice, getEntryValue, getQuote } from '@/utils/pricing';
+import { CollectionQueryBar } from '@/components/CollectionQueryBar';
+import { BulkEditBar } from '@/components/BulkEditBar';
+import { useCardDatabase } from '@/contexts/CardDatabaseContext';
+import { SortKey } from '@/types/query';
+import { applyQuery, getQueryHints, parseQuery } from '@/utils/cardQuery';
+import { BulkAction } from '@/utils/bulkEdit';
 import { cn } from '@/lib/utils';
 
 interface CollectionListProps {
   collection: CollectionEntry[];
+  collectionName: string;
+  exportSettings: ExportSettings;
+  prices?: PriceTable;
   onUpdateCounts: (cardId: string, normalCount: number, foilCount: number) => void;
+  onUpdateSplits: (cardId: string, splits: QuantitySplit[]) => void;
+  onUpdateOrganization: (cardId: string, changes: Pick<CollectionEntry, 'location' | 'labels'>) => void;
   onRemove: (cardId: string) => void;
+  onBulkEdit: (cardIds: string[], action: BulkAction) => void;
 }
 
-export function CollectionList({ collection, onUpdateCounts, onRemove }: CollectionListProps) {
+type SortOrder = 'added' | 'name' | 'value';
+type GroupBy = 'none' | 'location' | 'tag';
+
+// Filter values: everything, copies without a location, or "location:<name>" / "tag:<name>"
+const ALL_CARDS = 'all';
+const NO_LOCATION = 'unassigned';
+const LOCATION_PREFIX = 'location:';
+const TAG_PREFIX = 'tag:';
+
+const NO_PRICES: PriceTable = {};
+
+// The sort select's order, used when the query has no sort: terms
+const DEFAULT_SORTS: Record<SortOrder, SortKey[]> = {
+  added: [],
+  name: [{ field: 'name', descending: false }],
+  value: [{ field: 'value', descending: true }],
+};
+
+interface EntryGroup {
+  key: string;
+  title?: string;
+  entries: CollectionEntry[];
+}
+
+function matchesFilter(entry: CollectionEntry, filter: string): boolean {
+  if (filter === NO_LOCATION) return getEntryLocations(entry).includes(undefined);
+  if (filter.startsWith(LOCATION_PREFIX)) return getEntryLocations(entry).includes(filter.slice(LOCATION_PREFIX.length));
+  if (filter.startsWith(TAG_PREFIX)) return hasTag(entry, filter.slice(TAG_PREFIX.length));
+  return true;
+}
+
+// Entries appear under every location holding copies of them, and under each of their tags
+function groupEntries(entries: CollectionEntry[], groupBy: GroupBy): EntryGroup[] {
+  if (groupBy === 'none') return [{ key: ALL_CARDS, entries }];
+
+  const groups = new Map<string, CollectionEntry[]>();
+  const add = (key: string, entry: CollectionEntry) => groups.set(key, [...(groups.get(key) ?? []), entry]);
+  for (const entry of entries) {
+    const keys = groupBy === 'location'
+      ? getEntryLocations(entry).map(l => l ?? '')
+      : (entry.labels && entry.labels.length > 0 ? entry.labels : ['']);
+    keys.forEach(key => add(key, entry));
+  }
+
+  const fallback = groupBy === 'location' ? UNASSIGNED_LOCATION_LABEL : 'Untagged';
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => (a ? 0 : 1) - (b ? 0 : 1) || compareLocations(a, b))
+    .map(([key, groupEntries]) => ({ key: `group-${key}`, title: key || fallback, entries: groupEntries }));
+}
+
+export function CollectionList({
+  collection,
+  collectionName,
+  exportSettings,
+  prices = NO_PRICES,
+  onUpdateCounts,
+  onUpdateSplits,
+  onUpdateOrganization,
+  onRemove,
+  onBulkEdit,
+}: CollectionListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [organizingId, setOrganizingId] = useState<string | null>(null);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('added');
+  const [filter, setFilter] = useState(ALL_CARDS);
+  const [groupBy, setGroupBy] = useState<GroupBy>('none');
+  const [query, setQuery] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [lastSelectedId, setLastSelectedId] = useState<string | null>(null);
+  const { cards } = useCardDatabase();
+
+  const knownLocations = useMemo(() => collectLocations(collection), [collection]);
+  const knownTags = useMemo(() => collectTags(collection), [collection]);
+  const isOrganized = knownLocations.length > 0 || knownTags.length > 0;
+
+  // Fall back to all cards once the filtered location or tag no longer exists
+  const activeFilter =
+    filter === NO_LOCATION ||
+    knownLocations.some(l => filter === `${LOCATION_PREFIX}${l}`) ||
+    knownTags.some(t => filter === `${TAG_PREFIX}${t}`)
+      ? filter
+      : ALL_CARDS;
+
+  const values = useMemo(
+    () => new Map(collection.map(card => [card.cardId, getEntryValue(card, prices)])),
+    [collection, prices]
+  );
+
+  const parsedQuery = useMemo(() => parseQuery(query), [query]);
+  const queryHints = useMemo(() => getQueryHints(query, { cards, collection }), [query, cards, collection]);
+
+  // Unpriced cards sort last when ordering by value; sort: terms in the query take precedence
+  const sorted = useMemo(
+    () => applyQuery(collection, parsedQuery, { prices }, DEFAULT_SORTS[sortOrder]),
+    [collection, parsedQuery, prices, sortOrder]
+  );
+
+  const visible = useMemo(
+    () => sorted.filter(entry => matchesFilter(entry, activeFilter)),
+    [sorted, activeFilter]
+  );
+  const groups = useMemo(() => groupEntries(visible, groupBy), [visible, groupBy]);
+
+  // Selected cards that are still in the collection (removed or re-printed ones drop out)
+  const selected = useMemo(
+    () => collection.filter(entry => selectedIds.has(entry.cardId)),
+    [collection, selectedIds]
+  );
+
+  // Shift-click selects (or deselects) every visible card between the last clicked one and this one
+  const toggleSelected = (cardId: string, range: boolean) => {
+    const select = !selectedIds.has(cardId);
+    const from = range && lastSelectedId ? visible.findIndex(e => e.cardId === lastSelectedId) : -1;
+    const to = visible.findIndex(e => e.cardId === cardId);
+    const ids = from >= 0 && to >= 0
+      ? visible.slice(Math.min(from, to), Math.max(from, to) + 1).map(e => e.cardId)
+      : [cardId];
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (select ? next.add(id) : next.delete(id)));
+      return next;
+    });
+    setLastSelectedId(cardId);
+  };
+
+  const handleBulkApply = (action: BulkAction) => {
+    onBulkEdit(selected.map(e => e.cardId), action);
+    if (action.kind === 'remove') setSelectedIds(new Set());
+  };
+
+  const renderEntry = (card: CollectionEntry) => {
+    const value = values.get(card.cardId) ?? null;
+    const currency = getQuote(prices, card.cardId, 'normal')?.currency ?? getQuote(prices, card.cardId, 'foil')?.currency;
+    return (
+      <div
+        key={card.cardId}
+        className="glass-card p-3 animate-in"
+      >
+        {/* Card info row */}
+        <div className="flex items-start justify-between gap-2 mb-3">
+          <Checkbox
+            checked={selectedIds.has(card.cardId)}
+            onClick={(e) => toggleSelected(card.cardId, e.shiftKey)}
+            className="mt-1"
+            aria-label={`Select ${card.name}`}
+          />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-foreground truncate">{card.name}</span>
+              <VariantBadge card={card} />
+              {card.rarity && (
+                <span className={cn(
+                  "text-[10px] px-1.5 py-0.5 rounded font-medium shrink-0",
+                  card.rarity === 'Mythic' && "bg-primary/20 text-primary",
+                  card.rarity === 'Legendary' && "bg-secondary/20 text-secondary",
+                  card.rarity === 'Epic' && "bg-accent/20 text-accent",
+                  card.rarity === 'Rare' && "bg-blue-500/20 text-blue-400",
+                  card.rarity === 'Uncommon' && "bg-green-500/20 text-green-400",
+                  card.rarity === 'Common' && "bg-muted text-muted-foreground",
+                )}>
+                  {card.rarity}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground mt-0.5">
+              <span className="font-mono">{card.cardId}</span>
+              <span>•</span>
+              <span className="truncate">{card.setName}</span>
+              {value !== null && (
+                <>
+                  <span>•</span>
+                  <span className="font-medium text-foreground shrink-0">{formatPrice(value, currency)}</span>
+                </>
+              )}
+            </div>
+            {/* Non-default condition/language/grade splits, and copies stored elsewhere */}
+            {card.splits && card.splits.some(s => !isPlainSplit(s)) && (
+              <div className="flex flex-wrap gap-1 mt-1.5">
+                {card.splits.filter(s => !isPlainSplit(s)).map((split, i) => (
+                  <span
+                    key={i}
+                    className={cn(
+                      "text-[10px] px-1.5 py-0.5 rounded bg-muted text-muted-foreground",
+                      split.finish === 'foil' && "text-primary"
+                    )}
+                  >
+                    {split.count}× {[describeAttributes(split), split.location].filter(Boolean).join(' · ')}
+                  </span>
+                ))}
+              </div>
+            )}
+            {(card.location || (card.labels && card.labels.length > 0)) && (
+              <div className="flex flex-wrap items-center gap-1 mt-1.5 text-[10px]">
+                {card.location && (
+                  <span className="flex items-center gap-0.5 text-muted-foreground mr-1">
+                    <MapPin className="w-3 h-3" />
+                    {card.location}
+                  </span>
+                )}
+                {card.labels?.map((tag) => (
+                  <span key={tag} className="px-1.5 py-0.5 rounded bg-primary/15 text-primary">
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => {
+              setOrganizingId(organizingId === card.cardId ? null : card.cardId);
+              setEditingId(null);
+            }}
+            className={cn(
+              "shrink-0",
+              organizingId === card.cardId ? "text-primary" : "text-muted-foreground"
+            )}
+            title="Location and tags"
+          >
+            <Tag className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => {
+              setEditingId(editingId === card.cardId ? null : card.cardId);
+              setOrganizingId(null);
+            }}
+            className={cn(
+              "shrink-0",
+              editingId === card.cardId ? "text-primary" : "text-muted-foreground"
+            )}
+            title="Condition, language and grade"
+          >
+            <Layers className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => onRemove(card.cardId)}
+            className="text-muted-foreground hover:text-destructive shrink-0"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {/* Count controls */}
+        <div className="flex items-center gap-4">
+          {/* Normal count */}
+          <div className="flex items-center gap-1.5 flex-1">
+            <CircleDot className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+            <span className="text-xs text-muted-foreground">Normal</span>
+            <div className="flex items-center gap-1 ml-auto">
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                className="h-7 w-7"
+                onClick={() => onUpdateCounts(card.cardId, card.normalCount - 1, card.foilCount)}
+              >
+                <Minus className="w-3 h-3" />
+              </Button>
+              <span className="w-6 text-center font-mono text-sm">{card.normalCount}</span>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                className="h-7 w-7"
+                onClick={() => onUpdateCounts(card.cardId, card.normalCount + 1, card.foilCount)}
+              >
+                <Plus className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="w-px h-6 bg-border" />
+
+          {/* Foil count */}
+          <div className="flex items-center gap-1.5 flex-1">
+            <Sparkles className="w-3.5 h-3.5 text-primary shrink-0" />
+            <span className="text-xs text-muted-foreground">Foil</span>
+            <div className="flex items-center gap-1 ml-auto">
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                className="h-7 w-7"
+                onClick={() => onUpdateCounts(card.cardId, card.normalCount, card.foilCount - 1)}
+              >
+                <Minus className="w-3 h-3" />
+              </Button>
+              <span className="w-6 text-center font-mono text-sm">{card.foilCount}</span>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                className="h-7 w-7"
+                onClick={() => onUpdateCounts(card.cardId, card.normalCount, card.foilCount + 1)}
+              >
+                <Plus className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {editingId === card.cardId && (
+          <CopySplitsEditor
+            entry={card}
+            knownLocations={knownLocations}
+            onSave={(splits) => {
+              onUpdateSplits(card.cardId, splits);
+              setEditingId(null);
+            }}
+            onCancel={() => setEditingId(null)}
+          />
+        )}
+
+        {organizingId === card.cardId && (
+          <EntryOrganizationEditor
+            entry={card}
+            knownLocations={knownLocations}
+            knownTags={knownTags}
+            onSave={(changes) => {
+              onUpdateOrganization(card.cardId, changes);
+              setOrganizingId(null);
+            }}
+            onCancel={() => setOrganizingId(null)}
+          />
+        )}
+      </div>
+    );
+  };
+
   if (collection.length === 0) {
     return (
       <div className="text-center py-12 px-4">
@@ -24,102 +389,97 @@ export function CollectionList({ collection, onUpdateCounts, onRemove }: Collect
 
   return (
     <div className="space-y-2">
-      {collection.map((card) => (
-        <div
-          key={card.cardId}
-          className="glass-card p-3 animate-in"
-        >
-          {/* Card info row */}
-          <div className="flex items-start justify-between gap-2 mb-3">
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center gap-2">
-                <span className="font-medium text-foreground truncate">{card.name}</span>
-                {card.rarity && (
-                  <span className={cn(
-                    "text-[10px] px-1.5 py-0.5 rounded font-medium shrink-0",
-                    card.rarity === 'Mythic' && "bg-primary/20 text-primary",
-                    card.rarity === 'Legendary' && "bg-secondary/20 text-secondary",
-                    card.rarity === 'Epic' && "bg-accent/20 text-accent",
-                    card.rarity === 'Rare' && "bg-blue-500/20 text-blue-400",
-                    card.rarity === 'Uncommon' && "bg-green-500/20 text-green-400",
-                    card.rarity === 'Common' && "bg-muted text-muted-foreground",
-                  )}>
-                    {card.rarity}
-                  </span>
-                )}
-              </div>
-              <div className="flex items-center gap-2 text-xs text-muted-foreground mt-0.5">
-                <span className="font-mono">{card.cardId}</span>
-                <span>•</span>
-                <span className="truncate">{card.setName}</span>
-              </div>
-            </div>
-            <Button
-              variant="ghost"
-              size="icon-sm"
-              onClick={() => onRemove(card.cardId)}
-              className="text-muted-foreground hover:text-destructive shrink-0"
-            >
-              <Trash2 className="w-4 h-4" />
-            </Button>
-          </div>
+      <CollectionQueryBar
+        value={query}
+        onChange={setQuery}
+        hints={queryHints}
+        errors={parsedQuery.errors}
+        matchCount={visible.length}
+      />
 
-          {/* Count controls */}
-          <div className="flex items-center gap-4">
-            {/* Normal count */}
-            <div className="flex items-center gap-1.5 flex-1">
-              <CircleDot className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
-              <span className="text-xs text-muted-foreground">Normal</span>
-              <div className="flex items-center gap-1 ml-auto">
-                <Button
-                  variant="ghost"
-                  size="icon-sm"
-                  className="h-7 w-7"
-                  onClick={() => onUpdateCounts(card.cardId, card.normalCount - 1, card.foilCount)}
-                >
-                  <Minus className="w-3 h-3" />
-                </Button>
-                <span className="w-6 text-center font-mono text-sm">{card.normalCount}</span>
-                <Button
-                  variant="ghost"
-                  size="icon-sm"
-                  className="h-7 w-7"
-                  onClick={() => onUpdateCounts(card.cardId, card.normalCount + 1, card.foilCount)}
-                >
-                  <Plus className="w-3 h-3" />
-                </Button>
-              </div>
-            </div>
+      {selected.length > 0 && (
+        <BulkEditBar
+          selected={selected}
+          visibleCount={visible.length}
+          knownLocations={knownLocations}
+          knownTags={knownTags}
+          exportSettings={exportSettings}
+          fileName={`${collectionName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-selection`}
+          onSelectAll={() => setSelectedIds(new Set([...selectedIds, ...visible.map(e => e.cardId)]))}
+          onClear={() => setSelectedIds(new Set())}
+          onApply={handleBulkApply}
+        />
+      )}
 
-            <div className="w-px h-6 bg-border" />
-
-            {/* Foil count */}
-            <div className="flex items-center gap-1.5 flex-1">
-              <Sparkles className="w-3.5 h-3.5 text-primary shrink-0" />
-              <span className="text-xs text-muted-foreground">Foil</span>
-              <div className="flex items-center gap-1 ml-auto">
-                <Button
-                  variant="ghost"
-                  size="icon-sm"
-                  className="h-7 w-7"
-                  onClick={() => onUpdateCounts(card.cardId, card.normalCount, card.foilCount - 1)}
-                >
-                  <Minus className="w-3 h-3" />
-                </Button>
-                <span className="w-6 text-center font-mono text-sm">{card.foilCount}</span>
-                <Button
-                  variant="ghost"
-                  size="icon-sm"
-                  className="h-7 w-7"
-                  onClick={() => onUpdateCounts(card.cardId, card.normalCount, card.foilCount + 1)}
-                >
-                  <Plus className="w-3 h-3" />
-                </Button>
-              </div>
-            </div>
-          </div>
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {selected.length === 0 && visible.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 text-xs mr-auto text-muted-foreground"
+            onClick={() => setSelectedIds(new Set(visible.map(e => e.cardId)))}
+          >
+            <CheckSquare className="w-3.5 h-3.5" />
+            Select all
+          </Button>
+        )}
+        {isOrganized && (
+          <>
+            <Filter className="w-3.5 h-3.5 text-muted-foreground" />
+            <Select value={activeFilter} onValueChange={setFilter}>
+              <SelectTrigger className="h-8 w-36 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CARDS}>All cards</SelectItem>
+                <SelectItem value={NO_LOCATION}>{UNASSIGNED_LOCATION_LABEL}</SelectItem>
+                {knownLocations.map((l) => (
+                  <SelectItem key={l} value={`${LOCATION_PREFIX}${l}`}>{l}</SelectItem>
+                ))}
+                {knownTags.map((t) => (
+                  <SelectItem key={t} value={`${TAG_PREFIX}${t}`}>#{t}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={groupBy} onValueChange={(v) => setGroupBy(v as GroupBy)}>
+              <SelectTrigger className="h-8 w-32 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No grouping</SelectItem>
+                <SelectItem value="location">By location</SelectItem>
+                <SelectItem value="tag">By tag</SelectItem>
+              </SelectContent>
+            </Select>
+          </>
+        )}
+        <ArrowUpDown className="w-3.5 h-3.5 text-muted-foreground" />
+        <Select value={sortOrder} onValueChange={(v) => setSortOrder(v as SortOrder)} disabled={parsedQuery.sort.length > 0}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="added">Date added</SelectItem>
+            <SelectItem value="name">Name</SelectItem>
+            <SelectItem value="value">Value</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {groups.map((group) => (
+        <div key={group.key} className="space-y-2">
+          {group.title && (
+            <h3 className="text-xs font-medium text-muted-foreground pt-2">
+              {group.title} <span className="font-normal">({group.entries.length})</span>
+            </h3>
+          )}
+          {group.entries.map(renderEntry)}
         </div>
       ))}
+
+      {groups.every(g => g.entries.length === 0) && (
+        <p className="text-center text-sm text-muted-foreground py-6">No cards match this filter</p>
+      )}
     </div>
   );
 }
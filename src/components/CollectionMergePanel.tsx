@@ -0,0 +1,308 @@
+import { useState, useMemo, useEffect } from 'react';
+import { GitMerge, Plus, Minus, PenLine, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ImportTextInput } from '@/components/ImportTextInput';
+import { CollectionEntry, EntryChange, NamedCollection } from '@/types/collection';
+import { useCardDatabase } from '@/contexts/CardDatabaseContext';
+import { importFromText } from '@/utils/importFormats';
+import {
+  CollectionDiffItem,
+  MergeItem,
+  MergeResolution,
+  diffCollections,
+  mergeCollections,
+  resolveMerge,
+} from '@/utils/collectionDiff';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface CollectionMergePanelProps {
+  collection: CollectionEntry[];
+  collections: NamedCollection[];
+  activeCollectionId: string;
+  activeCollectionName: string;
+  onApply: (changes: EntryChange[], description: string) => void;
+}
+
+// Snapshot sources: an exported file, or another collection in the app
+const FROM_FILE = 'file';
+const NO_BASE = 'none';
+
+const NO_DIFF: CollectionDiffItem[] = [];
+const NO_MERGE: MergeItem[] = [];
+
+const diffIcons = { added: Plus, removed: Minus, changed: PenLine };
+
+function formatCounts(entry: CollectionEntry | null): string {
+  return entry ? `${entry.normalCount}/${entry.foilCount}` : '–';
+}
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+export function CollectionMergePanel({
+  collection,
+  collections,
+  activeCollectionId,
+  activeCollectionName,
+  onApply,
+}: CollectionMergePanelProps) {
+  const { cards } = useCardDatabase();
+  const [otherSource, setOtherSource] = useState(FROM_FILE);
+  const [otherText, setOtherText] = useState('');
+  const [baseSource, setBaseSource] = useState(NO_BASE);
+  const [baseText, setBaseText] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>({});
+
+  const otherCollections = collections.filter(c => c.id !== activeCollectionId);
+  const otherFile = useMemo(() => importFromText(otherText, cards), [otherText, cards]);
+  const baseFile = useMemo(() => importFromText(baseText, cards), [baseText, cards]);
+
+  const resolveSource = (source: string, file: ReturnType<typeof importFromText>) =>
+    source === FROM_FILE
+      ? (file?.detected ? file.entries : null)
+      : collections.find(c => c.id === source)?.entries ?? null;
+
+  const other = resolveSource(otherSource, otherFile);
+  const base = baseSource === NO_BASE ? null : resolveSource(baseSource, baseFile);
+
+  const diff = useMemo(() => (other && !base ? diffCollections(collection, other) : NO_DIFF), [collection, other, base]);
+  const merge = useMemo(() => (other && base ? mergeCollections(base, collection, other) : NO_MERGE), [collection, other, base]);
+
+  // Added and changed cards are picked by default; removals usually mean the other side hasn't scanned those yet
+  useEffect(() => {
+    setSelected(new Set(diff.filter(d => d.kind !== 'removed').map(d => d.cardId)));
+  }, [diff]);
+
+  useEffect(() => {
+    setResolutions({});
+  }, [merge]);
+
+  const conflicts = merge.filter(m => m.conflict);
+  const unresolved = conflicts.filter(m => !resolutions[m.cardId]).length;
+
+  const toggle = (cardId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(cardId)) next.delete(cardId);
+      else next.add(cardId);
+      return next;
+    });
+  };
+
+  const handleApplyDiff = () => {
+    const changes = diff.filter(d => selected.has(d.cardId));
+    if (changes.length === 0) return;
+    onApply(changes, `Merged ${changes.length} ${changes.length === 1 ? 'change' : 'changes'} from another snapshot`);
+    toast.success(`Applied ${changes.length} changes to ${activeCollectionName}`);
+  };
+
+  const handleApplyMerge = () => {
+    const changes = resolveMerge(merge, resolutions);
+    if (changes.length === 0) {
+      toast.info('Nothing to change');
+      return;
+    }
+    onApply(changes, `Three-way merge: ${changes.length} ${changes.length === 1 ? 'card' : 'cards'} changed`);
+    toast.success(`Merged ${changes.length} cards into ${activeCollectionName}`);
+  };
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <GitMerge className="w-4 h-4 text-primary" />
+        <h3 className="text-sm font-medium text-foreground">Compare & Merge into {activeCollectionName}</h3>
+      </div>
+
+      <SnapshotSourcePicker
+        label="Other snapshot"
+        value={otherSource}
+        onChange={setOtherSource}
+        collections={otherCollections}
+      />
+      {otherSource === FROM_FILE && (
+        <ImportTextInput label="Other snapshot file" content={otherText} onChange={setOtherText} loaded={otherFile} />
+      )}
+
+      <SnapshotSourcePicker
+        label="Common base (optional)"
+        value={baseSource}
+        onChange={setBaseSource}
+        collections={otherCollections}
+        allowNone
+      />
+      {baseSource === FROM_FILE && (
+        <ImportTextInput label="Base snapshot file" content={baseText} onChange={setBaseText} loaded={baseFile} />
+      )}
+
+      {other && !base && (
+        diff.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Both snapshots have the same cards.</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span className="flex-1">{diff.length} differences • {selected.size} picked</span>
+              <button className="hover:text-foreground" onClick={() => setSelected(new Set(diff.map(d => d.cardId)))}>
+                All
+              </button>
+              <button className="hover:text-foreground" onClick={() => setSelected(new Set())}>
+                None
+              </button>
+            </div>
+            <div className="max-h-72 overflow-y-auto scrollbar-hide space-y-1">
+              {diff.map((item) => (
+                <DiffRow key={item.cardId} item={item} checked={selected.has(item.cardId)} onToggle={toggle} />
+              ))}
+            </div>
+            <Button variant="scanner" size="sm" className="w-full" onClick={handleApplyDiff} disabled={selected.size === 0}>
+              Apply {selected.size} {selected.size === 1 ? 'change' : 'changes'}
+            </Button>
+          </div>
+        )
+      )}
+
+      {other && base && (
+        merge.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Nothing to merge; {activeCollectionName} already has every change.</p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              {merge.length - conflicts.length} changes merge cleanly
+              {conflicts.length > 0 && <> • <span className="text-amber-500">{conflicts.length} conflicts</span></>}
+            </p>
+            <div className="max-h-72 overflow-y-auto scrollbar-hide space-y-1">
+              {merge.map((item) => (
+                <MergeRow
+                  key={item.cardId}
+                  item={item}
+                  resolution={resolutions[item.cardId]}
+                  onResolve={(r) => setResolutions(prev => ({ ...prev, [item.cardId]: r }))}
+                />
+              ))}
+            </div>
+            {unresolved > 0 && (
+              <p className="text-xs text-amber-500 flex items-center gap-1.5">
+                <AlertTriangle className="w-3.5 h-3.5" />
+                Unresolved conflicts keep your current counts
+              </p>
+            )}
+            <Button variant="scanner" size="sm" className="w-full" onClick={handleApplyMerge}>
+              Apply Merge
+            </Button>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+interface SnapshotSourcePickerProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  collections: NamedCollection[];
+  allowNone?: boolean;
+}
+
+function SnapshotSourcePicker({ label, value, onChange, collections, allowNone = false }: SnapshotSourcePickerProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-muted-foreground flex-1">{label}</span>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-8 w-44 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {allowNone && <SelectItem value={NO_BASE}>None</SelectItem>}
+          <SelectItem value={FROM_FILE}>From file</SelectItem>
+          {collections.map((c) => (
+            <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function DiffRow({ item, checked, onToggle }: { item: CollectionDiffItem; checked: boolean; onToggle: (cardId: string) => void }) {
+  const Icon = diffIcons[item.kind];
+  const card = item.after ?? item.before!;
+
+  return (
+    <label className="flex items-center gap-2 px-2 py-1 rounded bg-muted/30 text-xs cursor-pointer">
+      <Checkbox checked={checked} onCheckedChange={() => onToggle(item.cardId)} />
+      <Icon
+        className={cn(
+          "w-3.5 h-3.5 shrink-0",
+          item.kind === 'added' ? "text-success" : item.kind === 'removed' ? "text-destructive" : "text-amber-500"
+        )}
+      />
+      <span className="flex-1 min-w-0 truncate text-foreground">
+        {card.name} <span className="text-muted-foreground font-mono">({card.cardId})</span>
+      </span>
+      <span className="font-mono text-muted-foreground shrink-0">
+        {formatCounts(item.before)} → {formatCounts(item.after)}
+      </span>
+      <span className="font-mono shrink-0 w-14 text-right">
+        {item.normalDelta !== 0 && formatDelta(item.normalDelta)}
+        {item.foilDelta !== 0 && ` ${formatDelta(item.foilDelta)}F`}
+      </span>
+    </label>
+  );
+}
+
+interface MergeRowProps {
+  item: MergeItem;
+  resolution?: MergeResolution;
+  onResolve: (resolution: MergeResolution) => void;
+}
+
+function MergeRow({ item, resolution, onResolve }: MergeRowProps) {
+  const card = (item.mine ?? item.theirs ?? item.base)!;
+
+  return (
+    <div className={cn("px-2 py-1 rounded text-xs", item.conflict ? "bg-amber-500/10" : "bg-muted/30")}>
+      <div className="flex items-center gap-2">
+        <span className="flex-1 min-w-0 truncate text-foreground">
+          {card.name} <span className="text-muted-foreground font-mono">({card.cardId})</span>
+        </span>
+        {!item.conflict && (
+          <span className="font-mono text-muted-foreground shrink-0">
+            {formatCounts(item.mine)} → {formatCounts(item.merged ?? null)}
+          </span>
+        )}
+      </div>
+      {item.conflict && (
+        <div className="flex items-center gap-2 mt-1">
+          <span className="font-mono text-muted-foreground flex-1">base {formatCounts(item.base)}</span>
+          <Button
+            variant={resolution === 'mine' ? 'default' : 'outline'}
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => onResolve('mine')}
+          >
+            Mine {formatCounts(item.mine)}
+          </Button>
+          <Button
+            variant={resolution === 'theirs' ? 'default' : 'outline'}
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => onResolve('theirs')}
+          >
+            Theirs {formatCounts(item.theirs)}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Search, X, Bookmark, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { QueryHints } from '@/components/QueryHints';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { QueryError } from '@/types/query';
+import { QueryHint } from '@/utils/cardQuery';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface CollectionQueryBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  hints: QueryHint[];
+  errors: QueryError[];
+  matchCount: number;
+}
+
+export function CollectionQueryBar({ value, onChange, hints, errors, matchCount }: CollectionQueryBarProps) {
+  const { savedSearches, saveSearch, deleteSearch } = useSavedSearches();
+  const [saveName, setSaveName] = useState<string | null>(null);
+
+  const handleSave = () => {
+    if (!saveName?.trim()) return;
+    saveSearch(saveName, value);
+    toast.success(`Saved search "${saveName.trim()}"`);
+    setSaveName(null);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder='Filter, e.g. set:origins rarity>=epic foil>0 sort:-value'
+            className="pl-10 pr-8 h-9 text-sm"
+          />
+          {value && (
+            <button
+              onClick={() => onChange('')}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => setSaveName(saveName === null ? '' : null)}
+          disabled={!value.trim()}
+          className={cn(saveName !== null ? "text-primary" : "text-muted-foreground")}
+          title="Save search"
+        >
+          <Bookmark className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {saveName !== null && (
+        <div className="flex items-center gap-2">
+          <Input
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Name this search"
+            className="h-8 text-sm"
+            autoFocus
+          />
+          <Button variant="ghost" size="icon-sm" onClick={handleSave} disabled={!saveName.trim()}>
+            <Check className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      <QueryHints input={value} hints={hints} errors={errors} onApply={onChange} />
+
+      {savedSearches.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {savedSearches.map((search) => (
+            <span
+              key={search.id}
+              className={cn(
+                "flex items-center gap-1 text-xs pl-2 pr-1 py-0.5 rounded-full border",
+                search.query === value ? "border-primary text-primary" : "border-border text-muted-foreground"
+              )}
+            >
+              <button onClick={() => onChange(search.query)} title={search.query}>
+                {search.name}
+              </button>
+              <button
+                onClick={() => deleteSearch(search.id)}
+                className="hover:text-destructive"
+                title="Delete saved search"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {value.trim() && (
+        <p className="text-xs text-muted-foreground">{matchCount} {matchCount === 1 ? 'card matches' : 'cards match'}</p>
+      )}
+    </div>
+  );
+}
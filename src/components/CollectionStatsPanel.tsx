@@ -0,0 +1,230 @@
+import { ReactNode, useMemo } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { VariantBadge } from '@/components/VariantBadge';
+import { useCardDatabase } from '@/contexts/CardDatabaseContext';
+import { CollectionEntry, CollectionHistory } from '@/types/collection';
+import { PriceTable } from '@/types/pricing';
+import { computeCollectionStats } from '@/utils/collectionStats';
+import { formatPrice, getCollectionValue } from '@/utils/pricing';
+
+interface CollectionStatsPanelProps {
+  collection: CollectionEntry[];
+  collectionName: string;
+  history: CollectionHistory;
+  prices: PriceTable;
+}
+
+const copiesConfig = {
+  copies: { label: 'Copies', color: 'hsl(var(--primary))' },
+  unique: { label: 'Unique', color: 'hsl(var(--secondary))' },
+} satisfies ChartConfig;
+
+const foilConfig = {
+  normal: { label: 'Normal', color: 'hsl(var(--secondary))' },
+  foil: { label: 'Foil', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const additionsConfig = {
+  scanned: { label: 'Scanned', color: 'hsl(var(--primary))' },
+  other: { label: 'Manual & imports', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+const completionConfig = {
+  percent: { label: 'Completion %', color: 'hsl(var(--success))' },
+} satisfies ChartConfig;
+
+// "2026-03-14" -> "3/14"
+function shortDate(date: string): string {
+  const [, month, day] = date.split('-');
+  return `${Number(month)}/${Number(day)}`;
+}
+
+function ChartCard({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <h4 className="text-sm font-medium text-foreground">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+export function CollectionStatsPanel({ collection, collectionName, history, prices }: CollectionStatsPanelProps) {
+  const { cards } = useCardDatabase();
+
+  const stats = useMemo(
+    () => computeCollectionStats(cards, collection, history, prices),
+    [cards, collection, history, prices]
+  );
+  const value = useMemo(() => getCollectionValue(collection, prices), [collection, prices]);
+
+  if (stats.totalCards === 0) {
+    return (
+      <div className="text-center py-12 px-4">
+        <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
+          <BarChart3 className="w-8 h-8 text-muted-foreground" />
+        </div>
+        <p className="text-muted-foreground">No stats yet</p>
+        <p className="text-sm text-muted-foreground/70 mt-1">Add cards to {collectionName} to see its statistics</p>
+      </div>
+    );
+  }
+
+  const foilSlices = [
+    { finish: 'normal', count: stats.foil.normal },
+    { finish: 'foil', count: stats.foil.foil },
+  ];
+  const latestCompletion = stats.completion[stats.completion.length - 1];
+
+  return (
+    <div className="space-y-4">
+      {/* Summary */}
+      <div className="glass-card p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <BarChart3 className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-medium text-foreground">Statistics for {collectionName}</h3>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+          <div>
+            <p className="text-lg font-semibold text-foreground">{stats.totalCards}</p>
+            <p className="text-xs text-muted-foreground">Cards</p>
+          </div>
+          <div>
+            <p className="text-lg font-semibold text-foreground">{stats.uniqueCards}</p>
+            <p className="text-xs text-muted-foreground">Unique</p>
+          </div>
+          <div>
+            <p className="text-lg font-semibold text-primary">{stats.foil.foilPercent}%</p>
+            <p className="text-xs text-muted-foreground">Foil</p>
+          </div>
+          <div>
+            <p className="text-lg font-semibold text-foreground">
+              {value.pricedCards > 0 ? formatPrice(value.total, value.currency) : '—'}
+            </p>
+            <p className="text-xs text-muted-foreground">Value</p>
+          </div>
+        </div>
+      </div>
+
+      <ChartCard title="By rarity">
+        <ChartContainer config={copiesConfig} className="aspect-auto h-56 w-full">
+          <BarChart data={stats.byRarity}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="copies" fill="var(--color-copies)" radius={4} />
+            <Bar dataKey="unique" fill="var(--color-unique)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard title="By set">
+        <ChartContainer
+          config={copiesConfig}
+          className="aspect-auto w-full"
+          style={{ height: Math.max(120, stats.bySet.length * 36 + 40) }}
+        >
+          <BarChart data={stats.bySet} layout="vertical">
+            <CartesianGrid horizontal={false} />
+            <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+            <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={110} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="copies" fill="var(--color-copies)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard title="By domain">
+        <ChartContainer config={copiesConfig} className="aspect-auto h-56 w-full">
+          <BarChart data={stats.byDomain}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="copies" fill="var(--color-copies)" radius={4} />
+            <Bar dataKey="unique" fill="var(--color-unique)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+        <p className="text-xs text-muted-foreground">Cards with two domains count towards both</p>
+      </ChartCard>
+
+      <ChartCard title={`Foil ratio (${stats.foil.foil} of ${stats.foil.normal + stats.foil.foil})`}>
+        <ChartContainer config={foilConfig} className="aspect-auto h-48 w-full">
+          <PieChart>
+            <ChartTooltip content={<ChartTooltipContent nameKey="finish" hideLabel />} />
+            <Pie data={foilSlices} dataKey="count" nameKey="finish" innerRadius={45} strokeWidth={2}>
+              {foilSlices.map((slice) => (
+                <Cell key={slice.finish} fill={`var(--color-${slice.finish})`} />
+              ))}
+            </Pie>
+            <ChartLegend content={<ChartLegendContent nameKey="finish" />} />
+          </PieChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard title="Cards added per day">
+        {stats.additions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No additions in the change history yet</p>
+        ) : (
+          <ChartContainer config={additionsConfig} className="aspect-auto h-56 w-full">
+            <BarChart data={stats.additions}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="scanned" stackId="added" fill="var(--color-scanned)" />
+              <Bar dataKey="other" stackId="added" fill="var(--color-other)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </ChartCard>
+
+      {latestCompletion && (
+        <ChartCard title={`Completion over time (${latestCompletion.owned} of ${latestCompletion.total} cards)`}>
+          <ChartContainer config={completionConfig} className="aspect-auto h-48 w-full">
+            <LineChart data={stats.completion}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis domain={[0, 'auto']} unit="%" tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="percent" stroke="var(--color-percent)" strokeWidth={2} dot={stats.completion.length < 20} />
+            </LineChart>
+          </ChartContainer>
+          <p className="text-xs text-muted-foreground">
+            Standard printings across all sets, rebuilt from the change history
+          </p>
+        </ChartCard>
+      )}
+
+      <ChartCard title="Most valuable cards">
+        {stats.topValued.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Load prices in Settings to see card values</p>
+        ) : (
+          <div className="space-y-1">
+            {stats.topValued.map(({ entry, value: entryValue }, index) => (
+              <div key={entry.cardId} className="flex items-center gap-2 text-sm py-1">
+                <span className="w-5 text-xs text-muted-foreground text-right">{index + 1}</span>
+                <span className="flex-1 min-w-0 truncate text-foreground">{entry.name}</span>
+                <VariantBadge card={entry} />
+                <span className="text-xs text-muted-foreground">×{entry.normalCount + entry.foilCount}</span>
+                <span className="font-medium text-primary">{formatPrice(entryValue, value.currency)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </ChartCard>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { FolderPlus, Pencil, Copy, Trash2, Check, X, Library } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { NamedCollection } from '@/types/collection';
+import { toast } from 'sonner';
+
+interface CollectionSwitcherProps {
+  collections: NamedCollection[];
+  activeCollectionId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+type EditMode = 'none' | 'create' | 'rename';
+
+export function CollectionSwitcher({
+  collections,
+  activeCollectionId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: CollectionSwitcherProps) {
+  const [editMode, setEditMode] = useState<EditMode>('none');
+  const [nameInput, setNameInput] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const active = collections.find(c => c.id === activeCollectionId);
+
+  const startEdit = (mode: EditMode) => {
+    setEditMode(mode);
+    setNameInput(mode === 'rename' && active ? active.name : '');
+    setConfirmDelete(false);
+  };
+
+  const handleSubmitName = () => {
+    const name = nameInput.trim();
+    if (!name) return;
+    if (editMode === 'create') {
+      onCreate(name);
+      toast.success(`Created collection "${name}"`);
+    } else if (editMode === 'rename' && active) {
+      onRename(active.id, name);
+      toast.success(`Renamed to "${name}"`);
+    }
+    setEditMode('none');
+  };
+
+  const handleDelete = () => {
+    if (!active) return;
+    onDelete(active.id);
+    setConfirmDelete(false);
+    toast.success(`Deleted "${active.name}"`);
+  };
+
+  return (
+    <div className="glass-card p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <Library className="w-4 h-4 text-primary shrink-0" />
+        <Select value={activeCollectionId} onValueChange={onSwitch}>
+          <SelectTrigger className="h-9 flex-1">
+            <SelectValue placeholder="Select collection" />
+          </SelectTrigger>
+          <SelectContent>
+            {collections.map((c) => (
+              <SelectItem key={c.id} value={c.id}>
+                {c.name} ({c.entries.length})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {editMode !== 'none' ? (
+        <div className="flex items-center gap-2">
+          <Input
+            value={nameInput}
+            onChange={(e) => setNameInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSubmitName();
+              if (e.key === 'Escape') setEditMode('none');
+            }}
+            placeholder={editMode === 'create' ? 'New collection name' : 'Collection name'}
+            className="h-9"
+            autoFocus
+          />
+          <Button variant="ghost" size="icon-sm" onClick={handleSubmitName} disabled={!nameInput.trim()}>
+            <Check className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={() => setEditMode('none')}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ) : confirmDelete ? (
+        <div className="flex items-center gap-2">
+          <p className="flex-1 text-xs text-muted-foreground">
+            Delete "{active?.name}" and its {active?.entries.length ?? 0} entries?
+          </p>
+          <Button variant="outline" size="sm" onClick={() => setConfirmDelete(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" size="sm" onClick={handleDelete}>
+            Delete
+          </Button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => startEdit('create')}>
+            <FolderPlus className="w-4 h-4" />
+            New
+          </Button>
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => startEdit('rename')}>
+            <Pencil className="w-4 h-4" />
+            Rename
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => active && onDuplicate(active.id)}
+          >
+            <Copy className="w-4 h-4" />
+            Copy
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="text-muted-foreground hover:text-destructive shrink-0"
+            onClick={() => setConfirmDelete(true)}
+            disabled={collections.length <= 1}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
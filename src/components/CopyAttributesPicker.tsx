@@ -0,0 +1,101 @@
+import { Award } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CardCondition, CopyAttributes } from '@/types/collection';
+import { CONDITIONS, LANGUAGES, GRADING_COMPANIES } from '@/utils/copySplits';
+import { cn } from '@/lib/utils';
+
+interface CopyAttributesPickerProps {
+  value: CopyAttributes;
+  onChange: (value: CopyAttributes) => void;
+  compact?: boolean;
+}
+
+export function CopyAttributesPicker({ value, onChange, compact = false }: CopyAttributesPickerProps) {
+  const triggerClass = compact ? 'h-8 text-xs' : 'h-9';
+
+  const toggleGrade = () => {
+    onChange(value.grade
+      ? { ...value, grade: undefined }
+      : { ...value, grade: { company: GRADING_COMPANIES[0], grade: '' } });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Select
+          value={value.condition}
+          onValueChange={(v) => onChange({ ...value, condition: v as CardCondition })}
+        >
+          <SelectTrigger className={cn(triggerClass, 'flex-1 min-w-0')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CONDITIONS.map((c) => (
+              <SelectItem key={c.value} value={c.value}>
+                {compact ? c.value : `${c.label} (${c.value})`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={value.language}
+          onValueChange={(v) => onChange({ ...value, language: v })}
+        >
+          <SelectTrigger className={cn(triggerClass, 'flex-1 min-w-0')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LANGUAGES.map((l) => (
+              <SelectItem key={l.value} value={l.value}>
+                {compact ? l.value : l.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <button
+          type="button"
+          onClick={toggleGrade}
+          title={value.grade ? 'Remove grade' : 'Graded slab'}
+          className={cn(
+            'shrink-0 flex items-center justify-center rounded-md border transition-colors',
+            compact ? 'h-8 w-8' : 'h-9 w-9',
+            value.grade ? 'border-primary text-primary bg-primary/10' : 'border-border text-muted-foreground hover:text-foreground'
+          )}
+        >
+          <Award className="w-4 h-4" />
+        </button>
+      </div>
+
+      {value.grade && (
+        <div className="flex items-center gap-2">
+          <Select
+            value={value.grade.company}
+            onValueChange={(company) => onChange({ ...value, grade: { ...value.grade!, company } })}
+          >
+            <SelectTrigger className={cn(triggerClass, 'flex-1 min-w-0')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GRADING_COMPANIES.map((company) => (
+                <SelectItem key={company} value={company}>{company}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={value.grade.grade}
+            onChange={(e) => onChange({ ...value, grade: { ...value.grade!, grade: e.target.value } })}
+            placeholder="Grade (e.g. 9.5)"
+            className={cn(triggerClass, 'flex-1 min-w-0')}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Plus, Minus, Trash2, Sparkles, CircleDot, MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CollectionEntry, QuantitySplit } from '@/types/collection';
+import { CopyAttributesPicker } from '@/components/CopyAttributesPicker';
+import { defaultAttributes, getSplits } from '@/utils/copySplits';
+import { normalizeLocation } from '@/utils/organization';
+import { cn } from '@/lib/utils';
+
+interface CopySplitsEditorProps {
+  entry: CollectionEntry;
+  knownLocations?: string[];
+  onSave: (splits: QuantitySplit[]) => void;
+  onCancel: () => void;
+}
+
+export function CopySplitsEditor({ entry, knownLocations = [], onSave, onCancel }: CopySplitsEditorProps) {
+  const [splits, setSplits] = useState<QuantitySplit[]>(() => getSplits(entry).map(s => ({ ...s })));
+
+  const updateSplit = (index: number, changes: Partial<QuantitySplit>) => {
+    setSplits(prev => prev.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  };
+
+  const addSplit = () => {
+    setSplits(prev => [...prev, { ...defaultAttributes(), finish: 'normal', count: 1 }]);
+  };
+
+  const total = splits.reduce((sum, s) => sum + Math.max(0, s.count), 0);
+  const listId = `split-locations-${entry.cardId}`;
+
+  const handleSave = () => {
+    onSave(splits.map(({ location, ...split }) => {
+      const normalized = normalizeLocation(location);
+      return normalized && normalized !== entry.location ? { ...split, location: normalized } : split;
+    }));
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border space-y-3">
+      {splits.map((split, index) => (
+        <div key={index} className="space-y-2 p-2 rounded-md bg-muted/30">
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => updateSplit(index, { finish: split.finish === 'foil' ? 'normal' : 'foil' })}
+              className={cn(
+                "flex items-center gap-1 text-xs px-2 py-1 rounded-md border",
+                split.finish === 'foil' ? "border-primary text-primary" : "border-border text-muted-foreground"
+              )}
+            >
+              {split.finish === 'foil' ? <Sparkles className="w-3 h-3" /> : <CircleDot className="w-3 h-3" />}
+              {split.finish === 'foil' ? 'Foil' : 'Normal'}
+            </button>
+            <div className="flex items-center gap-1 ml-auto">
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                className="h-7 w-7"
+                onClick={() => updateSplit(index, { count: Math.max(0, split.count - 1) })}
+              >
+                <Minus className="w-3 h-3" />
+              </Button>
+              <span className="w-6 text-center font-mono text-sm">{split.count}</span>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                className="h-7 w-7"
+                onClick={() => updateSplit(index, { count: split.count + 1 })}
+              >
+                <Plus className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                onClick={() => setSplits(prev => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+          <CopyAttributesPicker
+            value={split}
+            onChange={(attrs) => updateSplit(index, attrs)}
+            compact
+          />
+          <div className="flex items-center gap-1.5">
+            <MapPin className="w-3 h-3 text-muted-foreground shrink-0" />
+            <Input
+              value={split.location ?? ''}
+              onChange={(e) => updateSplit(index, { location: e.target.value })}
+              placeholder={entry.location ? `${entry.location} (card location)` : 'Location'}
+              list={listId}
+              className="h-7 text-xs"
+            />
+          </div>
+        </div>
+      ))}
+
+      <datalist id={listId}>
+        {knownLocations.map((l) => <option key={l} value={l} />)}
+      </datalist>
+
+      <Button variant="outline" size="sm" className="w-full" onClick={addSplit}>
+        <Plus className="w-4 h-4" />
+        Add Copies
+      </Button>
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" className="flex-1" onClick={handleSave}>
+          Save ({total})
+        </Button>
+      </div>
+    </div>
+  );
+}
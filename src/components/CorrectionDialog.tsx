@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useCardDatabase } from '@/contexts/CardDatabaseContext';
 import { CardData } from '@/data/cardDatabase';
+import { formatCardName } from '@/utils/cardVariants';
 import { cn } from '@/lib/utils';
 
 interface CorrectionDialogProps {
@@ -102,7 +103,7 @@ export function CorrectionDialog({
                   />
                 </div>
                 <div className="flex-1 min-w-0">
-                  <p className="font-medium text-foreground truncate">{card.name}</p>
+                  <p className="font-medium text-foreground truncate">{formatCardName(card)}</p>
                   <p className="text-xs text-muted-foreground">
                     {card.cardId} • {card.setName}
                   </p>
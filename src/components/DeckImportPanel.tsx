@@ -0,0 +1,189 @@
+import { useState, useMemo } from 'react';
+import { ClipboardPaste, CheckCircle2, XCircle, HelpCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ListExportControls } from '@/components/ListExportControls';
+import { useCardDatabase } from '@/contexts/CardDatabaseContext';
+import { ExportSettings, NamedCollection } from '@/types/collection';
+import { DeckList } from '@/types/deck';
+import { mergeCollectionEntries } from '@/utils/collectionUtils';
+import { buildDeckList, parseDeckList } from '@/utils/deckListParser';
+import { computeDeckRequirements, shortfallToEntries } from '@/utils/deckUtils';
+import { formatCardName } from '@/utils/cardVariants';
+import { cn } from '@/lib/utils';
+
+interface DeckImportPanelProps {
+  collections: NamedCollection[];
+  exportSettings: ExportSettings;
+  onCreate: (name: string, list: DeckList) => void;
+}
+
+export function DeckImportPanel({ collections, exportSettings, onCreate }: DeckImportPanelProps) {
+  const { cards } = useCardDatabase();
+  const [content, setContent] = useState('');
+  const [name, setName] = useState('');
+  // Card chosen for each ambiguous line, by line number
+  const [picks, setPicks] = useState<Record<number, string>>({});
+
+  const parsed = useMemo(() => (content.trim() ? parseDeckList(content, cards) : null), [content, cards]);
+  const list = useMemo(() => (parsed ? buildDeckList(parsed.lines, picks) : null), [parsed, picks]);
+
+  // Owned/missing against every collection
+  const owned = useMemo(() => mergeCollectionEntries(collections.map(c => c.entries)), [collections]);
+  const requirements = useMemo(
+    () => (list ? computeDeckRequirements(list, cards, owned) : []),
+    [list, cards, owned]
+  );
+  const shortfall = useMemo(() => shortfallToEntries(requirements), [requirements]);
+
+  const lines = parsed?.lines ?? [];
+  const matched = lines.filter(l => l.status === 'matched').length;
+  const ambiguous = lines.filter(l => l.status === 'ambiguous');
+  const unpicked = ambiguous.filter(l => !picks[l.line]).length;
+  const unmatched = lines.filter(l => l.status === 'unmatched').length;
+  const required = requirements.reduce((sum, r) => sum + r.required, 0);
+  const missing = requirements.reduce((sum, r) => sum + r.missing, 0);
+
+  const handleContentChange = (value: string) => {
+    setContent(value);
+    setPicks({});
+  };
+
+  const handleCreate = () => {
+    if (!list) return;
+    onCreate(name, list);
+    setContent('');
+    setName('');
+    setPicks({});
+  };
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <ClipboardPaste className="w-4 h-4 text-primary" />
+        <h3 className="text-sm font-medium text-foreground">Import Deck List</h3>
+      </div>
+
+      <Textarea
+        value={content}
+        onChange={(e) => handleContentChange(e.target.value)}
+        placeholder={'Paste a deck list, e.g.\n3 Blazing Scorcher\n2x OGN-002\nFrost Warden x3\n\nSideboard:\n1 Shadow Stalker'}
+        className="font-mono text-xs min-h-32"
+      />
+
+      {parsed && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+            <span className="flex items-center gap-1 text-success">
+              <CheckCircle2 className="w-3.5 h-3.5" />
+              {matched} matched
+            </span>
+            {ambiguous.length > 0 && (
+              <span className={cn("flex items-center gap-1", unpicked > 0 ? "text-amber-500" : "text-muted-foreground")}>
+                <HelpCircle className="w-3.5 h-3.5" />
+                {unpicked} to pick
+              </span>
+            )}
+            <span className={cn("flex items-center gap-1", unmatched > 0 ? "text-destructive" : "text-muted-foreground")}>
+              <XCircle className="w-3.5 h-3.5" />
+              {unmatched} unmatched
+            </span>
+            {parsed.ignored.length > 0 && (
+              <span className="text-muted-foreground">{parsed.ignored.length} headers/comments</span>
+            )}
+          </div>
+
+          <div className="max-h-64 overflow-y-auto scrollbar-hide space-y-1">
+            {lines.map((line) => (
+              <div
+                key={line.line}
+                className={cn(
+                  "flex items-center gap-2 px-2 py-1 rounded text-xs",
+                  line.status === 'matched' && "bg-muted/30",
+                  line.status === 'ambiguous' && "bg-amber-500/10",
+                  line.status === 'unmatched' && "bg-destructive/10"
+                )}
+              >
+                <span className="w-8 font-mono text-muted-foreground shrink-0">{line.quantity}×</span>
+                {line.status === 'ambiguous' ? (
+                  <Select
+                    value={picks[line.line] ?? ''}
+                    onValueChange={(cardId) => setPicks(prev => ({ ...prev, [line.line]: cardId }))}
+                  >
+                    <SelectTrigger className="h-7 flex-1 min-w-0 text-xs">
+                      <SelectValue placeholder={`"${line.query}" - pick a card`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {line.candidates.map(({ card, score }) => (
+                        <SelectItem key={card.cardId} value={card.cardId}>
+                          {formatCardName(card)} ({card.cardId}) ~{Math.round(score * 100)}%
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <span className="flex-1 min-w-0 truncate">
+                    {line.card ? (
+                      <>
+                        {formatCardName(line.card)} <span className="text-muted-foreground font-mono">({line.card.cardId})</span>
+                      </>
+                    ) : (
+                      <span className="text-destructive">{line.query}</span>
+                    )}
+                  </span>
+                )}
+                {line.zone === 'sideboard' && (
+                  <span className="text-muted-foreground shrink-0">SB</span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* What to acquire */}
+          {required > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm">
+                <span className="text-muted-foreground">You own </span>
+                <span className="font-medium">{required - missing}</span>
+                <span className="text-muted-foreground"> of {required} cards. </span>
+                {missing > 0 ? (
+                  <span className="text-destructive font-medium">{missing} to acquire.</span>
+                ) : (
+                  <span className="text-success font-medium">Nothing to acquire.</span>
+                )}
+              </p>
+              {shortfall.length > 0 && (
+                <ListExportControls
+                  entries={shortfall}
+                  exportSettings={exportSettings}
+                  fileName="deck-shopping-list"
+                  itemLabel="cards to acquire"
+                />
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Deck name..."
+              className="h-9"
+            />
+            <Button variant="scanner" size="sm" className="h-9" onClick={handleCreate} disabled={required === 0}>
+              Create Deck
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { MapPin, Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CollectionEntry } from '@/types/collection';
+import { normalizeTags } from '@/utils/organization';
+
+interface EntryOrganizationEditorProps {
+  entry: CollectionEntry;
+  knownLocations: string[];
+  knownTags: string[];
+  onSave: (changes: Pick<CollectionEntry, 'location' | 'labels'>) => void;
+  onCancel: () => void;
+}
+
+export function EntryOrganizationEditor({ entry, knownLocations, knownTags, onSave, onCancel }: EntryOrganizationEditorProps) {
+  const [location, setLocation] = useState(entry.location ?? '');
+  const [tags, setTags] = useState<string[]>(entry.labels ?? []);
+  const [tagInput, setTagInput] = useState('');
+
+  const listId = `locations-${entry.cardId}`;
+  const tagListId = `tags-${entry.cardId}`;
+
+  const addTag = () => {
+    setTags(prev => normalizeTags([...prev, ...tagInput.split(',')]));
+    setTagInput('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag();
+    } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+      setTags(prev => prev.slice(0, -1));
+    }
+  };
+
+  // A tag still being typed is kept on save
+  const handleSave = () => {
+    onSave({ location, labels: normalizeTags([...tags, ...tagInput.split(',')]) });
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border space-y-3">
+      <div className="space-y-1.5">
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <MapPin className="w-3.5 h-3.5" />
+          Location
+        </label>
+        <Input
+          value={location}
+          onChange={(e) => setLocation(e.target.value)}
+          placeholder="e.g. Binder 2 p.14"
+          list={listId}
+          className="h-8 text-sm"
+        />
+        <datalist id={listId}>
+          {knownLocations.map((l) => <option key={l} value={l} />)}
+        </datalist>
+        {entry.splits?.some(s => s.location) && (
+          <p className="text-[10px] text-muted-foreground">
+            Copies with their own location stay where they are.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Tag className="w-3.5 h-3.5" />
+          Tags
+        </label>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map((tag) => (
+              <span key={tag} className="flex items-center gap-1 text-xs px-1.5 py-0.5 rounded bg-primary/15 text-primary">
+                {tag}
+                <button type="button" onClick={() => setTags(prev => prev.filter(t => t !== tag))}>
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <Input
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={handleTagKeyDown}
+          onBlur={() => tagInput.trim() && addTag()}
+          placeholder="Add a tag and press Enter"
+          list={tagListId}
+          className="h-8 text-sm"
+        />
+        <datalist id={tagListId}>
+          {knownTags.filter(t => !tags.includes(t)).map((t) => <option key={t} value={t} />)}
+        </datalist>
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" className="flex-1" onClick={handleSave}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,126 +1,170 @@
-import { useState } from 'react';
-import { Download, Copy, Check, FileText, Table, List, FileSpreadsheet, ScrollText } from 'lucide-react';
+import { useState, useMemo } from 'react';
+import { Download, Copy, Check, FileText, Table, List, FileSpreadsheet, ScrollText, Braces, SlidersHorizontal, Pencil, Trash2, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { CollectionEntry, ExportSettings } from '@/types/collection';
+import { Switch } from '@/components/ui/switch';
 import {
-  generateDotGGCSV,
-  generateCollectrCSV,
-  generateLegacyCSV,
-  generateSimpleTextCSV,
-  generateDeckListText,
-  downloadFile,
-  copyToClipboard,
-} from '@/utils/exportFormats';
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CollectionEntry, ExportOptionValues, ExportSettings, NamedCollection } from '@/types/collection';
+import { CustomExportTemplate, ExportFormatDefinition } from '@/types/export';
+import { downloadFile, copyToClipboard } from '@/utils/exportFormats';
+import { getExportFormats, resolveExportOptions } from '@/utils/exportRegistry';
+import { CUSTOM_FORMAT_PREFIX, createDefaultTemplate } from '@/utils/exportTemplates';
+import { mergeCollectionEntries } from '@/utils/collectionUtils';
+import { useExportTemplates } from '@/hooks/useExportTemplates';
+import { usePrices } from '@/contexts/PriceContext';
+import { ExportTemplateEditor } from '@/components/ExportTemplateEditor';
 import { toast } from 'sonner';
 
+// Special source value that merges every named collection
+const MERGED_SOURCE = '__merged__';
+
 interface ExportPanelProps {
-  collection: CollectionEntry[];
+  collections: NamedCollection[];
+  activeCollectionId: string;
   exportSettings: ExportSettings;
   onSettingsChange: (settings: ExportSettings) => void;
 }
 
-interface ExportOption {
-  id: string;
-  name: string;
-  description: string;
-  icon: typeof FileText;
-  generate: (collection: CollectionEntry[], settings: ExportSettings) => string;
-  filename: string;
-}
+const formatIcons: Record<string, typeof FileText> = {
+  dotgg: Table,
+  collectr: FileSpreadsheet,
+  legacy: FileText,
+  text: ScrollText,
+  deck: List,
+};
 
-const exportOptions: ExportOption[] = [
-  {
-    id: 'dotgg',
-    name: 'DotGG CSV',
-    description: 'CardId, Normal, Foil, Name, Set',
-    icon: Table,
-    generate: (c) => generateDotGGCSV(c),
-    filename: 'riftbound-dotgg.csv',
-  },
-  {
-    id: 'collectr',
-    name: 'Collectr CSV',
-    description: 'Portfolio format with variance rows',
-    icon: FileSpreadsheet,
-    generate: (c, s) => generateCollectrCSV(c, s),
-    filename: 'riftbound-collectr.csv',
-  },
-  {
-    id: 'legacy',
-    name: 'Legacy CSV',
-    description: 'Normal Count, Foil Count, Card ID',
-    icon: FileText,
-    generate: (c) => generateLegacyCSV(c),
-    filename: 'riftbound-legacy.csv',
-  },
-  {
-    id: 'text',
-    name: 'Simple Text CSV',
-    description: 'Plain comma-separated values',
-    icon: ScrollText,
-    generate: (c) => generateSimpleTextCSV(c),
-    filename: 'riftbound-simple.csv',
-  },
-  {
-    id: 'deck',
-    name: 'Deck List',
-    description: 'Total Card Name (ID) format',
-    icon: List,
-    generate: (c) => generateDeckListText(c),
-    filename: 'riftbound-decklist.txt',
-  },
-];
-
-export function ExportPanel({ collection, exportSettings, onSettingsChange }: ExportPanelProps) {
+export function ExportPanel({ collections, activeCollectionId, exportSettings, onSettingsChange }: ExportPanelProps) {
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [previewId, setPreviewId] = useState<string | null>(null);
   const [previewContent, setPreviewContent] = useState<string>('');
+  // Explicitly picked source; until then (or once it is deleted) the active collection is exported
+  const [pickedSourceId, setPickedSourceId] = useState<string | null>(null);
+  const [optionsOpenId, setOptionsOpenId] = useState<string | null>(null);
+  const [editingTemplate, setEditingTemplate] = useState<CustomExportTemplate | null>(null);
+  const { templates, templateFormats, saveTemplate, deleteTemplate } = useExportTemplates();
+  const { prices } = usePrices();
+
+  const formats = useMemo(() => [...getExportFormats(), ...templateFormats], [templateFormats]);
 
-  const handleCopy = async (option: ExportOption) => {
-    const content = option.generate(collection, exportSettings);
+  const sourceId = pickedSourceId === MERGED_SOURCE || collections.some(c => c.id === pickedSourceId)
+    ? pickedSourceId
+    : activeCollectionId;
+
+  // Entries for the selected source (single collection or a merge of all)
+  const collection = useMemo<CollectionEntry[]>(() => {
+    if (sourceId === MERGED_SOURCE) {
+      return mergeCollectionEntries(collections.map(c => c.entries));
+    }
+    return collections.find(c => c.id === sourceId)?.entries ?? [];
+  }, [collections, sourceId]);
+
+  const handleSourceChange = (value: string) => {
+    setPickedSourceId(value);
+    setPreviewId(null);
+    setPreviewContent('');
+  };
+
+  const sourceSelector = collections.length > 1 && (
+    <div className="glass-card p-4 space-y-2">
+      <h3 className="text-sm font-medium text-foreground">Export From</h3>
+      <Select value={sourceId} onValueChange={handleSourceChange}>
+        <SelectTrigger className="h-9">
+          <SelectValue placeholder="Select collection" />
+        </SelectTrigger>
+        <SelectContent>
+          {collections.map((c) => (
+            <SelectItem key={c.id} value={c.id}>
+              {c.name} ({c.entries.length})
+            </SelectItem>
+          ))}
+          <SelectItem value={MERGED_SOURCE}>All collections (merged)</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const getOptions = (format: ExportFormatDefinition) =>
+    resolveExportOptions(format, exportSettings.formatOptions?.[format.id]);
+
+  const setOption = (format: ExportFormatDefinition, key: string, value: string | boolean) => {
+    const current: ExportOptionValues = exportSettings.formatOptions?.[format.id] ?? {};
+    onSettingsChange({
+      ...exportSettings,
+      formatOptions: { ...exportSettings.formatOptions, [format.id]: { ...current, [key]: value } },
+    });
+  };
+
+  const generate = (format: ExportFormatDefinition) =>
+    format.generate(collection, { settings: exportSettings, options: getOptions(format), prices: prices.quotes });
+
+  const handleCopy = async (format: ExportFormatDefinition) => {
+    const content = generate(format);
     const success = await copyToClipboard(content);
     
     if (success) {
-      setCopiedId(option.id);
-      toast.success(`${option.name} copied to clipboard`);
+      setCopiedId(format.id);
+      toast.success(`${format.label} copied to clipboard`);
       setTimeout(() => setCopiedId(null), 2000);
     } else {
       toast.error('Failed to copy to clipboard');
     }
   };
 
-  const handleDownload = (option: ExportOption) => {
-    const content = option.generate(collection, exportSettings);
-    const mimeType = option.filename.endsWith('.csv') ? 'text/csv' : 'text/plain';
-    downloadFile(content, option.filename, mimeType);
-    toast.success(`${option.name} downloaded`);
+  const handleDownload = (format: ExportFormatDefinition) => {
+    downloadFile(generate(format), format.filename, format.mimeType);
+    toast.success(`${format.label} downloaded`);
   };
 
-  const handlePreview = (option: ExportOption) => {
-    if (previewId === option.id) {
+  const handlePreview = (format: ExportFormatDefinition) => {
+    if (previewId === format.id) {
       setPreviewId(null);
       setPreviewContent('');
     } else {
-      setPreviewId(option.id);
-      setPreviewContent(option.generate(collection, exportSettings));
+      setPreviewId(format.id);
+      setPreviewContent(generate(format));
     }
   };
 
+  const findTemplate = (format: ExportFormatDefinition) =>
+    templates.find(t => `${CUSTOM_FORMAT_PREFIX}${t.id}` === format.id);
+
+  const handleSaveTemplate = (template: CustomExportTemplate) => {
+    saveTemplate(template);
+    setEditingTemplate(null);
+    setPreviewId(null);
+    toast.success(`Saved template "${template.name}"`);
+  };
+
+  const handleDeleteTemplate = (template: CustomExportTemplate) => {
+    deleteTemplate(template.id);
+    toast.success(`Deleted template "${template.name}"`);
+  };
+
   if (collection.length === 0) {
     return (
-      <div className="text-center py-12 px-4">
-        <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
-          <Download className="w-8 h-8 text-muted-foreground" />
+      <div className="space-y-6">
+        {sourceSelector}
+        <div className="text-center py-12 px-4">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
+            <Download className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <p className="text-muted-foreground">No cards to export</p>
+          <p className="text-sm text-muted-foreground/70 mt-1">Add cards to your collection first</p>
         </div>
-        <p className="text-muted-foreground">No cards to export</p>
-        <p className="text-sm text-muted-foreground/70 mt-1">Add cards to your collection first</p>
       </div>
     );
   }
 
   return (
     <div className="space-y-6">
+      {sourceSelector}
+
       {/* Collectr Settings */}
       <div className="glass-card p-4 space-y-3">
         <h3 className="text-sm font-medium text-foreground">Collectr Settings</h3>
@@ -146,64 +190,157 @@ export function ExportPanel({ collection, exportSettings, onSettingsChange }: Ex
 
       {/* Export Options */}
       <div className="space-y-3">
-        {exportOptions.map((option) => (
-          <div key={option.id} className="glass-card overflow-hidden">
-            <div className="p-3">
-              <div className="flex items-center gap-3">
-                <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center shrink-0">
-                  <option.icon className="w-5 h-5 text-primary" />
+        {formats.map((format) => {
+          const Icon = formatIcons[format.id] ?? Braces;
+          const template = findTemplate(format);
+          const options = getOptions(format);
+
+          return (
+            <div key={format.id} className="glass-card overflow-hidden">
+              <div className="p-3">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center shrink-0">
+                    <Icon className="w-5 h-5 text-primary" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h4 className="font-medium text-foreground">{format.label}</h4>
+                    <p className="text-xs text-muted-foreground truncate">{format.description}</p>
+                  </div>
+                  {format.options.length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      className="text-muted-foreground shrink-0"
+                      onClick={() => setOptionsOpenId(optionsOpenId === format.id ? null : format.id)}
+                    >
+                      <SlidersHorizontal className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {template && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        className="text-muted-foreground shrink-0"
+                        onClick={() => setEditingTemplate(template)}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        className="text-muted-foreground hover:text-destructive shrink-0"
+                        onClick={() => handleDeleteTemplate(template)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
                 </div>
-                <div className="flex-1 min-w-0">
-                  <h4 className="font-medium text-foreground">{option.name}</h4>
-                  <p className="text-xs text-muted-foreground truncate">{option.description}</p>
+
+                {/* Format options */}
+                {optionsOpenId === format.id && (
+                  <div className="mt-3 space-y-2">
+                    {format.options.map((field) => (
+                      <div key={field.key} className="flex items-center justify-between gap-3">
+                        <label className="text-xs text-muted-foreground">{field.label}</label>
+                        {field.type === 'boolean' && (
+                          <Switch
+                            checked={options[field.key] === true}
+                            onCheckedChange={(checked) => setOption(format, field.key, checked)}
+                          />
+                        )}
+                        {field.type === 'text' && (
+                          <Input
+                            value={String(options[field.key] ?? '')}
+                            onChange={(e) => setOption(format, field.key, e.target.value)}
+                            className="h-8 max-w-48"
+                          />
+                        )}
+                        {field.type === 'select' && (
+                          <Select
+                            value={String(options[field.key])}
+                            onValueChange={(v) => setOption(format, field.key, v)}
+                          >
+                            <SelectTrigger className="h-8 max-w-48">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {field.choices.map((choice) => (
+                                <SelectItem key={choice.value} value={choice.value}>{choice.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex gap-2 mt-3">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => handlePreview(format)}
+                  >
+                    {previewId === format.id ? 'Hide' : 'Preview'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => handleCopy(format)}
+                  >
+                    {copiedId === format.id ? (
+                      <Check className="w-4 h-4 text-success" />
+                    ) : (
+                      <Copy className="w-4 h-4" />
+                    )}
+                    Copy
+                  </Button>
+                  <Button
+                    variant="default"
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => handleDownload(format)}
+                  >
+                    <Download className="w-4 h-4" />
+                    Download
+                  </Button>
                 </div>
               </div>
 
-              <div className="flex gap-2 mt-3">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="flex-1"
-                  onClick={() => handlePreview(option)}
-                >
-                  {previewId === option.id ? 'Hide' : 'Preview'}
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="flex-1"
-                  onClick={() => handleCopy(option)}
-                >
-                  {copiedId === option.id ? (
-                    <Check className="w-4 h-4 text-success" />
-                  ) : (
-                    <Copy className="w-4 h-4" />
-                  )}
-                  Copy
-                </Button>
-                <Button
-                  variant="default"
-                  size="sm"
-                  className="flex-1"
-                  onClick={() => handleDownload(option)}
-                >
-                  <Download className="w-4 h-4" />
-                  Download
-                </Button>
-              </div>
+              {/* Preview area */}
+              {previewId === format.id && (
+                <div className="border-t border-border bg-muted/30 p-3">
+                  <pre className="text-xs font-mono text-muted-foreground whitespace-pre-wrap break-all max-h-40 overflow-auto scrollbar-hide">
+                    {previewContent}
+                  </pre>
+                </div>
+              )}
             </div>
+          );
+        })}
 
-            {/* Preview area */}
-            {previewId === option.id && (
-              <div className="border-t border-border bg-muted/30 p-3">
-                <pre className="text-xs font-mono text-muted-foreground whitespace-pre-wrap break-all max-h-40 overflow-auto scrollbar-hide">
-                  {previewContent}
-                </pre>
-              </div>
-            )}
-          </div>
-        ))}
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => setEditingTemplate(createDefaultTemplate('Custom Template'))}
+        >
+          <Plus className="w-4 h-4" />
+          New Custom Template
+        </Button>
       </div>
+
+      {editingTemplate && (
+        <ExportTemplateEditor
+          template={editingTemplate}
+          sample={collection}
+          onSave={handleSaveTemplate}
+          onCancel={() => setEditingTemplate(null)}
+        />
+      )}
     </div>
   );
 }
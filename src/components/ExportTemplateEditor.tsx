@@ -0,0 +1,206 @@
+import { useState, useMemo } from 'react';
+import { X, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CollectionEntry } from '@/types/collection';
+import { CustomExportTemplate, TemplateColumn, TemplateField } from '@/types/export';
+import { generateFromTemplate, templateFieldLabels } from '@/utils/exportTemplates';
+import { usePrices } from '@/contexts/PriceContext';
+import { cn } from '@/lib/utils';
+
+interface ExportTemplateEditorProps {
+  template: CustomExportTemplate;
+  sample: CollectionEntry[];
+  onSave: (template: CustomExportTemplate) => void;
+  onCancel: () => void;
+}
+
+export function ExportTemplateEditor({ template, sample, onSave, onCancel }: ExportTemplateEditorProps) {
+  const [draft, setDraft] = useState<CustomExportTemplate>(template);
+  const { prices } = usePrices();
+
+  const preview = useMemo(
+    () => generateFromTemplate(sample.slice(0, 5), draft, {}, prices.quotes),
+    [sample, draft, prices.quotes]
+  );
+
+  const updateColumn = (index: number, changes: Partial<TemplateColumn>) => {
+    setDraft(prev => ({
+      ...prev,
+      columns: prev.columns.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    }));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setDraft(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.columns.length) return prev;
+      const columns = [...prev.columns];
+      [columns[index], columns[target]] = [columns[target], columns[index]];
+      return { ...prev, columns };
+    });
+  };
+
+  const removeColumn = (index: number) => {
+    setDraft(prev => ({ ...prev, columns: prev.columns.filter((_, i) => i !== index) }));
+  };
+
+  const addColumn = () => {
+    setDraft(prev => ({ ...prev, columns: [...prev.columns, { header: '', field: 'name' }] }));
+  };
+
+  const canSave = draft.name.trim().length > 0 && draft.columns.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center sm:p-4 bg-background/80 backdrop-blur-sm animate-in">
+      <div className="w-full sm:max-w-lg bg-card border border-border rounded-t-xl sm:rounded-xl shadow-lg max-h-[90vh] flex flex-col animate-in">
+        {/* Header */}
+        <div className="p-4 border-b border-border flex items-center justify-between">
+          <h3 className="font-semibold text-lg text-foreground">Export Template</h3>
+          <Button variant="ghost" size="icon-sm" onClick={onCancel}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className="text-xs text-muted-foreground mb-1 block">Name</label>
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="My Site CSV"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">File Type</label>
+              <Select
+                value={draft.extension}
+                onValueChange={(v) => setDraft({ ...draft, extension: v as CustomExportTemplate['extension'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">.csv</SelectItem>
+                  <SelectItem value="txt">.txt</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Variant handling */}
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Variants</label>
+            <div className="flex gap-2">
+              <Button
+                variant={draft.variantMode === 'columns' ? 'default' : 'outline'}
+                size="sm"
+                className="flex-1"
+                onClick={() => setDraft({ ...draft, variantMode: 'columns' })}
+              >
+                Normal/Foil columns
+              </Button>
+              <Button
+                variant={draft.variantMode === 'rows' ? 'default' : 'outline'}
+                size="sm"
+                className="flex-1"
+                onClick={() => setDraft({ ...draft, variantMode: 'rows' })}
+              >
+                One row per variant
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-foreground">Include header row</span>
+            <Switch
+              checked={draft.includeHeader}
+              onCheckedChange={(checked) => setDraft({ ...draft, includeHeader: checked })}
+            />
+          </div>
+
+          {/* Columns */}
+          <div className="space-y-2">
+            <label className="text-xs text-muted-foreground block">Columns</label>
+            {draft.columns.map((column, index) => (
+              <div key={index} className="flex items-center gap-1.5">
+                <Input
+                  value={column.header}
+                  onChange={(e) => updateColumn(index, { header: e.target.value })}
+                  placeholder="Header"
+                  className="h-9 flex-1 min-w-0"
+                />
+                <Select
+                  value={column.field}
+                  onValueChange={(v) => updateColumn(index, { field: v as TemplateField })}
+                >
+                  <SelectTrigger className="h-9 flex-1 min-w-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(templateFieldLabels) as TemplateField[]).map((field) => (
+                      <SelectItem key={field} value={field}>{templateFieldLabels[field]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {column.field === 'constant' && (
+                  <Input
+                    value={column.value ?? ''}
+                    onChange={(e) => updateColumn(index, { value: e.target.value })}
+                    placeholder="Value"
+                    className="h-9 w-20"
+                  />
+                )}
+                <Button variant="ghost" size="icon-sm" className="h-7 w-7" onClick={() => moveColumn(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="icon-sm" className="h-7 w-7" onClick={() => moveColumn(index, 1)} disabled={index === draft.columns.length - 1}>
+                  <ArrowDown className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="icon-sm" className="h-7 w-7 text-muted-foreground hover:text-destructive" onClick={() => removeColumn(index)}>
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" className="w-full" onClick={addColumn}>
+              <Plus className="w-4 h-4" />
+              Add Column
+            </Button>
+          </div>
+
+          {/* Live preview */}
+          {sample.length > 0 && (
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">Preview</label>
+              <pre className={cn(
+                "text-xs font-mono text-muted-foreground whitespace-pre-wrap break-all",
+                "max-h-32 overflow-auto scrollbar-hide bg-muted/30 rounded-md p-2"
+              )}>
+                {preview}
+              </pre>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="p-4 border-t border-border flex gap-3">
+          <Button variant="outline" className="flex-1" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="scanner" className="flex-1" onClick={() => onSave(draft)} disabled={!canSave}>
+            Save Template
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState, useMemo, useRef } from 'react';
+import { Upload, FileUp, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BuiltInExportFormat, CollectionEntry } from '@/types/collection';
+import { useCardDatabase } from '@/contexts/CardDatabaseContext';
+import { getExportFormat } from '@/utils/exportRegistry';
+import {
+  parseImport,
+  detectImportFormat,
+  matchImportedRows,
+  buildImportEntries,
+} from '@/utils/importFormats';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface ImportPanelProps {
+  targetName: string;
+  onImport: (entries: CollectionEntry[], mode: 'merge' | 'replace') => void;
+}
+
+const AUTO_DETECT = 'auto';
+
+// Formats that have an import parser
+const importableFormats: BuiltInExportFormat[] = ['dotgg', 'collectr', 'legacy', 'text', 'deck'];
+
+const formatLabel = (format: BuiltInExportFormat) => getExportFormat(format)?.label ?? format;
+
+export function ImportPanel({ targetName, onImport }: ImportPanelProps) {
+  const { cards } = useCardDatabase();
+  const [content, setContent] = useState('');
+  const [formatChoice, setFormatChoice] = useState<string>(AUTO_DETECT);
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const detectedFormat = useMemo(() => detectImportFormat(content), [content]);
+
+  const parsed = useMemo(() => {
+    if (!content.trim()) return null;
+    const format = formatChoice === AUTO_DETECT ? undefined : (formatChoice as BuiltInExportFormat);
+    return parseImport(content, format);
+  }, [content, formatChoice]);
+
+  const preview = useMemo(
+    () => (parsed ? matchImportedRows(parsed.rows, cards) : []),
+    [parsed, cards]
+  );
+
+  const entries = useMemo(() => buildImportEntries(preview), [preview]);
+  const matched = preview.filter(p => p.card);
+  const unmatched = preview.filter(p => !p.card);
+  const fuzzyCount = matched.filter(p => p.matchedBy === 'fuzzy').length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setContent(await file.text());
+    e.target.value = '';
+  };
+
+  const handleImport = () => {
+    if (entries.length === 0) return;
+    onImport(entries, mode);
+    const total = entries.reduce((sum, e) => sum + e.normalCount + e.foilCount, 0);
+    toast.success(`Imported ${total} cards into ${targetName}`);
+    setContent('');
+  };
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Upload className="w-4 h-4 text-primary" />
+        <h3 className="text-sm font-medium text-foreground">Import into {targetName}</h3>
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+          <FileUp className="w-4 h-4" />
+          Choose File
+        </Button>
+        <Select value={formatChoice} onValueChange={setFormatChoice}>
+          <SelectTrigger className="h-9 flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={AUTO_DETECT}>
+              Auto-detect{detectedFormat ? ` (${formatLabel(detectedFormat)})` : ''}
+            </SelectItem>
+            {importableFormats.map((f) => (
+              <SelectItem key={f} value={f}>{formatLabel(f)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.txt,text/csv,text/plain"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder="Or paste exported CSV / deck list here..."
+        className="font-mono text-xs min-h-24"
+      />
+
+      {content.trim() && !parsed && (
+        <p className="text-xs text-amber-500 flex items-center gap-1.5">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          Could not detect the format. Pick one from the list.
+        </p>
+      )}
+
+      {parsed && (
+        <div className="space-y-3">
+          <div className="flex gap-4 text-xs">
+            <span className="flex items-center gap-1 text-success">
+              <CheckCircle2 className="w-3.5 h-3.5" />
+              {matched.length} matched
+            </span>
+            <span className={cn("flex items-center gap-1", unmatched.length > 0 ? "text-destructive" : "text-muted-foreground")}>
+              <XCircle className="w-3.5 h-3.5" />
+              {unmatched.length} unmatched
+            </span>
+            {fuzzyCount > 0 && (
+              <span className="text-amber-500">{fuzzyCount} fuzzy</span>
+            )}
+            {parsed.errors.length > 0 && (
+              <span className="text-muted-foreground">{parsed.errors.length} skipped</span>
+            )}
+          </div>
+
+          {preview.length > 0 && (
+            <div className="max-h-48 overflow-y-auto scrollbar-hide space-y-1">
+              {preview.map(({ row, card, matchedBy, score }) => (
+                <div
+                  key={row.line}
+                  className={cn(
+                    "flex items-center gap-2 px-2 py-1 rounded text-xs",
+                    card ? "bg-muted/30" : "bg-destructive/10"
+                  )}
+                >
+                  <span className="w-8 text-muted-foreground font-mono shrink-0">{row.line}</span>
+                  <span className="flex-1 min-w-0 truncate">
+                    {card ? (
+                      <>
+                        {card.name} <span className="text-muted-foreground font-mono">({card.cardId})</span>
+                      </>
+                    ) : (
+                      <span className="text-destructive">{row.name || row.cardId || row.raw}</span>
+                    )}
+                  </span>
+                  {matchedBy === 'fuzzy' && (
+                    <span className="text-amber-500 shrink-0">~{Math.round(score * 100)}%</span>
+                  )}
+                  <span className="font-mono shrink-0">
+                    {row.normalCount}/{row.foilCount}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {parsed.errors.length > 0 && (
+            <div className="space-y-0.5">
+              {parsed.errors.slice(0, 5).map((err) => (
+                <p key={err.line} className="text-xs text-muted-foreground truncate">
+                  Line {err.line}: {err.message}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant={mode === 'merge' ? 'default' : 'outline'}
+              size="sm"
+              className="flex-1"
+              onClick={() => setMode('merge')}
+            >
+              Merge
+            </Button>
+            <Button
+              variant={mode === 'replace' ? 'destructive' : 'outline'}
+              size="sm"
+              className="flex-1"
+              onClick={() => setMode('replace')}
+            >
+              Replace
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {mode === 'merge'
+              ? 'Imported counts are added to the existing collection.'
+              : 'The collection is replaced with the imported cards.'}
+          </p>
+
+          <Button
+            variant="scanner"
+            className="w-full"
+            onClick={handleImport}
+            disabled={entries.length === 0}
+          >
+            Import {entries.length} {entries.length === 1 ? 'card' : 'cards'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
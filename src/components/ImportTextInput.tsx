@@ -0,0 +1,65 @@
+import { useRef } from 'react';
+import { FileUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ImportedList } from '@/utils/importFormats';
+
+interface ImportTextInputProps {
+  label: string;
+  content: string;
+  onChange: (content: string) => void;
+  loaded: ImportedList | null;  // Result of importFromText(content)
+  placeholder?: string;
+}
+
+// File picker / paste box for an exported list that is read without importing it
+export function ImportTextInput({
+  label,
+  content,
+  onChange,
+  loaded,
+  placeholder = 'Or paste an export here...',
+}: ImportTextInputProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    onChange(await file.text());
+    e.target.value = '';
+  };
+
+  const cardCount = loaded?.entries.reduce((sum, e) => sum + e.normalCount + e.foilCount, 0) ?? 0;
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-medium text-foreground flex-1">{label}</span>
+        <Button variant="outline" size="sm" className="h-7" onClick={() => fileInputRef.current?.click()}>
+          <FileUp className="w-3.5 h-3.5" />
+          Choose File
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.txt,text/csv,text/plain"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+      <Textarea
+        value={content}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className="font-mono text-xs min-h-16"
+      />
+      {loaded && (
+        <p className={loaded.detected ? 'text-xs text-muted-foreground' : 'text-xs text-amber-500'}>
+          {loaded.detected
+            ? `${cardCount} cards loaded${loaded.unmatched > 0 ? `, ${loaded.unmatched} lines unmatched` : ''}`
+            : 'Could not detect the format'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState, useMemo } from 'react';
+import { Copy, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CollectionEntry, ExportSettings } from '@/types/collection';
+import { useExportTemplates } from '@/hooks/useExportTemplates';
+import { usePrices } from '@/contexts/PriceContext';
+import { getExportFormats, resolveExportOptions } from '@/utils/exportRegistry';
+import { copyToClipboard, downloadFile } from '@/utils/exportFormats';
+import { toast } from 'sonner';
+
+interface ListExportControlsProps {
+  entries: CollectionEntry[];
+  exportSettings: ExportSettings;
+  fileName: string;      // Without extension, e.g. "missing-origins"
+  itemLabel: string;     // Used in toasts, e.g. "missing cards"
+}
+
+// Copy or save a card list (missing cards, deck shortfall) in any export format or template
+export function ListExportControls({ entries, exportSettings, fileName, itemLabel }: ListExportControlsProps) {
+  const { templateFormats } = useExportTemplates();
+  const { prices } = usePrices();
+  const [formatId, setFormatId] = useState<string>('text');
+
+  const formats = useMemo(() => [...getExportFormats(), ...templateFormats], [templateFormats]);
+
+  const generate = () => {
+    const format = formats.find(f => f.id === formatId);
+    if (!format) return null;
+    const content = format.generate(entries, {
+      settings: exportSettings,
+      options: resolveExportOptions(format, exportSettings.formatOptions?.[format.id]),
+      prices: prices.quotes,
+    });
+    return { format, content };
+  };
+
+  const handleCopy = async () => {
+    const result = generate();
+    if (!result) return;
+    if (await copyToClipboard(result.content)) {
+      toast.success(`Copied ${entries.length} ${itemLabel} as ${result.format.label}`);
+    } else {
+      toast.error('Failed to copy to clipboard');
+    }
+  };
+
+  const handleDownload = () => {
+    const result = generate();
+    if (!result) return;
+    downloadFile(result.content, `${fileName}.${result.format.extension}`, result.format.mimeType);
+    toast.success(`Downloaded ${entries.length} ${itemLabel}`);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select value={formatId} onValueChange={setFormatId}>
+        <SelectTrigger className="h-9 flex-1">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {formats.map((f) => (
+            <SelectItem key={f.id} value={f.id}>{f.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="sm" className="h-9" onClick={handleCopy} disabled={entries.length === 0}>
+        <Copy className="w-4 h-4" />
+        Copy
+      </Button>
+      <Button variant="default" size="sm" className="h-9" onClick={handleDownload} disabled={entries.length === 0}>
+        <Download className="w-4 h-4" />
+        Save
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useMemo, useRef } from 'react';
+import { ImagePlus, Loader2, Trash2, X, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { ReviewRow } from '@/components/ScanReviewPanel';
+import { CardData } from '@/data/cardDatabase';
+import { PhotoImportItem } from '@/types/photoImport';
+import { ReviewItem } from '@/types/scanReview';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+type ResultChanges = Partial<Pick<ReviewItem, 'cardId' | 'normalCount' | 'foilCount'>>;
+
+interface PhotoImportPanelProps {
+  items: PhotoImportItem[];
+  cards: CardData[];
+  collectionName: string;
+  isIndexReady: boolean;
+  pendingCount: number;
+  onAddFiles: (files: File[]) => number;
+  onUpdateResult: (id: string, changes: ResultChanges) => void;
+  onSetAccepted: (id: string, accepted: boolean) => void;
+  onSetAllAccepted: (accepted: boolean) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onCommit: () => void;
+}
+
+const CONFIDENCE_CLASSES: Record<NonNullable<PhotoImportItem['confidence']>, string> = {
+  excellent: 'bg-green-500/15 text-green-500',
+  good: 'bg-green-500/15 text-green-500',
+  fair: 'bg-yellow-500/15 text-yellow-500',
+  low: 'bg-destructive/15 text-destructive',
+};
+
+export function PhotoImportPanel({
+  items,
+  cards,
+  collectionName,
+  isIndexReady,
+  pendingCount,
+  onAddFiles,
+  onUpdateResult,
+  onSetAccepted,
+  onSetAllAccepted,
+  onRemove,
+  onClear,
+  onCommit,
+}: PhotoImportPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cardsById = useMemo(() => new Map(cards.map(c => [c.cardId, c])), [cards]);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const added = onAddFiles(files);
+    if (added < files.length) {
+      toast.error(`Skipped ${files.length - added} ${files.length - added === 1 ? 'file that is' : 'files that are'} not an image`);
+    }
+  };
+
+  const identified = items.filter(item => item.result);
+  const accepted = identified.filter(item => item.accepted);
+  const copies = accepted.reduce((sum, item) => sum + item.result!.normalCount + item.result!.foilCount, 0);
+  const distinct = new Set(accepted.filter(item => item.result!.normalCount + item.result!.foilCount > 0).map(item => item.result!.cardId)).size;
+  const done = items.length - pendingCount;
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <ImagePlus className="w-4 h-4 text-primary" />
+        <h3 className="text-sm font-medium text-foreground flex-1">
+          Identify From Photos{items.length > 0 && ` (${items.length})`}
+        </h3>
+        {items.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            <Trash2 className="w-4 h-4" />
+            Clear
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <ImagePlus className="w-4 h-4" />
+          Choose Photos
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={handleFiles}
+        />
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-xs text-muted-foreground text-center py-3">
+          Pick photos of single cards. Each one is identified like a scan; check the results, then add the ones you accept.
+        </p>
+      ) : (
+        <>
+          {pendingCount > 0 && (
+            <div className="space-y-1">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                {isIndexReady
+                  ? `Identifying photo ${done + 1} of ${items.length}…`
+                  : 'Waiting for card embeddings to load…'}
+              </div>
+              <Progress value={(done / items.length) * 100} className="h-1" />
+            </div>
+          )}
+
+          {identified.length > 0 && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span className="flex-1">{accepted.length} of {identified.length} accepted</span>
+              <Button variant="ghost" size="sm" className="h-7" onClick={() => onSetAllAccepted(true)}>
+                Accept all
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7" onClick={() => onSetAllAccepted(false)}>
+                Accept none
+              </Button>
+            </div>
+          )}
+
+          <div className="max-h-[36rem] overflow-y-auto grid gap-2 sm:grid-cols-2 pr-1">
+            {items.map(item => {
+              if (!item.result) {
+                return (
+                  <div key={item.id} className="p-2 rounded-lg bg-muted/30 flex items-center gap-2 text-xs">
+                    {item.status === 'failed' ? (
+                      <AlertTriangle className="w-4 h-4 text-destructive shrink-0" />
+                    ) : (
+                      <Loader2 className={cn('w-4 h-4 text-muted-foreground shrink-0', item.status === 'processing' && 'animate-spin')} />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-foreground truncate">{item.fileName}</p>
+                      <p className="text-muted-foreground">
+                        {item.status === 'failed' ? item.message : item.status === 'processing' ? 'Identifying…' : 'Queued'}
+                      </p>
+                    </div>
+                    {item.status !== 'processing' && (
+                      <Button variant="ghost" size="icon-sm" onClick={() => onRemove(item.id)} title="Remove photo">
+                        <X className="w-3.5 h-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                );
+              }
+
+              return (
+                <div
+                  key={item.id}
+                  className={cn('rounded-lg border space-y-1 p-1', item.accepted ? 'border-primary/40' : 'border-transparent')}
+                >
+                  <div className="flex items-center gap-2 px-1 text-xs">
+                    <label className="flex items-center gap-1.5 text-foreground">
+                      <Checkbox
+                        checked={item.accepted}
+                        onCheckedChange={(checked) => onSetAccepted(item.id, checked === true)}
+                      />
+                      Accept
+                    </label>
+                    {item.confidence && (
+                      <span className={cn('px-1.5 py-0.5 rounded capitalize', CONFIDENCE_CLASSES[item.confidence])}>
+                        {item.confidence}
+                      </span>
+                    )}
+                    <span className="text-muted-foreground truncate flex-1" title={item.message}>
+                      {item.fileName}
+                    </span>
+                  </div>
+                  {item.cardDetected === false && (
+                    <p className="px-1 text-xs text-amber-500">No card edges found; the photo was center-cropped.</p>
+                  )}
+                  <ReviewRow
+                    item={item.result}
+                    cards={cards}
+                    cardsById={cardsById}
+                    onChange={(changes) => onUpdateResult(item.id, changes)}
+                    onRemove={() => onRemove(item.id)}
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          {identified.length > 0 && (
+            <Button variant="scanner" className="w-full" disabled={copies === 0} onClick={onCommit}>
+              Add {copies} {copies === 1 ? 'card' : 'cards'} ({distinct} unique) to {collectionName}
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { Copy, Download, MapPin, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { PickListItem, UNASSIGNED_LOCATION_LABEL, formatPickList } from '@/utils/organization';
+import { copyToClipboard, downloadFile } from '@/utils/exportFormats';
+import { formatCardName } from '@/utils/cardVariants';
+import { toast } from 'sonner';
+
+interface PickListProps {
+  items: PickListItem[];
+  title: string;         // First line of the exported text, e.g. "Pick list: Aggro Jinx"
+  fileName: string;      // Without extension
+}
+
+// Where to pull each card from, grouped by location, with text copy/save
+export function PickList({ items, title, fileName }: PickListProps) {
+  const handleCopy = async () => {
+    if (await copyToClipboard(formatPickList(items, title))) {
+      toast.success('Pick list copied to clipboard');
+    } else {
+      toast.error('Failed to copy to clipboard');
+    }
+  };
+
+  const handleDownload = () => {
+    downloadFile(formatPickList(items, title), `${fileName}.txt`, 'text/plain');
+    toast.success('Pick list downloaded');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1 max-h-60 overflow-y-auto scrollbar-hide">
+        {items.map((item, index) => {
+          const location = item.location ?? UNASSIGNED_LOCATION_LABEL;
+          const showLocation = index === 0 || (items[index - 1].location ?? UNASSIGNED_LOCATION_LABEL) !== location;
+          return (
+            <div key={`${location}-${item.card.cardId}-${item.finish}`}>
+              {showLocation && (
+                <p className="flex items-center gap-1 text-xs font-medium text-muted-foreground pt-1">
+                  <MapPin className="w-3 h-3" />
+                  {location}
+                </p>
+              )}
+              <div className="flex items-center gap-2 px-2 py-1 rounded bg-muted/30 text-xs">
+                <span className="w-8 font-mono text-muted-foreground shrink-0">{item.count}×</span>
+                <span className="flex-1 min-w-0 truncate text-foreground">{formatCardName(item.card)}</span>
+                {item.finish === 'foil' && <Sparkles className="w-3.5 h-3.5 text-primary shrink-0" />}
+                <span className="font-mono text-muted-foreground shrink-0">{item.card.cardId}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={handleCopy} disabled={items.length === 0}>
+          <Copy className="w-4 h-4" />
+          Copy Pick List
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1" onClick={handleDownload} disabled={items.length === 0}>
+          <Download className="w-4 h-4" />
+          Save .txt
+        </Button>
+      </div>
+    </div>
+  );
+}
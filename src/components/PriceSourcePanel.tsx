@@ -0,0 +1,76 @@
+import { useRef } from 'react';
+import { format } from 'date-fns';
+import { Coins, FileUp, RefreshCw, Trash2, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { usePrices } from '@/contexts/PriceContext';
+import { toast } from 'sonner';
+
+export function PriceSourcePanel() {
+  const { prices, priceFile, isLoading, error, refreshPrices, loadPriceFile, clearPrices } = usePrices();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const quoteCount = Object.keys(prices.quotes).length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    await loadPriceFile(file.name, await file.text());
+    e.target.value = '';
+  };
+
+  const handleClear = () => {
+    clearPrices();
+    toast.success('Prices cleared');
+  };
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Coins className="w-4 h-4 text-primary" />
+        <h3 className="text-sm font-medium text-foreground flex-1">Price File</h3>
+        <span className="text-xs text-muted-foreground">{quoteCount} prices</span>
+      </div>
+
+      {priceFile ? (
+        <p className="text-xs text-muted-foreground">
+          From <span className="font-medium text-foreground">{priceFile.name}</span>
+          {prices.refreshedAt && <> • updated {format(new Date(prices.refreshedAt), 'PPp')}</>}
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Import a JSON or CSV price file (card ID with Normal and/or Foil prices) to value your collection offline.
+        </p>
+      )}
+
+      {error && (
+        <p className="text-xs text-destructive flex items-center gap-1.5">
+          <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()} disabled={isLoading}>
+          <FileUp className="w-4 h-4" />
+          Import Price File
+        </Button>
+        {priceFile && (
+          <Button variant="outline" size="sm" onClick={() => refreshPrices()} disabled={isLoading}>
+            <RefreshCw className={isLoading ? 'w-4 h-4 animate-spin' : 'w-4 h-4'} />
+          </Button>
+        )}
+        {quoteCount > 0 && (
+          <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={handleClear}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+    </div>
+  );
+}
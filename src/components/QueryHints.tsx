@@ -0,0 +1,45 @@
+import { AlertTriangle } from 'lucide-react';
+import { QueryError } from '@/types/query';
+import { QueryHint, applyQueryHint } from '@/utils/cardQuery';
+
+interface QueryHintsProps {
+  input: string;
+  hints: QueryHint[];
+  errors: QueryError[];
+  onApply: (input: string) => void;
+}
+
+// Completions for the query term being typed, and problems with finished terms
+export function QueryHints({ input, hints, errors, onApply }: QueryHintsProps) {
+  // The term still being typed isn't an error yet
+  const shown = errors.filter(e => !input.endsWith(e.raw));
+  if (hints.length === 0 && shown.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      {hints.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {hints.map((hint) => (
+            <button
+              key={hint.insert}
+              type="button"
+              // Keep focus in the input
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onApply(applyQueryHint(input, hint))}
+              title={hint.description}
+              className="text-xs font-mono px-1.5 py-0.5 rounded bg-muted text-muted-foreground hover:text-foreground hover:bg-muted/70 transition-colors"
+            >
+              {hint.label}
+            </button>
+          ))}
+        </div>
+      )}
+      {shown.map((error) => (
+        <p key={error.raw} className="text-xs text-amber-500 flex items-center gap-1.5">
+          <AlertTriangle className="w-3 h-3 shrink-0" />
+          <span className="font-mono">{error.raw}</span>: {error.message}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ClipboardCheck, ImageOff, Search, Trash2, X, History, ChevronDown, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { CardSearch } from '@/components/CardSearch';
+import { VariantBadge } from '@/components/VariantBadge';
+import { CardData } from '@/data/cardDatabase';
+import { ReviewItem, ScanReviewSummary } from '@/types/scanReview';
+import { formatCardName, getPrintings, getVariant, getVariantLabel } from '@/utils/cardVariants';
+import { SIMILARITY_THRESHOLDS } from '@/utils/embeddingConfig';
+import { cn } from '@/lib/utils';
+
+type ItemChanges = Partial<Pick<ReviewItem, 'cardId' | 'normalCount' | 'foilCount'>>;
+
+interface ScanReviewPanelProps {
+  items: ReviewItem[];
+  summaries: ScanReviewSummary[];
+  cards: CardData[];
+  collectionName: string;
+  onUpdateItem: (id: string, changes: ItemChanges) => void;
+  onRemoveItem: (id: string) => void;
+  onDiscard: () => void;
+  onCommit: () => void;
+  onDeleteSummary: (id: string) => void;
+}
+
+function scoreClass(score: number): string {
+  if (score >= SIMILARITY_THRESHOLDS.GOOD) return 'text-green-500';
+  if (score >= SIMILARITY_THRESHOLDS.FAIR) return 'text-yellow-500';
+  return 'text-destructive';
+}
+
+function parseCount(value: string): number {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+interface ReviewRowProps {
+  item: ReviewItem;
+  cards: CardData[];
+  cardsById: Map<string, CardData>;
+  onChange: (changes: ItemChanges) => void;
+  onRemove: () => void;
+}
+
+export function ReviewRow({ item, cards, cardsById, onChange, onRemove }: ReviewRowProps) {
+  const [isSearching, setIsSearching] = useState(false);
+  const card = cardsById.get(item.cardId);
+  const detected = cardsById.get(item.detectedCardId);
+  const printings = card ? getPrintings(card, cards) : [];
+  const alternatives = item.candidates.filter(c => c.cardId !== item.cardId).slice(0, 3);
+  const copies = item.normalCount + item.foilCount;
+
+  return (
+    <div className={cn('p-2 rounded-lg bg-muted/30 space-y-2', copies === 0 && 'opacity-60')}>
+      <div className="flex gap-3">
+        <div className="w-12 h-16 rounded bg-muted overflow-hidden shrink-0 flex items-center justify-center">
+          {item.thumbnail ? (
+            <img src={item.thumbnail} alt="Scanned card" className="w-full h-full object-cover" />
+          ) : (
+            <ImageOff className="w-4 h-4 text-muted-foreground" />
+          )}
+        </div>
+
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-center gap-1.5 min-w-0">
+            <span className="text-sm font-medium text-foreground truncate">
+              {card ? formatCardName(card) : item.cardId}
+            </span>
+            {card && <VariantBadge card={card} />}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {item.cardId}
+            {item.score !== undefined && (
+              <> • <span className={scoreClass(item.score)}>{(item.score * 100).toFixed(0)}% match</span></>
+            )}
+            {item.cardId !== item.detectedCardId && (
+              <> • scanned as {detected ? formatCardName(detected) : item.detectedCardId}</>
+            )}
+            {item.source === 'correction' && <> • corrected while scanning</>}
+          </p>
+
+          {alternatives.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {alternatives.map(candidate => {
+                const alternative = cardsById.get(candidate.cardId);
+                return (
+                  <button
+                    key={candidate.cardId}
+                    onClick={() => onChange({ cardId: candidate.cardId })}
+                    className="text-xs px-2 py-0.5 rounded bg-primary/10 hover:bg-primary/20 text-foreground"
+                    title="Use this card instead"
+                  >
+                    {alternative ? formatCardName(alternative) : candidate.cardId}{' '}
+                    <span className={scoreClass(candidate.score)}>{(candidate.score * 100).toFixed(0)}%</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <Button variant="ghost" size="icon-sm" onClick={onRemove} title="Remove scan">
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+          Normal
+          <Input
+            type="number"
+            min={0}
+            value={item.normalCount}
+            onChange={(e) => onChange({ normalCount: parseCount(e.target.value) })}
+            className="h-7 w-14 text-sm"
+          />
+        </label>
+        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+          Foil
+          <Input
+            type="number"
+            min={0}
+            value={item.foilCount}
+            onChange={(e) => onChange({ foilCount: parseCount(e.target.value) })}
+            className="h-7 w-14 text-sm"
+          />
+        </label>
+        {printings.length > 1 && (
+          <Select value={item.cardId} onValueChange={(cardId) => onChange({ cardId })}>
+            <SelectTrigger className="h-7 w-auto text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {printings.map(printing => (
+                <SelectItem key={printing.cardId} value={printing.cardId}>
+                  {getVariantLabel(getVariant(printing))}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Button variant="ghost" size="sm" className="h-7 ml-auto" onClick={() => setIsSearching(!isSearching)}>
+          <Search className="w-3.5 h-3.5" />
+          Wrong card?
+        </Button>
+      </div>
+
+      {isSearching && (
+        <CardSearch
+          autoFocus
+          onCardSelect={(picked) => {
+            onChange({ cardId: picked.cardId });
+            setIsSearching(false);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+export function ScanReviewPanel({
+  items,
+  summaries,
+  cards,
+  collectionName,
+  onUpdateItem,
+  onRemoveItem,
+  onDiscard,
+  onCommit,
+  onDeleteSummary,
+}: ScanReviewPanelProps) {
+  const [expandedSummary, setExpandedSummary] = useState<string | null>(null);
+  const cardsById = useMemo(() => new Map(cards.map(c => [c.cardId, c])), [cards]);
+
+  const copies = items.reduce((sum, item) => sum + item.normalCount + item.foilCount, 0);
+  const distinct = new Set(items.filter(item => item.normalCount + item.foilCount > 0).map(item => item.cardId)).size;
+
+  return (
+    <div className="space-y-4">
+      <div className="glass-card p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-medium text-foreground flex-1">
+            Review Scans{items.length > 0 && ` (${items.length})`}
+          </h3>
+          {items.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={onDiscard}>
+              <Trash2 className="w-4 h-4" />
+              Discard
+            </Button>
+          )}
+        </div>
+
+        {items.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-3">
+            Scanned cards collect here. Fix any misreads, counts or printings, then add them all at once.
+          </p>
+        ) : (
+          <>
+            <div className="max-h-[28rem] overflow-y-auto space-y-2 pr-1">
+              {[...items].reverse().map(item => (
+                <ReviewRow
+                  key={item.id}
+                  item={item}
+                  cards={cards}
+                  cardsById={cardsById}
+                  onChange={(changes) => onUpdateItem(item.id, changes)}
+                  onRemove={() => onRemoveItem(item.id)}
+                />
+              ))}
+            </div>
+            <Button variant="scanner" className="w-full" disabled={copies === 0} onClick={onCommit}>
+              Add {copies} {copies === 1 ? 'card' : 'cards'} ({distinct} unique) to {collectionName}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {summaries.length > 0 && (
+        <div className="glass-card p-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <History className="w-4 h-4 text-primary" />
+            <h3 className="text-sm font-medium text-foreground">Past Scan Sessions</h3>
+          </div>
+          {summaries.map(summary => {
+            const total = summary.cards.reduce((sum, c) => sum + c.normalCount + c.foilCount, 0);
+            const isOpen = expandedSummary === summary.id;
+            return (
+              <Collapsible
+                key={summary.id}
+                open={isOpen}
+                onOpenChange={() => setExpandedSummary(isOpen ? null : summary.id)}
+              >
+                <div className="flex items-center gap-1">
+                  <CollapsibleTrigger className="flex items-center gap-2 flex-1 min-w-0 px-2 py-1.5 rounded-md hover:bg-muted/50 text-left text-xs">
+                    {isOpen ? (
+                      <ChevronDown className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+                    ) : (
+                      <ChevronRight className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+                    )}
+                    <span className="text-foreground shrink-0">{format(new Date(summary.committedAt), 'PPp')}</span>
+                    <span className="text-muted-foreground truncate">
+                      {total} {total === 1 ? 'card' : 'cards'} to {summary.collectionName} • {summary.scanCount} scans
+                      {summary.fixedCount > 0 && `, ${summary.fixedCount} fixed`}
+                    </span>
+                  </CollapsibleTrigger>
+                  <Button variant="ghost" size="icon-sm" onClick={() => onDeleteSummary(summary.id)} title="Delete summary">
+                    <X className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+                <CollapsibleContent>
+                  <div className="ml-7 mt-1 space-y-0.5">
+                    {summary.cards.map(card => (
+                      <div key={card.cardId} className="flex items-center justify-between text-xs">
+                        <span className="text-foreground truncate">
+                          <span className="font-mono text-primary mr-2">{card.cardId}</span>
+                          {card.name}
+                        </span>
+                        <span className="text-muted-foreground shrink-0 ml-2">
+                          {card.normalCount > 0 && `${card.normalCount}×`}
+                          {card.foilCount > 0 && ` ${card.foilCount}× foil`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </CollapsibleContent>
+              </Collapsible>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
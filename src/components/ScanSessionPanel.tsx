@@ -0,0 +1,290 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Users, Copy, LogOut, Play, LogIn, Check, X, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { CardData } from '@/data/cardDatabase';
+import { NamedCollection } from '@/types/collection';
+import { ReviewedScan, ScanSession, ScanSessionMember, SessionCardTotal } from '@/types/scanSession';
+import { formatCardName } from '@/utils/cardVariants';
+import { cn } from '@/lib/utils';
+import { SignInForm } from './SignInForm';
+import { toast } from 'sonner';
+
+interface ScanSessionPanelProps {
+  isActive: boolean;
+  isLoading: boolean;
+  session: ScanSession | null;
+  members: ScanSessionMember[];
+  scans: ReviewedScan[];
+  totals: SessionCardTotal[];
+  cards: CardData[];
+  collections: NamedCollection[];
+  activeCollectionId: string;
+  onStart: (name: string, displayName: string) => Promise<void>;
+  onJoin: (code: string, displayName: string) => Promise<void>;
+  onLeave: () => void;
+  onSetCounted: (scanId: string, counted: boolean | null) => void;
+  onCommit: (collectionId: string) => Promise<void>;
+}
+
+export function ScanSessionPanel({
+  isActive,
+  isLoading,
+  session,
+  members,
+  scans,
+  totals,
+  cards,
+  collections,
+  activeCollectionId,
+  onStart,
+  onJoin,
+  onLeave,
+  onSetCounted,
+  onCommit,
+}: ScanSessionPanelProps) {
+  const { user } = useAuth();
+  const [nameInput, setNameInput] = useState<string | null>(null);  // null until edited
+  const displayName = nameInput ?? user?.email?.split('@')[0] ?? '';
+  const [sessionName, setSessionName] = useState('');
+  const [code, setCode] = useState('');
+  const [targetId, setTargetId] = useState(activeCollectionId);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const cardsById = useMemo(() => new Map(cards.map(c => [c.cardId, c])), [cards]);
+  const namesById = useMemo(() => new Map(members.map(m => [m.userId, m.displayName])), [members]);
+  const cardName = (cardId: string) => {
+    const card = cardsById.get(cardId);
+    return card ? formatCardName(card) : cardId;
+  };
+  const memberName = (userId: string | null) =>
+    (userId && namesById.get(userId)) ?? (userId === user?.id ? 'You' : 'A former member');
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="glass-card p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Users className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-medium text-foreground">Scan Together</h3>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Sign in to scan into a shared session with other devices and add the result to a collection at the end.
+        </p>
+        <SignInForm />
+      </div>
+    );
+  }
+
+  if (!isActive) {
+    const canSubmit = !isBusy && displayName.trim().length > 0;
+    return (
+      <div className="glass-card p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Users className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-medium text-foreground">Scan Together</h3>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Start a session and share its code, or join one, to scan with several devices at once.
+        </p>
+        <Input
+          value={displayName}
+          onChange={(e) => setNameInput(e.target.value)}
+          placeholder="Your name"
+          className="h-8 text-sm"
+        />
+        <div className="flex gap-2">
+          <Input
+            value={sessionName}
+            onChange={(e) => setSessionName(e.target.value)}
+            placeholder="Session name, e.g. Friday sort"
+            className="h-8 text-sm"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!canSubmit || !sessionName.trim()}
+            onClick={() => run(() => onStart(sessionName, displayName))}
+          >
+            <Play className="w-4 h-4" />
+            Start
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            onKeyDown={(e) => e.key === 'Enter' && canSubmit && code.trim() && run(() => onJoin(code, displayName))}
+            placeholder="Join code"
+            maxLength={12}
+            className="h-8 text-sm font-mono"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!canSubmit || !code.trim()}
+            onClick={() => run(() => onJoin(code, displayName))}
+          >
+            <LogIn className="w-4 h-4" />
+            Join
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="glass-card p-4 flex items-center justify-center">
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        ) : (
+          <Button variant="ghost" size="sm" onClick={onLeave}>
+            <LogOut className="w-4 h-4" />
+            Leave Session
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(session.code);
+      toast.success('Join code copied');
+    } catch {
+      toast.error('Failed to copy to clipboard');
+    }
+  };
+
+  const countedScans = scans.filter(s => s.isCounted).length;
+  const copies = totals.reduce((sum, t) => sum + t.count, 0);
+  const target = collections.find(c => c.id === targetId) ?? collections.find(c => c.id === activeCollectionId);
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Users className="w-4 h-4 text-primary" />
+        <h3 className="text-sm font-medium text-foreground flex-1 truncate">{session.name}</h3>
+        <Button variant="outline" size="sm" className="font-mono" onClick={copyCode} title="Copy join code">
+          {session.code}
+          <Copy className="w-3.5 h-3.5" />
+        </Button>
+        <Button variant="ghost" size="icon-sm" onClick={onLeave} title="Leave session">
+          <LogOut className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {members.map(member => (
+          <span
+            key={member.userId}
+            className={cn(
+              'px-2 py-0.5 rounded-full text-xs border',
+              member.userId === user.id ? 'border-primary/40 text-primary' : 'border-border text-muted-foreground'
+            )}
+          >
+            {member.displayName}
+          </span>
+        ))}
+      </div>
+
+      {scans.length === 0 ? (
+        <p className="text-xs text-muted-foreground text-center py-3">
+          No scans yet. Everyone's confirmed scans show up here as they happen.
+        </p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto space-y-1 pr-1">
+          {[...scans].reverse().map(scan => {
+            const original = scan.duplicateOf ? scans.find(s => s.id === scan.duplicateOf) : undefined;
+            return (
+              <div
+                key={scan.id}
+                className={cn(
+                  'flex items-center gap-2 px-2 py-1.5 rounded text-xs bg-muted/30',
+                  !scan.isCounted && 'opacity-60'
+                )}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className={cn('text-foreground truncate', !scan.isCounted && 'line-through')}>
+                    {cardName(scan.cardId)}
+                  </p>
+                  <p className="text-muted-foreground truncate">
+                    {memberName(scan.scannedBy)} • {format(new Date(scan.scannedAt), 'p')}
+                    {original && scan.counted === null && <> • same card as {memberName(original.scannedBy)}'s scan</>}
+                    {scan.counted === false && <> • ignored</>}
+                  </p>
+                </div>
+                {session.committedAt ? null : scan.isCounted ? (
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => onSetCounted(scan.id, scan.duplicateOf ? null : false)}
+                    title="Don't count this scan"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </Button>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => onSetCounted(scan.id, scan.duplicateOf ? true : null)}
+                    title="Count this scan"
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {session.committedAt ? (
+        <p className="text-xs text-muted-foreground">
+          Committed by {memberName(session.committedBy)} on {format(new Date(session.committedAt), 'PPp')}. Leave the session to scan into your collection again.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {copies} {copies === 1 ? 'copy' : 'copies'} of {totals.length} {totals.length === 1 ? 'card' : 'cards'} from {countedScans} counted {countedScans === 1 ? 'scan' : 'scans'}
+            {countedScans < scans.length && ` (${scans.length - countedScans} left out)`}
+          </p>
+          <div className="flex gap-2">
+            <Select value={target?.id} onValueChange={setTargetId}>
+              <SelectTrigger className="h-8 text-sm flex-1">
+                <SelectValue placeholder="Collection" />
+              </SelectTrigger>
+              <SelectContent>
+                {collections.map(c => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="scanner"
+              size="sm"
+              disabled={isBusy || copies === 0 || !target}
+              onClick={() => target && run(() => onCommit(target.id))}
+            >
+              Commit
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
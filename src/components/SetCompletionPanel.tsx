@@ -0,0 +1,223 @@
+import { useState, useMemo } from 'react';
+import { Trophy, ChevronDown, ChevronRight, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { VariantBadge } from '@/components/VariantBadge';
+import { ListExportControls } from '@/components/ListExportControls';
+import { CollectionEntry, ExportSettings } from '@/types/collection';
+import { useCardDatabase } from '@/contexts/CardDatabaseContext';
+import {
+  CompletionMode,
+  PLAYSET_SIZE,
+  SetCompletion,
+  computeSetCompletion,
+  missingToEntries,
+} from '@/utils/setCompletion';
+import { cn } from '@/lib/utils';
+
+interface SetCompletionPanelProps {
+  collection: CollectionEntry[];
+  collectionName: string;
+  exportSettings: ExportSettings;
+}
+
+const ALL_RARITIES = 'all';
+
+export function SetCompletionPanel({ collection, collectionName, exportSettings }: SetCompletionPanelProps) {
+  const { cards } = useCardDatabase();
+  const [mode, setMode] = useState<CompletionMode>('unique');
+  const [includeVariants, setIncludeVariants] = useState(false);
+  const [expandedSet, setExpandedSet] = useState<string | null>(null);
+
+  const sets = useMemo(
+    () => computeSetCompletion(cards, collection, { mode, includeVariants }),
+    [cards, collection, mode, includeVariants]
+  );
+
+  if (cards.length === 0) {
+    return (
+      <div className="text-center py-12 px-4">
+        <p className="text-muted-foreground">No card data loaded</p>
+        <p className="text-sm text-muted-foreground/70 mt-1">Update the card database in Settings first</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Mode and variant options */}
+      <div className="glass-card p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Trophy className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-medium text-foreground">Set Completion for {collectionName}</h3>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant={mode === 'unique' ? 'default' : 'outline'}
+            size="sm"
+            className="flex-1"
+            onClick={() => setMode('unique')}
+          >
+            Unique cards
+          </Button>
+          <Button
+            variant={mode === 'playset' ? 'default' : 'outline'}
+            size="sm"
+            className="flex-1"
+            onClick={() => setMode('playset')}
+          >
+            Playsets ({PLAYSET_SIZE}×)
+          </Button>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-foreground">Include alternate printings</span>
+          <Switch checked={includeVariants} onCheckedChange={setIncludeVariants} />
+        </div>
+      </div>
+
+      {sets.map((set) => (
+        <SetCompletionCard
+          key={set.setName}
+          set={set}
+          mode={mode}
+          isExpanded={expandedSet === set.setName}
+          onToggle={() => setExpandedSet(expandedSet === set.setName ? null : set.setName)}
+          exportSettings={exportSettings}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface SetCompletionCardProps {
+  set: SetCompletion;
+  mode: CompletionMode;
+  isExpanded: boolean;
+  onToggle: () => void;
+  exportSettings: ExportSettings;
+}
+
+function SetCompletionCard({ set, mode, isExpanded, onToggle, exportSettings }: SetCompletionCardProps) {
+  const [query, setQuery] = useState('');
+  const [rarityFilter, setRarityFilter] = useState(ALL_RARITIES);
+
+  const owned = mode === 'playset' ? set.ownedPlayset : set.ownedUnique;
+  const percent = mode === 'playset' ? set.playsetPercent : set.uniquePercent;
+
+  const filteredMissing = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return set.missing.filter(({ card }) =>
+      (rarityFilter === ALL_RARITIES || (card.rarity || 'Unknown') === rarityFilter) &&
+      (!q || card.name.toLowerCase().includes(q) || card.cardId.toLowerCase().includes(q))
+    );
+  }, [set.missing, query, rarityFilter]);
+
+  return (
+    <div className="glass-card overflow-hidden">
+      <button onClick={onToggle} className="w-full p-3 text-left space-y-2">
+        <div className="flex items-center gap-2">
+          {isExpanded ? (
+            <ChevronDown className="w-4 h-4 text-muted-foreground shrink-0" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-muted-foreground shrink-0" />
+          )}
+          <span className="flex-1 min-w-0 font-medium text-foreground truncate">{set.setName}</span>
+          <span className="text-sm font-mono text-muted-foreground shrink-0">
+            {owned}/{set.total}
+          </span>
+          <span className={cn(
+            "text-sm font-medium w-14 text-right shrink-0",
+            percent === 100 ? "text-success" : "text-foreground"
+          )}>
+            {percent}%
+          </span>
+        </div>
+        <Progress value={percent} className="h-2" />
+        <p className="text-xs text-muted-foreground">
+          {set.ownedUnique} unique ({set.uniquePercent}%) • {set.ownedPlayset} playsets ({set.playsetPercent}%)
+        </p>
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-border p-3 space-y-3">
+          {/* Rarity breakdown */}
+          <div className="grid grid-cols-2 gap-2">
+            {set.byRarity.map((rarity) => (
+              <div key={rarity.rarity} className="rounded-md bg-muted/30 px-2 py-1.5">
+                <div className="flex justify-between text-xs">
+                  <span className="text-foreground">{rarity.rarity}</span>
+                  <span className="text-muted-foreground font-mono">{rarity.complete}/{rarity.total}</span>
+                </div>
+                <Progress value={rarity.percent} className="h-1 mt-1" />
+              </div>
+            ))}
+          </div>
+
+          {set.missing.length === 0 ? (
+            <p className="text-sm text-success text-center py-2">Set complete!</p>
+          ) : (
+            <>
+              {/* Missing list filters */}
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Filter missing..."
+                    className="h-9 pl-8"
+                  />
+                </div>
+                <Select value={rarityFilter} onValueChange={setRarityFilter}>
+                  <SelectTrigger className="h-9 w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_RARITIES}>All rarities</SelectItem>
+                    {set.byRarity.map((r) => (
+                      <SelectItem key={r.rarity} value={r.rarity}>{r.rarity}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="max-h-64 overflow-y-auto scrollbar-hide space-y-1">
+                {filteredMissing.map(({ card, owned: ownedCount, needed }) => (
+                  <div key={card.cardId} className="flex items-center gap-2 px-2 py-1 rounded bg-muted/30 text-xs">
+                    <span className="w-20 font-mono text-muted-foreground shrink-0">{card.cardId}</span>
+                    <span className="flex-1 min-w-0 truncate text-foreground">{card.name}</span>
+                    <VariantBadge card={card} />
+                    <span className="text-muted-foreground shrink-0">{card.rarity}</span>
+                    {mode === 'playset' && (
+                      <span className="font-mono shrink-0">{ownedCount}/{ownedCount + needed}</span>
+                    )}
+                  </div>
+                ))}
+                {filteredMissing.length === 0 && (
+                  <p className="text-xs text-muted-foreground text-center py-2">No missing cards match the filter</p>
+                )}
+              </div>
+
+              {/* Export the (filtered) missing list */}
+              <ListExportControls
+                entries={missingToEntries(filteredMissing)}
+                exportSettings={exportSettings}
+                fileName={`missing-${set.setName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`}
+                itemLabel="missing cards"
+              />
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
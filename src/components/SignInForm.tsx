@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import { Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+// Email address field that sends a magic sign-in link
+export function SignInForm() {
+  const { signInWithEmail } = useAuth();
+  const [address, setAddress] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSignIn = async () => {
+    if (!address.trim()) return;
+    setIsSending(true);
+    const result = await signInWithEmail(address);
+    setIsSending(false);
+    if (result.success) {
+      toast.success(`Sign-in link sent to ${address.trim()}`);
+    } else {
+      toast.error(result.error ?? 'Failed to send the sign-in link');
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        type="email"
+        value={address}
+        onChange={(e) => setAddress(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleSignIn()}
+        placeholder="you@example.com"
+        className="h-8 text-sm"
+      />
+      <Button variant="outline" size="sm" onClick={handleSignIn} disabled={isSending || !address.trim()}>
+        <Mail className="w-4 h-4" />
+        Send Link
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState, useMemo } from 'react';
+import { ArrowLeftRight, Copy, Download, CircleDot, Sparkles, PackageOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ListExportControls } from '@/components/ListExportControls';
+import { ImportTextInput } from '@/components/ImportTextInput';
+import { PickList } from '@/components/PickList';
+import { CollectionEntry, ExportSettings } from '@/types/collection';
+import { useCardDatabase } from '@/contexts/CardDatabaseContext';
+import { importFromText } from '@/utils/importFormats';
+import {
+  TradeMatch,
+  computeTradeableExtras,
+  compareTrade,
+  countMatches,
+  formatTradeSummary,
+} from '@/utils/trading';
+import { copyToClipboard, downloadFile } from '@/utils/exportFormats';
+import { buildPickList } from '@/utils/organization';
+import { formatCardName } from '@/utils/cardVariants';
+import { toast } from 'sonner';
+
+interface TradePanelProps {
+  collection: CollectionEntry[];
+  wants: CollectionEntry[];
+  keepCount: number;
+  onKeepCountChange: (count: number) => void;
+  exportSettings: ExportSettings;
+}
+
+const DEFAULT_PARTNER_NAME = 'Partner';
+
+export function TradePanel({ collection, wants, keepCount, onKeepCountChange, exportSettings }: TradePanelProps) {
+  const { cards } = useCardDatabase();
+  const [partnerName, setPartnerName] = useState('');
+  const [theirCollectionText, setTheirCollectionText] = useState('');
+  const [theirWantsText, setTheirWantsText] = useState('');
+
+  const theirCollection = useMemo(() => importFromText(theirCollectionText, cards), [theirCollectionText, cards]);
+  const theirWantsList = useMemo(() => importFromText(theirWantsText, cards), [theirWantsText, cards]);
+  const theirWants = useMemo(() => theirWantsList?.entries ?? [], [theirWantsList]);
+
+  const myExtras = useMemo(() => computeTradeableExtras(collection, keepCount), [collection, keepCount]);
+  const theirExtras = useMemo(
+    () => computeTradeableExtras(theirCollection?.entries ?? [], keepCount),
+    [theirCollection, keepCount]
+  );
+  const comparison = useMemo(
+    () => compareTrade(myExtras, wants, theirExtras, theirWants),
+    [myExtras, wants, theirExtras, theirWants]
+  );
+
+  // Where to find the copies I give
+  const pickList = useMemo(
+    () => buildPickList(comparison.iGive.map(m => ({ cardId: m.card.cardId, count: m.count, finish: m.finish })), collection),
+    [comparison, collection]
+  );
+
+  const extrasTotal = myExtras.reduce((sum, e) => sum + e.normalCount + e.foilCount, 0);
+  const partner = partnerName.trim() || DEFAULT_PARTNER_NAME;
+  const hasPartnerData = theirExtras.length > 0 || theirWants.length > 0;
+  const hasMatches = comparison.theyGive.length > 0 || comparison.iGive.length > 0;
+
+  const handleCopySummary = async () => {
+    if (await copyToClipboard(formatTradeSummary(comparison, partner))) {
+      toast.success('Trade summary copied to clipboard');
+    } else {
+      toast.error('Failed to copy to clipboard');
+    }
+  };
+
+  const handleDownloadSummary = () => {
+    const date = new Date().toISOString().split('T')[0];
+    downloadFile(formatTradeSummary(comparison, partner), `riftbound-trade-${date}.txt`, 'text/plain');
+    toast.success('Trade summary downloaded');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="glass-card p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <PackageOpen className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-medium text-foreground flex-1">Tradeable Extras</h3>
+          <span className="text-xs text-muted-foreground">{extrasTotal} cards</span>
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="flex-1">Keep this many copies of each card</span>
+          <Input
+            type="number"
+            min={0}
+            value={keepCount}
+            onChange={(e) => onKeepCountChange(Math.max(0, parseInt(e.target.value, 10) || 0))}
+            className="h-8 w-16 text-center font-mono"
+          />
+        </div>
+
+        {myExtras.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No cards above {keepCount} {keepCount === 1 ? 'copy' : 'copies'} in this collection.
+          </p>
+        ) : (
+          <ListExportControls
+            entries={myExtras}
+            exportSettings={exportSettings}
+            fileName="riftbound-extras"
+            itemLabel="extras"
+          />
+        )}
+      </div>
+
+      <div className="glass-card p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <ArrowLeftRight className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-medium text-foreground">Compare With Someone</h3>
+        </div>
+
+        <Input
+          value={partnerName}
+          onChange={(e) => setPartnerName(e.target.value)}
+          placeholder="Their name"
+          className="h-9"
+        />
+
+        <ImportTextInput
+          label="Their collection"
+          content={theirCollectionText}
+          onChange={setTheirCollectionText}
+          loaded={theirCollection}
+          placeholder="Or paste their export here..."
+        />
+        <ImportTextInput
+          label="Their wants"
+          content={theirWantsText}
+          onChange={setTheirWantsText}
+          loaded={theirWantsList}
+          placeholder="Or paste their export here..."
+        />
+
+        {hasPartnerData && (
+          <div className="space-y-3 pt-1">
+            <TradeMatchList title={`${partner} gives`} matches={comparison.theyGive} />
+            <TradeMatchList title="I give" matches={comparison.iGive} />
+            {pickList.length > 0 && (
+              <PickList items={pickList} title={`Pick list: trade with ${partner}`} fileName="riftbound-trade-pick-list" />
+            )}
+
+            {hasMatches && (
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" className="flex-1" onClick={handleCopySummary}>
+                  <Copy className="w-4 h-4" />
+                  Copy Summary
+                </Button>
+                <Button variant="outline" size="sm" className="flex-1" onClick={handleDownloadSummary}>
+                  <Download className="w-4 h-4" />
+                  Save .txt
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TradeMatchList({ title, matches }: { title: string; matches: TradeMatch[] }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-foreground">
+        {title} <span className="text-muted-foreground">({countMatches(matches)})</span>
+      </p>
+      {matches.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Nothing matches</p>
+      ) : (
+        matches.map((m) => (
+          <div
+            key={`${m.card.cardId}-${m.finish}`}
+            className="flex items-center gap-2 px-2 py-1 rounded bg-muted/30 text-xs"
+          >
+            <span className="w-6 font-mono text-muted-foreground shrink-0">{m.count}×</span>
+            <span className="flex-1 min-w-0 truncate text-foreground">{formatCardName(m.card)}</span>
+            <span className="font-mono text-muted-foreground shrink-0">{m.card.cardId}</span>
+            {m.finish === 'foil'
+              ? <Sparkles className="w-3.5 h-3.5 text-primary shrink-0" />
+              : <CircleDot className="w-3.5 h-3.5 text-muted-foreground shrink-0" />}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { CardData } from '@/data/cardDatabase';
+import { getVariant, getVariantLabel, getVariantShortLabel, isStandardVariant } from '@/utils/cardVariants';
+import { cn } from '@/lib/utils';
+
+interface VariantBadgeProps {
+  card: CardData;
+  className?: string;
+}
+
+// Short printing label (ALT, OVN, SIG, SHW); renders nothing for the standard printing
+export function VariantBadge({ card, className }: VariantBadgeProps) {
+  if (isStandardVariant(card)) return null;
+  const variant = getVariant(card);
+
+  return (
+    <span
+      className={cn("text-xs px-1.5 py-0.5 rounded font-medium shrink-0 bg-primary/10 text-primary", className)}
+      title={getVariantLabel(variant)}
+    >
+      {getVariantShortLabel(variant)}
+    </span>
+  );
+}
@@ -0,0 +1,106 @@
+import { Heart, Plus, Minus, Trash2, CircleDot, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CardSearch } from '@/components/CardSearch';
+import { VariantBadge } from '@/components/VariantBadge';
+import { ListExportControls } from '@/components/ListExportControls';
+import { CollectionEntry, ExportSettings } from '@/types/collection';
+import { CardData } from '@/data/cardDatabase';
+import { formatCardName } from '@/utils/cardVariants';
+import { toast } from 'sonner';
+
+interface WantsListPanelProps {
+  wants: CollectionEntry[];
+  exportSettings: ExportSettings;
+  onAdd: (card: CardData) => void;
+  onUpdateCounts: (cardId: string, normalCount: number, foilCount: number) => void;
+  onRemove: (cardId: string) => void;
+}
+
+export function WantsListPanel({ wants, exportSettings, onAdd, onUpdateCounts, onRemove }: WantsListPanelProps) {
+  const total = wants.reduce((sum, w) => sum + w.normalCount + w.foilCount, 0);
+
+  const handleAdd = (card: CardData) => {
+    onAdd(card);
+    toast.success(`Added ${formatCardName(card)} to wants`);
+  };
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Heart className="w-4 h-4 text-primary" />
+        <h3 className="text-sm font-medium text-foreground flex-1">Wants List</h3>
+        <span className="text-xs text-muted-foreground">{total} cards</span>
+      </div>
+
+      <CardSearch onCardSelect={handleAdd} />
+
+      {wants.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Search for cards you're looking for, or import a list below.
+        </p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto scrollbar-hide space-y-1">
+          {wants.map((want) => (
+            <div key={want.cardId} className="flex items-center gap-2 px-2 py-1 rounded bg-muted/30 text-xs">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-1.5">
+                  <span className="truncate text-foreground">{want.name}</span>
+                  <VariantBadge card={want} />
+                </div>
+                <span className="font-mono text-muted-foreground">{want.cardId}</span>
+              </div>
+              <WantCounter
+                icon={<CircleDot className="w-3 h-3 text-muted-foreground" />}
+                value={want.normalCount}
+                onChange={(n) => onUpdateCounts(want.cardId, n, want.foilCount)}
+              />
+              <WantCounter
+                icon={<Sparkles className="w-3 h-3 text-primary" />}
+                value={want.foilCount}
+                onChange={(n) => onUpdateCounts(want.cardId, want.normalCount, n)}
+              />
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                onClick={() => onRemove(want.cardId)}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {wants.length > 0 && (
+        <ListExportControls
+          entries={wants}
+          exportSettings={exportSettings}
+          fileName="riftbound-wants"
+          itemLabel="wanted cards"
+        />
+      )}
+    </div>
+  );
+}
+
+interface WantCounterProps {
+  icon: React.ReactNode;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+function WantCounter({ icon, value, onChange }: WantCounterProps) {
+  return (
+    <div className="flex items-center shrink-0">
+      {icon}
+      <Button variant="ghost" size="icon-sm" className="h-6 w-6" onClick={() => onChange(value - 1)}>
+        <Minus className="w-3 h-3" />
+      </Button>
+      <span className="w-4 text-center font-mono">{value}</span>
+      <Button variant="ghost" size="icon-sm" className="h-6 w-6" onClick={() => onChange(value + 1)}>
+        <Plus className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+}
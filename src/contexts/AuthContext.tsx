@@ -0,0 +1,98 @@
+import * as React from 'react';
+import { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type AppRole = Database['public']['Enums']['app_role'];
+
+interface AuthState {
+  session: Session | null;
+  user: User | null;
+  roles: AppRole[];
+  isAdmin: boolean;
+  isLoading: boolean;
+  signInWithEmail: (email: string) => Promise<{ success: boolean; error?: string }>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthState | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Keep the session current as the user signs in and out
+  useEffect(() => {
+    const { data } = supabase.auth.onAuthStateChange((_event, next) => {
+      setSession(next);
+      setIsLoading(false);
+    });
+    supabase.auth.getSession().then(({ data: { session: current } }) => {
+      setSession(current);
+      setIsLoading(false);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  // Roles only gate the UI; the database policies enforce them
+  const userId = session?.user.id;
+  useEffect(() => {
+    if (!userId) {
+      setRoles([]);
+      return;
+    }
+
+    let cancelled = false;
+    supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error('[AuthContext] Failed to load roles:', error);
+        setRoles(data?.map(row => row.role) ?? []);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Email a sign-in link that returns to this page
+  const signInWithEmail = useCallback(async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: window.location.href },
+    });
+    return { success: !error, error: error?.message };
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await supabase.auth.signOut();
+  }, []);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        user: session?.user ?? null,
+        roles,
+        isAdmin: roles.includes('admin'),
+        isLoading,
+        signInWithEmail,
+        signOut,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
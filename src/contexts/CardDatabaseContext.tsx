@@ -2,6 +2,9 @@ import * as React from 'react';
 import { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import Fuse from 'fuse.js';
 import { CardData, cardDatabase as fallbackCards } from '@/data/cardDatabase';
+import { deriveCardVariants } from '@/utils/cardVariants';
+import { readIndexedCardList } from '@/utils/cardMetadata';
+import { moveFromLocalStorage, reportStorageError, setValue } from '@/services/storageService';
 
 interface CardDatabaseState {
   cards: CardData[];
@@ -23,44 +26,56 @@ export function CardDatabaseProvider({ children }: { children: React.ReactNode }
   const [error, setError] = useState<string | null>(null);
   const [initialized, setInitialized] = useState(false);
 
-  // Load from localStorage on mount
+  // Load the cached card list on mount
   useEffect(() => {
-    try {
-      const storedCards = localStorage.getItem(STORAGE_KEY);
-      const storedTimestamp = localStorage.getItem(STORAGE_TIMESTAMP_KEY);
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const storedCards = await moveFromLocalStorage<CardData[]>(STORAGE_KEY);
+        const storedTimestamp = await moveFromLocalStorage<string>(STORAGE_TIMESTAMP_KEY, raw => raw);
 
-      if (storedCards) {
-        const parsedCards = JSON.parse(storedCards) as CardData[];
-        if (Array.isArray(parsedCards) && parsedCards.length > 0) {
-          setCards(parsedCards);
+        if (!cancelled && Array.isArray(storedCards) && storedCards.length > 0) {
+          // Re-derive variants so lists stored before variants existed are classified too
+          setCards(deriveCardVariants(storedCards));
           if (storedTimestamp) {
             setLastUpdated(new Date(storedTimestamp));
           }
           setInitialized(true);
           return;
         }
+      } catch (e) {
+        reportStorageError(e, 'load the saved card list');
       }
-    } catch (e) {
-      console.warn('Failed to load cards from localStorage:', e);
-    }
 
-    // Fall back to built-in cards if nothing in localStorage
-    setCards(fallbackCards);
-    setInitialized(true);
+      // Fall back to built-in cards if nothing is stored
+      if (!cancelled) {
+        setCards(deriveCardVariants(fallbackCards));
+        setInitialized(true);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  // Save to localStorage when cards change (after initialization)
+  // Save the card list when it changes (after initialization)
   useEffect(() => {
-    if (initialized && cards.length > 0) {
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(cards));
-        if (lastUpdated) {
-          localStorage.setItem(STORAGE_TIMESTAMP_KEY, lastUpdated.toISOString());
-        }
-      } catch (e) {
-        console.warn('Failed to save cards to localStorage:', e);
+    if (!initialized || cards.length === 0) return;
+
+    const save = async () => {
+      await setValue(STORAGE_KEY, cards);
+      if (lastUpdated) {
+        await setValue(STORAGE_TIMESTAMP_KEY, lastUpdated.toISOString());
       }
-    }
+    };
+
+    save().catch(e => {
+      const storageError = reportStorageError(e, 'save the card list');
+      setError(`Card list could not be saved for offline use: ${storageError.message}`);
+    });
   }, [cards, lastUpdated, initialized]);
 
   const refreshCards = useCallback(async () => {
@@ -82,52 +97,9 @@ export function CardDatabaseProvider({ children }: { children: React.ReactNode }
 
       const data = await response.json();
       
-      // Handle the indexed format: { names: [...], data: [[...], [...], ...] }
-      const mappedCards: CardData[] = [];
-      
-      if (data && Array.isArray(data.names) && Array.isArray(data.data)) {
-        // Find column indices
-        const names = data.names as string[];
-        const idIndex = names.indexOf('id');
-        const nameIndex = names.indexOf('name');
-        const setNameIndex = names.indexOf('set_name');
-        const rarityIndex = names.indexOf('rarity');
-        
-        if (idIndex === -1 || nameIndex === -1) {
-          throw new Error('API response missing required fields (id, name)');
-        }
-        
-        for (const row of data.data) {
-          if (!Array.isArray(row)) continue;
-          
-          const cardId = row[idIndex];
-          const name = row[nameIndex];
-          const setName = setNameIndex !== -1 ? row[setNameIndex] : 'Unknown Set';
-          const rarity = rarityIndex !== -1 ? row[rarityIndex] : undefined;
-          
-          if (cardId && typeof cardId === 'string' && name && typeof name === 'string') {
-            mappedCards.push({
-              cardId: cardId.trim().toUpperCase(),
-              name: name.trim(),
-              setName: typeof setName === 'string' ? setName.trim() : 'Unknown Set',
-              rarity: typeof rarity === 'string' ? rarity.trim() : undefined,
-            });
-          }
-        }
-      } else {
-        throw new Error('Unexpected API response format');
-      }
-
-      if (mappedCards.length === 0) {
-        throw new Error('Could not parse any cards from API response');
-      }
-
-      // Deduplicate by cardId (keep first occurrence)
-      const uniqueCards = Array.from(
-        new Map(mappedCards.map(card => [card.cardId, card])).values()
-      );
+      const uniqueCards = readIndexedCardList(data);
 
-      setCards(uniqueCards);
+      setCards(deriveCardVariants(uniqueCards));
       setLastUpdated(new Date());
       setError(null);
 
@@ -198,8 +170,8 @@ export function createCardDatabaseHelpers(cards: CardData[]) {
 
   // Fuzzy match card ID - returns best matches with scores
   const fuzzyMatchCardId = (rawText: string): FuzzyMatchResult[] => {
-    // Normalize input: uppercase, remove non-alphanumeric except dashes
-    const normalized = rawText.toUpperCase().replace(/[^A-Z0-9-]/g, '');
+    // Normalize input: uppercase, remove non-alphanumeric except dashes and the signature star
+    const normalized = rawText.toUpperCase().replace(/[^A-Z0-9*-]/g, '');
     
     // Try exact match first
     const exact = findCardById(normalized);
@@ -236,7 +208,8 @@ export function createCardDatabaseHelpers(cards: CardData[]) {
 
   // Combined matching: tries ID pattern first, then name
   const fuzzyMatch = (rawText: string): FuzzyMatchResult[] => {
-    const cardIdPattern = /[A-Z]{2,4}-\d{3}/i;
+    // Optional alt-art letter or signature star after the number
+    const cardIdPattern = /[A-Z]{2,4}-\d{3}(?:[A-Z](?![A-Z])|\*)?/i;
     
     if (cardIdPattern.test(rawText)) {
       // Looks like a card ID
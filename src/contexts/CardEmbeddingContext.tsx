@@ -1,8 +1,18 @@
 import * as React from 'react';
-import { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { validateEmbedding, EMBEDDING_SIZE } from '@/utils/embeddingConfig';
 import { l2Normalize, computeNorm } from '@/utils/artEmbedding';
+import { getAllRecords, getValue, replaceAllRecords, reportStorageError, setValue } from '@/services/storageService';
+
+const CACHE_META_KEY = 'riftbound-embeddings-meta';
+
+// Describes the database state the cached embeddings were fetched from
+interface EmbeddingCacheMeta {
+  rowCount: number;
+  latestUpdate: string | null;   // Newest riftbound_cards.updated_at
+  cachedAt: string;
+}
 
 export interface EmbeddedCard {
   cardId: string;
@@ -47,6 +57,15 @@ const CardEmbeddingContext = createContext<CardEmbeddingContextValue>({
   refreshEmbeddings: async () => {},
 });
 
+async function cacheEmbeddings(embeddedCards: EmbeddedCard[], meta: EmbeddingCacheMeta) {
+  try {
+    await replaceAllRecords('embeddings', embeddedCards);
+    await setValue(CACHE_META_KEY, meta);
+  } catch (err) {
+    reportStorageError(err, 'cache card embeddings for offline use');
+  }
+}
+
 export function useCardEmbeddings() {
   return useContext(CardEmbeddingContext);
 }
@@ -61,7 +80,7 @@ export function CardEmbeddingProvider({ children }: { children: React.ReactNode
   
   const hasLoadedRef = useRef(false);
 
-  const loadEmbeddings = async () => {
+  const loadEmbeddings = useCallback(async () => {
     console.log('[CardEmbeddingContext] Loading embeddings from database...');
     setLoading(true);
     setError(null);
@@ -87,7 +106,7 @@ export function CardEmbeddingProvider({ children }: { children: React.ReactNode
       // Fetch cards with embeddings
       const { data, error: fetchError } = await supabase
         .from('riftbound_cards')
-        .select('card_id, name, set_name, rarity, art_url, embedding');
+        .select('card_id, name, set_name, rarity, art_url, embedding, updated_at');
       
       if (fetchError) {
         throw new Error(`Failed to fetch cards: ${fetchError.message}`);
@@ -202,6 +221,13 @@ export function CardEmbeddingProvider({ children }: { children: React.ReactNode
       setCards(embeddedCards);
       setProgress({ loaded: embeddedCards.length, total: embeddedCards.length });
       setLoaded(true);
+
+      // Cache for the next visit; a failed save only costs a refetch
+      const latestUpdate = data.reduce<string | null>(
+        (latest, row) => (row.updated_at && (!latest || row.updated_at > latest) ? row.updated_at : latest),
+        null
+      );
+      cacheEmbeddings(embeddedCards, { rowCount: data.length, latestUpdate, cachedAt: new Date().toISOString() });
     } catch (err) {
       console.error('[CardEmbeddingContext] Error loading embeddings:', err);
       setError(err instanceof Error ? err.message : 'Failed to load embeddings');
@@ -209,19 +235,68 @@ export function CardEmbeddingProvider({ children }: { children: React.ReactNode
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
 
-  const refreshEmbeddings = async () => {
+  // Use cached embeddings when the card table has not changed since they were fetched
+  const loadCachedEmbeddings = useCallback(async (): Promise<boolean> => {
+    let cached: EmbeddedCard[];
+    let meta: EmbeddingCacheMeta | undefined;
+    try {
+      [cached, meta] = await Promise.all([
+        getAllRecords<EmbeddedCard>('embeddings'),
+        getValue<EmbeddingCacheMeta>(CACHE_META_KEY),
+      ]);
+    } catch (err) {
+      reportStorageError(err, 'read cached card embeddings');
+      return false;
+    }
+    if (!meta || cached.length === 0) return false;
+
+    const { data, count, error: checkError } = await supabase
+      .from('riftbound_cards')
+      .select('updated_at', { count: 'exact' })
+      .order('updated_at', { ascending: false, nullsFirst: false })
+      .limit(1);
+
+    // Offline or the check failed: cached embeddings are better than none
+    const isStale = !checkError && (count !== meta.rowCount || (data?.[0]?.updated_at ?? null) !== meta.latestUpdate);
+    if (isStale) {
+      console.log('[CardEmbeddingContext] Cached embeddings are stale, refetching');
+      return false;
+    }
+
+    console.log(`[CardEmbeddingContext] Loaded ${cached.length} embeddings from cache (${meta.cachedAt})`);
+    setCards(cached);
+    setProgress({ loaded: cached.length, total: cached.length });
+    setDiagnostics({
+      totalLoaded: cached.length,
+      validCount: cached.length,
+      invalidCount: 0,
+      sampleCards: cached.slice(0, 5).map(card => ({
+        cardId: card.cardId,
+        name: card.name,
+        firstValues: card.embedding.slice(0, 5),
+        norm: computeNorm(card.embedding),
+        valid: validateEmbedding(card.embedding).valid,
+      })),
+    });
+    setLoaded(true);
+    return true;
+  }, []);
+
+  const refreshEmbeddings = useCallback(async () => {
     setLoaded(false);
     await loadEmbeddings();
-  };
+  }, [loadEmbeddings]);
 
   useEffect(() => {
     if (hasLoadedRef.current) return;
     hasLoadedRef.current = true;
     
-    loadEmbeddings();
-  }, []);
+    loadCachedEmbeddings().then(usedCache => {
+      if (!usedCache) loadEmbeddings();
+    });
+  }, [loadCachedEmbeddings, loadEmbeddings]);
 
   return (
     <CardEmbeddingContext.Provider value={{ cards, loaded, loading, error, progress, diagnostics, refreshEmbeddings }}>
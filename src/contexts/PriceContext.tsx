@@ -0,0 +1,132 @@
+import * as React from 'react';
+import { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { PriceCache, PriceSource } from '@/types/pricing';
+import { useCardDatabase } from '@/contexts/CardDatabaseContext';
+import { createPriceFileSource, parsePriceFile, priceKey } from '@/utils/pricing';
+import { deleteValue, getValue, reportStorageError, setValue } from '@/services/storageService';
+
+// The last loaded price file, kept so prices can be refreshed from it later
+interface StoredPriceFile {
+  name: string;
+  content: string;
+  loadedAt: string;
+}
+
+interface PriceState {
+  prices: PriceCache;
+  priceFile: { name: string; loadedAt: string } | null;
+  isLoading: boolean;
+  error: string | null;
+  refreshPrices: (source?: PriceSource) => Promise<void>;
+  loadPriceFile: (name: string, content: string) => Promise<void>;
+  clearPrices: () => void;
+}
+
+const PriceContext = createContext<PriceState | undefined>(undefined);
+
+const CACHE_KEY = 'riftbound-prices';
+const PRICE_FILE_KEY = 'riftbound-price-file';
+
+const EMPTY_CACHE: PriceCache = { quotes: {}, sourceId: null, refreshedAt: null };
+
+export function PricesProvider({ children }: { children: React.ReactNode }) {
+  const { cards } = useCardDatabase();
+  const [prices, setPrices] = useState<PriceCache>(EMPTY_CACHE);
+  const [priceFile, setPriceFile] = useState<StoredPriceFile | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [initialized, setInitialized] = useState(false);
+
+  // Load cached prices on mount
+  useEffect(() => {
+    Promise.all([getValue<PriceCache>(CACHE_KEY), getValue<StoredPriceFile>(PRICE_FILE_KEY)])
+      .then(([cache, file]) => {
+        if (cache) setPrices(cache);
+        if (file) setPriceFile(file);
+        setInitialized(true);
+      })
+      .catch(e => reportStorageError(e, 'load cached prices'));
+  }, []);
+
+  useEffect(() => {
+    if (!initialized) return;
+    setValue(CACHE_KEY, prices).catch(e => reportStorageError(e, 'save prices'));
+  }, [prices, initialized]);
+
+  // Fetch prices for every known card from a source (default: the loaded price file).
+  // Quotes from that source replace its earlier quotes; other sources' quotes are kept.
+  const fetchFrom = useCallback(async (source: PriceSource) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const quotes = await source.fetchPrices(cards.map(c => c.cardId));
+      setPrices(prev => {
+        const kept = Object.fromEntries(
+          Object.entries(prev.quotes).filter(([, quote]) => quote.source !== source.id)
+        );
+        for (const quote of quotes) {
+          kept[priceKey(quote.cardId, quote.finish)] = quote;
+        }
+        return { quotes: kept, sourceId: source.id, refreshedAt: new Date().toISOString() };
+      });
+    } catch (e) {
+      console.error('Failed to refresh prices:', e);
+      setError(`Could not refresh prices: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cards]);
+
+  const refreshPrices = useCallback(async (source?: PriceSource) => {
+    const resolved = source ?? (priceFile ? createPriceFileSource(priceFile.name, priceFile.content) : null);
+    if (!resolved) {
+      setError('No price source loaded. Import a price file first.');
+      return;
+    }
+    await fetchFrom(resolved);
+  }, [priceFile, fetchFrom]);
+
+  const loadPriceFile = useCallback(async (name: string, content: string) => {
+    const { quotes, errors } = parsePriceFile(content);
+    if (quotes.length === 0) {
+      setError(errors[0] ? `Line ${errors[0].line}: ${errors[0].message}` : 'No prices found in file');
+      return;
+    }
+
+    const file: StoredPriceFile = { name, content, loadedAt: new Date().toISOString() };
+    setPriceFile(file);
+    setValue(PRICE_FILE_KEY, file).catch(e => reportStorageError(e, 'save the price file'));
+    await fetchFrom(createPriceFileSource(name, content));
+  }, [fetchFrom]);
+
+  const clearPrices = useCallback(() => {
+    setPrices(EMPTY_CACHE);
+    setPriceFile(null);
+    setError(null);
+    deleteValue(PRICE_FILE_KEY).catch(e => reportStorageError(e, 'clear the price file'));
+  }, []);
+
+  return (
+    <PriceContext.Provider
+      value={{
+        prices,
+        priceFile: priceFile ? { name: priceFile.name, loadedAt: priceFile.loadedAt } : null,
+        isLoading,
+        error,
+        refreshPrices,
+        loadPriceFile,
+        clearPrices,
+      }}
+    >
+      {children}
+    </PriceContext.Provider>
+  );
+}
+
+export function usePrices() {
+  const context = useContext(PriceContext);
+  if (context === undefined) {
+    throw new Error('usePrices must be used within a PricesProvider');
+  }
+  return context;
+}
@@ -2,12 +2,26 @@
 // This file contains the internal card database for the scanner app.
 // You can extend this by adding more cards following the same structure.
 
+// Printing of a card; printings sharing a name each have their own card ID
+export type CardVariant = 'standard' | 'alt-art' | 'overnumbered' | 'signature' | 'showcase';
+
+export type CardType = 'Legend' | 'Unit' | 'Spell' | 'Gear' | 'Rune' | 'Battlefield' | 'Token';
+
+// The six Riftbound domains (colours)
+export type Domain = 'Fury' | 'Calm' | 'Mind' | 'Body' | 'Chaos' | 'Order';
+
 export interface CardData {
   cardId: string;        // Unique identifier (e.g., "OGN-001")
   name: string;          // Card name
   setName: string;       // Set name (e.g., "Origins")
   rarity?: string;       // Rarity level
   cardNumber?: string;   // Card number in set (e.g., "001/298")
+  variant?: CardVariant; // Absent for the standard printing
+  baseCardId?: string;   // Standard printing of a non-standard variant (e.g., "OGN-007" for "OGN-007A")
+  cardType?: CardType;
+  supertype?: string;    // e.g. "Champion", "Signature"
+  domains?: Domain[];    // Empty for colourless cards
+  tags?: string[];       // e.g. the champion a Legend, Champion unit or Signature card belongs to ("Jinx")
 }
 
 // Sample Riftbound card database - extend as needed
@@ -102,5 +116,5 @@ export function getCardsBySet(setName: string): CardData[] {
   return cardDatabase.filter(card => card.setName === setName);
 }
 
-// Card ID pattern regex (e.g., OGN-001, RFT-123)
-export const CARD_ID_PATTERN = /[A-Z]{2,4}-\d{3}/gi;
+// Card ID pattern regex (e.g., OGN-001, RFT-123, OGN-007A alt-art, OGN-301* signature)
+export const CARD_ID_PATTERN = /[A-Z]{2,4}-\d{3}(?:[A-Z](?![A-Z0-9])|\*)?/gi;
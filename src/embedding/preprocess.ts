@@ -163,3 +163,14 @@ export function getCanvasStats(canvas: HTMLCanvasElement): {
 export function canvasToDataUrl(canvas: HTMLCanvasElement, type = 'image/png'): string {
   return canvas.toDataURL(type);
 }
+
+/**
+ * Small JPEG copy of a canvas, e.g. the warped card kept with a scan for review
+ */
+export function canvasToThumbnail(canvas: HTMLCanvasElement, width = 160): string {
+  const thumb = document.createElement('canvas');
+  thumb.width = width;
+  thumb.height = Math.round(width * canvas.height / canvas.width);
+  thumb.getContext('2d')?.drawImage(canvas, 0, 0, thumb.width, thumb.height);
+  return thumb.toDataURL('image/jpeg', 0.7);
+}
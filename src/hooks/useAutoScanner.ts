@@ -19,7 +19,7 @@ const DETECTION_WINDOW_MS = 2500; // Time window for multi-frame confirmation
 const MIN_DETECTIONS_REQUIRED = 2; // Minimum detections to confirm
 const MIN_CONFIDENCE_THRESHOLD = 50; // Minimum average confidence %
 const DUPLICATE_COOLDOWN_MS = 3000; // Time before same card can be added again
-const CARD_ID_REGEX = /[A-Z]{2,4}-\d{3}/g;
+const CARD_ID_REGEX = /[A-Z]{2,4}-\d{3}(?:[A-Z](?![A-Z0-9])|\*)?/g; // Optional alt-art letter or signature star
 const FUZZY_MATCH_THRESHOLD = 0.6; // Minimum score to auto-accept
 const MULTI_ATTEMPT_COUNT = 3; // Number of OCR attempts per scan
 const MULTI_ATTEMPT_DELAY_MS = 100; // Delay between attempts
@@ -393,10 +393,10 @@ export function useAutoScanner({
         { text: '', cardId: null, confidence: 0 }
       );
 
-      // Clean the text: uppercase, only alphanumeric + dash
+      // Clean the text: uppercase, only alphanumeric + dash (and the signature star)
       const cleanedText = bestResult.text
         .toUpperCase()
-        .replace(/[^A-Z0-9\-]/g, '')
+        .replace(/[^A-Z0-9\-*]/g, '')
         .trim();
 
       // Update debug info
@@ -406,7 +406,7 @@ export function useAutoScanner({
       console.log(`[OCR] Best result: "${cleanedText}" (confidence: ${bestResult.confidence.toFixed(1)}%)`);
 
       // Extract card ID from cleaned text
-      const cardIdMatch = cleanedText.match(/[A-Z]{2,4}-\d{3}/);
+      const cardIdMatch = cleanedText.match(new RegExp(CARD_ID_REGEX.source));
       const detectedCardId = cardIdMatch ? cardIdMatch[0] : bestResult.cardId;
 
       // Always try to match and show what card we think it is
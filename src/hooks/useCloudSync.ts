@@ -0,0 +1,136 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { NamedCollection } from '@/types/collection';
+import { IncomingChanges, SyncState } from '@/types/sync';
+import { createSyncState, hasIncomingChanges, planSync } from '@/utils/cloudSync';
+import { fetchSyncedCollections, fetchSyncedEntries, pushSyncChanges } from '@/services/syncService';
+import { getValue, reportStorageError, setValue } from '@/services/storageService';
+
+const STATE_KEY = 'riftbound-sync-state';
+
+// Wait this long after the last local change before syncing it
+const SYNC_DELAY_MS = 5000;
+
+export type SyncStatus = 'idle' | 'syncing' | 'error';
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  conflicts: number;
+}
+
+interface UseCloudSyncOptions {
+  user: User | null;
+  collections: NamedCollection[];
+  isLoaded: boolean;                        // Don't sync the placeholder before collections load
+  onIncoming: (incoming: IncomingChanges) => void;
+}
+
+// Opt-in sync of every collection with the signed-in user's Supabase account
+export function useCloudSync({ user, collections, isLoaded, onIncoming }: UseCloudSyncOptions) {
+  const [state, setState] = useState<SyncState | null>(null);
+  const [status, setStatus] = useState<SyncStatus>('idle');
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [lastResult, setLastResult] = useState<SyncResult | null>(null);
+
+  // Syncs read the latest values rather than the ones captured when they started
+  const collectionsRef = useRef(collections);
+  collectionsRef.current = collections;
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const syncingRef = useRef(false);
+
+  useEffect(() => {
+    getValue<SyncState>(STATE_KEY)
+      // State saved before pulls were cursored by transaction pulls everything once
+      .then(saved => setState(saved ? { ...saved, cursor: saved.cursor ?? 0 } : createSyncState()))
+      .catch(e => {
+        reportStorageError(e, 'load the sync settings');
+        setState(createSyncState());
+      });
+  }, []);
+
+  const saveState = useCallback((next: SyncState) => {
+    setState(next);
+    setValue(STATE_KEY, next).catch(e => reportStorageError(e, 'save the sync settings'));
+  }, []);
+
+  const enabled = !!state?.enabled && !!user;
+
+  const syncNow = useCallback(async () => {
+    const current = stateRef.current;
+    if (!current || !user || syncingRef.current) return;
+    syncingRef.current = true;
+    setStatus('syncing');
+
+    // Shadows belong to one account; start over when a different user signs in
+    const base = current.userId === user.id
+      ? current
+      : { ...createSyncState(current.deviceId), enabled: current.enabled, userId: user.id };
+
+    try {
+      const remoteCollections = await fetchSyncedCollections();
+      const unseen = remoteCollections
+        .filter(c => !c.deleted && !collectionsRef.current.some(local => local.id === c.id))
+        .map(c => c.id);
+      const pulled = await fetchSyncedEntries(base.cursor, unseen);
+
+      const plan = planSync(collectionsRef.current, remoteCollections, pulled.entries, base, pulled.cursor);
+      await pushSyncChanges(plan.push.collections, plan.push.entries);
+      if (hasIncomingChanges(plan.incoming)) onIncoming(plan.incoming);
+
+      saveState(plan.state);
+      setLastResult({
+        pushed: plan.push.collections.length + plan.push.entries.length,
+        pulled: plan.incoming.created.length + plan.incoming.renamed.length + plan.incoming.deleted.length +
+          Object.values(plan.incoming.entries).reduce((sum, changes) => sum + changes.length, 0),
+        conflicts: plan.conflicts,
+      });
+      setLastError(null);
+      setStatus('idle');
+    } catch (e) {
+      setLastError(e instanceof Error ? e.message : String(e));
+      setStatus('error');
+    } finally {
+      syncingRef.current = false;
+    }
+  }, [user, onIncoming, saveState]);
+
+  const setEnabled = useCallback((value: boolean) => {
+    const current = stateRef.current;
+    if (!current) return;
+    saveState({ ...current, enabled: value });
+  }, [saveState]);
+
+  // Sync once enabled, then shortly after each local change
+  useEffect(() => {
+    if (!enabled || !isLoaded) return;
+    const timer = setTimeout(syncNow, SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [enabled, isLoaded, collections, syncNow]);
+
+  // Catch up when the app comes back online or into view
+  useEffect(() => {
+    if (!enabled || !isLoaded) return;
+    const handleVisible = () => {
+      if (document.visibilityState === 'visible') syncNow();
+    };
+    window.addEventListener('online', syncNow);
+    document.addEventListener('visibilitychange', handleVisible);
+    return () => {
+      window.removeEventListener('online', syncNow);
+      document.removeEventListener('visibilitychange', handleVisible);
+    };
+  }, [enabled, isLoaded, syncNow]);
+
+  return {
+    isReady: state !== null,
+    enabled,
+    status,
+    lastError,
+    lastResult,
+    lastSyncedAt: state?.userId === user?.id ? state?.lastSyncedAt : undefined,
+    setEnabled,
+    syncNow,
+  };
+}
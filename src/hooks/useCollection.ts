@@ -1,15 +1,93 @@
-import { useState, useCallback, useEffect } from 'react';
-import { CollectionEntry, ExportSettings } from '@/types/collection';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  CollectionEntry,
+  CopyAttributes,
+  QuantitySplit,
+  CollectionEventSource,
+  CollectionEventType,
+  CollectionHistory,
+  EntryChange,
+  ExportSettings,
+  NamedCollection,
+} from '@/types/collection';
+import { IncomingChanges } from '@/types/sync';
+import { dropStaleChanges } from '@/utils/cloudSync';
 import { CardData } from '@/data/cardDatabase';
+import {
+  createNamedCollection,
+  getUniqueCollectionName,
+  mergeCollectionEntries,
+  DEFAULT_COLLECTION_NAME,
+} from '@/utils/collectionUtils';
+import { EMPTY_HISTORY, recordEvent, jumpToPosition, applyChanges } from '@/utils/collectionHistory';
+import { addCopiesToEntry, describeAttributes, reconcileSplits, withSplits } from '@/utils/copySplits';
+import { formatCardName } from '@/utils/cardVariants';
+import { normalizeLocation, normalizeTags } from '@/utils/organization';
+import { BulkAction, applyBulkAction, describeBulkAction } from '@/utils/bulkEdit';
+import { moveFromLocalStorage, reportStorageError, setValue } from '@/services/storageService';
 
-const STORAGE_KEY = 'riftbound-collection';
+const STORAGE_KEY = 'riftbound-collections';
+const ACTIVE_KEY = 'riftbound-active-collection';
+const HISTORY_KEY = 'riftbound-collection-history';
 const SETTINGS_KEY = 'riftbound-export-settings';
+// Single-collection key used before named collections existed
+const LEGACY_STORAGE_KEY = 'riftbound-collection';
+
+// Load named collections, migrating legacy single-collection data if present
+async function loadCollections(): Promise<NamedCollection[]> {
+  const saved = await moveFromLocalStorage<NamedCollection[]>(STORAGE_KEY);
+  if (Array.isArray(saved) && saved.length > 0) {
+    return saved;
+  }
+
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (legacy) {
+    const entries = JSON.parse(legacy) as CollectionEntry[];
+    const migrated = createNamedCollection(DEFAULT_COLLECTION_NAME, Array.isArray(entries) ? entries : []);
+    await setValue(STORAGE_KEY, [migrated]);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    console.log(`[useCollection] Migrated ${migrated.entries.length} legacy entries into "${migrated.name}"`);
+    return [migrated];
+  }
+
+  return [createNamedCollection(DEFAULT_COLLECTION_NAME)];
+}
+
+async function loadHistory(): Promise<Record<string, CollectionHistory>> {
+  return (await moveFromLocalStorage<Record<string, CollectionHistory>>(HISTORY_KEY)) ?? {};
+}
+
+// Collections and their history live together so each mutation and its event are saved atomically
+interface CollectionStore {
+  collections: NamedCollection[];
+  history: Record<string, CollectionHistory>;
+}
+
+// "2 normal + 1 foil" style summary used in event descriptions
+function describeCounts(normalCount: number, foilCount: number): string {
+  const parts: string[] = [];
+  if (normalCount > 0) parts.push(`${normalCount} normal`);
+  if (foilCount > 0) parts.push(`${foilCount} foil`);
+  return parts.length > 0 ? parts.join(' + ') : '0';
+}
+
+// Display name of an entry (including its printing) for event descriptions
+function entryName(entries: CollectionEntry[], cardId: string): string {
+  const entry = entries.find(c => c.cardId === cardId);
+  return entry ? formatCardName(entry) : cardId;
+}
 
 export function useCollection() {
-  const [collection, setCollection] = useState<CollectionEntry[]>(() => {
-    // Load from localStorage on init
-    const saved = localStorage.getItem(STORAGE_KEY);
-    return saved ? JSON.parse(saved) : [];
+  // Placeholder until the stored collections have loaded from IndexedDB
+  const [store, setStore] = useState<CollectionStore>(() => ({
+    collections: [createNamedCollection(DEFAULT_COLLECTION_NAME)],
+    history: {},
+  }));
+  const [isLoaded, setIsLoaded] = useState(false);
+  const { collections } = store;
+
+  const [activeCollectionId, setActiveCollectionId] = useState<string>(() => {
+    return localStorage.getItem(ACTIVE_KEY) || '';
   });
 
   const [exportSettings, setExportSettings] = useState<ExportSettings>(() => {
@@ -20,55 +98,385 @@ export function useCollection() {
     };
   });
 
-  // Persist to localStorage
+  // Fall back to the first collection if the stored active ID is stale
+  const activeCollection = useMemo(
+    () => collections.find(c => c.id === activeCollectionId) ?? collections[0],
+    [collections, activeCollectionId]
+  );
+  const activeId = activeCollection.id;
+  const collection = activeCollection.entries;
+  const history = store.history[activeId] ?? EMPTY_HISTORY;
+
+  // Load collections and history from IndexedDB
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([loadCollections(), loadHistory()])
+      .then(([loadedCollections, loadedHistory]) => {
+        if (cancelled) return;
+        // Keep anything added before loading finished in the placeholder collection
+        setStore(prev => {
+          const pending = prev.collections[0].entries;
+          if (pending.length === 0) return { collections: loadedCollections, history: loadedHistory };
+          const [first, ...rest] = loadedCollections;
+          return {
+            collections: [{ ...first, entries: mergeCollectionEntries([first.entries, pending]) }, ...rest],
+            history: loadedHistory,
+          };
+        });
+        setIsLoaded(true);
+      })
+      // Saving stays disabled after a failed load so stored collections are never overwritten
+      .catch(e => reportStorageError(e, 'load your collections; changes will not be saved'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Persist to IndexedDB once loaded, so the placeholder never overwrites saved data
+  useEffect(() => {
+    if (!isLoaded) return;
+    setValue(STORAGE_KEY, collections).catch(e => reportStorageError(e, 'save your collection'));
+  }, [collections, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    setValue(HISTORY_KEY, store.history).catch(e => reportStorageError(e, 'save the collection history'));
+  }, [store.history, isLoaded]);
+
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(collection));
-  }, [collection]);
+    if (!isLoaded) return;
+    localStorage.setItem(ACTIVE_KEY, activeId);
+  }, [activeId, isLoaded]);
 
   useEffect(() => {
     localStorage.setItem(SETTINGS_KEY, JSON.stringify(exportSettings));
   }, [exportSettings]);
 
-  // Add a card to the collection
-  const addCard = useCallback((card: CardData, normalCount: number = 1, foilCount: number = 0) => {
-    setCollection(prev => {
+  // Apply an update to a collection's entries and record it as an event
+  const mutateCollection = useCallback((
+    collectionId: string,
+    update: (entries: CollectionEntry[]) => CollectionEntry[],
+    type: CollectionEventType,
+    source: CollectionEventSource,
+    describe: (entries: CollectionEntry[]) => string
+  ) => {
+    setStore(prev => {
+      const target = prev.collections.find(c => c.id === collectionId);
+      if (!target) return prev;
+
+      const before = target.entries;
+      const after = update(before);
+      return {
+        collections: prev.collections.map(c =>
+          c.id === collectionId
+            ? { ...c, entries: after, updatedAt: new Date().toISOString() }
+            : c
+        ),
+        history: {
+          ...prev.history,
+          [collectionId]: recordEvent(
+            prev.history[collectionId] ?? EMPTY_HISTORY,
+            before,
+            after,
+            type,
+            source,
+            describe(before)
+          ),
+        },
+      };
+    });
+  }, []);
+
+  const mutateActive = useCallback((
+    update: (entries: CollectionEntry[]) => CollectionEntry[],
+    type: CollectionEventType,
+    source: CollectionEventSource,
+    describe: (entries: CollectionEntry[]) => string
+  ) => {
+    mutateCollection(activeId, update, type, source, describe);
+  }, [activeId, mutateCollection]);
+
+  // Add a card to the collection; attributes (condition, language, grade) apply to every added copy
+  const addCard = useCallback((
+    card: CardData,
+    normalCount: number = 1,
+    foilCount: number = 0,
+    source: CollectionEventSource = 'manual',
+    attributes?: CopyAttributes
+  ) => {
+    const addCopies = (entry: CollectionEntry) =>
+      addCopiesToEntry(addCopiesToEntry(entry, 'normal', normalCount, attributes), 'foil', foilCount, attributes);
+
+    mutateActive(prev => {
       const existing = prev.find(c => c.cardId === card.cardId);
       if (existing) {
         return prev.map(c => 
           c.cardId === card.cardId 
-            ? { ...c, normalCount: c.normalCount + normalCount, foilCount: c.foilCount + foilCount }
+            ? addCopies(c)
             : c
         );
       }
-      return [...prev, { ...card, normalCount, foilCount }];
+      return [...prev, addCopies({ ...card, normalCount: 0, foilCount: 0 })];
+    }, 'add', source, () => {
+      const detail = attributes ? describeAttributes(attributes) : '';
+      return `Added ${describeCounts(normalCount, foilCount)} ${formatCardName(card)}${detail ? ` (${detail})` : ''}`;
     });
-  }, []);
+  }, [mutateActive]);
 
   // Update counts for a card
-  const updateCardCounts = useCallback((cardId: string, normalCount: number, foilCount: number) => {
-    setCollection(prev => {
+  const updateCardCounts = useCallback((
+    cardId: string,
+    normalCount: number,
+    foilCount: number,
+    source: CollectionEventSource = 'manual'
+  ) => {
+    mutateActive(prev => {
       // Remove if both counts are 0
       if (normalCount <= 0 && foilCount <= 0) {
         return prev.filter(c => c.cardId !== cardId);
       }
       return prev.map(c =>
         c.cardId === cardId
-          ? { ...c, normalCount: Math.max(0, normalCount), foilCount: Math.max(0, foilCount) }
+          ? reconcileSplits({ ...c, normalCount: Math.max(0, normalCount), foilCount: Math.max(0, foilCount) })
           : c
       );
+    }, 'update', source, (prev) => {
+      const name = entryName(prev, cardId);
+      return `Set ${name} to ${describeCounts(Math.max(0, normalCount), Math.max(0, foilCount))}`;
     });
-  }, []);
+  }, [mutateActive]);
+
+  // Replace a card's condition/language/grade breakdown (totals follow the splits)
+  const updateCardSplits = useCallback((
+    cardId: string,
+    splits: QuantitySplit[],
+    source: CollectionEventSource = 'manual'
+  ) => {
+    mutateActive(prev => prev.flatMap(c => {
+      if (c.cardId !== cardId) return [c];
+      const updated = withSplits(c, splits);
+      return updated.normalCount + updated.foilCount > 0 ? [updated] : [];
+    }), 'update', source, (prev) => `Edited copies of ${entryName(prev, cardId)}`);
+  }, [mutateActive]);
+
+  // Set where a card's copies are stored and its tags
+  const updateCardOrganization = useCallback((
+    cardId: string,
+    changes: Pick<CollectionEntry, 'location' | 'labels'>
+  ) => {
+    const location = normalizeLocation(changes.location);
+    const labels = normalizeTags(changes.labels ?? []);
+
+    mutateActive(prev => prev.map(c => {
+      if (c.cardId !== cardId) return c;
+      const { location: _location, labels: _labels, ...rest } = c;
+      return {
+        ...rest,
+        ...(location ? { location } : {}),
+        ...(labels.length > 0 ? { labels } : {}),
+      };
+    }), 'update', 'manual', (prev) => {
+      const name = entryName(prev, cardId);
+      if (prev.find(c => c.cardId === cardId)?.location === location) return `Edited tags of ${name}`;
+      return location ? `Moved ${name} to ${location}` : `Cleared location of ${name}`;
+    });
+  }, [mutateActive]);
 
   // Remove a card from collection
-  const removeCard = useCallback((cardId: string) => {
-    setCollection(prev => prev.filter(c => c.cardId !== cardId));
-  }, []);
+  const removeCard = useCallback((cardId: string, source: CollectionEventSource = 'manual') => {
+    mutateActive(
+      prev => prev.filter(c => c.cardId !== cardId),
+      'remove',
+      source,
+      (prev) => `Removed ${entryName(prev, cardId)}`
+    );
+  }, [mutateActive]);
 
   // Clear entire collection
   const clearCollection = useCallback(() => {
-    setCollection([]);
+    mutateActive(
+      () => [],
+      'clear',
+      'manual',
+      (prev) => `Cleared ${prev.length} ${prev.length === 1 ? 'card' : 'cards'}`
+    );
+  }, [mutateActive]);
+
+  // Import entries into the active collection, either adding to or replacing its contents
+  const importEntries = useCallback((entries: CollectionEntry[], mode: 'merge' | 'replace') => {
+    mutateActive(
+      prev => mode === 'replace' ? entries : mergeCollectionEntries([prev, entries]),
+      'import',
+      'import',
+      () => `${mode === 'replace' ? 'Replaced with' : 'Imported'} ${entries.length} ${entries.length === 1 ? 'card' : 'cards'}`
+    );
+  }, [mutateActive]);
+
+  // Add cards to any collection as one event, e.g. when a shared scan session is committed
+  const addEntriesToCollection = useCallback((
+    collectionId: string,
+    entries: CollectionEntry[],
+    source: CollectionEventSource,
+    description: string
+  ) => {
+    if (entries.length === 0) return;
+    mutateCollection(
+      collectionId,
+      prev => mergeCollectionEntries([prev, entries]),
+      'import',
+      source,
+      () => description
+    );
+  }, [mutateCollection]);
+
+  // Apply one batch action to several cards as a single undoable event
+  const bulkEditCards = useCallback((cardIds: string[], action: BulkAction, cards: CardData[] = []) => {
+    if (cardIds.length === 0) return;
+    mutateActive(
+      prev => applyBulkAction(prev, cardIds, action, cards),
+      action.kind === 'remove' ? 'remove' : 'update',
+      'manual',
+      () => describeBulkAction(action, cardIds.length)
+    );
+  }, [mutateActive]);
+
+  // Apply per-card changes picked from a diff or merge against another snapshot
+  const applyEntryChanges = useCallback((changes: EntryChange[], description: string) => {
+    mutateActive(
+      prev => applyChanges(prev, changes, 'redo'),
+      'import',
+      'import',
+      () => description
+    );
+  }, [mutateActive]);
+
+  // Apply changes pulled from cloud sync. Each changed collection gets one history event,
+  // so a synced change can be undone locally like any other (and the undo syncs back).
+  const applySyncedChanges = useCallback((incoming: IncomingChanges) => {
+    setStore(prev => {
+      const deleted = new Set(incoming.deleted);
+      const renamed = new Map(incoming.renamed.map(r => [r.id, r.name]));
+      const history = { ...prev.history };
+
+      let next = [
+        ...prev.collections.filter(c => !deleted.has(c.id)),
+        ...incoming.created
+          .filter(c => !prev.collections.some(existing => existing.id === c.id))
+          .map(c => ({ ...createNamedCollection(c.name), id: c.id })),
+      ].map(c => {
+        const name = renamed.get(c.id) ?? c.name;
+        // Skip cards edited here while the sync was in flight
+        const changes = dropStaleChanges(c.entries, incoming.entries[c.id] ?? []);
+        if (changes.length === 0) return name === c.name ? c : { ...c, name };
+
+        const entries = applyChanges(c.entries, changes, 'redo');
+        history[c.id] = recordEvent(
+          history[c.id] ?? EMPTY_HISTORY,
+          c.entries,
+          entries,
+          'import',
+          'sync',
+          `Synced ${changes.length} ${changes.length === 1 ? 'card' : 'cards'} from the cloud`
+        );
+        return { ...c, name, entries, updatedAt: new Date().toISOString() };
+      });
+
+      incoming.deleted.forEach(id => delete history[id]);
+      // There is always at least one collection
+      if (next.length === 0) next = [createNamedCollection(DEFAULT_COLLECTION_NAME)];
+      return { collections: next, history };
+    });
   }, []);
 
+  // Move the active collection's history cursor, resolving the target from the latest state
+  const moveHistory = useCallback((getPosition: (cursor: number) => number) => {
+    setStore(prev => {
+      const target = prev.collections.find(c => c.id === activeId);
+      const targetHistory = prev.history[activeId];
+      if (!target || !targetHistory) return prev;
+
+      const position = Math.max(0, Math.min(getPosition(targetHistory.cursor), targetHistory.events.length));
+      if (position === targetHistory.cursor) return prev;
+
+      const result = jumpToPosition(target.entries, targetHistory, position);
+      return {
+        collections: prev.collections.map(c =>
+          c.id === activeId
+            ? { ...c, entries: result.entries, updatedAt: new Date().toISOString() }
+            : c
+        ),
+        history: { ...prev.history, [activeId]: result.history },
+      };
+    });
+  }, [activeId]);
+
+  // Restore the active collection to a point in its history (0 = before the first event)
+  const jumpToHistory = useCallback((position: number) => {
+    moveHistory(() => position);
+  }, [moveHistory]);
+
+  const undo = useCallback(() => {
+    moveHistory(cursor => cursor - 1);
+  }, [moveHistory]);
+
+  const redo = useCallback(() => {
+    moveHistory(cursor => cursor + 1);
+  }, [moveHistory]);
+
+  // Create a new empty collection and make it active
+  const createCollection = useCallback((name: string) => {
+    const created = createNamedCollection(getUniqueCollectionName(name, collections));
+    setStore(prev => ({ ...prev, collections: [...prev.collections, created] }));
+    setActiveCollectionId(created.id);
+    return created;
+  }, [collections]);
+
+  const renameCollection = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setStore(prev => ({
+      ...prev,
+      collections: prev.collections.map(c =>
+        c.id === id ? { ...c, name: trimmed, updatedAt: new Date().toISOString() } : c
+      ),
+    }));
+  }, []);
+
+  const switchCollection = useCallback((id: string) => {
+    if (collections.some(c => c.id === id)) {
+      setActiveCollectionId(id);
+    }
+  }, [collections]);
+
+  // Copy a collection's entries into a new collection and make it active
+  const duplicateCollection = useCallback((id: string) => {
+    const source = collections.find(c => c.id === id);
+    if (!source) return undefined;
+    const copy = createNamedCollection(
+      getUniqueCollectionName(`${source.name} (copy)`, collections),
+      source.entries.map(e => ({ ...e }))
+    );
+    setStore(prev => ({ ...prev, collections: [...prev.collections, copy] }));
+    setActiveCollectionId(copy.id);
+    return copy;
+  }, [collections]);
+
+  // Delete a collection; the last remaining collection cannot be deleted
+  const deleteCollection = useCallback((id: string) => {
+    if (collections.length <= 1) return false;
+    const remaining = collections.filter(c => c.id !== id);
+    setStore(prev => {
+      const { [id]: _removed, ...history } = prev.history;
+      return { collections: prev.collections.filter(c => c.id !== id), history };
+    });
+    if (id === activeId) {
+      setActiveCollectionId(remaining[0].id);
+    }
+    return true;
+  }, [collections, activeId]);
+
   // Get collection stats
   const stats = {
     uniqueCards: collection.length,
@@ -78,13 +486,34 @@ export function useCollection() {
   };
 
   return {
+    isLoaded,
     collection,
+    collections,
+    activeCollection,
     exportSettings,
     setExportSettings,
     addCard,
     updateCardCounts,
+    updateCardSplits,
+    updateCardOrganization,
     removeCard,
     clearCollection,
+    importEntries,
+    addEntriesToCollection,
+    applyEntryChanges,
+    bulkEditCards,
+    applySyncedChanges,
+    createCollection,
+    renameCollection,
+    switchCollection,
+    duplicateCollection,
+    deleteCollection,
+    history,
+    undo,
+    redo,
+    canUndo: history.cursor > 0,
+    canRedo: history.cursor < history.events.length,
+    jumpToHistory,
     stats,
   };
 }
@@ -0,0 +1,78 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Deck, DeckCard, DeckZone } from '@/types/deck';
+import { createDeck, setCardQuantity } from '@/utils/deckUtils';
+import { getValue, reportStorageError, setValue } from '@/services/storageService';
+
+const STORAGE_KEY = 'riftbound-decks';
+
+export function useDecks() {
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load decks from IndexedDB
+  useEffect(() => {
+    let cancelled = false;
+
+    getValue<Deck[]>(STORAGE_KEY)
+      .then(saved => {
+        if (cancelled) return;
+        // Keep any deck created before loading finished
+        setDecks(prev => [...(Array.isArray(saved) ? saved : []), ...prev]);
+        setIsLoaded(true);
+      })
+      // Saving stays disabled after a failed load so stored decks are never overwritten
+      .catch(e => reportStorageError(e, 'load your decks; changes will not be saved'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    setValue(STORAGE_KEY, decks).catch(e => reportStorageError(e, 'save your decks'));
+  }, [decks, isLoaded]);
+
+  const updateDeck = useCallback((id: string, update: (deck: Deck) => Deck) => {
+    setDecks(prev => prev.map(d => (d.id === id ? update(d) : d)));
+  }, []);
+
+  // Create a deck and return it so the caller can open it
+  const addDeck = useCallback((name: string, main: DeckCard[] = [], sideboard: DeckCard[] = []): Deck => {
+    const deck = createDeck(name, main, sideboard);
+    setDecks(prev => [...prev, deck]);
+    return deck;
+  }, []);
+
+  const renameDeck = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    updateDeck(id, d => ({ ...d, name: trimmed, updatedAt: new Date().toISOString() }));
+  }, [updateDeck]);
+
+  const deleteDeck = useCallback((id: string) => {
+    setDecks(prev => prev.filter(d => d.id !== id));
+  }, []);
+
+  const setQuantity = useCallback((id: string, zone: DeckZone, cardId: string, quantity: number) => {
+    updateDeck(id, d => setCardQuantity(d, zone, cardId, quantity));
+  }, [updateDeck]);
+
+  // Add copies on top of what the zone already holds
+  const addToDeck = useCallback((id: string, zone: DeckZone, cardId: string, count: number = 1) => {
+    updateDeck(id, d => {
+      const current = d[zone].find(c => c.cardId === cardId)?.quantity ?? 0;
+      return setCardQuantity(d, zone, cardId, current + count);
+    });
+  }, [updateDeck]);
+
+  return {
+    decks,
+    isLoaded,
+    addDeck,
+    renameDeck,
+    deleteDeck,
+    setQuantity,
+    addToDeck,
+  };
+}
@@ -1,5 +1,6 @@
 import { useRef, useState, useCallback, useEffect } from 'react';
 import { CardData } from '@/data/cardDatabase';
+import { ScanDetails } from '@/types/scanReview';
 import { useCardEmbeddings, EmbeddedCard } from '@/contexts/CardEmbeddingContext';
 import { 
   loadOpenCV, 
@@ -14,6 +15,7 @@ import {
   cosineSimilarity,
   l2Normalize,
 } from '@/embedding/cnnEmbedding';
+import { canvasToThumbnail } from '@/embedding/preprocess';
 import { 
   multiSignalMatch, 
   quickVisualMatch,
@@ -97,7 +99,7 @@ export interface RecentScan {
 }
 
 export interface UseEmbeddingScannerOptions {
-  onCardConfirmed: (card: CardData, cardId: string) => void;
+  onCardConfirmed: (card: CardData, cardId: string, details?: ScanDetails) => void;
   enabled?: boolean;
   enableOCR?: boolean; // Enable multi-signal matching with OCR
 }
@@ -131,6 +133,7 @@ export interface UseEmbeddingScannerReturn {
   handleVideoReady: () => void;
   handleVideoError: () => void;
   confirmPendingMatch: (selectedCard?: EmbeddedCard) => void;
+  captureCardThumbnail: () => string | undefined;
   selectCandidate: (card: EmbeddedCard, score: number) => void;
   cancelPendingMatch: () => void;
   rescan: () => void;
@@ -665,6 +668,12 @@ export function useEmbeddingScanner({
     }
   }, [isStreaming, isVideoReady, isIndexReady, fullScanFrame]);
 
+  // Thumbnail of the last warped card, kept with confirmed scans for review
+  const captureCardThumbnail = useCallback(() => {
+    const canvas = lastCardCanvasRef.current;
+    return canvas && canvas.width > 0 ? canvasToThumbnail(canvas) : undefined;
+  }, []);
+
   // Confirm pending match and store feedback
   const confirmPendingMatch = useCallback((selectedCard?: EmbeddedCard) => {
     if (!pendingMatch) return;
@@ -700,7 +709,11 @@ export function useEmbeddingScanner({
       rarity: cardToConfirm.rarity,
     };
 
-    onCardConfirmed(cardData, cardToConfirm.cardId);
+    onCardConfirmed(cardData, cardToConfirm.cardId, {
+      score: pendingMatch.candidates.find(c => c.card.cardId === cardToConfirm.cardId)?.score ?? pendingMatch.score,
+      candidates: pendingMatch.candidates.map(c => ({ cardId: c.card.cardId, score: c.score })),
+      thumbnail: captureCardThumbnail(),
+    });
     setPendingMatch(null);
     
     // Record the confirm and enter cooldown
@@ -708,7 +721,7 @@ export function useEmbeddingScanner({
     setScannerState({ mode: 'COOLDOWN', cooldownUntil: Date.now() + 1500 });
     setScanStatus({ state: 'COOLDOWN' });
     predictionsRef.current = [];
-  }, [pendingMatch, onCardConfirmed]);
+  }, [pendingMatch, onCardConfirmed, captureCardThumbnail]);
 
   // Select a different candidate
   const selectCandidate = useCallback((card: EmbeddedCard, score: number) => {
@@ -779,6 +792,7 @@ export function useEmbeddingScanner({
     handleVideoReady,
     handleVideoError,
     confirmPendingMatch,
+    captureCardThumbnail,
     selectCandidate,
     cancelPendingMatch,
     rescan,
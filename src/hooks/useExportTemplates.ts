@@ -0,0 +1,45 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { CustomExportTemplate } from '@/types/export';
+import { templateToFormat } from '@/utils/exportTemplates';
+
+const STORAGE_KEY = 'riftbound-export-templates';
+
+export function useExportTemplates() {
+  const [templates, setTemplates] = useState<CustomExportTemplate[]>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+      console.warn('Failed to load export templates from localStorage:', e);
+      return [];
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  }, [templates]);
+
+  // Insert or update a template by ID
+  const saveTemplate = useCallback((template: CustomExportTemplate) => {
+    const saved = { ...template, updatedAt: new Date().toISOString() };
+    setTemplates(prev =>
+      prev.some(t => t.id === template.id)
+        ? prev.map(t => (t.id === template.id ? saved : t))
+        : [...prev, saved]
+    );
+  }, []);
+
+  const deleteTemplate = useCallback((id: string) => {
+    setTemplates(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  // Templates as export format definitions, ready to list alongside the built-in formats
+  const templateFormats = useMemo(() => templates.map(templateToFormat), [templates]);
+
+  return {
+    templates,
+    templateFormats,
+    saveTemplate,
+    deleteTemplate,
+  };
+}
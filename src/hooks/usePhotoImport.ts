@@ -0,0 +1,131 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useCardEmbeddings } from '@/contexts/CardEmbeddingContext';
+import { CardData } from '@/data/cardDatabase';
+import { CollectionEntry } from '@/types/collection';
+import { PhotoImportItem } from '@/types/photoImport';
+import { ReviewItem } from '@/types/scanReview';
+import { createId } from '@/utils/collectionUtils';
+import { identifyCardPhoto } from '@/utils/photoIdentification';
+import { createReviewItem, reviewItemsToEntries } from '@/utils/scanReview';
+
+type ResultChanges = Partial<Pick<ReviewItem, 'cardId' | 'normalCount' | 'foilCount'>>;
+
+/**
+ * Identifies cards in uploaded photos one at a time, then adds the accepted
+ * results to a collection in one step. Confident matches start out accepted;
+ * the rest wait for a check. Photos are only kept for this visit.
+ */
+export function usePhotoImport() {
+  const { cards: cardIndex } = useCardEmbeddings();
+  const [items, setItems] = useState<PhotoImportItem[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const filesRef = useRef(new Map<string, File>());
+
+  const updateItem = useCallback((id: string, changes: Partial<PhotoImportItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  }, []);
+
+  const addFiles = useCallback((files: File[]): number => {
+    const queued: PhotoImportItem[] = files
+      .filter(file => file.type.startsWith('image/'))
+      .map(file => {
+        const id = createId();
+        filesRef.current.set(id, file);
+        return { id, fileName: file.name, status: 'queued', accepted: false };
+      });
+    setItems(prev => [...prev, ...queued]);
+    return queued.length;
+  }, []);
+
+  // One photo at a time; detection, embedding and OCR are heavy enough on their own
+  useEffect(() => {
+    if (isProcessing || cardIndex.length === 0) return;
+    const next = items.find(item => item.status === 'queued');
+    if (!next) return;
+
+    const file = filesRef.current.get(next.id);
+    filesRef.current.delete(next.id);
+    if (!file) {
+      updateItem(next.id, { status: 'failed', message: 'The photo is no longer available' });
+      return;
+    }
+
+    setIsProcessing(true);
+    updateItem(next.id, { status: 'processing' });
+    identifyCardPhoto(file, cardIndex)
+      .then(({ match, cardDetected, needsConfirmation, message, ...details }) => {
+        if (!match) {
+          updateItem(next.id, { status: 'failed', cardDetected, message: 'No matching card found' });
+          return;
+        }
+        updateItem(next.id, {
+          status: 'identified',
+          message,
+          cardDetected,
+          confidence: match.confidence,
+          result: createReviewItem(match.card, 'scan', details),
+          accepted: !needsConfirmation,
+        });
+      })
+      .catch(err => {
+        console.error('[PhotoImport] Identification failed:', err);
+        updateItem(next.id, { status: 'failed', message: err instanceof Error ? err.message : 'Identification failed' });
+      })
+      .finally(() => setIsProcessing(false));
+  }, [items, isProcessing, cardIndex, updateItem]);
+
+  // Picking a different card counts as checking the result
+  const updateResult = useCallback((id: string, changes: ResultChanges) => {
+    setItems(prev => prev.map(item => item.id === id && item.result
+      ? { ...item, result: { ...item.result, ...changes }, accepted: changes.cardId !== undefined || item.accepted }
+      : item
+    ));
+  }, []);
+
+  const setAccepted = useCallback((id: string, accepted: boolean) => {
+    updateItem(id, { accepted });
+  }, [updateItem]);
+
+  const setAllAccepted = useCallback((accepted: boolean) => {
+    setItems(prev => prev.map(item => item.result ? { ...item, accepted } : item));
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    filesRef.current.delete(id);
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    filesRef.current.clear();
+    setItems(prev => prev.filter(item => item.status === 'processing'));
+  }, []);
+
+  // Hand the accepted cards to the caller to add, then drop them from the list
+  const commit = useCallback((
+    cards: CardData[],
+    add: (entries: CollectionEntry[]) => void
+  ): CollectionEntry[] => {
+    const accepted = items.filter(item => item.accepted && item.result);
+    const entries = reviewItemsToEntries(accepted.map(item => item.result!), cards);
+    if (entries.length === 0) return entries;
+
+    add(entries);
+    const committed = new Set(accepted.map(item => item.id));
+    setItems(prev => prev.filter(item => !committed.has(item.id)));
+    return entries;
+  }, [items]);
+
+  return {
+    items,
+    isProcessing,
+    isIndexReady: cardIndex.length > 0,
+    pendingCount: items.filter(item => item.status === 'queued' || item.status === 'processing').length,
+    addFiles,
+    updateResult,
+    setAccepted,
+    setAllAccepted,
+    removeItem,
+    clear,
+    commit,
+  };
+}
@@ -0,0 +1,42 @@
+import { useState, useCallback, useEffect } from 'react';
+import { SavedSearch } from '@/types/query';
+import { createId } from '@/utils/collectionUtils';
+
+const STORAGE_KEY = 'riftbound-saved-searches';
+
+export function useSavedSearches() {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+      console.warn('Failed to load saved searches from localStorage:', e);
+      return [];
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(savedSearches));
+  }, [savedSearches]);
+
+  // Saving under an existing name replaces that search's query
+  const saveSearch = useCallback((name: string, query: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || !query.trim()) return;
+    setSavedSearches(prev => {
+      const existing = prev.find(s => s.name.toLowerCase() === trimmed.toLowerCase());
+      if (existing) return prev.map(s => (s.id === existing.id ? { ...s, query } : s));
+      return [...prev, { id: createId(), name: trimmed, query, createdAt: new Date().toISOString() }];
+    });
+  }, []);
+
+  const deleteSearch = useCallback((id: string) => {
+    setSavedSearches(prev => prev.filter(s => s.id !== id));
+  }, []);
+
+  return {
+    savedSearches,
+    saveSearch,
+    deleteSearch,
+  };
+}
@@ -0,0 +1,112 @@
+import { useState, useCallback, useEffect } from 'react';
+import { CardData } from '@/data/cardDatabase';
+import { CollectionEntry, NamedCollection } from '@/types/collection';
+import { ReviewItem, ScanDetails, ScanReviewSummary } from '@/types/scanReview';
+import { MAX_REVIEW_SUMMARIES, createReviewItem, reviewItemsToEntries, summarizeReview } from '@/utils/scanReview';
+import { getValue, reportStorageError, setValue } from '@/services/storageService';
+
+const ITEMS_KEY = 'riftbound-scan-review';
+const SUMMARIES_KEY = 'riftbound-scan-review-summaries';
+const MODE_KEY = 'riftbound-scan-review-mode';
+
+/**
+ * Review mode: scans collect in a list that can be fixed before it is added to a
+ * collection in one step. The pending list survives reloads; committed sessions
+ * leave a summary behind.
+ */
+export function useScanReview() {
+  const [isEnabled, setIsEnabled] = useState(() => localStorage.getItem(MODE_KEY) === 'true');
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [summaries, setSummaries] = useState<ScanReviewSummary[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([
+      getValue<ReviewItem[]>(ITEMS_KEY),
+      getValue<ScanReviewSummary[]>(SUMMARIES_KEY),
+    ])
+      .then(([savedItems, savedSummaries]) => {
+        if (cancelled) return;
+        // Keep anything scanned before loading finished
+        setItems(prev => [...(Array.isArray(savedItems) ? savedItems : []), ...prev]);
+        setSummaries(Array.isArray(savedSummaries) ? savedSummaries : []);
+        setIsLoaded(true);
+      })
+      // Saving stays disabled after a failed load so stored scans are never overwritten
+      .catch(e => reportStorageError(e, 'load your scans awaiting review; changes will not be saved'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    setValue(ITEMS_KEY, items).catch(e => reportStorageError(e, 'save your scans awaiting review'));
+  }, [items, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    setValue(SUMMARIES_KEY, summaries).catch(e => reportStorageError(e, 'save your scan session summaries'));
+  }, [summaries, isLoaded]);
+
+  useEffect(() => {
+    localStorage.setItem(MODE_KEY, String(isEnabled));
+  }, [isEnabled]);
+
+  const addScan = useCallback((card: CardData, source: 'scan' | 'correction', details?: ScanDetails) => {
+    setItems(prev => [...prev, createReviewItem(card, source, details)]);
+  }, []);
+
+  const updateItem = useCallback((id: string, changes: Partial<Pick<ReviewItem, 'cardId' | 'normalCount' | 'foilCount'>>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const undoLastScan = useCallback(() => {
+    setItems(prev => prev.slice(0, -1));
+  }, []);
+
+  const discard = useCallback(() => {
+    setItems([]);
+  }, []);
+
+  // Hand the reviewed cards to the caller to add, then keep a summary and clear the list
+  const commit = useCallback((
+    collection: NamedCollection,
+    cards: CardData[],
+    add: (entries: CollectionEntry[]) => void
+  ): ScanReviewSummary | null => {
+    const entries = reviewItemsToEntries(items, cards);
+    if (entries.length === 0) return null;
+
+    add(entries);
+    const summary = summarizeReview(items, entries, collection);
+    setSummaries(prev => [summary, ...prev].slice(0, MAX_REVIEW_SUMMARIES));
+    setItems([]);
+    return summary;
+  }, [items]);
+
+  const deleteSummary = useCallback((id: string) => {
+    setSummaries(prev => prev.filter(s => s.id !== id));
+  }, []);
+
+  return {
+    isEnabled,
+    setIsEnabled,
+    items,
+    summaries,
+    addScan,
+    updateItem,
+    removeItem,
+    undoLastScan,
+    discard,
+    commit,
+    deleteSummary,
+  };
+}
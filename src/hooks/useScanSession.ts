@@ -0,0 +1,178 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { CardData } from '@/data/cardDatabase';
+import { ScanSession, ScanSessionMember, SessionCardTotal, SessionScan } from '@/types/scanSession';
+import { getSessionTotals, reviewScans } from '@/utils/scanSessions';
+import {
+  addSessionScan,
+  createScanSession,
+  fetchScanSession,
+  joinScanSession,
+  leaveScanSession,
+  markSessionCommitted,
+  removeSessionScan,
+  setScanCounted,
+  subscribeToScanSession,
+} from '@/services/scanSessionService';
+import { toast } from 'sonner';
+
+const SESSION_KEY = 'riftbound-scan-session';
+
+function upsertScan(scans: SessionScan[], scan: SessionScan): SessionScan[] {
+  return scans.some(s => s.id === scan.id)
+    ? scans.map(s => s.id === scan.id ? scan : s)
+    : [...scans, scan];
+}
+
+// The shared scan session this device takes part in, kept live through Supabase realtime
+export function useScanSession(user: User | null) {
+  const [sessionId, setSessionId] = useState<string | null>(() => localStorage.getItem(SESSION_KEY));
+  const [session, setSession] = useState<ScanSession | null>(null);
+  const [members, setMembers] = useState<ScanSessionMember[]>([]);
+  const [scans, setScans] = useState<SessionScan[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // This device's scans, newest last, for undo
+  const ownScansRef = useRef<string[]>([]);
+
+  const selectSession = useCallback((id: string | null) => {
+    if (id) {
+      localStorage.setItem(SESSION_KEY, id);
+    } else {
+      localStorage.removeItem(SESSION_KEY);
+    }
+    ownScansRef.current = [];
+    setSessionId(id);
+    setSession(null);
+    setMembers([]);
+    setScans([]);
+  }, []);
+
+  const load = useCallback(async (id: string) => {
+    try {
+      const loaded = await fetchScanSession(id);
+      if (!loaded) {
+        // Left on another tab or removed; forget it
+        selectSession(null);
+        return;
+      }
+      setSession(loaded.session);
+      setMembers(loaded.members);
+      setScans(loaded.scans);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : String(e));
+    }
+  }, [selectSession]);
+
+  // Load the session and follow its changes; reload when coming back online to catch up
+  useEffect(() => {
+    if (!sessionId || !user) return;
+
+    setIsLoading(true);
+    load(sessionId).finally(() => setIsLoading(false));
+
+    const unsubscribe = subscribeToScanSession(sessionId, {
+      onSession: setSession,
+      onMember: member => setMembers(prev => [...prev.filter(m => m.userId !== member.userId), member]),
+      onMemberLeft: userId => setMembers(prev => prev.filter(m => m.userId !== userId)),
+      onScan: scan => setScans(prev => upsertScan(prev, scan)),
+      onScanRemoved: scanId => setScans(prev => prev.filter(s => s.id !== scanId)),
+    });
+    const handleOnline = () => load(sessionId);
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [sessionId, user, load]);
+
+  const start = useCallback(async (name: string, displayName: string) => {
+    const id = await createScanSession(name.trim(), displayName.trim());
+    selectSession(id);
+  }, [selectSession]);
+
+  const join = useCallback(async (code: string, displayName: string) => {
+    const id = await joinScanSession(code, displayName.trim());
+    selectSession(id);
+  }, [selectSession]);
+
+  const leave = useCallback(async () => {
+    if (sessionId && user) {
+      try {
+        await leaveScanSession(sessionId, user.id);
+      } catch (e) {
+        toast.error(e instanceof Error ? e.message : String(e));
+        return;
+      }
+    }
+    selectSession(null);
+  }, [sessionId, user, selectSession]);
+
+  // Share a confirmed scan; it shows up right away and is rolled back if the upload fails
+  const recordScan = useCallback((card: CardData) => {
+    if (!sessionId || !user) return;
+    const scan: SessionScan = {
+      id: crypto.randomUUID(),
+      cardId: card.cardId,
+      scannedBy: user.id,
+      scannedAt: new Date().toISOString(),
+      counted: null,
+    };
+    ownScansRef.current.push(scan.id);
+    setScans(prev => upsertScan(prev, scan));
+
+    addSessionScan(sessionId, scan).catch(e => {
+      ownScansRef.current = ownScansRef.current.filter(id => id !== scan.id);
+      setScans(prev => prev.filter(s => s.id !== scan.id));
+      toast.error(e instanceof Error ? e.message : String(e));
+    });
+  }, [sessionId, user]);
+
+  // Take back this device's latest scan
+  const undoLastScan = useCallback(() => {
+    const scanId = ownScansRef.current.pop();
+    if (!scanId) return;
+    setScans(prev => prev.filter(s => s.id !== scanId));
+    removeSessionScan(scanId).catch(e => {
+      toast.error(e instanceof Error ? e.message : String(e));
+      if (sessionId) load(sessionId);
+    });
+  }, [sessionId, load]);
+
+  const setCounted = useCallback((scanId: string, counted: boolean | null) => {
+    setScans(prev => prev.map(s => s.id === scanId ? { ...s, counted } : s));
+    setScanCounted(scanId, counted).catch(e => {
+      toast.error(e instanceof Error ? e.message : String(e));
+      if (sessionId) load(sessionId);
+    });
+  }, [sessionId, load]);
+
+  const reviewedScans = useMemo(() => reviewScans(scans), [scans]);
+  const totals = useMemo(() => getSessionTotals(reviewedScans), [reviewedScans]);
+
+  // Close the session for everyone, then hand its totals to the caller to add.
+  // Closing first means two members committing at once can't both add the cards.
+  const commit = useCallback(async (apply: (totals: SessionCardTotal[]) => void) => {
+    if (!sessionId || !user) return;
+    await markSessionCommitted(sessionId, user.id);
+    apply(totals);
+    setSession(prev => prev && { ...prev, committedAt: new Date().toISOString(), committedBy: user.id });
+  }, [sessionId, user, totals]);
+
+  return {
+    isActive: !!sessionId && !!user,
+    isLoading,
+    session,
+    members,
+    scans: reviewedScans,
+    totals,
+    isOpen: !!session && !session.committedAt,
+    start,
+    join,
+    leave,
+    recordScan,
+    undoLastScan,
+    setCounted,
+    commit,
+  };
+}
@@ -0,0 +1,85 @@
+import { useState, useCallback, useEffect } from 'react';
+import { CollectionEntry } from '@/types/collection';
+import { CardData } from '@/data/cardDatabase';
+import { mergeCollectionEntries } from '@/utils/collectionUtils';
+import { DEFAULT_KEEP_COUNT } from '@/utils/trading';
+import { getValue, reportStorageError, setValue } from '@/services/storageService';
+
+const WANTS_KEY = 'riftbound-wants';
+const KEEP_COUNT_KEY = 'riftbound-trade-keep-count';
+
+/**
+ * The wants list (cards wanted, with normal/foil counts) and how many copies of
+ * each card to keep before the rest count as tradeable extras
+ */
+export function useTradeLists() {
+  const [wants, setWants] = useState<CollectionEntry[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const [keepCount, setKeepCount] = useState<number>(() => {
+    const saved = parseInt(localStorage.getItem(KEEP_COUNT_KEY) ?? '', 10);
+    return Number.isFinite(saved) && saved >= 0 ? saved : DEFAULT_KEEP_COUNT;
+  });
+
+  // Load the wants list from IndexedDB
+  useEffect(() => {
+    let cancelled = false;
+
+    getValue<CollectionEntry[]>(WANTS_KEY)
+      .then(saved => {
+        if (cancelled) return;
+        // Keep anything added before loading finished
+        setWants(prev => mergeCollectionEntries([Array.isArray(saved) ? saved : [], prev]));
+        setIsLoaded(true);
+      })
+      // Saving stays disabled after a failed load so the stored list is never overwritten
+      .catch(e => reportStorageError(e, 'load your wants list; changes will not be saved'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    setValue(WANTS_KEY, wants).catch(e => reportStorageError(e, 'save your wants list'));
+  }, [wants, isLoaded]);
+
+  useEffect(() => {
+    localStorage.setItem(KEEP_COUNT_KEY, String(keepCount));
+  }, [keepCount]);
+
+  const addWant = useCallback((card: CardData, normalCount: number = 1, foilCount: number = 0) => {
+    setWants(prev => mergeCollectionEntries([prev, [{ ...card, normalCount, foilCount }]]));
+  }, []);
+
+  // Set wanted counts; zero of both removes the card
+  const updateWantCounts = useCallback((cardId: string, normalCount: number, foilCount: number) => {
+    const normal = Math.max(0, normalCount);
+    const foil = Math.max(0, foilCount);
+    setWants(prev =>
+      normal + foil === 0
+        ? prev.filter(w => w.cardId !== cardId)
+        : prev.map(w => (w.cardId === cardId ? { ...w, normalCount: normal, foilCount: foil } : w))
+    );
+  }, []);
+
+  const removeWant = useCallback((cardId: string) => {
+    setWants(prev => prev.filter(w => w.cardId !== cardId));
+  }, []);
+
+  const importWants = useCallback((entries: CollectionEntry[], mode: 'merge' | 'replace') => {
+    setWants(prev => (mode === 'replace' ? entries : mergeCollectionEntries([prev, entries])));
+  }, []);
+
+  return {
+    wants,
+    isLoaded,
+    keepCount,
+    setKeepCount,
+    addWant,
+    updateWantCounts,
+    removeWant,
+    importWants,
+  };
+}
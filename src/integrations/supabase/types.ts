@@ -24,6 +24,7 @@ export type Database = {
           ocr_text: string | null
           scan_timestamp: string
           user_corrected_to: string | null
+          user_id: string | null
           visual_embedding: Json | null
           visual_score: number | null
           was_correct: boolean | null
@@ -37,6 +38,7 @@ export type Database = {
           ocr_text?: string | null
           scan_timestamp?: string
           user_corrected_to?: string | null
+          user_id?: string | null
           visual_embedding?: Json | null
           visual_score?: number | null
           was_correct?: boolean | null
@@ -50,6 +52,7 @@ export type Database = {
           ocr_text?: string | null
           scan_timestamp?: string
           user_corrected_to?: string | null
+          user_id?: string | null
           visual_embedding?: Json | null
           visual_score?: number | null
           was_correct?: boolean | null
@@ -95,9 +98,185 @@ export type Database = {
         }
         Relationships: []
       }
+      scan_session_join_failures: {
+        Row: {
+          attempted_at: string
+          user_id: string
+        }
+        Insert: {
+          attempted_at?: string
+          user_id: string
+        }
+        Update: {
+          attempted_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      scan_session_members: {
+        Row: {
+          display_name: string
+          joined_at: string
+          session_id: string
+          user_id: string
+        }
+        Insert: {
+          display_name: string
+          joined_at?: string
+          session_id: string
+          user_id?: string
+        }
+        Update: {
+          display_name?: string
+          joined_at?: string
+          session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scan_session_members_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "scan_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scan_session_scans: {
+        Row: {
+          card_id: string
+          counted: boolean | null
+          id: string
+          scanned_at: string
+          scanned_by: string
+          session_id: string
+        }
+        Insert: {
+          card_id: string
+          counted?: boolean | null
+          id?: string
+          scanned_at?: string
+          scanned_by?: string
+          session_id: string
+        }
+        Update: {
+          card_id?: string
+          counted?: boolean | null
+          id?: string
+          scanned_at?: string
+          scanned_by?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scan_session_scans_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "scan_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scan_sessions: {
+        Row: {
+          code: string
+          committed_at: string | null
+          committed_by: string | null
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+        }
+        Insert: {
+          code: string
+          committed_at?: string | null
+          committed_by?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          code?: string
+          committed_at?: string | null
+          committed_by?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      sync_collection_entries: {
+        Row: {
+          card_id: string
+          clock: number
+          collection_id: string
+          device_id: string
+          entry: Json | null
+          txid: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          card_id: string
+          clock: number
+          collection_id: string
+          device_id: string
+          entry?: Json | null
+          txid?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          card_id?: string
+          clock?: number
+          collection_id?: string
+          device_id?: string
+          entry?: Json | null
+          txid?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sync_collections: {
+        Row: {
+          clock: number
+          deleted: boolean
+          device_id: string
+          id: string
+          name: string
+          txid: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          clock: number
+          deleted?: boolean
+          device_id: string
+          id: string
+          name: string
+          txid?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          clock?: number
+          deleted?: boolean
+          device_id?: string
+          id?: string
+          name?: string
+          txid?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       training_images: {
         Row: {
           card_id: string
+          contributed_by: string | null
           created_at: string
           id: string
           image_url: string
@@ -106,6 +285,7 @@ export type Database = {
         }
         Insert: {
           card_id: string
+          contributed_by?: string | null
           created_at?: string
           id?: string
           image_url: string
@@ -114,6 +294,7 @@ export type Database = {
         }
         Update: {
           card_id?: string
+          contributed_by?: string | null
           created_at?: string
           id?: string
           image_url?: string
@@ -122,15 +303,81 @@ export type Database = {
         }
         Relationships: []
       }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      create_scan_session: {
+        Args: { _display_name: string; _name: string }
+        Returns: string
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_scan_session_member: {
+        Args: { _session_id: string }
+        Returns: boolean
+      }
+      join_scan_session: {
+        Args: { _code: string; _display_name: string }
+        Returns: string
+      }
+      new_scan_session_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      pull_sync_entries: {
+        Args: {
+          _after_card_id: string
+          _after_collection_id: string
+          _after_txid: number
+          _full_collection_ids: string[]
+          _limit: number
+          _since_txid: number
+        }
+        Returns: {
+          card_id: string
+          clock: number
+          collection_id: string
+          device_id: string
+          entry: Json
+          safe_txid: number
+          txid: number
+        }[]
+      }
+      push_sync_changes: {
+        Args: { collections: Json; entries: Json }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -257,6 +504,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin"],
+    },
   },
 } as const
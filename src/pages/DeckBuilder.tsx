@@ -0,0 +1,488 @@
+import { useState, useMemo } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Plus, Minus, Trash2, Pencil, Check, X, Swords, ShoppingCart, AlertTriangle, ShieldCheck, ShieldAlert, Share2, MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CardSearch } from '@/components/CardSearch';
+import { VariantBadge } from '@/components/VariantBadge';
+import { ListExportControls } from '@/components/ListExportControls';
+import { PickList } from '@/components/PickList';
+import { DeckImportPanel } from '@/components/DeckImportPanel';
+import { useCollection } from '@/hooks/useCollection';
+import { useDecks } from '@/hooks/useDecks';
+import { useCardDatabase } from '@/contexts/CardDatabaseContext';
+import { CardData } from '@/data/cardDatabase';
+import { CollectionEntry, ExportSettings, NamedCollection } from '@/types/collection';
+import { Deck, DeckCard, DeckList, DeckRequirement, DeckZone } from '@/types/deck';
+import { mergeCollectionEntries } from '@/utils/collectionUtils';
+import { DECK_ZONES, computeDeckRequirements, getZoneCount, shortfallToEntries } from '@/utils/deckUtils';
+import { DeckValidation, validateDeck } from '@/utils/deckRules';
+import { formatCardName } from '@/utils/cardVariants';
+import { copyShareLink } from '@/utils/shareCodes';
+import { buildPickList } from '@/utils/organization';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+// Check a deck against every collection merged together
+const ALL_COLLECTIONS = '__all__';
+
+const DeckBuilder = () => {
+  const { deckId } = useParams<{ deckId: string }>();
+  const navigate = useNavigate();
+  const { decks, isLoaded, addDeck, renameDeck, deleteDeck, setQuantity, addToDeck } = useDecks();
+  // The page's only collection store; children get what they need as props
+  const { collections, activeCollection, exportSettings } = useCollection();
+  const [newDeckName, setNewDeckName] = useState('');
+
+  const deck = deckId ? decks.find(d => d.id === deckId) : undefined;
+
+  const handleCreate = () => {
+    const created = addDeck(newDeckName);
+    setNewDeckName('');
+    navigate(`/decks/${created.id}`);
+  };
+
+  const handleImport = (name: string, list: DeckList) => {
+    const created = addDeck(name, list.main, list.sideboard);
+    toast.success(`Imported "${created.name}"`);
+    navigate(`/decks/${created.id}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="sticky top-0 z-40 bg-background/95 backdrop-blur border-b border-border">
+        <div className="container py-3 px-4">
+          <div className="flex items-center gap-3">
+            <Link to={deckId ? '/decks' : '/'}>
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+            </Link>
+            <div className="min-w-0">
+              <h1 className="text-lg font-bold text-gradient truncate">{deck?.name ?? 'Decks'}</h1>
+              <p className="text-xs text-muted-foreground">
+                {deck ? 'Check the deck against your collection' : 'Build decks and see which cards you still need'}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 container px-4 py-4 space-y-6">
+        {!deckId && (
+          <>
+            <div className="flex gap-2">
+              <Input
+                value={newDeckName}
+                onChange={(e) => setNewDeckName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                placeholder="New deck name..."
+                className="h-9"
+              />
+              <Button variant="default" size="sm" className="h-9" onClick={handleCreate}>
+                <Plus className="w-4 h-4" />
+                New Deck
+              </Button>
+            </div>
+
+            {decks.length === 0 ? (
+              <div className="text-center py-12 px-4">
+                <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
+                  <Swords className="w-8 h-8 text-muted-foreground" />
+                </div>
+                <p className="text-muted-foreground">No decks yet</p>
+                <p className="text-sm text-muted-foreground/70 mt-1">Create a deck to check it against your collection</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {decks.map((d) => (
+                  <Link key={d.id} to={`/decks/${d.id}`} className="block glass-card p-3 hover:bg-muted/30 transition-colors">
+                    <p className="font-medium text-foreground truncate">{d.name}</p>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {getZoneCount(d, 'main')} main • {getZoneCount(d, 'sideboard')} sideboard
+                    </p>
+                  </Link>
+                ))}
+              </div>
+            )}
+
+            <DeckImportPanel collections={collections} exportSettings={exportSettings} onCreate={handleImport} />
+          </>
+        )}
+
+        {deckId && deck && (
+          <DeckEditor
+            deck={deck}
+            collections={collections}
+            activeCollection={activeCollection}
+            exportSettings={exportSettings}
+            onRename={(name) => renameDeck(deck.id, name)}
+            onDelete={() => {
+              deleteDeck(deck.id);
+              toast.success(`Deleted "${deck.name}"`);
+              navigate('/decks');
+            }}
+            onSetQuantity={(zone, cardId, quantity) => setQuantity(deck.id, zone, cardId, quantity)}
+            onAdd={(zone, cardId) => addToDeck(deck.id, zone, cardId)}
+          />
+        )}
+
+        {deckId && !deck && isLoaded && (
+          <div className="text-center py-12 px-4">
+            <p className="text-muted-foreground">Deck not found</p>
+            <Link to="/decks" className="text-sm text-primary mt-1 inline-block">Back to decks</Link>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+interface DeckEditorProps {
+  deck: Deck;
+  collections: NamedCollection[];
+  activeCollection: NamedCollection;
+  exportSettings: ExportSettings;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onSetQuantity: (zone: DeckZone, cardId: string, quantity: number) => void;
+  onAdd: (zone: DeckZone, cardId: string) => void;
+}
+
+function DeckEditor({
+  deck,
+  collections,
+  activeCollection,
+  exportSettings,
+  onRename,
+  onDelete,
+  onSetQuantity,
+  onAdd,
+}: DeckEditorProps) {
+  const { cards } = useCardDatabase();
+  const [sourceId, setSourceId] = useState<string>(ALL_COLLECTIONS);
+  const [zone, setZone] = useState<DeckZone>('main');
+  const [nameInput, setNameInput] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Entries the deck is checked against (one collection or all merged)
+  const collection = useMemo<CollectionEntry[]>(() => {
+    if (sourceId === ALL_COLLECTIONS) {
+      return mergeCollectionEntries(collections.map(c => c.entries));
+    }
+    return (collections.find(c => c.id === sourceId) ?? activeCollection).entries;
+  }, [collections, sourceId, activeCollection]);
+
+  const requirements = useMemo(
+    () => computeDeckRequirements(deck, cards, collection),
+    [deck, cards, collection]
+  );
+  const byId = useMemo(() => new Map(requirements.map(r => [r.cardId, r])), [requirements]);
+  const shortfall = useMemo(() => shortfallToEntries(requirements), [requirements]);
+  // Owned copies of the deck's cards, by where they are stored
+  const pickList = useMemo(
+    () => buildPickList(requirements.map(r => ({ cardId: r.cardId, count: Math.min(r.required, r.owned) })), collection),
+    [requirements, collection]
+  );
+  const validation = useMemo(() => validateDeck(deck, cards), [deck, cards]);
+  // Cards named by an error, highlighted in the lists
+  const flagged = useMemo(
+    () => new Set(validation.violations.filter(v => v.severity === 'error').flatMap(v => v.cardIds)),
+    [validation]
+  );
+
+  const required = requirements.reduce((sum, r) => sum + r.required, 0);
+  const missing = requirements.reduce((sum, r) => sum + r.missing, 0);
+  const percent = required === 0 ? 0 : Math.round(((required - missing) / required) * 100);
+  const fileSlug = deck.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+  const handleAdd = (card: CardData) => {
+    onAdd(zone, card.cardId);
+    toast.success(`Added ${formatCardName(card)} to ${zone === 'main' ? 'main deck' : 'sideboard'}`);
+  };
+
+  const handleShare = async () => {
+    const copied = await copyShareLink({ kind: 'deck', name: deck.name, main: deck.main, sideboard: deck.sideboard });
+    if (copied) {
+      toast.success('Share link copied to clipboard');
+    } else {
+      toast.error('Failed to copy to clipboard');
+    }
+  };
+
+  const handleRename = () => {
+    if (nameInput?.trim()) onRename(nameInput);
+    setNameInput(null);
+  };
+
+  return (
+    <div className="space-y-6 animate-in">
+      {/* Name, collection source and ownership summary */}
+      <div className="glass-card p-4 space-y-3">
+        {nameInput === null ? (
+          <div className="flex items-center gap-2">
+            <h2 className="flex-1 min-w-0 text-base font-semibold text-foreground truncate">{deck.name}</h2>
+            <Button variant="ghost" size="icon-sm" onClick={handleShare} title="Copy share link">
+              <Share2 className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon-sm" onClick={() => setNameInput(deck.name)} title="Rename deck">
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => setConfirmDelete(true)}
+              className="text-muted-foreground hover:text-destructive"
+              title="Delete deck"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Input
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+              className="h-9"
+              autoFocus
+            />
+            <Button variant="ghost" size="icon-sm" onClick={handleRename}>
+              <Check className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon-sm" onClick={() => setNameInput(null)}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+
+        {confirmDelete && (
+          <div className="flex items-center gap-2 p-2 rounded-md bg-destructive/10 text-sm">
+            <span className="flex-1 text-destructive">Delete this deck?</span>
+            <Button variant="ghost" size="sm" onClick={() => setConfirmDelete(false)}>Cancel</Button>
+            <Button variant="destructive" size="sm" onClick={onDelete}>Delete</Button>
+          </div>
+        )}
+
+        <Select value={sourceId} onValueChange={setSourceId}>
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_COLLECTIONS}>All collections</SelectItem>
+            {collections.map((c) => (
+              <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">
+              {getZoneCount(deck, 'main')} main • {getZoneCount(deck, 'sideboard')} sideboard
+            </span>
+            <span className={cn("font-medium", missing > 0 ? "text-destructive" : "text-success")}>
+              {missing > 0 ? `${missing} missing` : required > 0 ? 'All owned' : ''}
+            </span>
+          </div>
+          <Progress value={percent} className="h-2" />
+        </div>
+      </div>
+
+      <DeckValidationPanel validation={validation} />
+
+      {/* Add cards */}
+      <section className="space-y-2">
+        <div className="flex gap-2">
+          {DECK_ZONES.map(({ value, label }) => (
+            <Button
+              key={value}
+              variant={zone === value ? 'default' : 'outline'}
+              size="sm"
+              className="flex-1"
+              onClick={() => setZone(value)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <CardSearch onCardSelect={handleAdd} />
+      </section>
+
+      {DECK_ZONES.map(({ value, label }) => (
+        <DeckZoneList
+          key={value}
+          label={label}
+          entries={deck[value]}
+          requirements={byId}
+          flagged={flagged}
+          onSetQuantity={(cardId, quantity) => onSetQuantity(value, cardId, quantity)}
+        />
+      ))}
+
+      {/* Where to pull the owned copies from */}
+      {pickList.length > 0 && (
+        <section className="glass-card p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <MapPin className="w-4 h-4 text-primary" />
+            <h3 className="text-sm font-medium text-foreground flex-1">Pick List</h3>
+            <span className="text-xs text-muted-foreground">{required - missing} copies</span>
+          </div>
+          <PickList items={pickList} title={`Pick list: ${deck.name}`} fileName={`pick-${fileSlug}`} />
+        </section>
+      )}
+
+      {/* Shortfall shopping list */}
+      {shortfall.length > 0 && (
+        <section className="glass-card p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <ShoppingCart className="w-4 h-4 text-primary" />
+            <h3 className="text-sm font-medium text-foreground flex-1">Shopping List</h3>
+            <span className="text-xs text-muted-foreground">{missing} copies</span>
+          </div>
+          <div className="space-y-1">
+            {shortfall.map((entry) => (
+              <div key={entry.cardId} className="flex items-center gap-2 px-2 py-1 rounded bg-muted/30 text-xs">
+                <span className="w-8 font-mono text-destructive shrink-0">{entry.normalCount}×</span>
+                <span className="flex-1 min-w-0 truncate text-foreground">{entry.name}</span>
+                <span className="font-mono text-muted-foreground shrink-0">{entry.cardId}</span>
+              </div>
+            ))}
+          </div>
+          <ListExportControls
+            entries={shortfall}
+            exportSettings={exportSettings}
+            fileName={`shopping-${fileSlug}`}
+            itemLabel="cards to buy"
+          />
+        </section>
+      )}
+    </div>
+  );
+}
+
+interface DeckZoneListProps {
+  label: string;
+  entries: DeckCard[];
+  requirements: Map<string, DeckRequirement>;
+  flagged: Set<string>;
+  onSetQuantity: (cardId: string, quantity: number) => void;
+}
+
+function DeckZoneList({ label, entries, requirements, flagged, onSetQuantity }: DeckZoneListProps) {
+  const count = entries.reduce((sum, c) => sum + c.quantity, 0);
+
+  return (
+    <section className="space-y-2">
+      <h2 className="text-base font-semibold text-foreground">
+        {label} <span className="text-sm font-normal text-muted-foreground">({count})</span>
+      </h2>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No cards yet. Search above to add some.</p>
+      ) : (
+        entries.map(({ cardId, quantity }) => {
+          const requirement = requirements.get(cardId);
+          const card = requirement?.card;
+          const short = (requirement?.missing ?? 0) > 0;
+          return (
+            <div
+              key={cardId}
+              className={cn("glass-card p-3 flex items-center gap-2", short && "border-destructive/50")}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-foreground truncate">{card?.name ?? cardId}</span>
+                  {card && <VariantBadge card={card} />}
+                  {flagged.has(cardId) && <AlertTriangle className="w-3.5 h-3.5 text-destructive shrink-0" />}
+                </div>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground mt-0.5">
+                  <span className="font-mono">{cardId}</span>
+                  {card?.cardType && (
+                    <>
+                      <span>•</span>
+                      <span>{card.supertype ? `${card.supertype} ${card.cardType}` : card.cardType}</span>
+                    </>
+                  )}
+                  <span>•</span>
+                  <span className={cn(short ? "text-destructive" : "text-success")}>
+                    {short && <AlertTriangle className="w-3 h-3 inline mr-1 -mt-0.5" />}
+                    Own {requirement?.owned ?? 0} of {requirement?.required ?? quantity}
+                  </span>
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  className="h-7 w-7"
+                  onClick={() => onSetQuantity(cardId, quantity - 1)}
+                >
+                  <Minus className="w-3 h-3" />
+                </Button>
+                <span className="w-6 text-center font-mono text-sm">{quantity}</span>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  className="h-7 w-7"
+                  onClick={() => onSetQuantity(cardId, quantity + 1)}
+                >
+                  <Plus className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </section>
+  );
+}
+
+// Construction rule violations, errors first
+function DeckValidationPanel({ validation }: { validation: DeckValidation }) {
+  const sorted = [...validation.violations].sort((a, b) =>
+    a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1
+  );
+
+  return (
+    <section className="glass-card p-4 space-y-2">
+      <div className="flex items-center gap-2">
+        {validation.valid ? (
+          <ShieldCheck className="w-4 h-4 text-success" />
+        ) : (
+          <ShieldAlert className="w-4 h-4 text-destructive" />
+        )}
+        <h3 className="text-sm font-medium text-foreground flex-1">
+          {validation.valid ? 'Deck is legal' : 'Deck is not legal yet'}
+        </h3>
+      </div>
+      {sorted.length > 0 && (
+        <ul className="space-y-1">
+          {sorted.map((violation, i) => (
+            <li
+              key={`${violation.rule}-${i}`}
+              className={cn(
+                "text-xs flex items-start gap-1.5",
+                violation.severity === 'error' ? "text-destructive" : "text-muted-foreground"
+              )}
+            >
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+              {violation.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+export default DeckBuilder;
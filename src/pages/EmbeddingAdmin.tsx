@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
+import { AdminGate } from '@/components/AdminGate';
 import { toast } from 'sonner';
 import {
   loadEmbeddingModel,
@@ -307,92 +308,94 @@ const EmbeddingAdmin = () => {
         </Card>
 
         {/* Processing Controls */}
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-base">Rebuild Embeddings</CardTitle>
-            <CardDescription>Compute CNN embeddings from card art</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {!isProcessing ? (
-              <div className="flex gap-2 flex-wrap">
-                <Button
-                  onClick={() => rebuildEmbeddings(true)}
-                  disabled={!modelLoaded || loadingCards || cardsMissingEmbedding === 0}
-                >
-                  <Play className="w-4 h-4 mr-2" />
-                  Rebuild Missing ({cardsMissingEmbedding})
-                </Button>
-                <Button
-                  variant="outline"
-                  onClick={() => rebuildEmbeddings(false)}
-                  disabled={!modelLoaded || loadingCards || totalCards === 0}
-                >
-                  <RefreshCw className="w-4 h-4 mr-2" />
-                  Rebuild All ({totalCards})
-                </Button>
-              </div>
-            ) : (
-              <div className="space-y-4">
-                {/* Progress */}
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span>Processing: {currentCard || '...'}</span>
-                    <span>{processedCount + failedCount} / {cardsMissingEmbedding || totalCards}</span>
-                  </div>
-                  <Progress value={progressPercent} />
-                </div>
-                
-                {/* Stats */}
-                <div className="flex gap-4 text-sm">
-                  <span className="text-green-400">✓ {processedCount} processed</span>
-                  {failedCount > 0 && (
-                    <span className="text-red-400">✗ {failedCount} failed</span>
-                  )}
-                </div>
-                
-                {/* Controls */}
-                <div className="flex gap-2">
+        <AdminGate action="rebuild embeddings">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Rebuild Embeddings</CardTitle>
+              <CardDescription>Compute CNN embeddings from card art</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!isProcessing ? (
+                <div className="flex gap-2 flex-wrap">
                   <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={togglePause}
+                    onClick={() => rebuildEmbeddings(true)}
+                    disabled={!modelLoaded || loadingCards || cardsMissingEmbedding === 0}
                   >
-                    {isPaused ? (
-                      <>
-                        <Play className="w-4 h-4 mr-2" />
-                        Resume
-                      </>
-                    ) : (
-                      <>
-                        <Pause className="w-4 h-4 mr-2" />
-                        Pause
-                      </>
-                    )}
+                    <Play className="w-4 h-4 mr-2" />
+                    Rebuild Missing ({cardsMissingEmbedding})
                   </Button>
                   <Button
-                    variant="destructive"
-                    size="sm"
-                    onClick={stopProcessing}
+                    variant="outline"
+                    onClick={() => rebuildEmbeddings(false)}
+                    disabled={!modelLoaded || loadingCards || totalCards === 0}
                   >
-                    Stop
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Rebuild All ({totalCards})
                   </Button>
                 </div>
-              </div>
-            )}
-            
-            {/* Errors */}
-            {errors.length > 0 && (
-              <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20">
-                <p className="text-xs font-medium text-red-400 mb-2">Recent Errors:</p>
-                <div className="space-y-1">
-                  {errors.slice(-5).map((err, i) => (
-                    <p key={i} className="text-xs text-muted-foreground font-mono">{err}</p>
-                  ))}
+              ) : (
+                <div className="space-y-4">
+                  {/* Progress */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span>Processing: {currentCard || '...'}</span>
+                      <span>{processedCount + failedCount} / {cardsMissingEmbedding || totalCards}</span>
+                    </div>
+                    <Progress value={progressPercent} />
+                  </div>
+                  
+                  {/* Stats */}
+                  <div className="flex gap-4 text-sm">
+                    <span className="text-green-400">✓ {processedCount} processed</span>
+                    {failedCount > 0 && (
+                      <span className="text-red-400">✗ {failedCount} failed</span>
+                    )}
+                  </div>
+                  
+                  {/* Controls */}
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={togglePause}
+                    >
+                      {isPaused ? (
+                        <>
+                          <Play className="w-4 h-4 mr-2" />
+                          Resume
+                        </>
+                      ) : (
+                        <>
+                          <Pause className="w-4 h-4 mr-2" />
+                          Pause
+                        </>
+                      )}
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={stopProcessing}
+                    >
+                      Stop
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+              )}
+              
+              {/* Errors */}
+              {errors.length > 0 && (
+                <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20">
+                  <p className="text-xs font-medium text-red-400 mb-2">Recent Errors:</p>
+                  <div className="space-y-1">
+                    {errors.slice(-5).map((err, i) => (
+                      <p key={i} className="text-xs text-muted-foreground font-mono">{err}</p>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </AdminGate>
 
         {/* Info */}
         <Card>
@@ -1,22 +1,47 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useMemo } from 'react';
 import { Link } from 'react-router-dom';
-import { ScanLine, ListChecks, Download, Trash2, AlertTriangle, Settings, Database } from 'lucide-react';
+import { ScanLine, ListChecks, Download, Trash2, AlertTriangle, Settings, Database, Trophy, Swords, Share2, ArrowLeftRight, BarChart3 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
 import { AutoCardScanner } from '@/components/AutoCardScanner';
 import { CardSearch } from '@/components/CardSearch';
 import { AddCardDialog } from '@/components/AddCardDialog';
 import { CollectionList } from '@/components/CollectionList';
+import { CollectionSwitcher } from '@/components/CollectionSwitcher';
+import { CollectionHistoryPanel } from '@/components/CollectionHistoryPanel';
 import { ExportPanel } from '@/components/ExportPanel';
+import { ImportPanel } from '@/components/ImportPanel';
+import { CollectionMergePanel } from '@/components/CollectionMergePanel';
+import { SetCompletionPanel } from '@/components/SetCompletionPanel';
+import { CollectionStatsPanel } from '@/components/CollectionStatsPanel';
+import { WantsListPanel } from '@/components/WantsListPanel';
+import { TradePanel } from '@/components/TradePanel';
 import { CardDatabaseStatus } from '@/components/CardDatabaseStatus';
+import { PriceSourcePanel } from '@/components/PriceSourcePanel';
+import { CloudSyncPanel } from '@/components/CloudSyncPanel';
+import { ScanSessionPanel } from '@/components/ScanSessionPanel';
+import { ScanReviewPanel } from '@/components/ScanReviewPanel';
+import { PhotoImportPanel } from '@/components/PhotoImportPanel';
 import { useCollection } from '@/hooks/useCollection';
+import { useTradeLists } from '@/hooks/useTradeLists';
+import { useCloudSync } from '@/hooks/useCloudSync';
+import { useScanSession } from '@/hooks/useScanSession';
+import { useScanReview } from '@/hooks/useScanReview';
+import { usePhotoImport } from '@/hooks/usePhotoImport';
 import { useCardDatabase } from '@/contexts/CardDatabaseContext';
+import { usePrices } from '@/contexts/PriceContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { CardData } from '@/data/cardDatabase';
+import { CopyAttributes } from '@/types/collection';
+import { ScanDetails } from '@/types/scanReview';
+import { formatCardName } from '@/utils/cardVariants';
+import { sessionTotalsToEntries } from '@/utils/scanSessions';
+import { formatPrice, getCollectionValue } from '@/utils/pricing';
+import { copyShareLink } from '@/utils/shareCodes';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 
-
-
-type Tab = 'scan' | 'collection' | 'export' | 'settings';
+type Tab = 'scan' | 'collection' | 'sets' | 'stats' | 'trade' | 'export' | 'settings';
 
 const Index = () => {
   const [activeTab, setActiveTab] = useState<Tab>('scan');
@@ -27,20 +52,113 @@ const Index = () => {
   const { cards } = useCardDatabase();
   
   const {
+    isLoaded,
     collection,
+    collections,
+    activeCollection,
     exportSettings,
     setExportSettings,
     addCard,
     updateCardCounts,
+    updateCardSplits,
+    updateCardOrganization,
     removeCard,
     clearCollection,
+    importEntries,
+    addEntriesToCollection,
+    applyEntryChanges,
+    bulkEditCards,
+    applySyncedChanges,
+    createCollection,
+    renameCollection,
+    switchCollection,
+    duplicateCollection,
+    deleteCollection,
+    history,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    jumpToHistory,
     stats,
   } = useCollection();
 
-  // Handle card detected from auto-scanner - auto-add with Normal=1
-  const handleCardDetected = useCallback((card: CardData) => {
-    addCard(card, 1, 0); // Auto-add 1 normal copy
-  }, [addCard]);
+  const {
+    wants,
+    keepCount,
+    setKeepCount,
+    addWant,
+    updateWantCounts,
+    removeWant,
+    importWants,
+  } = useTradeLists();
+
+  const { user } = useAuth();
+  const cloudSync = useCloudSync({ user, collections, isLoaded, onIncoming: applySyncedChanges });
+
+  const { prices } = usePrices();
+  const collectionValue = useMemo(() => getCollectionValue(collection, prices.quotes), [collection, prices.quotes]);
+
+  const scanSession = useScanSession(user);
+  const { isOpen: isSessionOpen, session: sharedSession, recordScan, undoLastScan, commit: commitSession } = scanSession;
+
+  const scanReview = useScanReview();
+  const {
+    isEnabled: isReviewing,
+    addScan: addScanForReview,
+    undoLastScan: undoLastReviewScan,
+    commit: commitReview,
+  } = scanReview;
+
+  const photoImport = usePhotoImport();
+  const { commit: commitPhotos } = photoImport;
+
+  // Handle card detected from auto-scanner - share it with the open scan session, hold it for
+  // review, or auto-add with Normal=1 to the active collection
+  const handleCardDetected = useCallback((card: CardData, source: 'scan' | 'correction', details?: ScanDetails) => {
+    if (isSessionOpen) {
+      recordScan(card);
+      return;
+    }
+    if (isReviewing) {
+      addScanForReview(card, source, details);
+      return;
+    }
+    addCard(card, 1, 0, source); // Auto-add 1 normal copy
+  }, [isSessionOpen, recordScan, isReviewing, addScanForReview, addCard]);
+
+  const handleCommitReview = useCallback(() => {
+    const summary = commitReview(activeCollection, cards, entries => {
+      const copies = entries.reduce((sum, e) => sum + e.normalCount + e.foilCount, 0);
+      addEntriesToCollection(activeCollection.id, entries, 'scan', `Added ${copies} ${copies === 1 ? 'card' : 'cards'} from reviewed scans`);
+    });
+    if (summary) {
+      const copies = summary.cards.reduce((sum, c) => sum + c.normalCount + c.foilCount, 0);
+      toast.success(`Added ${copies} ${copies === 1 ? 'card' : 'cards'} to ${activeCollection.name}`);
+    }
+  }, [commitReview, activeCollection, cards, addEntriesToCollection]);
+
+  const handleCommitPhotos = useCallback(() => {
+    const entries = commitPhotos(cards, added => {
+      const copies = added.reduce((sum, e) => sum + e.normalCount + e.foilCount, 0);
+      addEntriesToCollection(activeCollection.id, added, 'scan', `Added ${copies} ${copies === 1 ? 'card' : 'cards'} from photos`);
+    });
+    if (entries.length > 0) {
+      const copies = entries.reduce((sum, e) => sum + e.normalCount + e.foilCount, 0);
+      toast.success(`Added ${copies} ${copies === 1 ? 'card' : 'cards'} to ${activeCollection.name}`);
+    }
+  }, [commitPhotos, activeCollection, cards, addEntriesToCollection]);
+
+  const handleCommitSession = useCallback(async (collectionId: string) => {
+    if (!sharedSession) return;
+    const target = collections.find(c => c.id === collectionId);
+    await commitSession(totals => {
+      const entries = sessionTotalsToEntries(totals, cards);
+      const copies = entries.reduce((sum, e) => sum + e.normalCount, 0);
+      addEntriesToCollection(collectionId, entries, 'scan', `Added ${copies} ${copies === 1 ? 'card' : 'cards'} from scan session "${sharedSession.name}"`);
+      toast.success(`Added ${copies} ${copies === 1 ? 'card' : 'cards'} to ${target?.name ?? 'the collection'}`);
+    });
+  }, [sharedSession, commitSession, collections, cards, addEntriesToCollection]);
 
   // Handle scan failure - show manual search
   const handleScanFailed = useCallback(() => {
@@ -58,13 +176,24 @@ const Index = () => {
     toast.success(`Selected: ${card.name}`);
   }, []);
 
-  const handleConfirmAdd = useCallback((normalCount: number, foilCount: number) => {
-    if (pendingCard) {
-      addCard(pendingCard, normalCount, foilCount);
-      toast.success(`Added ${pendingCard.name} to collection`);
-      setPendingCard(null);
+  const handleConfirmAdd = useCallback((normalCount: number, foilCount: number, attributes: CopyAttributes, printing: CardData) => {
+    addCard(printing, normalCount, foilCount, 'manual', attributes);
+    toast.success(`Added ${formatCardName(printing)} to ${activeCollection.name}`);
+    setPendingCard(null);
+  }, [addCard, activeCollection.name]);
+
+  const handleShareCollection = useCallback(async () => {
+    const copied = await copyShareLink({
+      kind: 'list',
+      name: activeCollection.name,
+      cards: collection.map(({ cardId, normalCount, foilCount }) => ({ cardId, normalCount, foilCount })),
+    });
+    if (copied) {
+      toast.success('Share link copied to clipboard');
+    } else {
+      toast.error('Failed to copy to clipboard');
     }
-  }, [pendingCard, addCard]);
+  }, [collection, activeCollection.name]);
 
   const handleCancelAdd = useCallback(() => {
     setPendingCard(null);
@@ -79,6 +208,9 @@ const Index = () => {
   const tabs = [
     { id: 'scan' as Tab, label: 'Scan', icon: ScanLine },
     { id: 'collection' as Tab, label: 'Collection', icon: ListChecks, badge: stats.uniqueCards },
+    { id: 'sets' as Tab, label: 'Sets', icon: Trophy },
+    { id: 'stats' as Tab, label: 'Stats', icon: BarChart3 },
+    { id: 'trade' as Tab, label: 'Trade', icon: ArrowLeftRight },
     { id: 'export' as Tab, label: 'Export', icon: Download },
     { id: 'settings' as Tab, label: 'Settings', icon: Settings },
   ];
@@ -91,14 +223,29 @@ const Index = () => {
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-lg font-bold text-gradient">Riftbound Snap</h1>
-              <p className="text-xs text-muted-foreground">Scan & Export Cards</p>
+              <p className="text-xs text-muted-foreground truncate">{activeCollection.name}</p>
+            </div>
+            <div className="flex items-center gap-3">
+              {stats.totalCards > 0 && (
+                <div className="text-right">
+                  <p className="text-sm font-medium text-foreground">{stats.totalCards} cards</p>
+                  <p className="text-xs text-muted-foreground">{stats.uniqueCards} unique</p>
+                  {collectionValue.pricedCards > 0 && (
+                    <p
+                      className="text-xs font-medium text-primary"
+                      title={collectionValue.unpricedCards > 0 ? `${collectionValue.unpricedCards} cards without a price` : undefined}
+                    >
+                      {formatPrice(collectionValue.total, collectionValue.currency)}
+                    </p>
+                  )}
+                </div>
+              )}
+              <Link to="/decks">
+                <Button variant="ghost" size="icon" title="Decks">
+                  <Swords className="w-5 h-5" />
+                </Button>
+              </Link>
             </div>
-            {stats.totalCards > 0 && (
-              <div className="text-right">
-                <p className="text-sm font-medium text-foreground">{stats.totalCards} cards</p>
-                <p className="text-xs text-muted-foreground">{stats.uniqueCards} unique</p>
-              </div>
-            )}
           </div>
         </div>
       </header>
@@ -150,13 +297,83 @@ const Index = () => {
 
             {/* Scanner Section */}
             <section>
-              <h2 className="text-base font-semibold text-foreground mb-1">Auto-Scan Cards</h2>
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <h2 className="text-base font-semibold text-foreground">Auto-Scan Cards</h2>
+                {!isSessionOpen && (
+                  <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                    Review first
+                    <Switch checked={isReviewing} onCheckedChange={scanReview.setIsEnabled} />
+                  </label>
+                )}
+              </div>
               <p className="text-sm text-muted-foreground mb-4">
-                Hold card steady for 1-2 seconds to auto-add
+                Hold card steady for 1-2 seconds to auto-add to{' '}
+                <span className="font-medium text-foreground">
+                  {isSessionOpen
+                    ? `session "${sharedSession?.name}"`
+                    : isReviewing ? 'the review list' : activeCollection.name}
+                </span>
               </p>
               <AutoCardScanner 
                 onCardDetected={handleCardDetected}
                 onScanFailed={handleScanFailed}
+                onUndo={isSessionOpen ? undoLastScan : isReviewing ? undoLastReviewScan : undo}
+                destination={isSessionOpen ? 'session' : isReviewing ? 'review' : 'collection'}
+              />
+            </section>
+
+            {/* Scan Review */}
+            {isReviewing && !isSessionOpen && (
+              <section>
+                <ScanReviewPanel
+                  items={scanReview.items}
+                  summaries={scanReview.summaries}
+                  cards={cards}
+                  collectionName={activeCollection.name}
+                  onUpdateItem={scanReview.updateItem}
+                  onRemoveItem={scanReview.removeItem}
+                  onDiscard={scanReview.discard}
+                  onCommit={handleCommitReview}
+                  onDeleteSummary={scanReview.deleteSummary}
+                />
+              </section>
+            )}
+
+            {/* Shared Scan Session */}
+            <section>
+              <ScanSessionPanel
+                isActive={scanSession.isActive}
+                isLoading={scanSession.isLoading}
+                session={sharedSession}
+                members={scanSession.members}
+                scans={scanSession.scans}
+                totals={scanSession.totals}
+                cards={cards}
+                collections={collections}
+                activeCollectionId={activeCollection.id}
+                onStart={scanSession.start}
+                onJoin={scanSession.join}
+                onLeave={scanSession.leave}
+                onSetCounted={scanSession.setCounted}
+                onCommit={handleCommitSession}
+              />
+            </section>
+
+            {/* Photo Import */}
+            <section>
+              <PhotoImportPanel
+                items={photoImport.items}
+                cards={cards}
+                collectionName={activeCollection.name}
+                isIndexReady={photoImport.isIndexReady}
+                pendingCount={photoImport.pendingCount}
+                onAddFiles={photoImport.addFiles}
+                onUpdateResult={photoImport.updateResult}
+                onSetAccepted={photoImport.setAccepted}
+                onSetAllAccepted={photoImport.setAllAccepted}
+                onRemove={photoImport.removeItem}
+                onClear={photoImport.clear}
+                onCommit={handleCommitPhotos}
               />
             </section>
 
@@ -198,6 +415,16 @@ const Index = () => {
         {/* Collection Tab */}
         {activeTab === 'collection' && (
           <div className="space-y-4 animate-in">
+            <CollectionSwitcher
+              collections={collections}
+              activeCollectionId={activeCollection.id}
+              onSwitch={switchCollection}
+              onCreate={createCollection}
+              onRename={renameCollection}
+              onDuplicate={duplicateCollection}
+              onDelete={deleteCollection}
+            />
+
             {/* Stats bar */}
             {stats.totalCards > 0 && (
               <div className="flex items-center justify-between p-3 glass-card">
@@ -211,34 +438,122 @@ const Index = () => {
                     <span className="font-medium text-primary">{stats.totalFoil}</span>
                   </div>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => setShowClearConfirm(true)}
-                  className="text-destructive hover:text-destructive"
-                >
-                  <Trash2 className="w-4 h-4" />
-                  Clear
-                </Button>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleShareCollection}
+                  >
+                    <Share2 className="w-4 h-4" />
+                    Share
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowClearConfirm(true)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Clear
+                  </Button>
+                </div>
               </div>
             )}
 
+            <CollectionHistoryPanel
+              history={history}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              onUndo={undo}
+              onRedo={redo}
+              onJump={jumpToHistory}
+            />
+
             <CollectionList
               collection={collection}
+              collectionName={activeCollection.name}
+              exportSettings={exportSettings}
+              prices={prices.quotes}
               onUpdateCounts={updateCardCounts}
+              onUpdateSplits={updateCardSplits}
+              onUpdateOrganization={updateCardOrganization}
               onRemove={removeCard}
+              onBulkEdit={(cardIds, action) => bulkEditCards(cardIds, action, cards)}
+            />
+          </div>
+        )}
+
+        {/* Sets Tab */}
+        {activeTab === 'sets' && (
+          <div className="animate-in">
+            <SetCompletionPanel
+              collection={collection}
+              collectionName={activeCollection.name}
+              exportSettings={exportSettings}
+            />
+          </div>
+        )}
+
+        {/* Stats Tab */}
+        {activeTab === 'stats' && (
+          <div className="animate-in">
+            <CollectionStatsPanel
+              collection={collection}
+              collectionName={activeCollection.name}
+              history={history}
+              prices={prices.quotes}
+            />
+          </div>
+        )}
+
+        {/* Trade Tab */}
+        {activeTab === 'trade' && (
+          <div className="space-y-6 animate-in">
+            <WantsListPanel
+              wants={wants}
+              exportSettings={exportSettings}
+              onAdd={addWant}
+              onUpdateCounts={updateWantCounts}
+              onRemove={removeWant}
+            />
+
+            <ImportPanel
+              targetName="Wants List"
+              onImport={importWants}
+            />
+
+            <TradePanel
+              collection={collection}
+              wants={wants}
+              keepCount={keepCount}
+              onKeepCountChange={setKeepCount}
+              exportSettings={exportSettings}
             />
           </div>
         )}
 
         {/* Export Tab */}
         {activeTab === 'export' && (
-          <div className="animate-in">
+          <div className="space-y-6 animate-in">
             <ExportPanel
-              collection={collection}
+              collections={collections}
+              activeCollectionId={activeCollection.id}
               exportSettings={exportSettings}
               onSettingsChange={setExportSettings}
             />
+
+            <ImportPanel
+              targetName={activeCollection.name}
+              onImport={importEntries}
+            />
+
+            <CollectionMergePanel
+              collection={collection}
+              collections={collections}
+              activeCollectionId={activeCollection.id}
+              activeCollectionName={activeCollection.name}
+              onApply={applyEntryChanges}
+            />
           </div>
         )}
 
@@ -254,6 +569,25 @@ const Index = () => {
               </p>
             </section>
 
+            <section>
+              <h2 className="text-base font-semibold text-foreground mb-4">Sync</h2>
+              <CloudSyncPanel
+                isReady={cloudSync.isReady}
+                enabled={cloudSync.enabled}
+                status={cloudSync.status}
+                lastError={cloudSync.lastError}
+                lastResult={cloudSync.lastResult}
+                lastSyncedAt={cloudSync.lastSyncedAt}
+                onEnabledChange={cloudSync.setEnabled}
+                onSyncNow={cloudSync.syncNow}
+              />
+            </section>
+
+            <section>
+              <h2 className="text-base font-semibold text-foreground mb-4">Prices</h2>
+              <PriceSourcePanel />
+            </section>
+
             <section>
               <h2 className="text-base font-semibold text-foreground mb-2">Training Data</h2>
               <p className="text-sm text-muted-foreground mb-3">
@@ -288,7 +622,7 @@ const Index = () => {
                 <AlertTriangle className="w-5 h-5 text-destructive" />
               </div>
               <div>
-                <h3 className="font-semibold text-foreground">Clear Collection?</h3>
+                <h3 className="font-semibold text-foreground">Clear {activeCollection.name}?</h3>
                 <p className="text-sm text-muted-foreground">This will remove all {stats.totalCards} cards</p>
               </div>
             </div>
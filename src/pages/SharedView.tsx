@@ -0,0 +1,132 @@
+import { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Link2, AlertTriangle, CircleDot, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { VariantBadge } from '@/components/VariantBadge';
+import { useCardDatabase } from '@/contexts/CardDatabaseContext';
+import { CardData } from '@/data/cardDatabase';
+import { SharedPayload, decodeShareCode, getShareUrl } from '@/utils/shareCodes';
+import { copyToClipboard } from '@/utils/exportFormats';
+import { toast } from 'sonner';
+
+// One row of the shared view: the card (if known) and its counts
+interface SharedRow {
+  cardId: string;
+  card?: CardData;
+  counts: Array<{ label: string; value: number }>;
+}
+
+const SharedView = () => {
+  const { code = '' } = useParams<{ code: string }>();
+  const { cards } = useCardDatabase();
+
+  const decoded = useMemo<{ payload: SharedPayload | null; error: string | null }>(() => {
+    try {
+      return { payload: decodeShareCode(code), error: null };
+    } catch (e) {
+      return { payload: null, error: e instanceof Error ? e.message : 'Invalid share code' };
+    }
+  }, [code]);
+
+  const cardsById = useMemo(() => new Map(cards.map(c => [c.cardId, c])), [cards]);
+  const { payload, error } = decoded;
+
+  const sections = useMemo(() => {
+    if (!payload) return [];
+    if (payload.kind === 'deck') {
+      const toRows = (list: typeof payload.main): SharedRow[] =>
+        list.map(c => ({ cardId: c.cardId, card: cardsById.get(c.cardId), counts: [{ label: '', value: c.quantity }] }));
+      return [
+        { title: 'Main Deck', rows: toRows(payload.main) },
+        { title: 'Sideboard', rows: toRows(payload.sideboard) },
+      ].filter(s => s.rows.length > 0);
+    }
+    return [{
+      title: 'Cards',
+      rows: payload.cards.map(c => ({
+        cardId: c.cardId,
+        card: cardsById.get(c.cardId),
+        counts: [{ label: 'normal', value: c.normalCount }, { label: 'foil', value: c.foilCount }],
+      })),
+    }];
+  }, [payload, cardsById]);
+
+  const total = sections.reduce(
+    (sum, s) => sum + s.rows.reduce((n, r) => n + r.counts.reduce((m, c) => m + c.value, 0), 0),
+    0
+  );
+
+  const handleCopyLink = async () => {
+    if (await copyToClipboard(getShareUrl(code))) {
+      toast.success('Link copied to clipboard');
+    } else {
+      toast.error('Failed to copy to clipboard');
+    }
+  };
+
+  const title = payload?.name || (payload?.kind === 'deck' ? 'Shared Deck' : 'Shared Card List');
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="sticky top-0 z-40 bg-background/95 backdrop-blur border-b border-border">
+        <div className="container py-3 px-4">
+          <div className="flex items-center gap-3">
+            <Link to="/">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+            </Link>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg font-bold text-gradient truncate">{payload ? title : 'Shared Link'}</h1>
+              {payload && <p className="text-xs text-muted-foreground">{total} cards • read-only</p>}
+            </div>
+            {payload && (
+              <Button variant="ghost" size="icon" onClick={handleCopyLink} title="Copy link">
+                <Link2 className="w-5 h-5" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 container px-4 py-4 space-y-6">
+        {error && (
+          <div className="text-center py-12 px-4">
+            <AlertTriangle className="w-8 h-8 text-destructive mx-auto mb-3" />
+            <p className="text-foreground">This share link can't be opened</p>
+            <p className="text-sm text-muted-foreground mt-1">{error}</p>
+          </div>
+        )}
+
+        {sections.map((section) => (
+          <section key={section.title} className="space-y-2">
+            <h2 className="text-base font-semibold text-foreground">{section.title}</h2>
+            <div className="space-y-1">
+              {section.rows.map((row) => (
+                <div key={row.cardId} className="glass-card px-3 py-2 flex items-center gap-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-foreground truncate">{row.card?.name ?? row.cardId}</span>
+                      {row.card && <VariantBadge card={row.card} />}
+                    </div>
+                    <span className="text-xs font-mono text-muted-foreground">{row.cardId}</span>
+                  </div>
+                  {row.counts.map(({ label, value }) => (
+                    <span key={label} className="flex items-center gap-1 font-mono shrink-0">
+                      {label === 'normal' && <CircleDot className="w-3.5 h-3.5 text-muted-foreground" />}
+                      {label === 'foil' && <Sparkles className="w-3.5 h-3.5 text-primary" />}
+                      {label ? value : `${value}×`}
+                    </span>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </section>
+        ))}
+      </main>
+    </div>
+  );
+};
+
+export default SharedView;
@@ -7,6 +7,7 @@ import { useCardDatabase } from '@/contexts/CardDatabaseContext';
 import { CardData } from '@/data/cardDatabase';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { AdminGate } from '@/components/AdminGate';
 import {
   searchWebImages,
   confirmWebImages,
@@ -173,190 +174,192 @@ const Training = () => {
           </div>
         )}
 
-        {/* Card Selector */}
-        <section>
-          <h2 className="text-base font-semibold mb-2">Select Card</h2>
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-            <Input
-              value={searchQuery}
-              onChange={(e) => {
-                setSearchQuery(e.target.value);
-                setShowSuggestions(true);
-              }}
-              onFocus={() => setShowSuggestions(true)}
-              placeholder="Search cards by name or ID..."
-              className="pl-10"
-            />
-            
-            {/* Suggestions dropdown */}
-            {showSuggestions && suggestions.length > 0 && (
-              <div className="absolute z-10 w-full mt-1 bg-popover border border-border rounded-lg shadow-lg max-h-60 overflow-auto">
-                {suggestions.map((card) => (
-                  <button
-                    key={card.cardId}
-                    onClick={() => handleCardSelect(card)}
-                    className="w-full px-4 py-2 text-left hover:bg-accent flex items-center gap-3"
+        <AdminGate action="add web training images">
+          {/* Card Selector */}
+          <section>
+            <h2 className="text-base font-semibold mb-2">Select Card</h2>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={searchQuery}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setShowSuggestions(true);
+                }}
+                onFocus={() => setShowSuggestions(true)}
+                placeholder="Search cards by name or ID..."
+                className="pl-10"
+              />
+              
+              {/* Suggestions dropdown */}
+              {showSuggestions && suggestions.length > 0 && (
+                <div className="absolute z-10 w-full mt-1 bg-popover border border-border rounded-lg shadow-lg max-h-60 overflow-auto">
+                  {suggestions.map((card) => (
+                    <button
+                      key={card.cardId}
+                      onClick={() => handleCardSelect(card)}
+                      className="w-full px-4 py-2 text-left hover:bg-accent flex items-center gap-3"
+                    >
+                      <span className="font-medium">{card.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {card.cardId} • {card.setName}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </section>
+
+          {/* Selected Card Info */}
+          {selectedCard && (
+            <section className="p-4 rounded-lg bg-card border border-border">
+              <div className="flex gap-4">
+                <div className="w-20 h-28 rounded bg-muted flex items-center justify-center overflow-hidden">
+                  <img
+                    src={`https://otyiezyaqexbgibxgqtl.supabase.co/storage/v1/object/public/riftbound-cards/${selectedCard.cardId}.webp`}
+                    alt={selectedCard.name}
+                    className="w-full h-full object-cover"
+                    onError={(e) => {
+                      (e.target as HTMLImageElement).src = '/placeholder.svg';
+                    }}
+                  />
+                </div>
+                <div className="flex-1">
+                  <h3 className="font-semibold text-foreground">{selectedCard.name}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {selectedCard.cardId} • {selectedCard.setName}
+                  </p>
+                  {selectedCard.rarity && (
+                    <p className="text-xs text-muted-foreground mt-1">{selectedCard.rarity}</p>
+                  )}
+                  <Button
+                    onClick={handleSearchWebImages}
+                    disabled={isSearching}
+                    size="sm"
+                    className="mt-3"
                   >
-                    <span className="font-medium">{card.name}</span>
-                    <span className="text-xs text-muted-foreground">
-                      {card.cardId} • {card.setName}
-                    </span>
-                  </button>
-                ))}
+                    {isSearching ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Searching...
+                      </>
+                    ) : (
+                      <>
+                        <Image className="w-4 h-4 mr-2" />
+                        Fetch Web Photos
+                      </>
+                    )}
+                  </Button>
+                </div>
               </div>
-            )}
-          </div>
-        </section>
+            </section>
+          )}
 
-        {/* Selected Card Info */}
-        {selectedCard && (
-          <section className="p-4 rounded-lg bg-card border border-border">
-            <div className="flex gap-4">
-              <div className="w-20 h-28 rounded bg-muted flex items-center justify-center overflow-hidden">
-                <img
-                  src={`https://otyiezyaqexbgibxgqtl.supabase.co/storage/v1/object/public/riftbound-cards/${selectedCard.cardId}.webp`}
-                  alt={selectedCard.name}
-                  className="w-full h-full object-cover"
-                  onError={(e) => {
-                    (e.target as HTMLImageElement).src = '/placeholder.svg';
-                  }}
-                />
-              </div>
-              <div className="flex-1">
-                <h3 className="font-semibold text-foreground">{selectedCard.name}</h3>
-                <p className="text-sm text-muted-foreground">
-                  {selectedCard.cardId} • {selectedCard.setName}
-                </p>
-                {selectedCard.rarity && (
-                  <p className="text-xs text-muted-foreground mt-1">{selectedCard.rarity}</p>
-                )}
+          {/* Search Error */}
+          {searchError && (
+            <div className="p-4 rounded-lg bg-destructive/10 border border-destructive/20 text-sm text-destructive">
+              {searchError}
+            </div>
+          )}
+
+          {/* Web Image Results */}
+          {webImages.length > 0 && (
+            <section>
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-base font-semibold">
+                  Web Images ({selectedWebImages.size} selected)
+                </h2>
                 <Button
-                  onClick={handleSearchWebImages}
-                  disabled={isSearching}
+                  onClick={handleSaveSelected}
+                  disabled={selectedWebImages.size === 0 || isSaving}
                   size="sm"
-                  className="mt-3"
                 >
-                  {isSearching ? (
+                  {isSaving ? (
                     <>
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Searching...
+                      Saving...
                     </>
                   ) : (
                     <>
-                      <Image className="w-4 h-4 mr-2" />
-                      Fetch Web Photos
+                      <Download className="w-4 h-4 mr-2" />
+                      Save Selected
                     </>
                   )}
                 </Button>
               </div>
-            </div>
-          </section>
-        )}
-
-        {/* Search Error */}
-        {searchError && (
-          <div className="p-4 rounded-lg bg-destructive/10 border border-destructive/20 text-sm text-destructive">
-            {searchError}
-          </div>
-        )}
-
-        {/* Web Image Results */}
-        {webImages.length > 0 && (
-          <section>
-            <div className="flex items-center justify-between mb-3">
-              <h2 className="text-base font-semibold">
-                Web Images ({selectedWebImages.size} selected)
-              </h2>
-              <Button
-                onClick={handleSaveSelected}
-                disabled={selectedWebImages.size === 0 || isSaving}
-                size="sm"
-              >
-                {isSaving ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Saving...
-                  </>
-                ) : (
-                  <>
-                    <Download className="w-4 h-4 mr-2" />
-                    Save Selected
-                  </>
-                )}
-              </Button>
-            </div>
-            
-            <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2">
-              {webImages.map((img, idx) => (
-                <button
-                  key={idx}
-                  onClick={() => toggleImageSelection(img.originalUrl)}
-                  className={cn(
-                    "relative aspect-square rounded-lg overflow-hidden border-2 transition-colors",
-                    selectedWebImages.has(img.originalUrl)
-                      ? "border-primary"
-                      : "border-transparent hover:border-muted"
-                  )}
-                >
-                  <img
-                    src={img.thumbnailUrl}
-                    alt={img.title}
-                    className="w-full h-full object-cover"
-                  />
-                  {selectedWebImages.has(img.originalUrl) && (
-                    <div className="absolute inset-0 bg-primary/20 flex items-center justify-center">
-                      <Check className="w-8 h-8 text-primary" />
-                    </div>
-                  )}
-                </button>
-              ))}
-            </div>
-          </section>
-        )}
-
-        {/* Existing Training Images */}
-        {selectedCard && (
-          <section>
-            <h2 className="text-base font-semibold mb-3 flex items-center gap-2">
-              <Database className="w-4 h-4" />
-              Existing Training Images ({trainingImages.length})
-            </h2>
-            
-            {isLoadingImages ? (
-              <div className="flex items-center justify-center py-8">
-                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
-              </div>
-            ) : trainingImages.length === 0 ? (
-              <p className="text-sm text-muted-foreground py-4">
-                No training images for this card yet.
-              </p>
-            ) : (
+              
               <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2">
-                {trainingImages.map((img) => (
-                  <div
-                    key={img.id}
-                    className="relative aspect-square rounded-lg overflow-hidden border border-border"
+                {webImages.map((img, idx) => (
+                  <button
+                    key={idx}
+                    onClick={() => toggleImageSelection(img.originalUrl)}
+                    className={cn(
+                      "relative aspect-square rounded-lg overflow-hidden border-2 transition-colors",
+                      selectedWebImages.has(img.originalUrl)
+                        ? "border-primary"
+                        : "border-transparent hover:border-muted"
+                    )}
                   >
                     <img
-                      src={img.image_url}
-                      alt={img.card_id}
+                      src={img.thumbnailUrl}
+                      alt={img.title}
                       className="w-full h-full object-cover"
                     />
-                    <div className={cn(
-                      "absolute bottom-0 left-0 right-0 px-1 py-0.5 text-[10px] text-white text-center",
-                      img.source === 'scan_confirm' ? "bg-green-600/80" :
-                      img.source === 'scan_correction' ? "bg-yellow-600/80" :
-                      "bg-blue-600/80"
-                    )}>
-                      {img.source.replace('_', ' ')}
-                    </div>
-                  </div>
+                    {selectedWebImages.has(img.originalUrl) && (
+                      <div className="absolute inset-0 bg-primary/20 flex items-center justify-center">
+                        <Check className="w-8 h-8 text-primary" />
+                      </div>
+                    )}
+                  </button>
                 ))}
               </div>
-            )}
-          </section>
-        )}
+            </section>
+          )}
+
+          {/* Existing Training Images */}
+          {selectedCard && (
+            <section>
+              <h2 className="text-base font-semibold mb-3 flex items-center gap-2">
+                <Database className="w-4 h-4" />
+                Existing Training Images ({trainingImages.length})
+              </h2>
+              
+              {isLoadingImages ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : trainingImages.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4">
+                  No training images for this card yet.
+                </p>
+              ) : (
+                <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2">
+                  {trainingImages.map((img) => (
+                    <div
+                      key={img.id}
+                      className="relative aspect-square rounded-lg overflow-hidden border border-border"
+                    >
+                      <img
+                        src={img.image_url}
+                        alt={img.card_id}
+                        className="w-full h-full object-cover"
+                      />
+                      <div className={cn(
+                        "absolute bottom-0 left-0 right-0 px-1 py-0.5 text-[10px] text-white text-center",
+                        img.source === 'scan_confirm' ? "bg-green-600/80" :
+                        img.source === 'scan_correction' ? "bg-yellow-600/80" :
+                        "bg-blue-600/80"
+                      )}>
+                        {img.source.replace('_', ' ')}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          )}
+        </AdminGate>
       </main>
     </div>
   );
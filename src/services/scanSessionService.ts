@@ -0,0 +1,173 @@
+// Shared scan sessions in Supabase. Rows are visible to session members only (row-level
+// security); members follow each other's changes through realtime.
+
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { ScanSession, ScanSessionMember, SessionScan } from '@/types/scanSession';
+
+export class ScanSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScanSessionError';
+  }
+}
+
+function toSessionError(error: { message: string }, action: string): ScanSessionError {
+  console.error(`[scanSessionService] ${action} failed:`, error);
+  return new ScanSessionError(`Failed to ${action}: ${error.message}`);
+}
+
+function toSession(row: Tables<'scan_sessions'>): ScanSession {
+  return {
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    committedAt: row.committed_at,
+    committedBy: row.committed_by,
+  };
+}
+
+function toMember(row: Tables<'scan_session_members'>): ScanSessionMember {
+  return { userId: row.user_id, displayName: row.display_name };
+}
+
+function toScan(row: Tables<'scan_session_scans'>): SessionScan {
+  return {
+    id: row.id,
+    cardId: row.card_id,
+    scannedBy: row.scanned_by,
+    scannedAt: row.scanned_at,
+    counted: row.counted,
+  };
+}
+
+/**
+ * Start a session with the caller as its first member; returns the session ID
+ */
+export async function createScanSession(name: string, displayName: string): Promise<string> {
+  const { data, error } = await supabase.rpc('create_scan_session', { _name: name, _display_name: displayName });
+  if (error) throw toSessionError(error, 'start the scan session');
+  return data;
+}
+
+/**
+ * Join an open session by its code; returns the session ID. Repeated wrong codes
+ * lock the caller out for a while.
+ */
+export async function joinScanSession(code: string, displayName: string): Promise<string> {
+  const { data, error } = await supabase.rpc('join_scan_session', { _code: code, _display_name: displayName });
+  if (error) throw toSessionError(error, 'join the scan session');
+  if (!data) throw new ScanSessionError(`No open scan session with code ${code.trim().toUpperCase()}`);
+  return data;
+}
+
+/**
+ * A session with its members and scans, or null once the caller is no longer a member
+ */
+export async function fetchScanSession(sessionId: string): Promise<{
+  session: ScanSession;
+  members: ScanSessionMember[];
+  scans: SessionScan[];
+} | null> {
+  const [sessionResult, membersResult, scansResult] = await Promise.all([
+    supabase.from('scan_sessions').select('*').eq('id', sessionId).maybeSingle(),
+    supabase.from('scan_session_members').select('*').eq('session_id', sessionId),
+    supabase.from('scan_session_scans').select('*').eq('session_id', sessionId).order('scanned_at'),
+  ]);
+  const error = sessionResult.error ?? membersResult.error ?? scansResult.error;
+  if (error) throw toSessionError(error, 'load the scan session');
+  if (!sessionResult.data) return null;
+
+  return {
+    session: toSession(sessionResult.data),
+    members: membersResult.data.map(toMember),
+    scans: scansResult.data.map(toScan),
+  };
+}
+
+export async function addSessionScan(sessionId: string, scan: Pick<SessionScan, 'id' | 'cardId' | 'scannedAt'>): Promise<void> {
+  const { error } = await supabase
+    .from('scan_session_scans')
+    .insert({ id: scan.id, session_id: sessionId, card_id: scan.cardId, scanned_at: scan.scannedAt });
+  if (error) throw toSessionError(error, 'share the scan');
+}
+
+export async function removeSessionScan(scanId: string): Promise<void> {
+  const { error } = await supabase.from('scan_session_scans').delete().eq('id', scanId);
+  if (error) throw toSessionError(error, 'remove the scan');
+}
+
+/**
+ * Count or ignore a scan regardless of duplicate detection; null hands it back to detection
+ */
+export async function setScanCounted(scanId: string, counted: boolean | null): Promise<void> {
+  const { error } = await supabase.from('scan_session_scans').update({ counted }).eq('id', scanId);
+  if (error) throw toSessionError(error, 'update the scan');
+}
+
+/**
+ * Close the session for new scans once its cards are in a collection
+ */
+export async function markSessionCommitted(sessionId: string, userId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('scan_sessions')
+    .update({ committed_at: new Date().toISOString(), committed_by: userId })
+    .eq('id', sessionId)
+    .is('committed_at', null)
+    .select('id');
+  if (error) throw toSessionError(error, 'commit the scan session');
+  if (data.length === 0) throw new ScanSessionError('Another member already committed this session');
+}
+
+export async function leaveScanSession(sessionId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('scan_session_members')
+    .delete()
+    .eq('session_id', sessionId)
+    .eq('user_id', userId);
+  if (error) throw toSessionError(error, 'leave the scan session');
+}
+
+export interface ScanSessionListeners {
+  onSession: (session: ScanSession) => void;
+  onMember: (member: ScanSessionMember) => void;
+  onMemberLeft: (userId: string) => void;
+  onScan: (scan: SessionScan) => void;
+  onScanRemoved: (scanId: string) => void;
+}
+
+/**
+ * Follow a session's changes; returns a function that stops listening
+ */
+export function subscribeToScanSession(sessionId: string, listeners: ScanSessionListeners): () => void {
+  const filter = `session_id=eq.${sessionId}`;
+  const channel = supabase
+    .channel(`scan-session-${sessionId}`)
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'scan_sessions', filter: `id=eq.${sessionId}` },
+      payload => listeners.onSession(toSession(payload.new as Tables<'scan_sessions'>)))
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'scan_session_members', filter },
+      payload => listeners.onMember(toMember(payload.new as Tables<'scan_session_members'>)))
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'scan_session_members', filter },
+      payload => listeners.onMember(toMember(payload.new as Tables<'scan_session_members'>)))
+    .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'scan_session_members', filter },
+      payload => {
+        const old = payload.old as Partial<Tables<'scan_session_members'>>;
+        if (old.user_id) listeners.onMemberLeft(old.user_id);
+      })
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'scan_session_scans', filter },
+      payload => listeners.onScan(toScan(payload.new as Tables<'scan_session_scans'>)))
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'scan_session_scans', filter },
+      payload => listeners.onScan(toScan(payload.new as Tables<'scan_session_scans'>)))
+    .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'scan_session_scans', filter },
+      payload => {
+        const old = payload.old as Partial<Tables<'scan_session_scans'>>;
+        if (old.id) listeners.onScanRemoved(old.id);
+      })
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,294 @@
+// IndexedDB-backed persistence for collections, the card list and card embeddings.
+// Schema changes are versioned migrations; data that used to live in localStorage is
+// moved across the first time it is read.
+
+import { toast } from 'sonner';
+import { CardData } from '@/data/cardDatabase';
+import { CollectionEntry, CollectionHistory, NamedCollection } from '@/types/collection';
+import { separateEntryLabels } from '@/utils/organization';
+
+const DB_NAME = 'riftbound-scanner';
+
+// Small values (collections, history, the card list) by key, and embeddings by card ID
+export type StoreName = 'keyValue' | 'embeddings';
+
+interface Migration {
+  version: number;
+  description: string;
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Keys written by the card database, useCollection and its history, read by data migrations
+const CARD_LIST_KEY = 'riftbound-card-database';
+const COLLECTIONS_KEY = 'riftbound-collections';
+const HISTORY_KEY = 'riftbound-collection-history';
+
+/**
+ * Move user tags saved on collection entries, and on the entries recorded in
+ * their history, to the entries' labels. The stored card list tells which tags
+ * were the card's own champion metadata.
+ */
+function moveEntryTagsToLabels(store: IDBObjectStore): void {
+  const cardsRequest = store.get(CARD_LIST_KEY);
+  cardsRequest.onsuccess = () => {
+    const cards = Array.isArray(cardsRequest.result) ? (cardsRequest.result as CardData[]) : [];
+    const cardTags = new Map(cards.map(c => [c.cardId, c.tags ?? []]));
+    const migrate = (entry: CollectionEntry | null) => entry && separateEntryLabels(entry, cardTags.get(entry.cardId));
+
+    const collectionsRequest = store.get(COLLECTIONS_KEY);
+    collectionsRequest.onsuccess = () => {
+      const collections = collectionsRequest.result as NamedCollection[] | undefined;
+      if (!Array.isArray(collections)) return;
+      store.put(collections.map(c => ({ ...c, entries: c.entries.map(migrate) })), COLLECTIONS_KEY);
+    };
+
+    const historyRequest = store.get(HISTORY_KEY);
+    historyRequest.onsuccess = () => {
+      const history = historyRequest.result as Record<string, CollectionHistory> | undefined;
+      if (!history) return;
+      const migrated = Object.fromEntries(Object.entries(history).map(([id, h]) => [id, {
+        ...h,
+        events: h.events.map(e => ({
+          ...e,
+          changes: e.changes.map(change => ({ ...change, before: migrate(change.before), after: migrate(change.after) })),
+        })),
+      }]));
+      store.put(migrated, HISTORY_KEY);
+    };
+  };
+}
+
+// Run in order when the database is opened at a newer version; never edit a released migration
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Key-value store for collections, history and the card list',
+    upgrade: (db) => {
+      db.createObjectStore('keyValue');
+    },
+  },
+  {
+    version: 2,
+    description: 'Card embeddings keyed by card ID',
+    upgrade: (db) => {
+      db.createObjectStore('embeddings', { keyPath: 'cardId' });
+    },
+  },
+  {
+    version: 3,
+    description: 'User tags on collection entries move to their own labels field',
+    upgrade: (_db, transaction) => {
+      moveEntryTagsToLabels(transaction.objectStore('keyValue'));
+    },
+  },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export type StorageErrorKind = 'quota' | 'unavailable' | 'blocked' | 'unknown';
+
+export class StorageError extends Error {
+  readonly kind: StorageErrorKind;
+
+  constructor(kind: StorageErrorKind, message: string) {
+    super(message);
+    this.name = 'StorageError';
+    this.kind = kind;
+  }
+}
+
+/**
+ * Classify an IndexedDB/DOM error; quota errors may arrive as a transaction abort
+ */
+export function toStorageError(error: unknown): StorageError {
+  if (error instanceof StorageError) return error;
+
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (name === 'QuotaExceededError' || (error instanceof DOMException && error.code === 22)) {
+    return new StorageError('quota', 'Browser storage is full');
+  }
+  if (name === 'InvalidStateError' || name === 'SecurityError' || name === 'NotFoundError') {
+    return new StorageError('unavailable', 'Browser storage is unavailable (private browsing or blocked by settings)');
+  }
+  return new StorageError('unknown', message || 'Unknown storage error');
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error));
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(toStorageError(transaction.error));
+    transaction.onabort = () => reject(toStorageError(transaction.error ?? new DOMException('Transaction aborted', 'AbortError')));
+  });
+}
+
+/**
+ * Open (and if needed upgrade) the database. The connection is shared and reopened
+ * if another tab upgrades the schema.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new StorageError('unavailable', 'IndexedDB is not supported in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (const migration of MIGRATIONS) {
+        if (migration.version > event.oldVersion) {
+          console.log(`[storage] Migrating to v${migration.version}: ${migration.description}`);
+          migration.upgrade(db, transaction);
+        }
+      }
+    };
+
+    request.onblocked = () => {
+      reject(new StorageError('blocked', 'Storage upgrade is blocked by another open tab of this app'));
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => reject(toStorageError(request.error));
+  });
+
+  // Let a later call retry after a failed open
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Read a value from the key-value store
+ */
+export async function getValue<T>(key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  const transaction = db.transaction('keyValue', 'readonly');
+  return requestToPromise(transaction.objectStore('keyValue').get(key) as IDBRequest<T | undefined>);
+}
+
+/**
+ * Write a value to the key-value store; resolves once the write is committed
+ */
+export async function setValue<T>(key: string, value: T): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction('keyValue', 'readwrite');
+  transaction.objectStore('keyValue').put(value, key);
+  await transactionDone(transaction);
+}
+
+export async function deleteValue(key: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction('keyValue', 'readwrite');
+  transaction.objectStore('keyValue').delete(key);
+  await transactionDone(transaction);
+}
+
+/**
+ * Read every record of a keyed store
+ */
+export async function getAllRecords<T>(store: Exclude<StoreName, 'keyValue'>): Promise<T[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readonly');
+  return requestToPromise(transaction.objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+/**
+ * Replace every record of a keyed store in a single transaction
+ */
+export async function replaceAllRecords<T>(store: Exclude<StoreName, 'keyValue'>, records: T[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  const objectStore = transaction.objectStore(store);
+  objectStore.clear();
+  for (const record of records) {
+    objectStore.put(record);
+  }
+  await transactionDone(transaction);
+}
+
+/**
+ * Read a key-value entry, first moving it over from localStorage if it was saved
+ * there by an earlier version of the app. The localStorage copy is removed only
+ * after the IndexedDB write succeeds.
+ */
+export async function moveFromLocalStorage<T>(
+  key: string,
+  parse: (raw: string) => T = (raw) => JSON.parse(raw) as T
+): Promise<T | undefined> {
+  const stored = await getValue<T>(key);
+  if (stored !== undefined) return stored;
+
+  const legacy = localStorage.getItem(key);
+  if (legacy === null) return undefined;
+
+  const value = parse(legacy);
+  await setValue(key, value);
+  localStorage.removeItem(key);
+  console.log(`[storage] Moved "${key}" from localStorage to IndexedDB`);
+  return value;
+}
+
+/**
+ * Ask the browser not to evict our data under storage pressure.
+ * Returns whether storage is persistent.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  try {
+    if (await navigator.storage.persisted()) return true;
+    return await navigator.storage.persist();
+  } catch {
+    return false;
+  }
+}
+
+// Last time each kind of error was shown, so a failing save loop does not flood the screen
+const lastReported = new Map<StorageErrorKind, number>();
+const REPORT_INTERVAL_MS = 30000;
+
+/**
+ * Log a storage failure and tell the user about it. `action` completes the
+ * sentence "Could not ...", e.g. "save your collection".
+ */
+export function reportStorageError(error: unknown, action: string): StorageError {
+  const storageError = toStorageError(error);
+  console.error(`[storage] Could not ${action}:`, error);
+
+  const now = Date.now();
+  if (now - (lastReported.get(storageError.kind) ?? 0) >= REPORT_INTERVAL_MS) {
+    lastReported.set(storageError.kind, now);
+    const hint =
+      storageError.kind === 'quota' ? 'Free up space by clearing site data or removing old collections.' :
+      storageError.kind === 'blocked' ? 'Close other tabs of this app and reload.' :
+      storageError.kind === 'unavailable' ? 'Changes will be lost when the page is closed.' :
+      undefined;
+    toast.error(`Could not ${action}: ${storageError.message}`, { description: hint, duration: 8000 });
+  }
+
+  return storageError;
+}
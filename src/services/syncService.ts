@@ -0,0 +1,108 @@
+// Reading and writing synced collections in Supabase. Rows are private to the signed-in
+// user (row-level security); conflicting writes are settled by version stamp in
+// `push_sync_changes`.
+
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { CollectionEntry } from '@/types/collection';
+import { SyncedCollection, SyncedEntry } from '@/types/sync';
+
+// Rows per request when pulling entries
+const PAGE_SIZE = 1000;
+
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+function toSyncError(error: { message: string }, action: string): SyncError {
+  console.error(`[syncService] ${action} failed:`, error);
+  return new SyncError(`Failed to ${action}: ${error.message}`);
+}
+
+/**
+ * Every synced collection of the signed-in user, including deleted ones
+ */
+export async function fetchSyncedCollections(): Promise<SyncedCollection[]> {
+  const { data, error } = await supabase
+    .from('sync_collections')
+    .select('id, name, deleted, clock, device_id');
+  if (error) throw toSyncError(error, 'load synced collections');
+
+  return data.map(row => ({
+    id: row.id,
+    name: row.name,
+    deleted: row.deleted,
+    stamp: { clock: row.clock, deviceId: row.device_id },
+  }));
+}
+
+/**
+ * Entries written by transactions from `sinceTxid` on, plus every entry of the given
+ * collections. Returns them with the cursor the next pull should start from: entries of
+ * transactions still running while this pull read are not included yet, so the cursor
+ * stays at or below them.
+ */
+export async function fetchSyncedEntries(
+  sinceTxid: number,
+  fullCollectionIds: string[] = []
+): Promise<{ entries: SyncedEntry[]; cursor: number }> {
+  const entries: SyncedEntry[] = [];
+  let cursor: number | null = null;
+  // Keyset paging, so rows rewritten between pages can't shift others out of view
+  let after = { txid: 0, collectionId: '', cardId: '' };
+
+  for (;;) {
+    const { data, error } = await supabase.rpc('pull_sync_entries', {
+      _since_txid: sinceTxid,
+      _full_collection_ids: fullCollectionIds,
+      _after_txid: after.txid,
+      _after_collection_id: after.collectionId,
+      _after_card_id: after.cardId,
+      _limit: PAGE_SIZE,
+    });
+    if (error) throw toSyncError(error, 'load synced cards');
+
+    for (const row of data) {
+      entries.push({
+        collectionId: row.collection_id,
+        cardId: row.card_id,
+        entry: row.entry as unknown as CollectionEntry | null,
+        stamp: { clock: row.clock, deviceId: row.device_id },
+      });
+      // The first page's snapshot is the oldest, so its cursor is the safe one
+      cursor ??= row.safe_txid;
+    }
+    if (data.length < PAGE_SIZE) return { entries, cursor: cursor ?? sinceTxid };
+
+    const last = data[data.length - 1];
+    after = { txid: last.txid, collectionId: last.collection_id, cardId: last.card_id };
+  }
+}
+
+/**
+ * Write local changes; the server keeps whichever version has the higher stamp
+ */
+export async function pushSyncChanges(collections: SyncedCollection[], entries: SyncedEntry[]): Promise<void> {
+  if (collections.length === 0 && entries.length === 0) return;
+
+  const { error } = await supabase.rpc('push_sync_changes', {
+    collections: collections.map(c => ({
+      id: c.id,
+      name: c.name,
+      deleted: c.deleted,
+      clock: c.stamp.clock,
+      device_id: c.stamp.deviceId,
+    })),
+    entries: entries.map(e => ({
+      collection_id: e.collectionId,
+      card_id: e.cardId,
+      entry: e.entry as unknown as Json,
+      clock: e.stamp.clock,
+      device_id: e.stamp.deviceId,
+    })),
+  });
+  if (error) throw toSyncError(error, 'upload changes');
+}
@@ -31,6 +31,12 @@ export async function saveTrainingLabel(
   imageData: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    // Labels are only accepted from signed-in users
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return { success: false, error: 'Sign in to contribute training images' };
+    }
+
     const { data, error } = await supabase.functions.invoke('training-label', {
       body: {
         card_id: cardId,
@@ -2,15 +2,86 @@
 
 import { CardData } from "@/data/cardDatabase";
 
+export type CardFinish = 'normal' | 'foil';
+
+// Near Mint, Lightly Played, Moderately Played, Heavily Played, Damaged
+export type CardCondition = 'NM' | 'LP' | 'MP' | 'HP' | 'DMG';
+
+export interface CardGrade {
+  company: string;       // e.g. "PSA", "BGS"
+  grade: string;         // e.g. "10", "9.5"
+}
+
+export interface CopyAttributes {
+  condition: CardCondition;
+  language: string;      // Language code, e.g. "EN"
+  grade?: CardGrade;     // Only for graded slabs
+}
+
+// A number of copies sharing finish, condition, language and grade
+export interface QuantitySplit extends CopyAttributes {
+  finish: CardFinish;
+  count: number;
+  location?: string;     // Overrides the entry's location for these copies
+}
+
 export interface CollectionEntry extends CardData {
   normalCount: number;
   foilCount: number;
+  // Breakdown of the counts above; absent when every copy is NM, English, ungraded and in the entry's location
+  splits?: QuantitySplit[];
+  location?: string;     // Where the copies are stored, e.g. "Binder 2 p.14" or "Box 3"
+  // User-defined tags, e.g. "deck: aggro", "for trade"; named apart from CardData.tags, the card's own metadata
+  labels?: string[];
+}
+
+// A named collection / binder (e.g. "Main Binder", "Trade Box")
+export interface NamedCollection {
+  id: string;
+  name: string;
+  entries: CollectionEntry[];
+  createdAt: string;     // ISO timestamp
+  updatedAt: string;     // ISO timestamp
+}
+
+// Where a collection change came from
+export type CollectionEventSource = 'scan' | 'manual' | 'correction' | 'import' | 'sync';
+
+export type CollectionEventType = 'add' | 'update' | 'remove' | 'clear' | 'import';
+
+// Before/after state of a single card; null means the card was absent
+export interface EntryChange {
+  cardId: string;
+  before: CollectionEntry | null;
+  after: CollectionEntry | null;
+}
+
+// A recorded, undoable collection mutation
+export interface CollectionEvent {
+  id: string;
+  type: CollectionEventType;
+  source: CollectionEventSource;
+  description: string;
+  timestamp: string;     // ISO timestamp
+  changes: EntryChange[];
+}
+
+// Per-collection event log; events before `cursor` are applied, the rest are undone
+export interface CollectionHistory {
+  events: CollectionEvent[];
+  cursor: number;
 }
 
 export interface ExportSettings {
   portfolioName: string;
   category: string;
+  formatOptions?: Record<string, ExportOptionValues>;  // Per-format option values, keyed by format ID
 }
 
 // Export format types
-export type ExportFormat = 'dotgg' | 'collectr' | 'legacy' | 'text' | 'deck';
+export type BuiltInExportFormat = 'dotgg' | 'collectr' | 'legacy' | 'text' | 'deck';
+
+// Custom template formats are identified as "custom:<templateId>"
+export type ExportFormat = BuiltInExportFormat | `custom:${string}`;
+
+export type ExportOptionValues = Record<string, string | boolean>;
@@ -0,0 +1,33 @@
+// Deck types for the Riftbound Scanner app
+
+import { CardData } from '@/data/cardDatabase';
+
+export type DeckZone = 'main' | 'sideboard';
+
+export interface DeckCard {
+  cardId: string;
+  quantity: number;
+}
+
+export interface Deck {
+  id: string;
+  name: string;
+  main: DeckCard[];
+  sideboard: DeckCard[];
+  createdAt: string;     // ISO timestamp
+  updatedAt: string;     // ISO timestamp
+}
+
+// The card lists of a deck, without its identity; a saved Deck or a freshly parsed list
+export type DeckList = Pick<Deck, 'main' | 'sideboard'>;
+
+// Copies a deck needs of one card, checked against a collection
+export interface DeckRequirement {
+  cardId: string;
+  card?: CardData;       // Absent when the card is not in the card database
+  main: number;
+  sideboard: number;
+  required: number;      // Main deck plus sideboard
+  owned: number;
+  missing: number;
+}
@@ -0,0 +1,71 @@
+// Export registry and custom template types for the Riftbound Scanner app
+
+import { CollectionEntry, ExportFormat, ExportOptionValues, ExportSettings } from '@/types/collection';
+import { PriceTable } from '@/types/pricing';
+
+// A user-adjustable option declared by an export format
+export type ExportOptionField =
+  | { key: string; label: string; type: 'boolean'; default: boolean }
+  | { key: string; label: string; type: 'text'; default: string }
+  | { key: string; label: string; type: 'select'; default: string; choices: Array<{ value: string; label: string }> };
+
+export interface ExportContext {
+  settings: ExportSettings;
+  options: ExportOptionValues;
+  prices?: PriceTable;   // Current prices, for formats that can include value columns
+}
+
+export interface ExportFormatDefinition {
+  id: ExportFormat;
+  label: string;
+  description: string;
+  extension: string;     // Without the leading dot
+  mimeType: string;
+  filename: string;
+  options: ExportOptionField[];
+  generate: (collection: CollectionEntry[], context: ExportContext) => string;
+}
+
+// Values a custom template column can output
+export type TemplateField =
+  | 'cardId'
+  | 'name'
+  | 'setName'
+  | 'rarity'
+  | 'cardNumber'
+  | 'normalCount'
+  | 'foilCount'
+  | 'totalCount'
+  | 'printing'
+  | 'variant'
+  | 'quantity'
+  | 'condition'
+  | 'language'
+  | 'grade'
+  | 'location'
+  | 'tags'
+  | 'normalPrice'
+  | 'foilPrice'
+  | 'value'
+  | 'constant';
+
+export interface TemplateColumn {
+  header: string;
+  field: TemplateField;
+  value?: string;        // Output for 'constant' columns
+}
+
+// 'columns' writes one row per card with Normal/Foil count columns;
+// 'rows' writes one row per variant and condition/language/grade with Variant/Quantity columns
+export type TemplateVariantMode = 'columns' | 'rows';
+
+export interface CustomExportTemplate {
+  id: string;
+  name: string;
+  extension: 'csv' | 'txt';
+  columns: TemplateColumn[];
+  variantMode: TemplateVariantMode;
+  includeHeader: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
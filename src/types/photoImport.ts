@@ -0,0 +1,17 @@
+// Photo import types for the Riftbound Scanner app
+
+import { ReviewItem } from '@/types/scanReview';
+
+export type PhotoImportStatus = 'queued' | 'processing' | 'identified' | 'failed';
+
+// An uploaded photo and the card it was identified as
+export interface PhotoImportItem {
+  id: string;
+  fileName: string;
+  status: PhotoImportStatus;
+  message?: string;               // Matcher note, or why the photo could not be read
+  confidence?: 'excellent' | 'good' | 'fair' | 'low';
+  cardDetected?: boolean;         // False when no card edges were found and the photo was center-cropped
+  result?: ReviewItem;            // Card and counts to add, once identified
+  accepted: boolean;
+}
@@ -0,0 +1,38 @@
+// Pricing types for collection valuation
+
+import { CardFinish } from '@/types/collection';
+
+// Price of one copy of a printing in one finish
+export interface PriceQuote {
+  cardId: string;
+  finish: CardFinish;
+  price: number;
+  currency: string;      // ISO 4217 code, e.g. "USD"
+  source: string;        // ID of the price source that supplied it
+  updatedAt: string;     // ISO timestamp of the price itself (or when it was fetched)
+}
+
+// Quotes keyed by "<cardId>|<finish>"
+export type PriceTable = Record<string, PriceQuote>;
+
+// Somewhere prices come from: a local price file, a pricing API, ...
+export interface PriceSource {
+  id: string;
+  label: string;
+  // Quotes for as many of the given card IDs as the source knows about
+  fetchPrices: (cardIds: string[]) => Promise<PriceQuote[]>;
+}
+
+// Persisted price cache
+export interface PriceCache {
+  quotes: PriceTable;
+  sourceId: string | null;
+  refreshedAt: string | null;   // ISO timestamp of the last refresh
+}
+
+export interface CollectionValue {
+  total: number;
+  currency: string | null;      // null until any price is known
+  pricedCards: number;
+  unpricedCards: number;
+}
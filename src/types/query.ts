@@ -0,0 +1,55 @@
+// Card query types for the Riftbound Scanner app
+
+export type QueryOperator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export type QueryField =
+  | 'name'
+  | 'id'
+  | 'set'
+  | 'rarity'
+  | 'type'
+  | 'domain'
+  | 'variant'
+  | 'tag'
+  | 'location'
+  | 'number'
+  | 'normal'
+  | 'foil'
+  | 'total'
+  | 'price'
+  | 'value'
+  | 'is';
+
+export type SortField = 'added' | 'name' | 'id' | 'set' | 'rarity' | 'number' | 'normal' | 'foil' | 'total' | 'price' | 'value';
+
+// One condition, e.g. rarity>=epic; 'text' terms match name or card ID
+export interface QueryTerm {
+  field: QueryField | 'text';
+  operator: QueryOperator;
+  value: string;
+  negated: boolean;
+  raw: string;           // As typed, for error messages
+}
+
+export interface SortKey {
+  field: SortField;
+  descending: boolean;
+}
+
+export interface QueryError {
+  raw: string;
+  message: string;
+}
+
+export interface ParsedQuery {
+  groups: QueryTerm[][]; // Any group matches when all of its terms do (terms joined by OR)
+  sort: SortKey[];
+  errors: QueryError[];
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  createdAt: string;     // ISO timestamp
+}
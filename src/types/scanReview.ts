@@ -0,0 +1,43 @@
+// Scan review types for the Riftbound Scanner app
+
+export interface ScanCandidate {
+  cardId: string;
+  score: number;                  // Similarity, 0-1
+}
+
+// What the scanner saw when a card was confirmed
+export interface ScanDetails {
+  score?: number;                 // Similarity of the confirmed match
+  candidates: ScanCandidate[];    // Best matches, best first
+  thumbnail?: string;             // JPEG data URL of the warped card
+}
+
+// A scan waiting for review; counts and card can be fixed before committing
+export interface ReviewItem extends ScanDetails {
+  id: string;
+  cardId: string;                 // The card that will be added
+  detectedCardId: string;         // The card the scanner proposed
+  source: 'scan' | 'correction';
+  normalCount: number;
+  foilCount: number;
+  scannedAt: string;              // ISO timestamp
+}
+
+export interface ScanReviewSummaryCard {
+  cardId: string;
+  name: string;
+  normalCount: number;
+  foilCount: number;
+}
+
+// A committed review session, kept for later reference
+export interface ScanReviewSummary {
+  id: string;
+  startedAt: string;              // ISO timestamp of the first scan
+  committedAt: string;
+  collectionId: string;
+  collectionName: string;
+  scanCount: number;
+  fixedCount: number;             // Scans whose card or counts were changed in review
+  cards: ScanReviewSummaryCard[];
+}
@@ -0,0 +1,37 @@
+// Shared scan session types for the Riftbound Scanner app
+
+export interface ScanSession {
+  id: string;
+  code: string;                   // Short code other devices join with
+  name: string;
+  createdBy: string;
+  createdAt: string;              // ISO timestamp
+  committedAt: string | null;
+  committedBy: string | null;
+}
+
+export interface ScanSessionMember {
+  userId: string;
+  displayName: string;
+}
+
+export interface SessionScan {
+  id: string;
+  cardId: string;
+  scannedBy: string;              // User ID of the scanning device's account
+  scannedAt: string;              // ISO timestamp
+  counted: boolean | null;        // null: duplicate detection decides
+}
+
+// A scan with the duplicate check applied
+export interface ReviewedScan extends SessionScan {
+  duplicateOf: string | null;     // The earlier scan this one repeats, if any
+  isCounted: boolean;
+}
+
+// Copies of one card the session will add
+export interface SessionCardTotal {
+  cardId: string;
+  count: number;
+  scannedBy: string[];
+}
@@ -0,0 +1,56 @@
+// Cloud sync types for the Riftbound Scanner app
+
+import { CollectionEntry, EntryChange } from '@/types/collection';
+
+// Orders versions of a record: higher clock wins, ties go to the higher device ID
+export interface VersionStamp {
+  clock: number;         // Lamport clock
+  deviceId: string;
+}
+
+export interface SyncedCollection {
+  id: string;
+  name: string;
+  deleted: boolean;
+  stamp: VersionStamp;
+}
+
+export interface SyncedEntry {
+  collectionId: string;
+  cardId: string;
+  entry: CollectionEntry | null;  // null once removed
+  stamp: VersionStamp;
+}
+
+// A record as last synced: its stamp, and a hash of its content for spotting local edits
+export interface SyncShadow {
+  stamp: VersionStamp;
+  hash: string;
+}
+
+// Per-device sync bookkeeping, kept in IndexedDB
+export interface SyncState {
+  enabled: boolean;
+  userId: string | null;          // The account the shadows belong to
+  deviceId: string;
+  clock: number;
+  cursor: number;                 // Transaction ID the next pull starts from; entries before it were pulled
+  lastSyncedAt?: string;          // ISO timestamp
+  collections: Record<string, SyncShadow>;
+  entries: Record<string, SyncShadow>;  // Keyed by "<collectionId>/<cardId>"
+}
+
+// Remote changes to apply locally
+export interface IncomingChanges {
+  created: Array<{ id: string; name: string }>;
+  renamed: Array<{ id: string; name: string }>;
+  deleted: string[];
+  entries: Record<string, EntryChange[]>;  // By collection ID
+}
+
+export interface SyncPlan {
+  push: { collections: SyncedCollection[]; entries: SyncedEntry[] };
+  incoming: IncomingChanges;
+  state: SyncState;
+  conflicts: number;              // Records both sides changed, settled by version stamp
+}
@@ -0,0 +1,150 @@
+// Batch edits applied to a selection of collection entries in one step
+
+import { CardData, CardVariant } from '@/data/cardDatabase';
+import { CollectionEntry } from '@/types/collection';
+import { getPrintings, getVariant, getVariantLabel } from '@/utils/cardVariants';
+import { getSplits, mergeEntrySplits, reconcileSplits, withSplits } from '@/utils/copySplits';
+import { normalizeLocation, normalizeTags } from '@/utils/organization';
+
+export type BulkAction =
+  | { kind: 'setCounts'; normal?: number; foil?: number }    // Omitted finishes keep their count
+  | { kind: 'adjustCounts'; normal: number; foil: number }   // Added to (or taken from) each entry
+  | { kind: 'changeVariant'; variant: CardVariant }
+  | { kind: 'addTag'; tag: string }
+  | { kind: 'removeTag'; tag: string }
+  | { kind: 'setLocation'; location?: string }              // Blank clears the location
+  | { kind: 'remove' };
+
+function cardLabel(count: number): string {
+  return `${count} ${count === 1 ? 'card' : 'cards'}`;
+}
+
+/**
+ * The printing of an entry's card in the given variant, if the card list has one
+ */
+export function findPrinting(entry: CollectionEntry, variant: CardVariant, cards: CardData[]): CardData | undefined {
+  return getPrintings(entry, cards).find(c => getVariant(c) === variant);
+}
+
+function withCounts(entry: CollectionEntry, normal: number, foil: number): CollectionEntry | null {
+  if (normal <= 0 && foil <= 0) return null;
+  return reconcileSplits({ ...entry, normalCount: Math.max(0, normal), foilCount: Math.max(0, foil) });
+}
+
+// Edit one entry; null removes it
+function editEntry(entry: CollectionEntry, action: BulkAction): CollectionEntry | null {
+  switch (action.kind) {
+    case 'setCounts':
+      return withCounts(entry, action.normal ?? entry.normalCount, action.foil ?? entry.foilCount);
+    case 'adjustCounts':
+      return withCounts(entry, entry.normalCount + action.normal, entry.foilCount + action.foil);
+    case 'addTag': {
+      const labels = normalizeTags([...(entry.labels ?? []), action.tag]);
+      return { ...entry, labels };
+    }
+    case 'removeTag': {
+      const removed = action.tag.trim().toLowerCase();
+      const { labels: previous = [], ...rest } = entry;
+      const labels = previous.filter(t => t.toLowerCase() !== removed);
+      return labels.length > 0 ? { ...rest, labels } : rest;
+    }
+    case 'setLocation': {
+      // Every copy moves, including copies stored apart from the rest
+      const location = normalizeLocation(action.location);
+      const { location: _previous, ...rest } = withSplits(entry, getSplits(entry).map(({ location: _l, ...s }) => s));
+      return location ? { ...rest, location } : rest;
+    }
+    case 'remove':
+      return null;
+    case 'changeVariant':
+      return entry;
+  }
+}
+
+/**
+ * Apply a batch action to the selected entries. Changing variant moves each
+ * entry's copies, splits and organization to the other printing, merging with
+ * an existing entry for it; entries whose card has no such printing are left alone.
+ */
+export function applyBulkAction(
+  entries: CollectionEntry[],
+  cardIds: string[],
+  action: BulkAction,
+  cards: CardData[] = []
+): CollectionEntry[] {
+  const selected = new Set(cardIds);
+
+  if (action.kind !== 'changeVariant') {
+    return entries.flatMap(entry => {
+      if (!selected.has(entry.cardId)) return [entry];
+      const edited = editEntry(entry, action);
+      return edited ? [edited] : [];
+    });
+  }
+
+  const result: CollectionEntry[] = [];
+  const indexById = new Map<string, number>();
+  const place = (entry: CollectionEntry) => {
+    const index = indexById.get(entry.cardId);
+    if (index === undefined) {
+      indexById.set(entry.cardId, result.length);
+      result.push(entry);
+    } else {
+      result[index] = mergeEntrySplits(result[index], entry);
+    }
+  };
+
+  for (const entry of entries) {
+    const printing = selected.has(entry.cardId) ? findPrinting(entry, action.variant, cards) : undefined;
+    if (!printing || printing.cardId === entry.cardId) {
+      place(entry);
+      continue;
+    }
+    const { normalCount, foilCount, splits, location, labels } = entry;
+    place({
+      ...printing,
+      normalCount,
+      foilCount,
+      ...(splits ? { splits } : {}),
+      ...(location ? { location } : {}),
+      ...(labels ? { labels } : {}),
+    });
+  }
+  return result;
+}
+
+/**
+ * History description for a batch action, e.g. "Moved 12 cards to Box 3"
+ */
+export function describeBulkAction(action: BulkAction, count: number): string {
+  const cardsText = cardLabel(count);
+  switch (action.kind) {
+    case 'setCounts': {
+      const parts = [
+        action.normal !== undefined ? `${action.normal} normal` : '',
+        action.foil !== undefined ? `${action.foil} foil` : '',
+      ].filter(Boolean);
+      return `Set ${cardsText} to ${parts.join(', ')}`;
+    }
+    case 'adjustCounts': {
+      const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+      const parts = [
+        action.normal !== 0 ? `${signed(action.normal)} normal` : '',
+        action.foil !== 0 ? `${signed(action.foil)} foil` : '',
+      ].filter(Boolean);
+      return `Adjusted ${cardsText} by ${parts.join(', ')}`;
+    }
+    case 'changeVariant':
+      return `Changed ${cardsText} to ${getVariantLabel(action.variant)}`;
+    case 'addTag':
+      return `Tagged ${cardsText} #${action.tag.trim()}`;
+    case 'removeTag':
+      return `Removed #${action.tag.trim()} from ${cardsText}`;
+    case 'setLocation': {
+      const location = normalizeLocation(action.location);
+      return location ? `Moved ${cardsText} to ${location}` : `Cleared location of ${cardsText}`;
+    }
+    case 'remove':
+      return `Removed ${cardsText}`;
+  }
+}
@@ -0,0 +1,134 @@
+// Card type, domain and tag metadata as read from card data sources
+
+import { CardData, CardType, Domain } from '@/data/cardDatabase';
+
+export const CARD_TYPES: CardType[] = ['Legend', 'Unit', 'Spell', 'Gear', 'Rune', 'Battlefield', 'Token'];
+
+export const DOMAINS: Domain[] = ['Fury', 'Calm', 'Mind', 'Body', 'Chaos', 'Order'];
+
+// Split "Fury, Mind", "Fury|Mind" or an array into trimmed, non-empty values
+function toList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,;|/]/) : [];
+  return items
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+function matchName<T extends string>(value: string, names: readonly T[]): T | undefined {
+  const normalized = value.trim().toLowerCase();
+  return names.find(name => name.toLowerCase() === normalized);
+}
+
+/**
+ * Read a card type; "Champion Unit" and similar prefixed types resolve to the base type
+ */
+export function parseCardType(value: unknown): CardType | undefined {
+  if (typeof value !== 'string') return undefined;
+  const words = value.split(/\s+/);
+  for (let i = words.length - 1; i >= 0; i--) {
+    const type = matchName(words[i], CARD_TYPES);
+    if (type) return type;
+  }
+  return undefined;
+}
+
+export function parseDomains(value: unknown): Domain[] {
+  return toList(value)
+    .map(item => matchName(item, DOMAINS))
+    .filter((domain): domain is Domain => domain !== undefined);
+}
+
+export function parseTags(value: unknown): string[] {
+  return toList(value);
+}
+
+/**
+ * Metadata fields from one row of the DotGG indexed card list. Column names vary,
+ * so several spellings are tried; missing columns leave the field unset.
+ */
+export function readCardMetadata(names: string[], row: unknown[]): Pick<CardData, 'cardType' | 'supertype' | 'domains' | 'tags'> {
+  const column = (...candidates: string[]) => {
+    const index = names.findIndex(n => candidates.includes(n.toLowerCase()));
+    return index === -1 ? undefined : row[index];
+  };
+
+  const type = column('type', 'card_type', 'cardtype');
+  const supertype = column('supertype', 'super_type', 'super');
+  const domains = column('domain', 'domains', 'color', 'colors');
+  const tags = column('tags', 'tag', 'champion');
+
+  return {
+    cardType: parseCardType(type),
+    // A type written as "Champion Unit" carries the supertype too
+    supertype: typeof supertype === 'string' && supertype.trim()
+      ? supertype.trim()
+      : typeof type === 'string' && type.trim().split(/\s+/).length > 1 ? type.trim().split(/\s+/)[0] : undefined,
+    domains: domains === undefined ? undefined : parseDomains(domains),
+    tags: tags === undefined ? undefined : parseTags(tags),
+  };
+}
+
+/**
+ * Cards from the DotGG indexed card list, `{ names: [...], data: [[...], ...] }`.
+ * Rows without an ID or name are skipped; a repeated card ID keeps its first row.
+ */
+export function readIndexedCardList(data: unknown): CardData[] {
+  const list = data as { names?: unknown; data?: unknown } | null;
+  if (!list || !Array.isArray(list.names) || !Array.isArray(list.data)) {
+    throw new Error('Unexpected API response format');
+  }
+
+  const names = list.names as string[];
+  const idIndex = names.indexOf('id');
+  const nameIndex = names.indexOf('name');
+  const setNameIndex = names.indexOf('set_name');
+  const rarityIndex = names.indexOf('rarity');
+
+  if (idIndex === -1 || nameIndex === -1) {
+    throw new Error('API response missing required fields (id, name)');
+  }
+
+  const mappedCards: CardData[] = [];
+  for (const row of list.data) {
+    if (!Array.isArray(row)) continue;
+
+    const cardId = row[idIndex];
+    const name = row[nameIndex];
+    const setName = setNameIndex !== -1 ? row[setNameIndex] : 'Unknown Set';
+    const rarity = rarityIndex !== -1 ? row[rarityIndex] : undefined;
+
+    if (cardId && typeof cardId === 'string' && name && typeof name === 'string') {
+      mappedCards.push({
+        cardId: cardId.trim().toUpperCase(),
+        name: name.trim(),
+        setName: typeof setName === 'string' ? setName.trim() : 'Unknown Set',
+        rarity: typeof rarity === 'string' ? rarity.trim() : undefined,
+        ...readCardMetadata(names, row),
+      });
+    }
+  }
+
+  if (mappedCards.length === 0) {
+    throw new Error('Could not parse any cards from API response');
+  }
+
+  // Deduplicate by cardId (keep first occurrence)
+  return Array.from(new Map(mappedCards.map(card => [card.cardId, card])).values());
+}
+
+export function isChampion(card: CardData): boolean {
+  return card.cardType === 'Unit' && card.supertype?.toLowerCase() === 'champion';
+}
+
+export function isSignature(card: CardData): boolean {
+  return card.supertype?.toLowerCase() === 'signature';
+}
+
+/**
+ * The champion a card belongs to: its first tag, or the part of its name before a
+ * comma ("Jinx, Rebel" -> "Jinx")
+ */
+export function getChampionName(card: CardData): string {
+  return (card.tags?.[0] ?? card.name.split(',')[0]).trim();
+}
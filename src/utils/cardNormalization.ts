@@ -48,11 +48,6 @@ export interface NormalizeResult {
 export async function normalizeCardFromVideoFrame(
   video: HTMLVideoElement
 ): Promise<NormalizeResult> {
-  const resultCanvas = document.createElement('canvas');
-  resultCanvas.width = CARD_WIDTH;
-  resultCanvas.height = CARD_HEIGHT;
-  const resultCtx = resultCanvas.getContext('2d')!;
-
   // Capture frame from video
   const tempCanvas = document.createElement('canvas');
   tempCanvas.width = video.videoWidth;
@@ -60,8 +55,20 @@ export async function normalizeCardFromVideoFrame(
   const tempCtx = tempCanvas.getContext('2d')!;
   tempCtx.drawImage(video, 0, 0);
 
+  return normalizeCardFromCanvas(tempCanvas);
+}
+
+/**
+ * Same as normalizeCardFromVideoFrame, for a still image already drawn to a canvas.
+ */
+export function normalizeCardFromCanvas(source: HTMLCanvasElement): NormalizeResult {
+  const resultCanvas = document.createElement('canvas');
+  resultCanvas.width = CARD_WIDTH;
+  resultCanvas.height = CARD_HEIGHT;
+  const resultCtx = resultCanvas.getContext('2d')!;
+
   // Use shared detection and warp with inset
-  const { warped, detection } = detectAndWarpCard(tempCanvas, {
+  const { warped, detection } = detectAndWarpCard(source, {
     outputWidth: CARD_WIDTH,
     outputHeight: CARD_HEIGHT,
     insetFraction: INSET_FRACTION,
@@ -0,0 +1,409 @@
+// Card query language: a small search syntax over cards and collection entries,
+// e.g. `set:origins rarity>=epic foil>0 name:"void"`
+//
+//   word, "quoted words"   name or card ID contains the text
+//   key op value           op is one of  :  =  !=  >  >=  <  <=
+//   -term                  the term must not match
+//   a OR b                 either side matches; terms side by side must all match
+//   sort:rarity,-value     sort by each key in turn; "-" sorts descending
+
+import { CardData } from '@/data/cardDatabase';
+import { CollectionEntry } from '@/types/collection';
+import { PriceTable } from '@/types/pricing';
+import {
+  ParsedQuery,
+  QueryError,
+  QueryField,
+  QueryOperator,
+  QueryTerm,
+  SortField,
+  SortKey,
+} from '@/types/query';
+import { CARD_TYPES, DOMAINS, isChampion, isSignature } from '@/utils/cardMetadata';
+import { CARD_VARIANTS, getVariant, isStandardVariant } from '@/utils/cardVariants';
+import { RARITY_ORDER, rarityRank } from '@/utils/setCompletion';
+import { getEntryValue, getQuote } from '@/utils/pricing';
+import { collectLocations, collectTags, getEntryLocations } from '@/utils/organization';
+
+// What a query is evaluated against besides the card itself
+export interface QueryContext {
+  entries?: Map<string, CollectionEntry>;  // Owned copies by card ID, when the items are plain cards
+  prices?: PriceTable;
+}
+
+// Where hint values come from
+export interface QueryHintSources {
+  cards: CardData[];
+  collection?: CollectionEntry[];
+}
+
+export interface QueryHint {
+  label: string;
+  insert: string;        // Replaces the term being typed
+  description?: string;
+}
+
+type FieldKind = 'text' | 'enum' | 'number' | 'rarity' | 'flag';
+
+interface FieldDefinition {
+  field: QueryField;
+  aliases: string[];
+  kind: FieldKind;
+  description: string;
+  texts?: (card: CardData, entry: CollectionEntry | null) => string[];
+  number?: (card: CardData, entry: CollectionEntry | null, context: QueryContext) => number | null;
+  values?: (sources: QueryHintSources) => string[];
+}
+
+const IS_VALUES = ['champion', 'signature', 'standard', 'alt', 'owned', 'foil'];
+
+const SORT_FIELDS: SortField[] = ['added', 'name', 'id', 'set', 'rarity', 'number', 'normal', 'foil', 'total', 'price', 'value'];
+
+// "OGN" for "OGN-001"
+function setCode(card: CardData): string {
+  return card.cardId.split('-')[0];
+}
+
+function cardNumber(card: CardData): number | null {
+  const parsed = parseInt((card.cardNumber || card.cardId.split('-')[1] || '').replace(/^\D+/, ''), 10);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+const FIELDS: FieldDefinition[] = [
+  { field: 'name', aliases: ['n'], kind: 'text', description: 'Card name contains', texts: card => [card.name] },
+  { field: 'id', aliases: [], kind: 'text', description: 'Card ID contains', texts: card => [card.cardId] },
+  {
+    field: 'set', aliases: ['s', 'e'], kind: 'text', description: 'Set name or code',
+    texts: card => [card.setName, setCode(card)],
+    values: ({ cards }) => [...new Set(cards.map(c => c.setName))],
+  },
+  {
+    field: 'rarity', aliases: ['r'], kind: 'rarity', description: 'Rarity, comparable (rarity>=epic)',
+    texts: card => (card.rarity ? [card.rarity] : []),
+    values: () => RARITY_ORDER,
+  },
+  {
+    field: 'type', aliases: ['t'], kind: 'enum', description: 'Card type',
+    texts: card => (card.cardType ? [card.cardType] : []),
+    values: () => CARD_TYPES,
+  },
+  {
+    field: 'domain', aliases: ['d'], kind: 'enum', description: 'Domain',
+    texts: card => card.domains ?? [],
+    values: () => DOMAINS,
+  },
+  {
+    field: 'variant', aliases: ['v'], kind: 'enum', description: 'Printing (standard, alt-art...)',
+    texts: card => [getVariant(card)],
+    values: () => CARD_VARIANTS.map(v => v.value),
+  },
+  {
+    field: 'tag', aliases: [], kind: 'text', description: 'Card or collection tag',
+    texts: (card, entry) => [...(card.tags ?? []), ...(entry?.labels ?? [])],
+    values: ({ cards, collection = [] }) => [...collectTags(collection), ...new Set(cards.flatMap(c => c.tags ?? []))],
+  },
+  {
+    field: 'location', aliases: ['loc'], kind: 'text', description: 'Storage location',
+    texts: (_card, entry) => (entry ? getEntryLocations(entry).filter((l): l is string => !!l) : []),
+    values: ({ collection = [] }) => collectLocations(collection),
+  },
+  { field: 'number', aliases: ['num'], kind: 'number', description: 'Card number in set', number: card => cardNumber(card) },
+  { field: 'normal', aliases: [], kind: 'number', description: 'Normal copies owned', number: (_c, entry) => entry?.normalCount ?? 0 },
+  { field: 'foil', aliases: [], kind: 'number', description: 'Foil copies owned', number: (_c, entry) => entry?.foilCount ?? 0 },
+  {
+    field: 'total', aliases: ['qty'], kind: 'number', description: 'Copies owned',
+    number: (_c, entry) => (entry ? entry.normalCount + entry.foilCount : 0),
+  },
+  {
+    field: 'price', aliases: [], kind: 'number', description: 'Normal (or foil) price of one copy',
+    number: (card, _e, { prices = {} }) =>
+      (getQuote(prices, card.cardId, 'normal') ?? getQuote(prices, card.cardId, 'foil'))?.price ?? null,
+  },
+  {
+    field: 'value', aliases: [], kind: 'number', description: 'Value of the copies owned',
+    number: (_c, entry, { prices = {} }) => (entry ? getEntryValue(entry, prices) : null),
+  },
+  { field: 'is', aliases: [], kind: 'flag', description: 'champion, signature, standard, alt, owned, foil', values: () => IS_VALUES },
+];
+
+function findField(key: string): FieldDefinition | undefined {
+  const lower = key.toLowerCase();
+  return FIELDS.find(f => f.field === lower || f.aliases.includes(lower));
+}
+
+// Flags, for is:<flag>
+function matchesFlag(flag: string, card: CardData, entry: CollectionEntry | null): boolean | null {
+  switch (flag) {
+    case 'champion': return isChampion(card);
+    case 'signature': return isSignature(card);
+    case 'standard': return isStandardVariant(card);
+    case 'alt': return !isStandardVariant(card);
+    case 'owned': return !!entry && entry.normalCount + entry.foilCount > 0;
+    case 'foil': return !!entry && entry.foilCount > 0;
+    default: return null;
+  }
+}
+
+// -key:"value with spaces", key>=value, "quoted words", or a bare word
+const TOKEN_PATTERN = /(-?)(?:([a-zA-Z]+)(!=|>=|<=|:|=|>|<)(?:"([^"]*)"?|(\S*))|"([^"]*)"?|(\S+))/g;
+
+function compareNumbers(actual: number, operator: QueryOperator, expected: number): boolean {
+  switch (operator) {
+    case ':':
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+  }
+}
+
+function parseSortKeys(value: string, raw: string, errors: QueryError[]): SortKey[] {
+  const keys: SortKey[] = [];
+  for (const part of value.split(',').filter(Boolean)) {
+    const descending = part.startsWith('-');
+    const name = part.replace(/^-/, '').toLowerCase();
+    const field = SORT_FIELDS.find(f => f === name) ?? (findField(name)?.field as SortField | undefined);
+    if (field && SORT_FIELDS.includes(field)) {
+      keys.push({ field, descending });
+    } else {
+      errors.push({ raw, message: `Can't sort by "${name}"` });
+    }
+  }
+  return keys;
+}
+
+// Check a key/operator/value term; returns an error message or null
+function validateTerm(definition: FieldDefinition, operator: QueryOperator, value: string): string | null {
+  const ordered = !['=', ':', '!='].includes(operator);
+  if (!value) return `${definition.field} needs a value`;
+  switch (definition.kind) {
+    case 'number':
+      return Number.isFinite(parseFloat(value)) ? null : `${definition.field} needs a number`;
+    case 'rarity':
+      return !ordered || RARITY_ORDER.some(r => r.toLowerCase() === value.toLowerCase())
+        ? null
+        : `Unknown rarity "${value}"`;
+    case 'flag':
+      if (ordered) return `is only supports ":"`;
+      return IS_VALUES.includes(value.toLowerCase()) ? null : `Unknown flag "${value}"`;
+    default:
+      return ordered ? `${definition.field} can't be compared with ${operator}` : null;
+  }
+}
+
+/**
+ * Parse a query. Terms that don't make sense are reported in `errors` and left out.
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const groups: QueryTerm[][] = [[]];
+  const sort: SortKey[] = [];
+  const errors: QueryError[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, negation, key, operator, quotedValue, plainValue, quotedText, word] = match;
+    const negated = negation === '-';
+
+    if (word !== undefined && !negated && word.toLowerCase() === 'or') {
+      groups.push([]);
+      continue;
+    }
+
+    if (key !== undefined) {
+      const value = (quotedValue ?? plainValue ?? '').trim();
+      if (key.toLowerCase() === 'sort') {
+        sort.push(...parseSortKeys(value, raw, errors));
+        continue;
+      }
+      const definition = findField(key);
+      if (!definition) {
+        errors.push({ raw, message: `Unknown field "${key}"` });
+        continue;
+      }
+      const error = validateTerm(definition, operator as QueryOperator, value);
+      if (error) {
+        errors.push({ raw, message: error });
+        continue;
+      }
+      groups[groups.length - 1].push({ field: definition.field, operator: operator as QueryOperator, value, negated, raw });
+      continue;
+    }
+
+    const text = (quotedText ?? word ?? '').trim();
+    if (text && text !== '-') {
+      groups[groups.length - 1].push({ field: 'text', operator: ':', value: text, negated, raw });
+    }
+  }
+
+  return { groups: groups.filter(g => g.length > 0), sort, errors };
+}
+
+/**
+ * Whether a query has anything to filter or sort by
+ */
+export function isEmptyQuery(query: ParsedQuery): boolean {
+  return query.groups.length === 0 && query.sort.length === 0;
+}
+
+function resolveEntry(card: CardData, context: QueryContext): CollectionEntry | null {
+  if ('normalCount' in card) return card as CollectionEntry;
+  return context.entries?.get(card.cardId) ?? null;
+}
+
+function matchesTerm(card: CardData, term: QueryTerm, context: QueryContext): boolean {
+  const entry = resolveEntry(card, context);
+  const expected = term.value.toLowerCase();
+
+  if (term.field === 'text') {
+    return card.name.toLowerCase().includes(expected) || card.cardId.toLowerCase().includes(expected);
+  }
+
+  const definition = findField(term.field)!;
+  switch (definition.kind) {
+    case 'flag':
+      return matchesFlag(expected, card, entry) ?? false;
+    case 'number': {
+      const actual = definition.number!(card, entry, context);
+      return actual !== null && compareNumbers(actual, term.operator, parseFloat(term.value));
+    }
+    case 'rarity':
+      if (!['=', ':', '!='].includes(term.operator)) {
+        const rarity = card.rarity && RARITY_ORDER.includes(card.rarity) ? card.rarity : null;
+        if (!rarity) return false;
+        const target = RARITY_ORDER.find(r => r.toLowerCase() === expected)!;
+        return compareNumbers(rarityRank(rarity), term.operator, rarityRank(target));
+      }
+      break;
+  }
+
+  // Text and enum fields: ":" contains (enums: starts with), "=" exact, "!=" not exact
+  const texts = definition.texts!(card, entry).map(t => t.toLowerCase());
+  if (term.operator === '=') return texts.includes(expected);
+  if (term.operator === '!=') return !texts.includes(expected);
+  return definition.kind === 'text'
+    ? texts.some(t => t.includes(expected))
+    : texts.some(t => t.startsWith(expected));
+}
+
+/**
+ * Whether a card (or collection entry) matches a parsed query
+ */
+export function matchesQuery(card: CardData, query: ParsedQuery, context: QueryContext = {}): boolean {
+  if (query.groups.length === 0) return true;
+  return query.groups.some(group => group.every(term => matchesTerm(card, term, context) !== term.negated));
+}
+
+function sortValue(card: CardData, field: SortField, context: QueryContext): string | number | null {
+  const entry = resolveEntry(card, context);
+  switch (field) {
+    case 'added': return null;
+    case 'name': return card.name;
+    case 'id': return card.cardId;
+    case 'set': return card.setName;
+    case 'rarity': return card.rarity ? rarityRank(card.rarity) : null;
+    default: return findField(field)!.number!(card, entry, context);
+  }
+}
+
+/**
+ * Sort by each key in turn, keeping the current order for ties. Missing values
+ * (no price, no rarity) sort last in either direction.
+ */
+export function sortByKeys<T extends CardData>(items: T[], keys: SortKey[], context: QueryContext = {}): T[] {
+  const active = keys.filter(k => k.field !== 'added');
+  if (active.length === 0) return items;
+
+  return [...items].sort((a, b) => {
+    for (const { field, descending } of active) {
+      const va = sortValue(a, field, context);
+      const vb = sortValue(b, field, context);
+      if (va === vb) continue;
+      if (va === null) return 1;
+      if (vb === null) return -1;
+      const order = typeof va === 'number' && typeof vb === 'number'
+        ? va - vb
+        : String(va).localeCompare(String(vb), undefined, { numeric: true });
+      if (order !== 0) return descending ? -order : order;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Filter and sort in one step. `defaultSort` applies when the query has no sort: terms.
+ */
+export function applyQuery<T extends CardData>(
+  items: T[],
+  query: ParsedQuery,
+  context: QueryContext = {},
+  defaultSort: SortKey[] = []
+): T[] {
+  const filtered = query.groups.length === 0 ? items : items.filter(item => matchesQuery(item, query, context));
+  return sortByKeys(filtered, query.sort.length > 0 ? query.sort : defaultSort, context);
+}
+
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+// The term being typed: everything after the last space outside quotes
+function currentTerm(input: string): string {
+  let start = 0;
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === '"') quoted = !quoted;
+    else if (!quoted && /\s/.test(input[i])) start = i + 1;
+  }
+  return input.slice(start);
+}
+
+/**
+ * Suggestions for the term being typed: field names, then values for the field
+ */
+export function getQueryHints(input: string, sources: QueryHintSources, limit: number = 8): QueryHint[] {
+  const term = currentTerm(input);
+  const match = term.match(/^(-?)([a-zA-Z]+)(!=|>=|<=|:|=|>|<)?"?([^"]*)"?$/);
+  if (!match) return [];
+
+  const [, negation, key, operator, partial] = match;
+
+  if (!operator) {
+    const lower = key.toLowerCase();
+    const fields = FIELDS.filter(f => f.field.startsWith(lower) && f.field !== lower);
+    const hints: QueryHint[] = fields.map(f => ({
+      label: `${f.field}:`,
+      insert: `${negation}${f.field}:`,
+      description: f.description,
+    }));
+    if ('sort'.startsWith(lower) && lower !== 'sort') {
+      hints.push({ label: 'sort:', insert: `${negation}sort:`, description: 'Sort by keys, e.g. sort:rarity,-value' });
+    }
+    return hints.slice(0, limit);
+  }
+
+  let values: string[];
+  if (key.toLowerCase() === 'sort') {
+    values = SORT_FIELDS.flatMap(f => [f, `-${f}`]);
+  } else {
+    const definition = findField(key);
+    if (!definition?.values) return [];
+    values = definition.values(sources);
+  }
+
+  // For sort lists, complete the last key only
+  const prefix = key.toLowerCase() === 'sort' ? partial.slice(0, partial.lastIndexOf(',') + 1) : '';
+  const typed = partial.slice(prefix.length).toLowerCase();
+
+  return [...new Set(values)]
+    .filter(v => v.toLowerCase().startsWith(typed) && v.toLowerCase() !== typed)
+    .slice(0, limit)
+    .map(v => ({ label: v, insert: `${negation}${key}${operator}${quoteValue(prefix + v)} ` }));
+}
+
+/**
+ * Replace the term being typed with a hint
+ */
+export function applyQueryHint(input: string, hint: QueryHint): string {
+  return input.slice(0, input.length - currentTerm(input).length) + hint.insert;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { CardData } from '@/data/cardDatabase';
+import { deriveCardVariants } from '@/utils/cardVariants';
+
+function card(cardId: string, name: string, extra: Partial<CardData> = {}): CardData {
+  return { cardId, name, setName: 'Origins', ...extra };
+}
+
+function classify(cards: CardData[]) {
+  return deriveCardVariants(cards).map(c => [c.cardId, c.variant ?? 'standard', c.baseCardId ?? null]);
+}
+
+describe('deriveCardVariants', () => {
+  it('classifies from the card ID suffix and links to the standard printing', () => {
+    expect(classify([
+      card('OGN-007', 'Void Walker'),
+      card('OGN-007A', 'Void Walker'),
+      card('OGN-007*', 'Void Walker'),
+    ])).toEqual([
+      ['OGN-007', 'standard', null],
+      ['OGN-007A', 'alt-art', 'OGN-007'],
+      ['OGN-007*', 'signature', 'OGN-007'],
+    ]);
+  });
+
+  it('classifies from the rarity column and a number above the set size', () => {
+    expect(classify([
+      card('OGN-001', 'Jinx', { cardNumber: '001/298' }),
+      card('OGN-299', 'Jinx', { cardNumber: '299/298' }),
+      card('OGN-310', 'Jinx', { rarity: 'Showcase' }),
+    ])).toEqual([
+      ['OGN-001', 'standard', null],
+      ['OGN-299', 'overnumbered', 'OGN-001'],
+      ['OGN-310', 'showcase', 'OGN-001'],
+    ]);
+  });
+
+  it('keeps distinct cards that share a name as standard printings', () => {
+    expect(classify([
+      card('OGN-050', 'Recruit', { cardNumber: '050/298' }),
+      card('OGN-120', 'Recruit', { cardNumber: '120/298' }),
+    ])).toEqual([
+      ['OGN-050', 'standard', null],
+      ['OGN-120', 'standard', null],
+    ]);
+  });
+
+  it('clears stale variant fields from standard printings', () => {
+    expect(classify([card('OGN-002', 'Frost Warden', { variant: 'overnumbered', baseCardId: 'OGN-001' })]))
+      .toEqual([['OGN-002', 'standard', null]]);
+  });
+});
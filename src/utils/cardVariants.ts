@@ -0,0 +1,127 @@
+// Printing variants (alt-art, overnumbered, signature, showcase) derived from the card list.
+// Each printing keeps its own card ID; non-standard printings link back to the standard one.
+
+import { CardData, CardVariant } from '@/data/cardDatabase';
+import { CardFinish } from '@/types/collection';
+
+export const STANDARD_VARIANT: CardVariant = 'standard';
+
+export const CARD_VARIANTS: Array<{ value: CardVariant; label: string; short: string }> = [
+  { value: 'standard', label: 'Standard', short: 'STD' },
+  { value: 'alt-art', label: 'Alternate Art', short: 'ALT' },
+  { value: 'overnumbered', label: 'Overnumbered', short: 'OVN' },
+  { value: 'signature', label: 'Signature', short: 'SIG' },
+  { value: 'showcase', label: 'Showcase', short: 'SHW' },
+];
+
+// "OGN-007", optionally followed by an alt-art letter or a signature star
+const CARD_ID_PATTERN = /^([A-Z]{2,4})-(\d{3})([A-Z]?)(\*?)$/;
+
+export function getVariant(card: CardData): CardVariant {
+  return card.variant ?? STANDARD_VARIANT;
+}
+
+export function isStandardVariant(card: CardData): boolean {
+  return getVariant(card) === STANDARD_VARIANT;
+}
+
+export function getVariantLabel(variant: CardVariant): string {
+  return CARD_VARIANTS.find(v => v.value === variant)?.label ?? variant;
+}
+
+export function getVariantShortLabel(variant: CardVariant): string {
+  return CARD_VARIANTS.find(v => v.value === variant)?.short ?? variant;
+}
+
+/**
+ * Read a variant written as a value ("alt-art") or label ("Alternate Art", "Alt Art");
+ * anything unrecognised is the standard printing
+ */
+export function parseVariant(value: string | undefined): CardVariant {
+  const normalized = (value ?? '').trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+  if (!normalized) return STANDARD_VARIANT;
+  if (normalized.includes('alt')) return 'alt-art';
+  if (normalized.includes('overnumber')) return 'overnumbered';
+  if (normalized.includes('signature')) return 'signature';
+  if (normalized.includes('showcase')) return 'showcase';
+  return STANDARD_VARIANT;
+}
+
+// Variant named by the rarity column, if any (e.g. "Showcase", "Alternate Art")
+function variantFromRarity(rarity: string | undefined): CardVariant | null {
+  const variant = parseVariant(rarity);
+  return variant === STANDARD_VARIANT ? null : variant;
+}
+
+/**
+ * Classify every card in the list and link non-standard printings to the standard
+ * printing of the same card. Only explicit signals classify a card, in order: the
+ * rarity column, the card ID suffix ("A" for alt-art, "*" for signature) and a
+ * collector number above the set size. Distinct cards can share a name, so a
+ * repeated name alone never makes a printing a variant.
+ */
+export function deriveCardVariants(cards: CardData[]): CardData[] {
+  // Lowest-numbered plain printing of each name, per set prefix
+  const standardByName = new Map<string, CardData>();
+  const parsed = cards.map(card => ({ card, match: card.cardId.toUpperCase().match(CARD_ID_PATTERN) }));
+
+  const sorted = [...parsed].sort((a, b) => a.card.cardId.localeCompare(b.card.cardId));
+  for (const { card, match } of sorted) {
+    if (!match || match[3] || match[4] || variantFromRarity(card.rarity)) continue;
+    const key = `${match[1]}|${card.name.toLowerCase()}`;
+    if (!standardByName.has(key)) standardByName.set(key, card);
+  }
+
+  return parsed.map(({ card, match }) => {
+    const { variant: _variant, baseCardId: _baseCardId, ...rest } = card;
+    if (!match) return rest;
+
+    const standard = standardByName.get(`${match[1]}|${card.name.toLowerCase()}`);
+    const [, , idNumber, letter, star] = match;
+    const [printedNumber, setSize] = (card.cardNumber ?? '').split('/').map(n => parseInt(n, 10));
+    const number = printedNumber || parseInt(idNumber, 10);
+
+    let variant: CardVariant =
+      variantFromRarity(card.rarity) ??
+      (star ? 'signature' : letter ? 'alt-art' : STANDARD_VARIANT);
+    if (variant === STANDARD_VARIANT && setSize && number > setSize) {
+      variant = 'overnumbered';
+    }
+
+    if (variant === STANDARD_VARIANT) return rest;
+    return {
+      ...rest,
+      variant,
+      ...(standard && standard.cardId !== card.cardId ? { baseCardId: standard.cardId } : {}),
+    };
+  });
+}
+
+/**
+ * All printings of a card (standard first), including the card itself
+ */
+export function getPrintings(card: CardData, cards: CardData[]): CardData[] {
+  const baseId = card.baseCardId ?? card.cardId;
+  const printings = cards.filter(c => c.cardId === baseId || c.baseCardId === baseId);
+  if (!printings.some(c => c.cardId === card.cardId)) printings.push(card);
+
+  const order = (c: CardData) => CARD_VARIANTS.findIndex(v => v.value === getVariant(c));
+  return printings.sort((a, b) => order(a) - order(b) || a.cardId.localeCompare(b.cardId));
+}
+
+/**
+ * "Name (Alternate Art)" style display name; the plain name for standard printings
+ */
+export function formatCardName(card: CardData): string {
+  return isStandardVariant(card) ? card.name : `${card.name} (${getVariantLabel(getVariant(card))})`;
+}
+
+/**
+ * Printing and finish as one label, as used by Collectr's Variance column:
+ * "Normal"/"Foil" for standard printings, "Alternate Art"/"Alternate Art Foil" otherwise
+ */
+export function getVarianceLabel(card: CardData, finish: CardFinish): string {
+  if (isStandardVariant(card)) return finish === 'foil' ? 'Foil' : 'Normal';
+  const label = getVariantLabel(getVariant(card));
+  return finish === 'foil' ? `${label} Foil` : label;
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { CollectionEntry, NamedCollection } from '@/types/collection';
+import { SyncedCollection, SyncedEntry, SyncState, VersionStamp } from '@/types/sync';
+import { createSyncState, dropStaleChanges, entryKey, hasIncomingChanges, planSync } from '@/utils/cloudSync';
+
+const CARD = 'OGN-001';
+const KEY = entryKey('c1', CARD);
+
+function entry(normalCount: number, foilCount = 0): CollectionEntry {
+  return { cardId: CARD, name: 'Blazing Scorcher', setName: 'Origins', normalCount, foilCount };
+}
+
+function collection(entries: CollectionEntry[]): NamedCollection {
+  return { id: 'c1', name: 'Main', entries, createdAt: '2026-10-01T00:00:00.000Z', updatedAt: '2026-10-01T00:00:00.000Z' };
+}
+
+function stamp(clock: number, deviceId: string): VersionStamp {
+  return { clock, deviceId };
+}
+
+function synced(value: CollectionEntry | null, at: VersionStamp): SyncedEntry {
+  return { collectionId: 'c1', cardId: CARD, entry: value, stamp: at };
+}
+
+const remoteCollection: SyncedCollection = { id: 'c1', name: 'Main', deleted: false, stamp: stamp(1, 'B') };
+
+// State of a device that last synced two copies of the card, written by device B
+function syncedState(deviceId = 'A'): SyncState {
+  const plan = planSync(
+    [collection([entry(2)])],
+    [remoteCollection],
+    [synced(entry(2), stamp(1, 'B'))],
+    createSyncState(deviceId)
+  );
+  expect(plan.conflicts).toBe(0);
+  expect(plan.push).toEqual({ collections: [], entries: [] });
+  return plan.state;
+}
+
+describe('planSync', () => {
+  it('pushes a local-only edit with a new stamp', () => {
+    const plan = planSync([collection([entry(3)])], [remoteCollection], [], syncedState());
+
+    expect(plan.push.entries).toEqual([synced(entry(3), stamp(2, 'A'))]);
+    expect(hasIncomingChanges(plan.incoming)).toBe(false);
+    expect(plan.conflicts).toBe(0);
+    expect(plan.state.entries[KEY].stamp).toEqual(stamp(2, 'A'));
+  });
+
+  it('pushes a local removal as an empty entry', () => {
+    const plan = planSync([collection([])], [remoteCollection], [], syncedState());
+    expect(plan.push.entries).toEqual([synced(null, stamp(2, 'A'))]);
+  });
+
+  it('applies a remote-only edit', () => {
+    const plan = planSync([collection([entry(2)])], [remoteCollection], [synced(entry(4), stamp(2, 'B'))], syncedState());
+
+    expect(plan.push.entries).toEqual([]);
+    expect(plan.incoming.entries).toEqual({ c1: [{ cardId: CARD, before: entry(2), after: entry(4) }] });
+    expect(plan.conflicts).toBe(0);
+    expect(plan.state.entries[KEY].stamp).toEqual(stamp(2, 'B'));
+    expect(plan.state.clock).toBe(2);
+  });
+
+  it('settles a concurrent edit in favour of the higher stamp', () => {
+    const remoteAhead = planSync([collection([entry(3)])], [remoteCollection], [synced(entry(4), stamp(5, 'B'))], syncedState());
+    expect(remoteAhead.conflicts).toBe(1);
+    expect(remoteAhead.push.entries).toEqual([]);
+    expect(remoteAhead.incoming.entries.c1).toEqual([{ cardId: CARD, before: entry(3), after: entry(4) }]);
+    // The clock moves past every stamp seen, so this device's next edit outranks them
+    expect(remoteAhead.state.clock).toBe(5);
+
+    const localAhead = planSync([collection([entry(3)])], [remoteCollection], [synced(entry(4), stamp(1, 'C'))], syncedState());
+    expect(localAhead.conflicts).toBe(1);
+    expect(localAhead.push.entries).toEqual([synced(entry(3), stamp(2, 'A'))]);
+    expect(hasIncomingChanges(localAhead.incoming)).toBe(false);
+  });
+
+  it('breaks a stamp tie by device ID', () => {
+    const remote = [synced(entry(4), stamp(2, 'B'))];
+
+    const lower = planSync([collection([entry(3)])], [remoteCollection], remote, syncedState('A'));
+    expect(lower.conflicts).toBe(1);
+    expect(lower.incoming.entries.c1).toEqual([{ cardId: CARD, before: entry(3), after: entry(4) }]);
+
+    const higher = planSync([collection([entry(3)])], [remoteCollection], remote, syncedState('C'));
+    expect(higher.conflicts).toBe(1);
+    expect(higher.push.entries).toEqual([synced(entry(3), stamp(2, 'C'))]);
+  });
+
+  it('settles delete against edit by stamp like any other conflict', () => {
+    // Removed here, edited elsewhere later: the edit comes back
+    const edited = planSync([collection([])], [remoteCollection], [synced(entry(5), stamp(3, 'B'))], syncedState());
+    expect(edited.conflicts).toBe(1);
+    expect(edited.incoming.entries.c1).toEqual([{ cardId: CARD, before: null, after: entry(5) }]);
+
+    // Edited here, removed elsewhere earlier: the edit is pushed
+    const removed = planSync([collection([entry(3)])], [remoteCollection], [synced(null, stamp(1, 'C'))], syncedState());
+    expect(removed.conflicts).toBe(1);
+    expect(removed.push.entries).toEqual([synced(entry(3), stamp(2, 'A'))]);
+    expect(hasIncomingChanges(removed.incoming)).toBe(false);
+  });
+
+  it('removes a collection deleted elsewhere without touching its entries', () => {
+    const deleted = { ...remoteCollection, deleted: true, stamp: stamp(2, 'B') };
+    const plan = planSync([collection([entry(3)])], [deleted], [synced(entry(7), stamp(2, 'B'))], syncedState());
+
+    expect(plan.incoming.deleted).toEqual(['c1']);
+    expect(plan.incoming.entries).toEqual({});
+    expect(plan.push).toEqual({ collections: [], entries: [] });
+    expect(plan.state.collections.c1.stamp).toEqual(stamp(2, 'B'));
+    expect(plan.state.entries[KEY].stamp).toEqual(stamp(2, 'B'));
+  });
+
+  it("treats this device's own push coming back in a pull as already synced", () => {
+    const local = [collection([entry(3)])];
+    const pushed = planSync(local, [remoteCollection], [], syncedState());
+    const echo = pushed.push.entries;
+
+    const next = planSync(local, [remoteCollection], echo, pushed.state);
+    expect(next.conflicts).toBe(0);
+    expect(next.push.entries).toEqual([]);
+    expect(hasIncomingChanges(next.incoming)).toBe(false);
+
+    // Even when the shadows from that push were never saved, matching content is not a conflict
+    const stale = planSync(local, [remoteCollection], echo, syncedState());
+    expect(stale.conflicts).toBe(0);
+    expect(stale.push.entries).toEqual([]);
+    expect(hasIncomingChanges(stale.incoming)).toBe(false);
+    expect(stale.state.entries[KEY].stamp).toEqual(stamp(2, 'A'));
+  });
+});
+
+describe('dropStaleChanges', () => {
+  it('keeps a card edited locally while the sync was in flight, for the next sync to push', () => {
+    const plan = planSync([collection([entry(2)])], [remoteCollection], [synced(entry(4), stamp(2, 'B'))], syncedState());
+    const changes = plan.incoming.entries.c1;
+
+    expect(dropStaleChanges([entry(2)], changes)).toEqual(changes);
+
+    // One foil added before the pulled change was applied
+    const edited = [entry(2, 1)];
+    expect(dropStaleChanges(edited, changes)).toEqual([]);
+
+    const next = planSync([collection(edited)], [remoteCollection], [], plan.state);
+    expect(next.push.entries).toEqual([synced(entry(2, 1), stamp(3, 'A'))]);
+    expect(next.conflicts).toBe(0);
+  });
+
+  it('treats an entry with no copies as absent', () => {
+    const change = { cardId: CARD, before: null, after: entry(1) };
+    expect(dropStaleChanges([entry(0)], [change])).toEqual([change]);
+  });
+});
@@ -0,0 +1,212 @@
+// Planning a cloud sync: which local edits to push and which remote changes to apply.
+// Each record's last synced version is kept as a shadow; a record whose content no
+// longer matches its shadow was edited locally, and a remote record whose stamp differs
+// from its shadow was edited elsewhere. When both happened, the higher version stamp
+// wins, the same rule the server applies when accepting pushes.
+
+import { CollectionEntry, EntryChange, NamedCollection } from '@/types/collection';
+import {
+  IncomingChanges,
+  SyncPlan,
+  SyncShadow,
+  SyncState,
+  SyncedCollection,
+  SyncedEntry,
+  VersionStamp,
+} from '@/types/sync';
+import { createId } from '@/utils/collectionUtils';
+
+const DELETED_HASH = 'deleted';
+
+export function createSyncState(deviceId: string = createId()): SyncState {
+  return { enabled: false, userId: null, deviceId, clock: 0, cursor: 0, collections: {}, entries: {} };
+}
+
+export function entryKey(collectionId: string, cardId: string): string {
+  return `${collectionId}/${cardId}`;
+}
+
+export function compareStamps(a: VersionStamp, b: VersionStamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0;
+}
+
+// JSON with sorted keys, so content stored as JSONB hashes the same after a round trip
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hashEntry(entry: CollectionEntry | null): string {
+  return entry && entry.normalCount + entry.foilCount > 0 ? stableStringify(entry) : DELETED_HASH;
+}
+
+function hashCollection(collection: { name: string; deleted?: boolean } | null): string {
+  return collection && !collection.deleted ? stableStringify({ name: collection.name }) : DELETED_HASH;
+}
+
+type Winner = 'local' | 'remote' | 'same' | null;
+
+/**
+ * Which side's version to keep for one record; null when neither changed
+ */
+function pickWinner(
+  localHash: string,
+  remote: { hash: string; stamp: VersionStamp } | undefined,
+  shadow: SyncShadow | undefined,
+  localStamp: VersionStamp
+): { winner: Winner; conflict: boolean } {
+  const dirty = localHash !== (shadow?.hash ?? DELETED_HASH);
+  const remoteChanged = !!remote && (!shadow || compareStamps(remote.stamp, shadow.stamp) !== 0);
+
+  if (remoteChanged && remote.hash === localHash) return { winner: 'same', conflict: false };
+  if (dirty && remoteChanged) {
+    return { winner: compareStamps(localStamp, remote.stamp) > 0 ? 'local' : 'remote', conflict: true };
+  }
+  if (dirty) return { winner: 'local', conflict: false };
+  if (remoteChanged) return { winner: 'remote', conflict: false };
+  return { winner: null, conflict: false };
+}
+
+/**
+ * Plan a sync of the local collections against the remote records. `remoteCollections`
+ * is the full list; `remoteEntries` only needs the entries changed since the last sync
+ * (plus every entry of collections this device hasn't seen); `cursor` is where the
+ * pull that returned them says the next one should start. All local edits made since
+ * the last sync share one new stamp.
+ */
+export function planSync(
+  local: NamedCollection[],
+  remoteCollections: SyncedCollection[],
+  remoteEntries: SyncedEntry[],
+  state: SyncState,
+  cursor: number = state.cursor
+): SyncPlan {
+  const localStamp: VersionStamp = { clock: state.clock + 1, deviceId: state.deviceId };
+  const push: SyncPlan['push'] = { collections: [], entries: [] };
+  const incoming: IncomingChanges = { created: [], renamed: [], deleted: [], entries: {} };
+  const collectionShadows = { ...state.collections };
+  const entryShadows = { ...state.entries };
+  let conflicts = 0;
+  let clock = localStamp.clock;
+
+  // Collections: names and deletions
+  const localById = new Map(local.map(c => [c.id, c]));
+  const remoteById = new Map(remoteCollections.map(c => [c.id, c]));
+  const liveIds = new Set(local.map(c => c.id));
+  const collectionIds = new Set([...localById.keys(), ...remoteById.keys(), ...Object.keys(state.collections)]);
+
+  for (const id of collectionIds) {
+    const mine = localById.get(id) ?? null;
+    const theirs = remoteById.get(id);
+    const localHash = hashCollection(mine);
+    const { winner, conflict } = pickWinner(
+      localHash,
+      theirs && { hash: hashCollection(theirs), stamp: theirs.stamp },
+      state.collections[id],
+      localStamp
+    );
+    if (conflict) conflicts++;
+    if (theirs) clock = Math.max(clock, theirs.stamp.clock);
+
+    if (winner === 'local') {
+      push.collections.push({ id, name: mine?.name ?? theirs?.name ?? '', deleted: !mine, stamp: localStamp });
+      collectionShadows[id] = { stamp: localStamp, hash: localHash };
+    } else if ((winner === 'remote' || winner === 'same') && theirs) {
+      collectionShadows[id] = { stamp: theirs.stamp, hash: hashCollection(theirs) };
+      if (winner === 'same') continue;
+      if (theirs.deleted) {
+        if (mine) incoming.deleted.push(id);
+        liveIds.delete(id);
+      } else if (!mine) {
+        incoming.created.push({ id, name: theirs.name });
+        liveIds.add(id);
+      } else if (mine.name !== theirs.name) {
+        incoming.renamed.push({ id, name: theirs.name });
+      }
+    }
+  }
+
+  // Entries of collections that exist on this device once the sync is done
+  const localEntries = new Map<string, CollectionEntry>();
+  for (const collection of local) {
+    for (const entry of collection.entries) localEntries.set(entryKey(collection.id, entry.cardId), entry);
+  }
+  const remoteByKey = new Map(remoteEntries.map(e => [entryKey(e.collectionId, e.cardId), e]));
+  const keys = new Set([...localEntries.keys(), ...remoteByKey.keys(), ...Object.keys(state.entries)]);
+
+  for (const key of keys) {
+    const theirs = remoteByKey.get(key);
+    if (theirs) clock = Math.max(clock, theirs.stamp.clock);
+
+    const collectionId = key.slice(0, key.indexOf('/'));
+    const cardId = key.slice(collectionId.length + 1);
+    // Entries of deleted collections stay as they are remotely, in case it comes back
+    if (!liveIds.has(collectionId)) {
+      if (theirs) entryShadows[key] = { stamp: theirs.stamp, hash: hashEntry(theirs.entry) };
+      continue;
+    }
+
+    const mine = localEntries.get(key) ?? null;
+    const localHash = hashEntry(mine);
+    const { winner, conflict } = pickWinner(
+      localHash,
+      theirs && { hash: hashEntry(theirs.entry), stamp: theirs.stamp },
+      state.entries[key],
+      localStamp
+    );
+    if (conflict) conflicts++;
+
+    if (winner === 'local') {
+      push.entries.push({ collectionId, cardId, entry: localHash === DELETED_HASH ? null : mine, stamp: localStamp });
+      entryShadows[key] = { stamp: localStamp, hash: localHash };
+    } else if ((winner === 'remote' || winner === 'same') && theirs) {
+      entryShadows[key] = { stamp: theirs.stamp, hash: hashEntry(theirs.entry) };
+      if (winner === 'same') continue;
+      const change: EntryChange = { cardId, before: mine, after: theirs.entry };
+      (incoming.entries[collectionId] ??= []).push(change);
+    }
+  }
+
+  return {
+    push,
+    incoming,
+    conflicts,
+    state: {
+      ...state,
+      clock,
+      cursor,
+      lastSyncedAt: new Date().toISOString(),
+      collections: collectionShadows,
+      entries: entryShadows,
+    },
+  };
+}
+
+/**
+ * Whether a plan changes anything locally
+ */
+export function hasIncomingChanges(incoming: IncomingChanges): boolean {
+  return (
+    incoming.created.length > 0 ||
+    incoming.renamed.length > 0 ||
+    incoming.deleted.length > 0 ||
+    Object.values(incoming.entries).some(changes => changes.length > 0)
+  );
+}
+
+/**
+ * The incoming changes to a collection that still start from what it holds. A card
+ * edited locally after the sync was planned keeps the local edit; its content no
+ * longer matches the new shadow, so the next sync pushes it or settles the conflict.
+ */
+export function dropStaleChanges(entries: CollectionEntry[], changes: EntryChange[]): EntryChange[] {
+  const current = new Map(entries.map(e => [e.cardId, e]));
+  return changes.filter(change => hashEntry(change.before) === hashEntry(current.get(change.cardId) ?? null));
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { CollectionEntry, QuantitySplit } from '@/types/collection';
+import { mergeCollections, resolveMerge } from '@/utils/collectionDiff';
+import { withSplits } from '@/utils/copySplits';
+
+function entry(normalCount: number, foilCount = 0): CollectionEntry {
+  return { cardId: 'OGN-001', name: 'Blazing Scorcher', setName: 'Origins', normalCount, foilCount };
+}
+
+function split(finish: QuantitySplit['finish'], count: number, condition: QuantitySplit['condition'] = 'NM', language = 'EN'): QuantitySplit {
+  return { finish, count, condition, language };
+}
+
+function withCopies(...splits: QuantitySplit[]): CollectionEntry {
+  return withSplits(entry(0), splits);
+}
+
+describe('mergeCollections', () => {
+  it('takes the side that changed a card', () => {
+    const [item] = mergeCollections([entry(2)], [entry(2)], [entry(3)]);
+    expect(item).toMatchObject({ conflict: false, merged: entry(3) });
+    expect(mergeCollections([entry(2)], [entry(3)], [entry(2)])).toEqual([]);
+  });
+
+  it('merges count changes to different finishes', () => {
+    const [item] = mergeCollections([entry(2, 1)], [entry(3, 1)], [entry(2, 0)]);
+    expect(item).toMatchObject({ conflict: false, merged: entry(3, 0) });
+  });
+
+  it('reports a conflict when both sides changed a finish count differently', () => {
+    const [item] = mergeCollections([entry(2)], [entry(3)], [entry(1)]);
+    expect(item.conflict).toBe(true);
+    expect(resolveMerge([item], { 'OGN-001': 'theirs' })).toEqual([{ cardId: 'OGN-001', before: entry(3), after: entry(1) }]);
+  });
+
+  it('keeps a condition change on one side when the other changed the other finish', () => {
+    const base = entry(2, 1);
+    const mine = withCopies(split('normal', 1), split('normal', 1, 'LP'), split('foil', 1));
+    const theirs = withCopies(split('normal', 2), split('foil', 1, 'NM', 'FR'));
+    const [item] = mergeCollections([base], [mine], [theirs]);
+    expect(item.conflict).toBe(false);
+    expect(item.merged).toEqual(
+      withCopies(split('normal', 1), split('normal', 1, 'LP'), split('foil', 1, 'NM', 'FR'))
+    );
+  });
+
+  it("takes the other side's breakdown change when counts match the base", () => {
+    const base = entry(2);
+    const theirs = withCopies(split('normal', 1), split('normal', 1, 'MP'));
+    const [item] = mergeCollections([base], [entry(2, 1)], [theirs]);
+    expect(item).toMatchObject({ conflict: false, merged: withCopies(split('normal', 1), split('normal', 1, 'MP'), split('foil', 1)) });
+  });
+
+  it('reports a conflict when both sides changed the same finish breakdown differently', () => {
+    const base = entry(2);
+    const mine = withCopies(split('normal', 1), split('normal', 1, 'LP'));
+    const theirs = withCopies(split('normal', 1), split('normal', 1, 'NM', 'JA'));
+    const [item] = mergeCollections([base], [mine], [theirs]);
+    expect(item.conflict).toBe(true);
+    expect(item.merged).toBeUndefined();
+    expect(resolveMerge([item], {})).toEqual([]);
+  });
+
+  it('reports a conflict when one side removed a card the other re-split', () => {
+    const theirs = withCopies(split('normal', 2, 'HP'));
+    const [item] = mergeCollections([entry(2)], [], [theirs]);
+    expect(item.conflict).toBe(true);
+  });
+});
@@ -0,0 +1,161 @@
+// Comparing collection snapshots: two-way diffs for picking changes one at a
+// time, and three-way merges when both sides started from a common base
+
+import { CardFinish, CollectionEntry, EntryChange, QuantitySplit } from '@/types/collection';
+import { getSplits, splitKey, withSplits } from '@/utils/copySplits';
+
+export type CollectionDiffKind = 'added' | 'removed' | 'changed';
+
+// One card that differs between two snapshots; `after` is the other snapshot's state
+export interface CollectionDiffItem extends EntryChange {
+  kind: CollectionDiffKind;
+  normalDelta: number;
+  foilDelta: number;
+}
+
+// One card touched by either side of a three-way merge
+export interface MergeItem {
+  cardId: string;
+  base: CollectionEntry | null;
+  mine: CollectionEntry | null;
+  theirs: CollectionEntry | null;
+  // The merged state; undefined while a conflict is unresolved
+  merged?: CollectionEntry | null;
+  conflict: boolean;
+}
+
+export type MergeResolution = 'mine' | 'theirs';
+
+const FINISHES: CardFinish[] = ['normal', 'foil'];
+
+function countOf(entry: CollectionEntry | null, finish: CardFinish): number {
+  if (!entry) return 0;
+  return finish === 'normal' ? entry.normalCount : entry.foilCount;
+}
+
+function finishSplits(entry: CollectionEntry | null, finish: CardFinish): QuantitySplit[] {
+  return entry ? getSplits(entry).filter(s => s.finish === finish) : [];
+}
+
+// Counts and condition/language breakdown of an entry, or of one of its finishes
+function splitsSignature(entry: CollectionEntry | null, finish?: CardFinish): string {
+  const splits = finish ? finishSplits(entry, finish) : entry ? getSplits(entry) : [];
+  return splits
+    .map(s => `${splitKey(s)}=${s.count}`)
+    .sort()
+    .join(';');
+}
+
+// Same copies of the card (counts and condition/language breakdown); absent equals empty
+function sameCopies(a: CollectionEntry | null, b: CollectionEntry | null): boolean {
+  const copies = (e: CollectionEntry | null) => (e ? e.normalCount + e.foilCount : 0);
+  if (copies(a) === 0 || copies(b) === 0) return copies(a) === copies(b);
+  return splitsSignature(a!) === splitsSignature(b!);
+}
+
+function entryName(item: { cardId: string; before?: CollectionEntry | null; after?: CollectionEntry | null }): string {
+  return item.after?.name ?? item.before?.name ?? item.cardId;
+}
+
+// Entries by card ID; entries without copies count as absent
+function byCardKey(entries: CollectionEntry[]): Map<string, CollectionEntry> {
+  return new Map(
+    entries.filter(e => e.normalCount + e.foilCount > 0).map(e => [e.cardId.toUpperCase(), e])
+  );
+}
+
+/**
+ * What changes `from` into `to`, per card, sorted by name
+ */
+export function diffCollections(from: CollectionEntry[], to: CollectionEntry[]): CollectionDiffItem[] {
+  const fromMap = byCardKey(from);
+  const toMap = byCardKey(to);
+  const keys = new Set([...fromMap.keys(), ...toMap.keys()]);
+  const items: CollectionDiffItem[] = [];
+
+  for (const key of keys) {
+    const before = fromMap.get(key) ?? null;
+    const after = toMap.get(key) ?? null;
+    if (sameCopies(before, after)) continue;
+
+    items.push({
+      cardId: before?.cardId ?? after!.cardId,
+      before,
+      after,
+      kind: !before ? 'added' : !after ? 'removed' : 'changed',
+      normalDelta: countOf(after, 'normal') - countOf(before, 'normal'),
+      foilDelta: countOf(after, 'foil') - countOf(before, 'foil'),
+    });
+  }
+
+  return items.sort((a, b) => entryName(a).localeCompare(entryName(b)));
+}
+
+// Per-finish three-way merge of one card, comparing each finish's count and
+// condition/language breakdown; undefined when both sides changed a finish differently
+function mergeEntry(
+  base: CollectionEntry | null,
+  mine: CollectionEntry | null,
+  theirs: CollectionEntry | null
+): CollectionEntry | null | undefined {
+  if (sameCopies(mine, theirs) || sameCopies(theirs, base)) return mine;
+  if (sameCopies(mine, base)) return theirs;
+
+  const splits: QuantitySplit[] = [];
+  for (const finish of FINISHES) {
+    const [b, m, t] = [base, mine, theirs].map(entry => splitsSignature(entry, finish));
+    if (m !== b && t !== b && m !== t) return undefined;
+    splits.push(...finishSplits(m === b ? theirs : mine, finish));
+  }
+
+  if (splits.length === 0) return null;
+  return withSplits((mine ?? theirs)!, splits);
+}
+
+/**
+ * Three-way merge of `mine` and `theirs` against their common `base`. Returns the
+ * cards whose merged state differs from `mine`, plus any conflicts: cards where
+ * both sides changed the same finish differently, in its count or in its
+ * condition/language breakdown.
+ */
+export function mergeCollections(
+  base: CollectionEntry[],
+  mine: CollectionEntry[],
+  theirs: CollectionEntry[]
+): MergeItem[] {
+  const baseMap = byCardKey(base);
+  const mineMap = byCardKey(mine);
+  const theirsMap = byCardKey(theirs);
+  const keys = new Set([...baseMap.keys(), ...mineMap.keys(), ...theirsMap.keys()]);
+  const items: MergeItem[] = [];
+
+  for (const key of keys) {
+    const baseEntry = baseMap.get(key) ?? null;
+    const mineEntry = mineMap.get(key) ?? null;
+    const theirsEntry = theirsMap.get(key) ?? null;
+    const cardId = (mineEntry ?? theirsEntry ?? baseEntry)!.cardId;
+    const merged = mergeEntry(baseEntry, mineEntry, theirsEntry);
+
+    if (merged === undefined) {
+      items.push({ cardId, base: baseEntry, mine: mineEntry, theirs: theirsEntry, conflict: true });
+    } else if (!sameCopies(merged, mineEntry)) {
+      items.push({ cardId, base: baseEntry, mine: mineEntry, theirs: theirsEntry, merged, conflict: false });
+    }
+  }
+
+  const name = (item: MergeItem) => (item.mine ?? item.theirs ?? item.base)?.name ?? item.cardId;
+  return items.sort((a, b) => name(a).localeCompare(name(b)));
+}
+
+/**
+ * Changes that turn `mine` into the merge result. Conflicts take the resolved
+ * side, and stay as they are in `mine` when unresolved.
+ */
+export function resolveMerge(items: MergeItem[], resolutions: Record<string, MergeResolution>): EntryChange[] {
+  return items.flatMap(item => {
+    const after = item.conflict
+      ? (resolutions[item.cardId] === 'theirs' ? item.theirs : item.mine)
+      : item.merged ?? null;
+    return sameCopies(after, item.mine) ? [] : [{ cardId: item.cardId, before: item.mine, after }];
+  });
+}
@@ -0,0 +1,133 @@
+// Change tracking for collections: event recording, undo/redo and rollback
+
+import {
+  CollectionEntry,
+  CollectionEvent,
+  CollectionEventSource,
+  CollectionEventType,
+  CollectionHistory,
+  EntryChange,
+} from '@/types/collection';
+
+// Oldest events are dropped once a collection's history grows past this
+export const MAX_HISTORY_EVENTS = 200;
+
+export const EMPTY_HISTORY: CollectionHistory = { events: [], cursor: 0 };
+
+function createEventId(): string {
+  return `evt-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Compute per-card changes between two versions of a collection
+ */
+export function diffEntries(before: CollectionEntry[], after: CollectionEntry[]): EntryChange[] {
+  const beforeMap = new Map(before.map(e => [e.cardId, e]));
+  const afterMap = new Map(after.map(e => [e.cardId, e]));
+  const changes: EntryChange[] = [];
+
+  for (const [cardId, prev] of beforeMap) {
+    const next = afterMap.get(cardId) ?? null;
+    if (!next || JSON.stringify(prev) !== JSON.stringify(next)) {
+      changes.push({ cardId, before: prev, after: next });
+    }
+  }
+
+  for (const [cardId, next] of afterMap) {
+    if (!beforeMap.has(cardId)) {
+      changes.push({ cardId, before: null, after: next });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Apply an event's changes forwards (redo) or backwards (undo)
+ */
+export function applyChanges(
+  entries: CollectionEntry[],
+  changes: EntryChange[],
+  direction: 'undo' | 'redo'
+): CollectionEntry[] {
+  let result = [...entries];
+  const ordered = direction === 'undo' ? [...changes].reverse() : changes;
+
+  for (const change of ordered) {
+    const target = direction === 'undo' ? change.before : change.after;
+    const index = result.findIndex(e => e.cardId === change.cardId);
+
+    if (!target) {
+      if (index !== -1) result = result.filter((_, i) => i !== index);
+    } else if (index !== -1) {
+      result[index] = target;
+    } else {
+      result.push(target);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Record a mutation. Any undone (redo-able) events are discarded.
+ * Returns the history unchanged if the mutation had no effect.
+ */
+export function recordEvent(
+  history: CollectionHistory,
+  before: CollectionEntry[],
+  after: CollectionEntry[],
+  type: CollectionEventType,
+  source: CollectionEventSource,
+  description: string
+): CollectionHistory {
+  const changes = diffEntries(before, after);
+  if (changes.length === 0) return history;
+
+  const event: CollectionEvent = {
+    id: createEventId(),
+    type,
+    source,
+    description,
+    timestamp: new Date().toISOString(),
+    changes,
+  };
+
+  const events = [...history.events.slice(0, history.cursor), event];
+  const overflow = Math.max(0, events.length - MAX_HISTORY_EVENTS);
+
+  return {
+    events: events.slice(overflow),
+    cursor: events.length - overflow,
+  };
+}
+
+/**
+ * Move the history cursor to a position, undoing or redoing events on the way.
+ * Position 0 is the state before the first recorded event.
+ */
+export function jumpToPosition(
+  entries: CollectionEntry[],
+  history: CollectionHistory,
+  position: number
+): { entries: CollectionEntry[]; history: CollectionHistory } {
+  const target = Math.max(0, Math.min(position, history.events.length));
+  let result = entries;
+
+  for (let i = history.cursor - 1; i >= target; i--) {
+    result = applyChanges(result, history.events[i].changes, 'undo');
+  }
+  for (let i = history.cursor; i < target; i++) {
+    result = applyChanges(result, history.events[i].changes, 'redo');
+  }
+
+  return { entries: result, history: { ...history, cursor: target } };
+}
+
+/**
+ * Total copies added (positive) or removed (negative) by an event
+ */
+export function getEventCopyDelta(event: CollectionEvent): number {
+  const copies = (e: CollectionEntry | null) => (e ? e.normalCount + e.foilCount : 0);
+  return event.changes.reduce((sum, c) => sum + copies(c.after) - copies(c.before), 0);
+}
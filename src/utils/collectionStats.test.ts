@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { CardData } from '@/data/cardDatabase';
+import { CollectionEntry, CollectionEvent, CollectionHistory } from '@/types/collection';
+import { PriceTable } from '@/types/pricing';
+import {
+  computeCollectionStats,
+  getDailyAdditions,
+  getDomainDistribution,
+  getFoilRatio,
+  getRarityDistribution,
+  getSetDistribution,
+  getTopValuedCards,
+} from '@/utils/collectionStats';
+
+const EMPTY_HISTORY: CollectionHistory = { events: [], cursor: 0 };
+
+function entry(card: Partial<CardData> & { cardId: string }, normalCount: number, foilCount = 0): CollectionEntry {
+  return { name: card.cardId, setName: 'Origins', ...card, normalCount, foilCount };
+}
+
+const COLLECTION: CollectionEntry[] = [
+  entry({ cardId: 'OGN-001', rarity: 'Rare', domains: ['Fury'] }, 2, 1),
+  entry({ cardId: 'OGN-002', rarity: 'Common', domains: ['Fury', 'Mind'] }, 3),
+  entry({ cardId: 'OGN-003', rarity: 'Common', domains: [] }, 1),
+  entry({ cardId: 'SFD-001', setName: 'Spiritforged', rarity: 'Epic', domains: ['Order'] }, 0, 2),
+  entry({ cardId: 'SFD-002', setName: 'Spiritforged' }, 1),
+  // Emptied by an edit; must not count anywhere
+  entry({ cardId: 'SFD-003', setName: 'Spiritforged', rarity: 'Legendary', domains: ['Calm'] }, 0, 0),
+];
+
+describe('computeCollectionStats', () => {
+  it('returns zeros and empty breakdowns for an empty collection', () => {
+    const stats = computeCollectionStats([], [], EMPTY_HISTORY, {});
+    expect(stats).toEqual({
+      uniqueCards: 0,
+      totalCards: 0,
+      byRarity: [],
+      bySet: [],
+      byDomain: [],
+      foil: { normal: 0, foil: 0, foilPercent: 0 },
+      additions: [],
+      completion: [],
+      topValued: [],
+    });
+  });
+
+  it('counts unique cards and copies, ignoring emptied entries', () => {
+    const stats = computeCollectionStats([], COLLECTION, EMPTY_HISTORY, {});
+    expect(stats.uniqueCards).toBe(5);
+    expect(stats.totalCards).toBe(10);
+  });
+});
+
+describe('getRarityDistribution', () => {
+  it('groups by rarity in rarity order, with unknown rarities last', () => {
+    expect(getRarityDistribution(COLLECTION)).toEqual([
+      { label: 'Common', unique: 2, copies: 4 },
+      { label: 'Rare', unique: 1, copies: 3 },
+      { label: 'Epic', unique: 1, copies: 2 },
+      { label: 'Unknown', unique: 1, copies: 1 },
+    ]);
+  });
+});
+
+describe('getSetDistribution', () => {
+  it('groups by set, most copies first', () => {
+    expect(getSetDistribution(COLLECTION)).toEqual([
+      { label: 'Origins', unique: 3, copies: 7 },
+      { label: 'Spiritforged', unique: 2, copies: 3 },
+    ]);
+  });
+});
+
+describe('getDomainDistribution', () => {
+  it('counts multi-domain cards in each domain and puts colorless cards last', () => {
+    expect(getDomainDistribution(COLLECTION)).toEqual([
+      { label: 'Fury', unique: 2, copies: 6 },
+      { label: 'Mind', unique: 1, copies: 3 },
+      { label: 'Order', unique: 1, copies: 2 },
+      { label: 'Colorless', unique: 2, copies: 2 },
+    ]);
+  });
+});
+
+describe('getFoilRatio', () => {
+  it('rounds the foil share to one decimal', () => {
+    expect(getFoilRatio(COLLECTION)).toEqual({ normal: 7, foil: 3, foilPercent: 30 });
+    expect(getFoilRatio([entry({ cardId: 'A' }, 2, 1)]).foilPercent).toBe(33.3);
+  });
+});
+
+describe('getDailyAdditions', () => {
+  const event = (timestamp: string, source: CollectionEvent['source'], after: number, before = 0): CollectionEvent => ({
+    id: timestamp,
+    type: 'add',
+    source,
+    description: '',
+    timestamp,
+    changes: [{
+      cardId: 'OGN-001',
+      before: before > 0 ? entry({ cardId: 'OGN-001' }, before) : null,
+      after: after > 0 ? entry({ cardId: 'OGN-001' }, after) : null,
+    }],
+  });
+
+  it('splits scanned from other additions per day and fills quiet days', () => {
+    const history: CollectionHistory = {
+      events: [
+        event('2026-03-12T10:00:00', 'scan', 2),
+        event('2026-03-14T09:00:00', 'manual', 3, 2),
+        event('2026-03-14T18:00:00', 'correction', 4, 3),
+        event('2026-03-15T08:00:00', 'scan', 9, 4),   // Undone; past the cursor
+      ],
+      cursor: 3,
+    };
+    expect(getDailyAdditions(history)).toEqual([
+      { date: '2026-03-12', scanned: 2, other: 0 },
+      { date: '2026-03-13', scanned: 0, other: 0 },
+      { date: '2026-03-14', scanned: 1, other: 1 },
+    ]);
+  });
+
+  it('ignores removals', () => {
+    expect(getDailyAdditions({ events: [event('2026-03-12T10:00:00', 'manual', 0, 2)], cursor: 1 })).toEqual([]);
+  });
+});
+
+describe('getTopValuedCards', () => {
+  it('ranks priced cards by total value and skips unpriced ones', () => {
+    const quote = (cardId: string, finish: 'normal' | 'foil', price: number) => ({
+      cardId, finish, price, currency: 'USD', source: 'test', updatedAt: '2026-03-14T00:00:00Z',
+    });
+    const prices: PriceTable = {
+      'OGN-001|normal': quote('OGN-001', 'normal', 1),
+      'OGN-001|foil': quote('OGN-001', 'foil', 5),
+      'SFD-001|foil': quote('SFD-001', 'foil', 10),
+    };
+    expect(getTopValuedCards(COLLECTION, prices).map(c => [c.entry.cardId, c.value])).toEqual([
+      ['SFD-001', 20],
+      ['OGN-001', 7],
+    ]);
+  });
+});
@@ -0,0 +1,220 @@
+// Collection statistics: distributions, foil ratio, activity and completion over time, top cards
+
+import { CardData, Domain } from '@/data/cardDatabase';
+import { CollectionEntry, CollectionHistory } from '@/types/collection';
+import { PriceTable } from '@/types/pricing';
+import { DOMAINS } from '@/utils/cardMetadata';
+import { applyChanges } from '@/utils/collectionHistory';
+import { getEntryValue } from '@/utils/pricing';
+import { computeSetCompletion, rarityRank } from '@/utils/setCompletion';
+
+// Days shown in the per-day charts, counting back from the latest activity
+export const ACTIVITY_DAYS = 30;
+
+const UNKNOWN_RARITY = 'Unknown';
+const UNKNOWN_SET = 'Unknown set';
+const COLORLESS = 'Colorless';
+
+export interface DistributionSlice {
+  label: string;
+  unique: number;        // Cards with at least one copy
+  copies: number;
+}
+
+export interface FoilRatio {
+  normal: number;
+  foil: number;
+  foilPercent: number;
+}
+
+export interface DailyAdditions {
+  date: string;          // Local day, YYYY-MM-DD
+  scanned: number;       // Copies added by scans and scan corrections
+  other: number;         // Copies added manually or by imports
+}
+
+export interface CompletionPoint {
+  date: string;          // Local day, YYYY-MM-DD
+  owned: number;         // Standard printings owned at the end of the day
+  total: number;
+  percent: number;
+}
+
+export interface ValuedCard {
+  entry: CollectionEntry;
+  value: number;
+}
+
+export interface CollectionStats {
+  uniqueCards: number;
+  totalCards: number;
+  byRarity: DistributionSlice[];
+  bySet: DistributionSlice[];
+  byDomain: DistributionSlice[];
+  foil: FoilRatio;
+  additions: DailyAdditions[];
+  completion: CompletionPoint[];
+  topValued: ValuedCard[];
+}
+
+function copies(entry: CollectionEntry | null): number {
+  return entry ? entry.normalCount + entry.foilCount : 0;
+}
+
+function percent(part: number, total: number): number {
+  return total === 0 ? 0 : Math.round((part / total) * 1000) / 10;
+}
+
+function toDayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function dayKey(timestamp: string): string {
+  return toDayKey(new Date(timestamp));
+}
+
+function distribution(collection: CollectionEntry[], labelsOf: (entry: CollectionEntry) => string[]): DistributionSlice[] {
+  const slices = new Map<string, DistributionSlice>();
+  for (const entry of collection) {
+    const count = copies(entry);
+    if (count === 0) continue;
+    for (const label of labelsOf(entry)) {
+      const slice = slices.get(label) ?? { label, unique: 0, copies: 0 };
+      slice.unique++;
+      slice.copies += count;
+      slices.set(label, slice);
+    }
+  }
+  return Array.from(slices.values());
+}
+
+/**
+ * Cards and copies per rarity, in rarity order
+ */
+export function getRarityDistribution(collection: CollectionEntry[]): DistributionSlice[] {
+  return distribution(collection, e => [e.rarity || UNKNOWN_RARITY])
+    .sort((a, b) => rarityRank(a.label) - rarityRank(b.label) || a.label.localeCompare(b.label));
+}
+
+/**
+ * Cards and copies per set, most copies first
+ */
+export function getSetDistribution(collection: CollectionEntry[]): DistributionSlice[] {
+  return distribution(collection, e => [e.setName || UNKNOWN_SET])
+    .sort((a, b) => b.copies - a.copies || a.label.localeCompare(b.label));
+}
+
+/**
+ * Cards and copies per domain, in domain order. Multi-domain cards count towards
+ * each of their domains, so the slices can add up to more than the collection.
+ */
+export function getDomainDistribution(collection: CollectionEntry[]): DistributionSlice[] {
+  const rank = (label: string) => label === COLORLESS ? DOMAINS.length : DOMAINS.indexOf(label as Domain);
+  return distribution(collection, e => e.domains?.length ? e.domains : [COLORLESS])
+    .sort((a, b) => rank(a.label) - rank(b.label));
+}
+
+export function getFoilRatio(collection: CollectionEntry[]): FoilRatio {
+  const normal = collection.reduce((sum, e) => sum + e.normalCount, 0);
+  const foil = collection.reduce((sum, e) => sum + e.foilCount, 0);
+  return { normal, foil, foilPercent: percent(foil, normal + foil) };
+}
+
+/**
+ * Copies added per day by the applied (not undone) history events, for the
+ * `days` days up to the latest one with additions. Removals don't offset additions.
+ */
+export function getDailyAdditions(history: CollectionHistory, days: number = ACTIVITY_DAYS): DailyAdditions[] {
+  const byDay = new Map<string, DailyAdditions>();
+  for (const event of history.events.slice(0, history.cursor)) {
+    const added = event.changes.reduce((sum, c) => sum + Math.max(0, copies(c.after) - copies(c.before)), 0);
+    if (added === 0) continue;
+    const date = dayKey(event.timestamp);
+    const day = byDay.get(date) ?? { date, scanned: 0, other: 0 };
+    if (event.source === 'scan' || event.source === 'correction') day.scanned += added;
+    else day.other += added;
+    byDay.set(date, day);
+  }
+  if (byDay.size === 0) return [];
+
+  // Fill quiet days with zeros so the chart's time axis is even
+  const latest = Array.from(byDay.keys()).sort().pop()!;
+  const cursor = new Date(`${latest}T00:00:00`);
+  const result: DailyAdditions[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = toDayKey(cursor);
+    result.unshift(byDay.get(date) ?? { date, scanned: 0, other: 0 });
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  // Drop the leading days before any activity
+  const first = result.findIndex(d => d.scanned + d.other > 0);
+  return result.slice(first);
+}
+
+/**
+ * Overall completion (unique standard printings across all sets) at the end of
+ * each day with history events. Rebuilt by undoing the applied events from the
+ * current collection, so it only reaches back as far as the kept history.
+ */
+export function getCompletionHistory(
+  cards: CardData[],
+  collection: CollectionEntry[],
+  history: CollectionHistory
+): CompletionPoint[] {
+  if (cards.length === 0) return [];
+
+  const measure = (date: string, entries: CollectionEntry[]): CompletionPoint => {
+    const sets = computeSetCompletion(cards, entries, { mode: 'unique', includeVariants: false });
+    const owned = sets.reduce((sum, s) => sum + s.ownedUnique, 0);
+    const total = sets.reduce((sum, s) => sum + s.total, 0);
+    return { date, owned, total, percent: percent(owned, total) };
+  };
+
+  const points: CompletionPoint[] = [];
+  let entries = collection;
+  let lastDate: string | null = null;
+  for (let i = history.cursor - 1; i >= 0; i--) {
+    const event = history.events[i];
+    const date = dayKey(event.timestamp);
+    // Walking backwards, the first event seen for a day is its last one
+    if (date !== lastDate) {
+      points.unshift(measure(date, entries));
+      lastDate = date;
+    }
+    entries = applyChanges(entries, event.changes, 'undo');
+  }
+
+  if (points.length === 0) points.push(measure(toDayKey(new Date()), collection));
+  return points;
+}
+
+/**
+ * Most valuable entries by total market value; unpriced cards are left out
+ */
+export function getTopValuedCards(collection: CollectionEntry[], prices: PriceTable, limit: number = 10): ValuedCard[] {
+  return collection
+    .map(entry => ({ entry, value: getEntryValue(entry, prices) }))
+    .filter((c): c is ValuedCard => c.value !== null && c.value > 0)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, limit);
+}
+
+export function computeCollectionStats(
+  cards: CardData[],
+  collection: CollectionEntry[],
+  history: CollectionHistory,
+  prices: PriceTable
+): CollectionStats {
+  return {
+    uniqueCards: collection.filter(e => copies(e) > 0).length,
+    totalCards: collection.reduce((sum, e) => sum + copies(e), 0),
+    byRarity: getRarityDistribution(collection),
+    bySet: getSetDistribution(collection),
+    byDomain: getDomainDistribution(collection),
+    foil: getFoilRatio(collection),
+    additions: getDailyAdditions(history),
+    completion: getCompletionHistory(cards, collection, history),
+    topValued: getTopValuedCards(collection, prices),
+  };
+}
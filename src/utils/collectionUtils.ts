@@ -0,0 +1,64 @@
+// Helpers for working with collection entries and named collections
+
+import { CollectionEntry, NamedCollection } from '@/types/collection';
+import { mergeEntrySplits } from '@/utils/copySplits';
+
+export const DEFAULT_COLLECTION_NAME = 'My Collection';
+
+/**
+ * Generate a unique ID for a new collection, template or other saved record
+ */
+export function createId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `col-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Create an empty (or pre-filled) named collection
+ */
+export function createNamedCollection(name: string, entries: CollectionEntry[] = []): NamedCollection {
+  const now = new Date().toISOString();
+  return {
+    id: createId(),
+    name: name.trim() || DEFAULT_COLLECTION_NAME,
+    entries,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Merge several entry lists into one, summing counts (and condition/language splits)
+ * per card ID. The first occurrence of a card provides its metadata.
+ */
+export function mergeCollectionEntries(lists: CollectionEntry[][]): CollectionEntry[] {
+  const merged = new Map<string, CollectionEntry>();
+
+  for (const list of lists) {
+    for (const entry of list) {
+      const existing = merged.get(entry.cardId);
+      if (existing) {
+        merged.set(entry.cardId, mergeEntrySplits(existing, entry));
+      } else {
+        merged.set(entry.cardId, { ...entry });
+      }
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Pick a name that doesn't clash with existing collections ("Trade Box (2)")
+ */
+export function getUniqueCollectionName(name: string, collections: NamedCollection[]): string {
+  const base = name.trim() || DEFAULT_COLLECTION_NAME;
+  const taken = new Set(collections.map(c => c.name.toLowerCase()));
+  if (!taken.has(base.toLowerCase())) return base;
+
+  let n = 2;
+  while (taken.has(`${base} (${n})`.toLowerCase())) n++;
+  return `${base} (${n})`;
+}
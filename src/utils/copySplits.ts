@@ -0,0 +1,215 @@
+// Per-copy attributes (condition, language, grade) within a collection entry.
+// normalCount/foilCount stay the authoritative totals; splits break them down.
+
+import {
+  CardCondition,
+  CardFinish,
+  CardGrade,
+  CollectionEntry,
+  CopyAttributes,
+  QuantitySplit,
+} from '@/types/collection';
+
+export const DEFAULT_CONDITION: CardCondition = 'NM';
+export const DEFAULT_LANGUAGE = 'EN';
+
+export const CONDITIONS: Array<{ value: CardCondition; label: string }> = [
+  { value: 'NM', label: 'Near Mint' },
+  { value: 'LP', label: 'Lightly Played' },
+  { value: 'MP', label: 'Moderately Played' },
+  { value: 'HP', label: 'Heavily Played' },
+  { value: 'DMG', label: 'Damaged' },
+];
+
+export const LANGUAGES: Array<{ value: string; label: string }> = [
+  { value: 'EN', label: 'English' },
+  { value: 'ZH', label: 'Chinese' },
+  { value: 'FR', label: 'French' },
+  { value: 'DE', label: 'German' },
+  { value: 'IT', label: 'Italian' },
+  { value: 'JA', label: 'Japanese' },
+  { value: 'KO', label: 'Korean' },
+  { value: 'PT', label: 'Portuguese' },
+  { value: 'ES', label: 'Spanish' },
+];
+
+export const GRADING_COMPANIES = ['PSA', 'BGS', 'CGC', 'TAG', 'Other'];
+
+export function getConditionLabel(condition: CardCondition): string {
+  return CONDITIONS.find(c => c.value === condition)?.label ?? condition;
+}
+
+export function getLanguageLabel(language: string): string {
+  return LANGUAGES.find(l => l.value === language)?.label ?? language;
+}
+
+/**
+ * Read a condition written as a code ("LP") or label ("Lightly Played")
+ */
+export function parseCondition(value: string | undefined): CardCondition {
+  const normalized = (value ?? '').trim().toLowerCase();
+  const match = CONDITIONS.find(c => c.value.toLowerCase() === normalized || c.label.toLowerCase() === normalized);
+  return match?.value ?? DEFAULT_CONDITION;
+}
+
+/**
+ * Read a language written as a code ("FR") or name ("French")
+ */
+export function parseLanguage(value: string | undefined): string {
+  const normalized = (value ?? '').trim().toLowerCase();
+  if (!normalized) return DEFAULT_LANGUAGE;
+  const match = LANGUAGES.find(l => l.value.toLowerCase() === normalized || l.label.toLowerCase() === normalized);
+  return match?.value ?? normalized.toUpperCase();
+}
+
+/**
+ * Read a grade like "PSA 10"; blank or "Ungraded" means no grade
+ */
+export function parseGrade(value: string | undefined): CardGrade | undefined {
+  const text = (value ?? '').trim();
+  if (!text || text.toLowerCase() === 'ungraded') return undefined;
+  const match = text.match(/^([A-Za-z]+)\s*([\d.]+.*)$/);
+  return match ? { company: match[1].toUpperCase(), grade: match[2].trim() } : { company: 'Other', grade: text };
+}
+
+export function defaultAttributes(): CopyAttributes {
+  return { condition: DEFAULT_CONDITION, language: DEFAULT_LANGUAGE };
+}
+
+export function isDefaultAttributes(attrs: CopyAttributes): boolean {
+  return attrs.condition === DEFAULT_CONDITION && attrs.language === DEFAULT_LANGUAGE && !attrs.grade;
+}
+
+export function formatGrade(attrs: CopyAttributes): string {
+  return attrs.grade ? `${attrs.grade.company} ${attrs.grade.grade}`.trim() : '';
+}
+
+// Key identifying copies that can be stacked together
+export function attributesKey(attrs: CopyAttributes): string {
+  return [attrs.condition, attrs.language, attrs.grade?.company ?? '', attrs.grade?.grade ?? ''].join('|');
+}
+
+export function splitKey(split: QuantitySplit): string {
+  return `${split.finish}|${attributesKey(split)}|${split.location ?? ''}`;
+}
+
+// Copies with default attributes stored wherever the entry is
+export function isPlainSplit(split: QuantitySplit): boolean {
+  return isDefaultAttributes(split) && !split.location;
+}
+
+/**
+ * "LP · FR · PSA 9" style label; empty for default attributes
+ */
+export function describeAttributes(attrs: CopyAttributes): string {
+  if (isDefaultAttributes(attrs)) return '';
+  const parts: string[] = [attrs.condition];
+  if (attrs.language !== DEFAULT_LANGUAGE) parts.push(attrs.language);
+  if (attrs.grade) parts.push(formatGrade(attrs));
+  return parts.join(' · ');
+}
+
+/**
+ * Explicit splits, or a default split per finish derived from the totals
+ */
+export function getSplits(entry: CollectionEntry): QuantitySplit[] {
+  if (entry.splits && entry.splits.length > 0) return entry.splits;
+
+  const splits: QuantitySplit[] = [];
+  if (entry.normalCount > 0) splits.push({ ...defaultAttributes(), finish: 'normal', count: entry.normalCount });
+  if (entry.foilCount > 0) splits.push({ ...defaultAttributes(), finish: 'foil', count: entry.foilCount });
+  return splits;
+}
+
+/**
+ * Stack splits with identical attributes and drop empty ones
+ */
+export function normalizeSplits(splits: QuantitySplit[]): QuantitySplit[] {
+  const stacked = new Map<string, QuantitySplit>();
+  for (const split of splits) {
+    if (split.count <= 0) continue;
+    const key = splitKey(split);
+    const existing = stacked.get(key);
+    stacked.set(key, existing ? { ...existing, count: existing.count + split.count } : { ...split });
+  }
+  return Array.from(stacked.values());
+}
+
+/**
+ * Replace an entry's splits, recomputing its totals. Splits are omitted when
+ * every copy has default attributes and no location of its own.
+ */
+export function withSplits(entry: CollectionEntry, splits: QuantitySplit[]): CollectionEntry {
+  const normalized = normalizeSplits(splits);
+  const total = (finish: CardFinish) =>
+    normalized.filter(s => s.finish === finish).reduce((sum, s) => sum + s.count, 0);
+
+  const { splits: _previous, ...rest } = entry;
+  const result: CollectionEntry = { ...rest, normalCount: total('normal'), foilCount: total('foil') };
+  if (normalized.some(s => !isPlainSplit(s))) {
+    result.splits = normalized;
+  }
+  return result;
+}
+
+/**
+ * Add copies with the given attributes to an entry
+ */
+export function addCopiesToEntry(
+  entry: CollectionEntry,
+  finish: CardFinish,
+  count: number,
+  attrs: CopyAttributes = defaultAttributes()
+): CollectionEntry {
+  if (count <= 0) return entry;
+  return withSplits(entry, [...getSplits(entry), { ...attrs, finish, count }]);
+}
+
+/**
+ * Bring splits back in line with the entry's totals after the totals were edited
+ * directly. Copies are added to (or taken from) plain copies first, then from
+ * the most recently added splits.
+ */
+export function reconcileSplits(entry: CollectionEntry): CollectionEntry {
+  if (!entry.splits || entry.splits.length === 0) return entry;
+
+  let splits = entry.splits.map(s => ({ ...s }));
+
+  for (const finish of ['normal', 'foil'] as CardFinish[]) {
+    const target = finish === 'normal' ? entry.normalCount : entry.foilCount;
+    const current = splits.filter(s => s.finish === finish).reduce((sum, s) => sum + s.count, 0);
+    let diff = target - current;
+
+    if (diff > 0) {
+      splits.push({ ...defaultAttributes(), finish, count: diff });
+      continue;
+    }
+
+    const order = [
+      ...splits.filter(s => s.finish === finish && isPlainSplit(s)),
+      ...splits.filter(s => s.finish === finish && !isPlainSplit(s)).reverse(),
+    ];
+    for (const split of order) {
+      if (diff >= 0) break;
+      const taken = Math.min(split.count, -diff);
+      split.count -= taken;
+      diff += taken;
+    }
+    splits = splits.filter(s => s.count > 0);
+  }
+
+  return withSplits(entry, splits);
+}
+
+/**
+ * Combine two entries for the same card, keeping both entries' splits and tags.
+ * Copies of `b` stored elsewhere than `a` keep their location on the split.
+ */
+export function mergeEntrySplits(a: CollectionEntry, b: CollectionEntry): CollectionEntry {
+  const bSplits = getSplits(b).map(s =>
+    s.location || (b.location ?? '') === (a.location ?? '') ? s : { ...s, location: b.location }
+  );
+  const merged = withSplits(a, [...getSplits(a), ...bSplits]);
+  const labels = [...new Set([...(a.labels ?? []), ...(b.labels ?? [])])];
+  return labels.length > 0 ? { ...merged, labels } : merged;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { CSVValue, UTF8_BOM, escapeCSVField, parseCSV, parseCSVRecords, toCSV } from '@/utils/csv';
+
+// Card names chosen to break naive CSV handling
+const ADVERSARIAL_NAMES = [
+  'Jinx, Loose Cannon',
+  'The "Boss"',
+  '"Quoted"',
+  'Line\nBreak',
+  'Carriage\rReturn',
+  'Windows\r\nBreak',
+  '  Leading spaces',
+  'Trailing spaces  ',
+  '\tTabbed',
+  '",\r\n"',
+  'Ünïcødé — 龍',
+  '',
+];
+
+const ROWS: CSVValue[][] = ADVERSARIAL_NAMES.map((name, i) => [i + 1, name, 'OGN', name]);
+const EXPECTED = ROWS.map(row => row.map(String));
+
+describe('toCSV → parseCSVRecords round trip', () => {
+  it('preserves adversarial card names with default options', () => {
+    expect(parseCSV(toCSV(ROWS))).toEqual(EXPECTED);
+  });
+
+  it('preserves them with CRLF line endings', () => {
+    const csv = toCSV(ROWS, { lineEnding: 'crlf' });
+    expect(csv.split('\r\n').length).toBeGreaterThanOrEqual(ROWS.length);
+    expect(parseCSV(csv)).toEqual(EXPECTED);
+  });
+
+  it('preserves them with a BOM', () => {
+    const csv = toCSV(ROWS, { bom: true });
+    expect(csv.startsWith(UTF8_BOM)).toBe(true);
+    expect(parseCSV(csv)).toEqual(EXPECTED);
+  });
+
+  it('preserves them with a BOM, CRLF and every field quoted', () => {
+    const csv = toCSV(ROWS, { bom: true, lineEnding: 'crlf', quoteAll: true, header: ['Id', 'Name', 'Set', 'Name'] });
+    expect(parseCSV(csv)).toEqual([['Id', 'Name', 'Set', 'Name'], ...EXPECTED]);
+  });
+
+  it('reports the line each record starts on across embedded line breaks', () => {
+    const records = parseCSVRecords(toCSV([['a'], ['Line\nBreak'], ['b']], { lineEnding: 'crlf' }));
+    expect(records.map(r => r.line)).toEqual([1, 2, 4]);
+  });
+
+  it('writes null and undefined as empty fields', () => {
+    expect(parseCSV(toCSV([[null, undefined, 'x']]))).toEqual([['', '', 'x']]);
+  });
+});
+
+describe('escapeCSVField', () => {
+  it('only quotes fields that need it', () => {
+    expect(escapeCSVField('Plain Name')).toBe('Plain Name');
+    expect(escapeCSVField('A, B')).toBe('"A, B"');
+    expect(escapeCSVField('The "Boss"')).toBe('"The ""Boss"""');
+    expect(escapeCSVField(' padded')).toBe('" padded"');
+    expect(escapeCSVField(3, true)).toBe('"3"');
+  });
+});
+
+describe('parseCSVRecords tolerance', () => {
+  it('skips blank lines and accepts lone CR line endings', () => {
+    expect(parseCSV('a,b\r\rc,d\n\n')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('ignores whitespace around quoted fields', () => {
+    expect(parseCSV(' "a, b" ,c')).toEqual([['a, b', 'c']]);
+  });
+
+  it('keeps stray quotes inside unquoted fields', () => {
+    expect(parseCSV('The "Boss",x')).toEqual([['The "Boss"', 'x']]);
+  });
+
+  it('accepts an unterminated final quote', () => {
+    expect(parseCSV('a,"unterminated')).toEqual([['a', 'unterminated']]);
+  });
+});
@@ -0,0 +1,170 @@
+// RFC 4180 CSV writing and tolerant parsing shared by the export/import formats
+
+export type CSVValue = string | number | boolean | null | undefined;
+
+export interface CSVWriteOptions {
+  bom?: boolean;                 // Prefix a UTF-8 byte order mark (helps Excel detect UTF-8)
+  lineEnding?: 'lf' | 'crlf';    // RFC 4180 specifies CRLF; LF is the default for readability
+}
+
+export interface CSVRowOptions {
+  quoteAll?: boolean;            // Quote every field, not just those that need it
+  quoteColumns?: number[];       // Column indices that are always quoted
+}
+
+export interface CSVDocumentOptions extends CSVWriteOptions, CSVRowOptions {
+  header?: CSVValue[];           // Written first, quoted only where needed
+}
+
+// A parsed record and the 1-based line it started on
+export interface CSVRecord {
+  line: number;
+  fields: string[];
+}
+
+export const UTF8_BOM = '\uFEFF';
+
+const NEEDS_QUOTES = /[",\r\n]|^\s|\s$/;
+
+/**
+ * Escape a single field. Fields containing commas, quotes, line breaks or
+ * leading/trailing whitespace are quoted, with embedded quotes doubled.
+ */
+export function escapeCSVField(value: CSVValue, forceQuotes: boolean = false): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  if (forceQuotes || NEEDS_QUOTES.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Build one CSV row (without a line ending)
+ */
+export function formatCSVRow(values: CSVValue[], options: CSVRowOptions = {}): string {
+  return values
+    .map((value, i) => escapeCSVField(value, options.quoteAll || options.quoteColumns?.includes(i)))
+    .join(',');
+}
+
+export function getLineEnding(options: CSVWriteOptions = {}): string {
+  return options.lineEnding === 'crlf' ? '\r\n' : '\n';
+}
+
+/**
+ * Yield a CSV document chunk by chunk (BOM, then one row per chunk with its line ending
+ * before every row but the first), so large exports can be streamed or built incrementally
+ */
+export function* generateCSVChunks(
+  rows: Iterable<CSVValue[]>,
+  options: CSVDocumentOptions = {}
+): Generator<string> {
+  const eol = getLineEnding(options);
+  let first = true;
+
+  if (options.bom) yield UTF8_BOM;
+
+  if (options.header) {
+    yield formatCSVRow(options.header);
+    first = false;
+  }
+
+  for (const row of rows) {
+    yield (first ? '' : eol) + formatCSVRow(row, options);
+    first = false;
+  }
+}
+
+/**
+ * Build a complete CSV document from rows
+ */
+export function toCSV(rows: Iterable<CSVValue[]>, options: CSVDocumentOptions = {}): string {
+  let output = '';
+  for (const chunk of generateCSVChunks(rows, options)) {
+    output += chunk;
+  }
+  return output;
+}
+
+/**
+ * Parse CSV content into records, tolerating common deviations from RFC 4180:
+ * a leading BOM, LF/CR/CRLF line endings, whitespace around quoted fields,
+ * stray quotes inside unquoted fields, an unterminated final quote and ragged rows.
+ * Blank lines are skipped.
+ */
+export function parseCSVRecords(content: string): CSVRecord[] {
+  const text = content.startsWith(UTF8_BOM) ? content.slice(1) : content;
+  const records: CSVRecord[] = [];
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let wasQuoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    wasQuoted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    // A record consisting of one empty, unquoted field is a blank line
+    if (!(fields.length === 1 && fields[0] === '')) {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && !wasQuoted && field.trim() === '') {
+      // Opening quote; drop any whitespace before it
+      field = '';
+      inQuotes = true;
+      wasQuoted = true;
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (wasQuoted && /\s/.test(char)) {
+      // Whitespace between a closing quote and the delimiter
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || wasQuoted || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/**
+ * Parse CSV content into rows of fields
+ */
+export function parseCSV(content: string): string[][] {
+  return parseCSVRecords(content).map(r => r.fields);
+}
@@ -0,0 +1,152 @@
+// Tolerant deck list parser for lists pasted from friends and tournament sites.
+// Accepts "3 Name", "3x Name", "Name x3", "Name (OGN-001)", bare IDs and section headers.
+
+import { CardData } from '@/data/cardDatabase';
+import { FuzzyMatchResult, createCardDatabaseHelpers } from '@/contexts/CardDatabaseContext';
+import { DeckCard, DeckList, DeckZone } from '@/types/deck';
+import { isStandardVariant } from '@/utils/cardVariants';
+
+export type DeckLineStatus = 'matched' | 'ambiguous' | 'unmatched';
+
+export interface ParsedDeckLine {
+  line: number;          // 1-based line number in the pasted text
+  raw: string;
+  zone: DeckZone;
+  quantity: number;
+  query: string;         // The card ID or name the line was resolved from
+  candidates: FuzzyMatchResult[];
+  card: CardData | null; // Best match; null unless the line is matched
+  status: DeckLineStatus;
+}
+
+export interface DeckListParseResult {
+  lines: ParsedDeckLine[];
+  ignored: Array<{ line: number; raw: string }>;   // Headers, comments and other non-card lines
+}
+
+// A fuzzy match at or above this score is accepted without asking...
+const AUTO_MATCH_SCORE = 0.8;
+// ...unless a different card scores within this margin of it
+const AMBIGUITY_MARGIN = 0.1;
+
+const CARD_ID = /[A-Z]{2,4}-\d{3}(?:[A-Z](?![A-Z0-9])|\*)?/i;
+const COUNT_PREFIX = /^(\d+)\s*[x×]?\s+(.+)$/i;
+const COUNT_SUFFIX = /^(.+?)\s+(?:[x×]\s*(\d+)|(\d+)\s*[x×])$/i;
+// "Main Deck (40):", "## Sideboard", "Runes:"
+const HEADER = /^(?:#+|\/\/)?\s*([A-Za-z][A-Za-z ]*?)\s*(?:\(\d+\))?\s*:?\s*$/;
+const KNOWN_HEADER = /^(?:main(?: ?deck)?|deck|legend|(?:chosen )?champions?|battlefields?|runes?(?: deck)?|units?|spells?|gear|side ?(?:board|deck)|sideboard)$/i;
+
+function zoneFor(header: string): DeckZone {
+  return /side/i.test(header) ? 'sideboard' : 'main';
+}
+
+// The header a line declares, if it is one: a known section name, or any text ending with ":"
+function readHeader(line: string): string | null {
+  const match = line.match(HEADER);
+  if (!match) return null;
+  const name = match[1].trim();
+  return KNOWN_HEADER.test(name) || line.trimEnd().endsWith(':') ? name : null;
+}
+
+// Split a card line into quantity and the text naming the card
+function readCardLine(line: string): { quantity: number; text: string } {
+  const prefix = line.match(COUNT_PREFIX);
+  if (prefix) return { quantity: parseInt(prefix[1], 10), text: prefix[2] };
+  const suffix = line.match(COUNT_SUFFIX);
+  if (suffix) return { quantity: parseInt(suffix[2] ?? suffix[3], 10), text: suffix[1] };
+  return { quantity: 1, text: line };
+}
+
+// Printings share a name; for a name-only line keep one candidate per name, preferring the standard printing
+function onePerName(candidates: FuzzyMatchResult[]): FuzzyMatchResult[] {
+  const byName = new Map<string, FuzzyMatchResult>();
+  for (const candidate of candidates) {
+    const key = candidate.card.name.toLowerCase();
+    const existing = byName.get(key);
+    if (!existing || (!isStandardVariant(existing.card) && isStandardVariant(candidate.card))) {
+      byName.set(key, existing ? { ...candidate, score: Math.max(existing.score, candidate.score) } : candidate);
+    }
+  }
+  return Array.from(byName.values()).sort((a, b) => b.score - a.score);
+}
+
+function classify(candidates: FuzzyMatchResult[]): DeckLineStatus {
+  const [best, runnerUp] = candidates;
+  if (!best) return 'unmatched';
+  if (best.score >= 1) return 'matched';
+  const clearLead = !runnerUp || best.score - runnerUp.score >= AMBIGUITY_MARGIN;
+  return best.score >= AUTO_MATCH_SCORE && clearLead ? 'matched' : 'ambiguous';
+}
+
+/**
+ * Parse pasted deck list text and resolve each card line against the card database.
+ * Lines before any header go to the main deck; a header containing "side" starts the sideboard.
+ */
+export function parseDeckList(content: string, cards: CardData[]): DeckListParseResult {
+  const helpers = createCardDatabaseHelpers(cards);
+  const result: DeckListParseResult = { lines: [], ignored: [] };
+  let zone: DeckZone = 'main';
+
+  content.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    const header = readHeader(line);
+    if (header) {
+      zone = zoneFor(header);
+      result.ignored.push({ line: i + 1, raw });
+      return;
+    }
+    if (line.startsWith('#') || line.startsWith('//')) {
+      result.ignored.push({ line: i + 1, raw });
+      return;
+    }
+
+    const { quantity, text } = readCardLine(line);
+    const id = text.match(CARD_ID)?.[0];
+    const name = text.replace(/\(\s*[A-Z]{2,4}-\d{3}[A-Z]?\*?\s*\)/i, '').trim();
+
+    // An exact ID wins; otherwise fall back to the name written alongside it
+    let query = id ?? name;
+    let candidates = helpers.fuzzyMatch(query);
+    if (id && candidates[0]?.score !== 1 && name && name !== id) {
+      query = name;
+      candidates = onePerName(helpers.fuzzyMatch(name));
+    } else if (!id) {
+      candidates = onePerName(candidates);
+    }
+
+    const status = classify(candidates);
+    result.lines.push({
+      line: i + 1,
+      raw,
+      zone,
+      quantity,
+      query,
+      candidates,
+      card: status === 'matched' ? candidates[0].card : null,
+      status,
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Build a deck from parsed lines. Ambiguous lines use the card the user picked
+ * (line number -> card ID); unresolved lines are left out. Repeated cards are summed.
+ */
+export function buildDeckList(lines: ParsedDeckLine[], picks: Record<number, string> = {}): DeckList {
+  const zones: Record<DeckZone, Map<string, number>> = { main: new Map(), sideboard: new Map() };
+
+  for (const line of lines) {
+    const cardId = picks[line.line] ?? line.card?.cardId;
+    if (!cardId || line.quantity <= 0) continue;
+    const zone = zones[line.zone];
+    zone.set(cardId, (zone.get(cardId) ?? 0) + line.quantity);
+  }
+
+  const toCards = (zone: Map<string, number>): DeckCard[] =>
+    Array.from(zone.entries()).map(([cardId, quantity]) => ({ cardId, quantity }));
+  return { main: toCards(zones.main), sideboard: toCards(zones.sideboard) };
+}
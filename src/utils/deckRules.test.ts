@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { CardData } from '@/data/cardDatabase';
+import { DeckCard, DeckList } from '@/types/deck';
+import { DeckRuleId, validateDeck } from '@/utils/deckRules';
+
+function card(cardId: string, name: string, extra: Partial<CardData> = {}): CardData {
+  return { cardId, name, setName: 'Origins', ...extra };
+}
+
+const units = Array.from({ length: 13 }, (_, i) => {
+  const n = String(i + 10).padStart(3, '0');
+  return card(`OGN-${n}`, `Unit ${n}`, { cardType: 'Unit', domains: ['Fury'] });
+});
+
+const spells = ['OGN-050', 'OGN-051', 'OGN-052'].map(cardId =>
+  card(cardId, `Spell ${cardId.slice(4)}`, { cardType: 'Spell', domains: ['Fury'] })
+);
+
+const cards: CardData[] = [
+  card('OGN-001', 'Jinx, Loose Cannon', { cardType: 'Legend', domains: ['Fury', 'Chaos'], tags: ['Jinx'] }),
+  card('OGN-002', 'Jinx, Rebel', { cardType: 'Unit', supertype: 'Champion', domains: ['Chaos'], tags: ['Jinx'] }),
+  card('OGN-004', 'Get Excited!', { cardType: 'Spell', supertype: 'Signature', domains: ['Fury'], tags: ['Jinx'] }),
+  card('OGN-005', 'Super Mega Death Rocket', { cardType: 'Spell', supertype: 'Signature', domains: ['Chaos'], tags: ['Jinx'] }),
+  card('OGN-006', 'Chaos Theory', { cardType: 'Spell', supertype: 'Signature', domains: ['Order'], tags: ['Viktor'] }),
+  card('OGN-007', 'Orderly Clerk', { cardType: 'Unit', domains: ['Order'] }),
+  card('OGN-008', 'Fury Rune', { cardType: 'Rune', domains: ['Fury'] }),
+  card('OGN-009', 'Chaos Rune', { cardType: 'Rune', domains: ['Chaos'] }),
+  ...units,
+  ...spells,
+  card('OGN-010A', 'Unit 010', { cardType: 'Unit', domains: ['Fury'], variant: 'alt-art', baseCardId: 'OGN-010' }),
+  card('OGN-100', 'Sunken Temple', { cardType: 'Battlefield' }),
+  card('OGN-101', 'Grove of the God-Willow', { cardType: 'Battlefield' }),
+  card('OGN-102', 'Windswept Hillock', { cardType: 'Battlefield' }),
+  card('OGN-103', 'Sunken Temple', { cardType: 'Battlefield' }),
+];
+
+// Legend, chosen champion, 40 main deck cards, 12 runes and 3 battlefields
+function legalDeck(): DeckList {
+  return {
+    main: [
+      { cardId: 'OGN-001', quantity: 1 },
+      { cardId: 'OGN-002', quantity: 1 },
+      ...units.map(u => ({ cardId: u.cardId, quantity: 3 })),
+      { cardId: 'OGN-008', quantity: 6 },
+      { cardId: 'OGN-009', quantity: 6 },
+      { cardId: 'OGN-100', quantity: 1 },
+      { cardId: 'OGN-101', quantity: 1 },
+      { cardId: 'OGN-102', quantity: 1 },
+    ],
+    sideboard: [],
+  };
+}
+
+function withMain(deck: DeckList, changes: Record<string, number>): DeckList {
+  const main: DeckCard[] = deck.main
+    .map(c => (c.cardId in changes ? { ...c, quantity: changes[c.cardId] } : c))
+    .filter(c => c.quantity > 0);
+  for (const [cardId, quantity] of Object.entries(changes)) {
+    if (quantity > 0 && !main.some(c => c.cardId === cardId)) main.push({ cardId, quantity });
+  }
+  return { ...deck, main };
+}
+
+function rules(deck: DeckList): DeckRuleId[] {
+  return validateDeck(deck, cards).violations.map(v => v.rule);
+}
+
+describe('validateDeck', () => {
+  it('accepts a legal deck', () => {
+    expect(validateDeck(legalDeck(), cards)).toEqual({ valid: true, violations: [] });
+  });
+
+  it('needs exactly one Legend', () => {
+    expect(rules(withMain(legalDeck(), { 'OGN-001': 0 }))).toEqual(['legend-count']);
+    expect(rules(withMain(legalDeck(), { 'OGN-001': 2 }))).toEqual(['legend-count']);
+  });
+
+  it("needs a Champion unit of the Legend's champion", () => {
+    const deck = withMain(legalDeck(), { 'OGN-002': 0, 'OGN-050': 1 });
+    const { valid, violations } = validateDeck(deck, cards);
+    expect(valid).toBe(false);
+    expect(violations.map(v => v.rule)).toEqual(['champion-missing']);
+    expect(violations[0].message).toContain('Jinx');
+  });
+
+  it('needs at least 40 main deck cards, not counting the Legend, runes or battlefields', () => {
+    expect(rules(withMain(legalDeck(), { 'OGN-010': 2 }))).toEqual(['main-deck-size']);
+    expect(rules(withMain(legalDeck(), { 'OGN-010': 2, 'OGN-008': 7 }))).toContain('main-deck-size');
+  });
+
+  it('limits copies by name across printings and the sideboard', () => {
+    const printings = withMain(legalDeck(), { 'OGN-010': 2, 'OGN-010A': 2 });
+    const violations = validateDeck(printings, cards).violations;
+    expect(violations.map(v => v.rule)).toEqual(['copy-limit']);
+    expect(violations[0].cardIds).toEqual(['OGN-010', 'OGN-010A']);
+
+    const sideboard = { ...legalDeck(), sideboard: [{ cardId: 'OGN-011', quantity: 1 }] };
+    expect(rules(sideboard)).toEqual(['copy-limit']);
+  });
+
+  it('limits Signature cards to three, all for the chosen champion', () => {
+    const tooMany = withMain(legalDeck(), { 'OGN-010': 0, 'OGN-011': 2, 'OGN-004': 2, 'OGN-005': 2 });
+    expect(rules(tooMany)).toEqual(['signature-limit']);
+
+    const foreign = withMain(legalDeck(), { 'OGN-010': 2, 'OGN-006': 1 });
+    const violations = validateDeck(foreign, cards).violations;
+    expect(violations.map(v => v.rule)).toEqual(['signature-champion', 'domain-identity']);
+    expect(violations[0].cardIds).toEqual(['OGN-006']);
+  });
+
+  it('needs exactly 12 runes', () => {
+    expect(rules(withMain(legalDeck(), { 'OGN-009': 5 }))).toEqual(['rune-deck-size']);
+    expect(rules(withMain(legalDeck(), { 'OGN-009': 7 }))).toEqual(['rune-deck-size']);
+  });
+
+  it('needs three different battlefields', () => {
+    expect(rules(withMain(legalDeck(), { 'OGN-102': 0 }))).toEqual(['battlefield-count']);
+    expect(rules(withMain(legalDeck(), { 'OGN-102': 0, 'OGN-101': 2 }))).toEqual(['battlefield-duplicate']);
+    // Two printings of the same battlefield are not different battlefields
+    expect(rules(withMain(legalDeck(), { 'OGN-102': 0, 'OGN-103': 1 }))).toEqual(['battlefield-duplicate']);
+  });
+
+  it("keeps main deck, rune and sideboard cards within the Legend's domains", () => {
+    const deck = {
+      ...withMain(legalDeck(), { 'OGN-010': 2, 'OGN-007': 1 }),
+      sideboard: [{ cardId: 'OGN-007', quantity: 1 }],
+    };
+    const violations = validateDeck(deck, cards).violations;
+    expect(violations.map(v => v.rule)).toEqual(['domain-identity']);
+    expect(violations[0].cardIds).toEqual(['OGN-007']);
+  });
+
+  it('limits the sideboard to eight cards', () => {
+    const sideboard = spells.map(c => ({ cardId: c.cardId, quantity: 3 }));
+    expect(rules({ ...legalDeck(), sideboard })).toEqual(['sideboard-size']);
+    sideboard[0].quantity = 2;
+    expect(rules({ ...legalDeck(), sideboard })).toEqual([]);
+  });
+
+  it('reports unknown and untyped cards as warnings only', () => {
+    const deck = withMain(legalDeck(), { 'XYZ-999': 1 });
+    const untyped = [...cards, card('OGN-200', 'Mystery Card')];
+    const validation = validateDeck(withMain(deck, { 'OGN-200': 1 }), untyped);
+    expect(validation.valid).toBe(true);
+    expect(validation.violations.map(v => [v.rule, v.severity, v.cardIds])).toEqual([
+      ['unknown-card', 'warning', ['XYZ-999']],
+      ['missing-metadata', 'warning', ['OGN-200']],
+    ]);
+  });
+});
@@ -0,0 +1,219 @@
+// Riftbound deck construction rules. Pure functions over a deck and the card list,
+// with no React or browser dependencies, so scripts can validate imported lists too.
+
+import { CardData, Domain } from '@/data/cardDatabase';
+import { DeckList } from '@/types/deck';
+import { getChampionName, isChampion, isSignature } from '@/utils/cardMetadata';
+
+export const LEGEND_COUNT = 1;
+export const MAIN_DECK_MIN = 40;
+export const COPY_LIMIT = 3;             // Copies of a card by name, across printings
+export const SIGNATURE_LIMIT = 3;        // Signature cards in total
+export const RUNE_DECK_SIZE = 12;
+export const BATTLEFIELD_COUNT = 3;
+export const SIDEBOARD_MAX = 8;
+
+export type DeckRuleId =
+  | 'unknown-card'
+  | 'missing-metadata'
+  | 'legend-count'
+  | 'champion-missing'
+  | 'main-deck-size'
+  | 'copy-limit'
+  | 'signature-limit'
+  | 'signature-champion'
+  | 'rune-deck-size'
+  | 'battlefield-count'
+  | 'battlefield-duplicate'
+  | 'domain-identity'
+  | 'sideboard-size';
+
+export type ViolationSeverity = 'error' | 'warning';
+
+export interface DeckViolation {
+  rule: DeckRuleId;
+  severity: ViolationSeverity;
+  message: string;
+  cardIds: string[];     // Cards involved, empty for deck-wide counts
+}
+
+export interface DeckValidation {
+  valid: boolean;        // No errors (warnings allowed)
+  violations: DeckViolation[];
+}
+
+// Deck cards resolved against the card list and grouped by role
+interface DeckSections {
+  legends: Array<{ card: CardData; quantity: number }>;
+  mainDeck: Array<{ card: CardData; quantity: number }>;
+  runes: Array<{ card: CardData; quantity: number }>;
+  battlefields: Array<{ card: CardData; quantity: number }>;
+  sideboard: Array<{ card: CardData; quantity: number }>;
+}
+
+function sum(entries: Array<{ quantity: number }>): number {
+  return entries.reduce((total, e) => total + e.quantity, 0);
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Validate a deck against Riftbound's construction rules. Cards are sorted into
+ * Legend, main deck, rune deck and battlefields by card type; cards without type
+ * metadata count towards the main deck and are reported as warnings.
+ */
+export function validateDeck(deck: DeckList, cards: CardData[]): DeckValidation {
+  const violations: DeckViolation[] = [];
+  const add = (rule: DeckRuleId, severity: ViolationSeverity, message: string, cardIds: string[] = []) =>
+    violations.push({ rule, severity, message, cardIds });
+
+  const cardsById = new Map(cards.map(c => [c.cardId, c]));
+  const sections: DeckSections = { legends: [], mainDeck: [], runes: [], battlefields: [], sideboard: [] };
+  const unknown: string[] = [];
+  const untyped: string[] = [];
+
+  for (const { cardId, quantity } of deck.main) {
+    const card = cardsById.get(cardId);
+    if (!card) {
+      unknown.push(cardId);
+      continue;
+    }
+    if (!card.cardType) untyped.push(cardId);
+    const section = card.cardType === 'Legend' ? sections.legends
+      : card.cardType === 'Rune' ? sections.runes
+      : card.cardType === 'Battlefield' ? sections.battlefields
+      : sections.mainDeck;
+    section.push({ card, quantity });
+  }
+  for (const { cardId, quantity } of deck.sideboard) {
+    const card = cardsById.get(cardId);
+    if (card) sections.sideboard.push({ card, quantity });
+    else unknown.push(cardId);
+  }
+
+  if (unknown.length > 0) {
+    add('unknown-card', 'warning', `${plural(unknown.length, 'card')} not in the card database`, unknown);
+  }
+  if (untyped.length > 0) {
+    add('missing-metadata', 'warning', `${plural(untyped.length, 'card')} without a card type; update the card database`, untyped);
+  }
+
+  // Legend
+  const legendCount = sum(sections.legends);
+  const legend = sections.legends[0]?.card;
+  if (legendCount !== LEGEND_COUNT) {
+    add(
+      'legend-count',
+      'error',
+      legendCount === 0 ? 'Deck needs a Legend' : `Deck has ${legendCount} Legends; it needs exactly ${LEGEND_COUNT}`,
+      sections.legends.map(e => e.card.cardId)
+    );
+  }
+  const championName = legend ? getChampionName(legend).toLowerCase() : null;
+
+  // Chosen champion: a Champion unit of the Legend's champion
+  if (legend && championName) {
+    const hasChampion = sections.mainDeck.some(
+      ({ card }) => isChampion(card) && getChampionName(card).toLowerCase() === championName
+    );
+    if (!hasChampion) {
+      add('champion-missing', 'error', `Deck needs a ${getChampionName(legend)} Champion unit to be the chosen champion`);
+    }
+  }
+
+  // Main deck size
+  const mainCount = sum(sections.mainDeck);
+  if (mainCount < MAIN_DECK_MIN) {
+    add('main-deck-size', 'error', `Main deck has ${mainCount} cards; it needs at least ${MAIN_DECK_MIN}`);
+  }
+
+  // Copy limit by name, across printings and the sideboard
+  const byName = new Map<string, { quantity: number; cardIds: string[] }>();
+  for (const { card, quantity } of [...sections.mainDeck, ...sections.sideboard]) {
+    const key = card.name.toLowerCase();
+    const entry = byName.get(key) ?? { quantity: 0, cardIds: [] };
+    entry.quantity += quantity;
+    entry.cardIds.push(card.cardId);
+    byName.set(key, entry);
+  }
+  for (const [, { quantity, cardIds }] of byName) {
+    if (quantity > COPY_LIMIT) {
+      const name = cardsById.get(cardIds[0])?.name ?? cardIds[0];
+      add('copy-limit', 'error', `${quantity} copies of ${name}; the limit is ${COPY_LIMIT}`, [...new Set(cardIds)]);
+    }
+  }
+
+  // Signature cards
+  const signatures = sections.mainDeck.filter(({ card }) => isSignature(card));
+  const signatureCount = sum(signatures);
+  if (signatureCount > SIGNATURE_LIMIT) {
+    add(
+      'signature-limit',
+      'error',
+      `${signatureCount} Signature cards; the limit is ${SIGNATURE_LIMIT}`,
+      signatures.map(e => e.card.cardId)
+    );
+  }
+  if (championName) {
+    const foreign = signatures.filter(({ card }) => getChampionName(card).toLowerCase() !== championName);
+    if (foreign.length > 0) {
+      add(
+        'signature-champion',
+        'error',
+        `Signature cards must belong to ${legend ? getChampionName(legend) : 'the Legend'}`,
+        foreign.map(e => e.card.cardId)
+      );
+    }
+  }
+
+  // Rune deck
+  const runeCount = sum(sections.runes);
+  if (runeCount !== RUNE_DECK_SIZE) {
+    add('rune-deck-size', 'error', `Rune deck has ${runeCount} runes; it needs exactly ${RUNE_DECK_SIZE}`);
+  }
+
+  // Battlefields: the right number, all different
+  const battlefieldCount = sum(sections.battlefields);
+  if (battlefieldCount !== BATTLEFIELD_COUNT) {
+    add(
+      'battlefield-count',
+      'error',
+      `Deck has ${plural(battlefieldCount, 'battlefield')}; it needs exactly ${BATTLEFIELD_COUNT}`
+    );
+  }
+  const repeated = sections.battlefields.filter(
+    ({ card, quantity }) =>
+      quantity > 1 || sections.battlefields.filter(b => b.card.name === card.name).length > 1
+  );
+  if (repeated.length > 0) {
+    add('battlefield-duplicate', 'error', 'Battlefields must all be different', repeated.map(e => e.card.cardId));
+  }
+
+  // Domain identity: every card's domains must be among the Legend's
+  if (legend?.domains && legend.domains.length > 0) {
+    const identity = new Set<Domain>(legend.domains);
+    const outside = [...sections.mainDeck, ...sections.runes, ...sections.sideboard]
+      .filter(({ card }) => card.domains?.some(d => !identity.has(d)));
+    if (outside.length > 0) {
+      add(
+        'domain-identity',
+        'error',
+        `${plural(outside.length, 'card')} outside the Legend's domains (${legend.domains.join(', ')})`,
+        [...new Set(outside.map(e => e.card.cardId))]
+      );
+    }
+  }
+
+  // Sideboard
+  const sideboardCount = sum(sections.sideboard);
+  if (sideboardCount > SIDEBOARD_MAX) {
+    add('sideboard-size', 'error', `Sideboard has ${sideboardCount} cards; the limit is ${SIDEBOARD_MAX}`);
+  }
+
+  return {
+    valid: !violations.some(v => v.severity === 'error'),
+    violations,
+  };
+}
@@ -0,0 +1,113 @@
+// Deck editing and checking decks against a collection
+
+import { CardData } from '@/data/cardDatabase';
+import { CollectionEntry } from '@/types/collection';
+import { Deck, DeckCard, DeckList, DeckRequirement, DeckZone } from '@/types/deck';
+import { createId } from '@/utils/collectionUtils';
+
+export const DEFAULT_DECK_NAME = 'New Deck';
+
+export const DECK_ZONES: Array<{ value: DeckZone; label: string }> = [
+  { value: 'main', label: 'Main Deck' },
+  { value: 'sideboard', label: 'Sideboard' },
+];
+
+export function createDeck(name: string, main: DeckCard[] = [], sideboard: DeckCard[] = []): Deck {
+  const now = new Date().toISOString();
+  return {
+    id: createId(),
+    name: name.trim() || DEFAULT_DECK_NAME,
+    main,
+    sideboard,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function getZoneCount(deck: Deck, zone: DeckZone): number {
+  return deck[zone].reduce((sum, c) => sum + c.quantity, 0);
+}
+
+/**
+ * Set how many copies of a card a deck zone holds; zero removes the card
+ */
+export function setCardQuantity(deck: Deck, zone: DeckZone, cardId: string, quantity: number): Deck {
+  const cards = deck[zone];
+  const clamped = Math.max(0, Math.floor(quantity));
+  const existing = cards.some(c => c.cardId === cardId);
+
+  let updated: DeckCard[];
+  if (clamped === 0) {
+    updated = cards.filter(c => c.cardId !== cardId);
+  } else if (existing) {
+    updated = cards.map(c => (c.cardId === cardId ? { ...c, quantity: clamped } : c));
+  } else {
+    updated = [...cards, { cardId, quantity: clamped }];
+  }
+
+  return { ...deck, [zone]: updated, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Copies owned per card ID. Copies of an alternate printing also count towards
+ * its standard printing, since any printing can be played.
+ */
+function countOwned(collection: CollectionEntry[]): Map<string, number> {
+  const owned = new Map<string, number>();
+  const add = (cardId: string, count: number) => owned.set(cardId, (owned.get(cardId) ?? 0) + count);
+
+  for (const entry of collection) {
+    const count = entry.normalCount + entry.foilCount;
+    add(entry.cardId, count);
+    if (entry.baseCardId) add(entry.baseCardId, count);
+  }
+  return owned;
+}
+
+/**
+ * What a deck needs of each card against a collection. Main deck and sideboard
+ * draw from the same copies, so their quantities are combined. Listed in deck order.
+ */
+export function computeDeckRequirements(
+  deck: DeckList,
+  cards: CardData[],
+  collection: CollectionEntry[]
+): DeckRequirement[] {
+  const owned = countOwned(collection);
+  const cardsById = new Map(cards.map(c => [c.cardId, c]));
+  const requirements = new Map<string, DeckRequirement>();
+
+  for (const zone of ['main', 'sideboard'] as DeckZone[]) {
+    for (const { cardId, quantity } of deck[zone]) {
+      const requirement = requirements.get(cardId) ?? {
+        cardId,
+        card: cardsById.get(cardId),
+        main: 0,
+        sideboard: 0,
+        required: 0,
+        owned: owned.get(cardId) ?? 0,
+        missing: 0,
+      };
+      requirement[zone] += quantity;
+      requirement.required += quantity;
+      requirement.missing = Math.max(0, requirement.required - requirement.owned);
+      requirements.set(cardId, requirement);
+    }
+  }
+
+  return Array.from(requirements.values());
+}
+
+/**
+ * Missing copies as collection entries (as Normal), so any export format can
+ * write a shopping list
+ */
+export function shortfallToEntries(requirements: DeckRequirement[]): CollectionEntry[] {
+  return requirements
+    .filter(r => r.missing > 0)
+    .map(r => ({
+      ...(r.card ?? { cardId: r.cardId, name: r.cardId, setName: '' }),
+      normalCount: r.missing,
+      foilCount: 0,
+    }));
+}
@@ -1,72 +1,118 @@
 // Export format generators for the Riftbound Scanner app
 
 import { CollectionEntry, ExportSettings } from '@/types/collection';
+import { CSVValue, CSVWriteOptions, toCSV } from '@/utils/csv';
+import { formatGrade, getConditionLabel, getLanguageLabel, getSplits } from '@/utils/copySplits';
+import { getVarianceLabel } from '@/utils/cardVariants';
+import { PriceTable } from '@/types/pricing';
+import { getEntryValue, getQuote, toPriceCell } from '@/utils/pricing';
+
+// Appended to per-card formats when value columns are requested
+const VALUE_HEADER = ['Normal Price', 'Foil Price', 'Total Value'];
+
+function valueColumns(card: CollectionEntry, prices: PriceTable): CSVValue[] {
+  return [
+    toPriceCell(getQuote(prices, card.cardId, 'normal')?.price),
+    toPriceCell(getQuote(prices, card.cardId, 'foil')?.price),
+    toPriceCell(getEntryValue(card, prices)),
+  ];
+}
 
 /**
  * DotGG Format (CSV)
- * Columns: CardId, Normal, Foil, Name, Set
+ * Columns: CardId, Normal, Foil, Name, Set (+ Normal Price, Foil Price, Total Value when prices are given)
  */
-export function generateDotGGCSV(collection: CollectionEntry[]): string {
-  const header = 'CardId,Normal,Foil,Name,Set';
-  const rows = collection.map(card => 
-    `${card.cardId},${card.normalCount},${card.foilCount},"${card.name}","${card.setName}"`
-  );
-  return [header, ...rows].join('\n');
+export function generateDotGGCSV(
+  collection: CollectionEntry[],
+  options: CSVWriteOptions = {},
+  prices?: PriceTable
+): string {
+  const header = ['CardId', 'Normal', 'Foil', 'Name', 'Set', ...(prices ? VALUE_HEADER : [])];
+  const rows = collection.map(card => [
+    card.cardId, card.normalCount, card.foilCount, card.name, card.setName,
+    ...(prices ? valueColumns(card, prices) : []),
+  ]);
+  return toCSV(rows, { ...options, header, quoteColumns: [3, 4] });
 }
 
 /**
  * Collectr Format (CSV)
- * Columns: Portfolio Name, Category, Set, Product Name, Card Number, Rarity, Variance, Quantity
- * Creates separate rows for Normal and Foil variants
+ * Columns: Portfolio Name, Category, Set, Product Name, Card Number, Rarity, Variance, Grade,
+ * Card Condition, Language, Quantity (+ Price, Total Value when prices are given)
+ * Creates separate rows for Normal and Foil variants, and for each condition/language/grade.
+ * Variance names the printing too (e.g. "Alternate Art Foil")
  */
-export function generateCollectrCSV(collection: CollectionEntry[], settings: ExportSettings): string {
-  const header = 'Portfolio Name,Category,Set,Product Name,Card Number,Rarity,Variance,Quantity';
-  const rows: string[] = [];
+export function generateCollectrCSV(
+  collection: CollectionEntry[],
+  settings: ExportSettings,
+  options: CSVWriteOptions = {},
+  prices?: PriceTable
+): string {
+  const header = [
+    'Portfolio Name', 'Category', 'Set', 'Product Name', 'Card Number', 'Rarity',
+    'Variance', 'Grade', 'Card Condition', 'Language', 'Quantity',
+    ...(prices ? ['Price', 'Total Value'] : []),
+  ];
+  const rows: CSVValue[][] = [];
   
   collection.forEach(card => {
     const cardNumber = card.cardNumber || card.cardId;
     const rarity = card.rarity || '';
+    const base = [settings.portfolioName, settings.category, card.setName, card.name, cardNumber, rarity];
     
-    // Add Normal row if count > 0
-    if (card.normalCount > 0) {
-      rows.push(
-        `"${settings.portfolioName}","${settings.category}","${card.setName}","${card.name}","${cardNumber}","${rarity}","Normal",${card.normalCount}`
-      );
-    }
-    
-    // Add Foil row if count > 0
-    if (card.foilCount > 0) {
-      rows.push(
-        `"${settings.portfolioName}","${settings.category}","${card.setName}","${card.name}","${cardNumber}","${rarity}","Foil",${card.foilCount}`
-      );
+    // Normal rows first, then Foil, one per attribute combination
+    for (const finish of ['normal', 'foil'] as const) {
+      const price = prices ? getQuote(prices, card.cardId, finish)?.price : undefined;
+      for (const split of getSplits(card).filter(s => s.finish === finish)) {
+        rows.push([
+          ...base,
+          getVarianceLabel(card, finish),
+          formatGrade(split),
+          getConditionLabel(split.condition),
+          getLanguageLabel(split.language),
+          split.count,
+          ...(prices ? [toPriceCell(price), toPriceCell(price === undefined ? null : price * split.count)] : []),
+        ]);
+      }
     }
   });
   
-  return [header, ...rows].join('\n');
+  return toCSV(rows, { ...options, header, quoteColumns: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9] });
 }
 
 /**
  * Legacy Format (CSV)
- * Columns: Normal Count, Foil Count, Card ID
+ * Columns: Normal Count, Foil Count, Card ID (+ Normal Price, Foil Price, Total Value when prices are given)
  */
-export function generateLegacyCSV(collection: CollectionEntry[]): string {
-  const header = 'Normal Count,Foil Count,Card ID';
-  const rows = collection.map(card => 
-    `${card.normalCount},${card.foilCount},${card.cardId}`
-  );
-  return [header, ...rows].join('\n');
+export function generateLegacyCSV(
+  collection: CollectionEntry[],
+  options: CSVWriteOptions = {},
+  prices?: PriceTable
+): string {
+  const header = ['Normal Count', 'Foil Count', 'Card ID', ...(prices ? VALUE_HEADER : [])];
+  const rows = collection.map(card => [
+    card.normalCount, card.foilCount, card.cardId,
+    ...(prices ? valueColumns(card, prices) : []),
+  ]);
+  return toCSV(rows, { ...options, header });
 }
 
 /**
  * Simple Text CSV Format
- * Columns: CardId,Normal,Foil,Name,Set (no quotes)
+ * Columns: CardId,Normal,Foil,Name,Set (quoted only where a value requires it)
+ * (+ Normal Price, Foil Price, Total Value when prices are given)
  */
-export function generateSimpleTextCSV(collection: CollectionEntry[]): string {
-  const header = 'CardId,Normal,Foil,Name,Set';
-  const rows = collection.map(card => 
-    `${card.cardId},${card.normalCount},${card.foilCount},${card.name},${card.setName}`
-  );
-  return [header, ...rows].join('\n');
+export function generateSimpleTextCSV(
+  collection: CollectionEntry[],
+  options: CSVWriteOptions = {},
+  prices?: PriceTable
+): string {
+  const header = ['CardId', 'Normal', 'Foil', 'Name', 'Set', ...(prices ? VALUE_HEADER : [])];
+  const rows = collection.map(card => [
+    card.cardId, card.normalCount, card.foilCount, card.name, card.setName,
+    ...(prices ? valueColumns(card, prices) : []),
+  ]);
+  return toCSV(rows, { ...options, header });
 }
 
 /**
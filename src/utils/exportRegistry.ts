@@ -0,0 +1,122 @@
+// Registry of export formats. Each format declares its metadata, options and generator,
+// so adding a target site only requires registering a new definition here.
+
+import { ExportOptionValues } from '@/types/collection';
+import { ExportContext, ExportFormatDefinition, ExportOptionField } from '@/types/export';
+import { PriceTable } from '@/types/pricing';
+import { CSVWriteOptions } from '@/utils/csv';
+import {
+  generateDotGGCSV,
+  generateCollectrCSV,
+  generateLegacyCSV,
+  generateSimpleTextCSV,
+  generateDeckListText,
+} from '@/utils/exportFormats';
+
+// Options shared by every CSV format
+export const csvOptionFields: ExportOptionField[] = [
+  { key: 'bom', label: 'Include UTF-8 BOM (Excel)', type: 'boolean', default: false },
+  { key: 'crlf', label: 'Windows line endings (CRLF)', type: 'boolean', default: false },
+];
+
+export function toCSVWriteOptions(options: ExportOptionValues): CSVWriteOptions {
+  return {
+    bom: options.bom === true,
+    lineEnding: options.crlf === true ? 'crlf' : 'lf',
+  };
+}
+
+// Offered by formats that can append price and value columns
+export const valueOptionField: ExportOptionField = {
+  key: 'includeValues', label: 'Include value columns', type: 'boolean', default: false,
+};
+
+// Prices to write, or undefined when value columns are off
+export function pricesForExport({ options, prices }: ExportContext): PriceTable | undefined {
+  return options.includeValues === true ? prices ?? {} : undefined;
+}
+
+const registry = new Map<string, ExportFormatDefinition>();
+
+export function registerExportFormat(format: ExportFormatDefinition): void {
+  registry.set(format.id, format);
+}
+
+export function getExportFormat(id: string): ExportFormatDefinition | undefined {
+  return registry.get(id);
+}
+
+// Registered formats in registration order
+export function getExportFormats(): ExportFormatDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Fill in defaults for any options the user hasn't set
+ */
+export function resolveExportOptions(
+  format: ExportFormatDefinition,
+  values: ExportOptionValues = {}
+): ExportOptionValues {
+  const resolved: ExportOptionValues = {};
+  for (const field of format.options) {
+    resolved[field.key] = values[field.key] ?? field.default;
+  }
+  return resolved;
+}
+
+registerExportFormat({
+  id: 'dotgg',
+  label: 'DotGG CSV',
+  description: 'CardId, Normal, Foil, Name, Set',
+  extension: 'csv',
+  mimeType: 'text/csv',
+  filename: 'riftbound-dotgg.csv',
+  options: [...csvOptionFields, valueOptionField],
+  generate: (c, context) => generateDotGGCSV(c, toCSVWriteOptions(context.options), pricesForExport(context)),
+});
+
+registerExportFormat({
+  id: 'collectr',
+  label: 'Collectr CSV',
+  description: 'Portfolio format with variance rows',
+  extension: 'csv',
+  mimeType: 'text/csv',
+  filename: 'riftbound-collectr.csv',
+  options: [...csvOptionFields, valueOptionField],
+  generate: (c, context) =>
+    generateCollectrCSV(c, context.settings, toCSVWriteOptions(context.options), pricesForExport(context)),
+});
+
+registerExportFormat({
+  id: 'legacy',
+  label: 'Legacy CSV',
+  description: 'Normal Count, Foil Count, Card ID',
+  extension: 'csv',
+  mimeType: 'text/csv',
+  filename: 'riftbound-legacy.csv',
+  options: [...csvOptionFields, valueOptionField],
+  generate: (c, context) => generateLegacyCSV(c, toCSVWriteOptions(context.options), pricesForExport(context)),
+});
+
+registerExportFormat({
+  id: 'text',
+  label: 'Simple Text CSV',
+  description: 'Plain comma-separated values',
+  extension: 'csv',
+  mimeType: 'text/csv',
+  filename: 'riftbound-simple.csv',
+  options: [...csvOptionFields, valueOptionField],
+  generate: (c, context) => generateSimpleTextCSV(c, toCSVWriteOptions(context.options), pricesForExport(context)),
+});
+
+registerExportFormat({
+  id: 'deck',
+  label: 'Deck List',
+  description: 'Total Card Name (ID) format',
+  extension: 'txt',
+  mimeType: 'text/plain',
+  filename: 'riftbound-decklist.txt',
+  options: [],
+  generate: (c) => generateDeckListText(c),
+});
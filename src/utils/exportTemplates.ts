@@ -0,0 +1,159 @@
+// User-defined export templates: column layout, header names and variant handling
+
+import { CollectionEntry, QuantitySplit } from '@/types/collection';
+import { CustomExportTemplate, ExportFormatDefinition, TemplateColumn, TemplateField } from '@/types/export';
+import { CSVValue, CSVWriteOptions, toCSV } from '@/utils/csv';
+import { createId } from '@/utils/collectionUtils';
+import { formatGrade, getConditionLabel, getLanguageLabel, getSplits, normalizeSplits } from '@/utils/copySplits';
+import { csvOptionFields, toCSVWriteOptions } from '@/utils/exportRegistry';
+import { getVarianceLabel, getVariant, getVariantLabel } from '@/utils/cardVariants';
+import { PriceTable } from '@/types/pricing';
+import { getEntryValue, getQuote, toPriceCell } from '@/utils/pricing';
+
+export const CUSTOM_FORMAT_PREFIX = 'custom:';
+
+export const templateFieldLabels: Record<TemplateField, string> = {
+  cardId: 'Card ID',
+  name: 'Card Name',
+  setName: 'Set',
+  rarity: 'Rarity',
+  cardNumber: 'Card Number',
+  normalCount: 'Normal Count',
+  foilCount: 'Foil Count',
+  totalCount: 'Total Count',
+  printing: 'Printing',
+  variant: 'Variant (per row)',
+  quantity: 'Quantity (per row)',
+  condition: 'Condition',
+  language: 'Language',
+  grade: 'Grade',
+  location: 'Location',
+  tags: 'Tags',
+  normalPrice: 'Normal Price',
+  foilPrice: 'Foil Price',
+  value: 'Value',
+  constant: 'Fixed Text',
+};
+
+// One output row's source: a card plus, in 'rows' mode, the split it represents
+interface TemplateRowSource {
+  card: CollectionEntry;
+  split?: QuantitySplit;
+}
+
+// In 'columns' mode a card's copies may differ; list each distinct value
+function collapseValues(card: CollectionEntry, value: (split: QuantitySplit) => string): string {
+  return [...new Set(getSplits(card).map(value))].filter(Boolean).join('/');
+}
+
+// Value of the row: the split's copies in 'rows' mode, the whole card otherwise
+function rowValue(source: TemplateRowSource, prices: PriceTable): number | null {
+  const { card, split } = source;
+  if (!split) return getEntryValue(card, prices);
+  const price = getQuote(prices, card.cardId, split.finish)?.price;
+  return price === undefined ? null : price * split.count;
+}
+
+function resolveField(column: TemplateColumn, source: TemplateRowSource, prices: PriceTable): CSVValue {
+  const { card, split } = source;
+  switch (column.field) {
+    case 'cardId': return card.cardId;
+    case 'name': return card.name;
+    case 'setName': return card.setName;
+    case 'rarity': return card.rarity ?? '';
+    case 'cardNumber': return card.cardNumber || card.cardId;
+    case 'normalCount': return card.normalCount;
+    case 'foilCount': return card.foilCount;
+    case 'totalCount': return card.normalCount + card.foilCount;
+    case 'printing': return getVariantLabel(getVariant(card));
+    case 'variant': return split ? getVarianceLabel(card, split.finish) : '';
+    case 'quantity': return split ? split.count : card.normalCount + card.foilCount;
+    case 'condition':
+      return split ? getConditionLabel(split.condition) : collapseValues(card, s => getConditionLabel(s.condition));
+    case 'language':
+      return split ? getLanguageLabel(split.language) : collapseValues(card, s => getLanguageLabel(s.language));
+    case 'grade':
+      return split ? formatGrade(split) : collapseValues(card, formatGrade);
+    case 'location':
+      return split ? split.location ?? card.location ?? '' : collapseValues(card, s => s.location ?? card.location ?? '');
+    case 'tags': return (card.labels ?? []).join('; ');
+    case 'normalPrice': return toPriceCell(getQuote(prices, card.cardId, 'normal')?.price);
+    case 'foilPrice': return toPriceCell(getQuote(prices, card.cardId, 'foil')?.price);
+    case 'value': return toPriceCell(rowValue(source, prices));
+    case 'constant': return column.value ?? '';
+  }
+}
+
+function getRowSources(collection: CollectionEntry[], template: CustomExportTemplate): TemplateRowSource[] {
+  if (template.variantMode === 'columns') {
+    return collection.map(card => ({ card }));
+  }
+
+  const sources: TemplateRowSource[] = [];
+  for (const card of collection) {
+    const splits = normalizeSplits(getSplits(card));
+    for (const finish of ['normal', 'foil'] as const) {
+      for (const split of splits.filter(s => s.finish === finish)) {
+        sources.push({ card, split });
+      }
+    }
+  }
+  return sources;
+}
+
+/**
+ * Generate export content from a custom template
+ */
+export function generateFromTemplate(
+  collection: CollectionEntry[],
+  template: CustomExportTemplate,
+  options: CSVWriteOptions = {},
+  prices: PriceTable = {}
+): string {
+  const rows = getRowSources(collection, template).map(source =>
+    template.columns.map(column => resolveField(column, source, prices))
+  );
+  const header = template.includeHeader ? template.columns.map(c => c.header) : undefined;
+  return toCSV(rows, { ...options, header });
+}
+
+/**
+ * A starting point for a new template, mirroring the DotGG layout
+ */
+export function createDefaultTemplate(name: string): CustomExportTemplate {
+  const now = new Date().toISOString();
+  return {
+    id: createId(),
+    name,
+    extension: 'csv',
+    variantMode: 'columns',
+    includeHeader: true,
+    columns: [
+      { header: 'CardId', field: 'cardId' },
+      { header: 'Normal', field: 'normalCount' },
+      { header: 'Foil', field: 'foilCount' },
+      { header: 'Name', field: 'name' },
+      { header: 'Set', field: 'setName' },
+    ],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Expose a custom template as an export format definition
+ */
+export function templateToFormat(template: CustomExportTemplate): ExportFormatDefinition {
+  const slug = template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'custom';
+  return {
+    id: `${CUSTOM_FORMAT_PREFIX}${template.id}`,
+    label: template.name,
+    description: `Custom: ${template.columns.map(c => c.header || templateFieldLabels[c.field]).join(', ')}`,
+    extension: template.extension,
+    mimeType: template.extension === 'csv' ? 'text/csv' : 'text/plain',
+    filename: `riftbound-${slug}.${template.extension}`,
+    options: csvOptionFields,
+    generate: (collection, { options, prices }) =>
+      generateFromTemplate(collection, template, toCSVWriteOptions(options), prices),
+  };
+}
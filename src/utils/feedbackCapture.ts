@@ -20,6 +20,10 @@ export interface ScanFeedbackSample {
  */
 export async function storeScanFeedback(sample: ScanFeedbackSample): Promise<boolean> {
   try {
+    // Samples are only accepted from signed-in users
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return false;
+
     const { error } = await supabase
       .from('card_scan_samples')
       .insert({
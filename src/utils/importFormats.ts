@@ -0,0 +1,331 @@
+// Import parsers for the formats written by exportFormats.ts
+
+import { CollectionEntry, BuiltInExportFormat, CopyAttributes } from '@/types/collection';
+import { CardData, CardVariant } from '@/data/cardDatabase';
+import { createCardDatabaseHelpers } from '@/contexts/CardDatabaseContext';
+import { CSVRecord, formatCSVRow, parseCSVRecords } from '@/utils/csv';
+import { addCopiesToEntry, parseCondition, parseGrade, parseLanguage } from '@/utils/copySplits';
+import { getVariant, parseVariant } from '@/utils/cardVariants';
+
+// A row read from an import file, before it is matched against the card database
+export interface ImportedRow {
+  line: number;          // 1-based line number in the source
+  raw: string;
+  cardId?: string;
+  name?: string;
+  setName?: string;
+  cardNumber?: string;
+  normalCount: number;
+  foilCount: number;
+  variant?: CardVariant;         // Printing, for formats that name it separately from the card ID
+  attributes?: CopyAttributes;   // Condition/language/grade, for formats that carry them
+}
+
+export interface ImportParseResult {
+  format: BuiltInExportFormat;
+  rows: ImportedRow[];
+  errors: Array<{ line: number; raw: string; message: string }>;
+}
+
+export type ImportMatchType = 'id' | 'name' | 'fuzzy';
+
+export interface ImportPreviewRow {
+  row: ImportedRow;
+  card: CardData | null;
+  matchedBy: ImportMatchType | null;
+  score: number;
+}
+
+// Minimum fuzzy score to accept a name-only match
+const FUZZY_MATCH_THRESHOLD = 0.7;
+
+const DECK_LINE_PATTERN = /^(\d+)\s*x?\s+(.+?)\s*\(([A-Za-z]{2,4}-\d{3}[A-Za-z]?\*?)\)\s*$/;
+
+function toLines(content: string): string[] {
+  return content.replace(/^\uFEFF/, '').split(/\r?\n/);
+}
+
+function normalizeHeader(record: CSVRecord | undefined): string {
+  return record ? record.fields.map(h => h.trim().toLowerCase()).join(',') : '';
+}
+
+// Data records after the header, with trimmed fields and a canonical raw line for display
+function dataRecords(content: string): Array<{ line: number; raw: string; fields: string[] }> {
+  return parseCSVRecords(content).slice(1).map(r => ({
+    line: r.line,
+    raw: formatCSVRow(r.fields),
+    fields: r.fields.map(f => f.trim()),
+  }));
+}
+
+function parseCount(value: string | undefined): number {
+  const n = parseInt((value ?? '').trim(), 10);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+/**
+ * Guess which export format some content was written in, from its header line
+ */
+export function detectImportFormat(content: string): BuiltInExportFormat | null {
+  const lines = toLines(content).filter(l => l.trim().length > 0);
+  if (lines.length === 0) return null;
+
+  const header = normalizeHeader(parseCSVRecords(lines[0])[0]);
+  if (header.startsWith('cardid,normal,foil')) {
+    // DotGG and Simple Text share a header; DotGG quotes name and set on every row,
+    // Simple Text only where a value requires it
+    return lines.slice(1).every(l => l.includes('"')) ? 'dotgg' : 'text';
+  }
+  if (header.startsWith('portfolio name,')) return 'collectr';
+  if (header.startsWith('normal count,foil count,card id')) return 'legacy';
+  if (DECK_LINE_PATTERN.test(lines[0].trim())) return 'deck';
+
+  return null;
+}
+
+// Shared parser for the CardId,Normal,Foil,Name,Set layout
+function parseCardIdCSV(content: string, format: BuiltInExportFormat): ImportParseResult {
+  const result: ImportParseResult = { format, rows: [], errors: [] };
+
+  dataRecords(content).forEach(({ line, raw, fields }) => {
+    const [cardId, normal, foil, name, setName] = fields;
+    if (!cardId) {
+      result.errors.push({ line, raw, message: 'Missing card ID' });
+      return;
+    }
+    result.rows.push({
+      line,
+      raw,
+      cardId,
+      name: name || undefined,
+      setName: setName || undefined,
+      normalCount: parseCount(normal),
+      foilCount: parseCount(foil),
+    });
+  });
+
+  return result;
+}
+
+/**
+ * DotGG Format (CSV)
+ * Columns: CardId, Normal, Foil, Name, Set
+ */
+export function parseDotGGCSV(content: string): ImportParseResult {
+  return parseCardIdCSV(content, 'dotgg');
+}
+
+/**
+ * Simple Text CSV Format
+ * Columns: CardId,Normal,Foil,Name,Set
+ */
+export function parseSimpleTextCSV(content: string): ImportParseResult {
+  return parseCardIdCSV(content, 'text');
+}
+
+/**
+ * Collectr Format (CSV)
+ * One row per variance; Normal and Foil rows for the same card are combined later.
+ * A variance like "Alternate Art Foil" also names the printing.
+ */
+export function parseCollectrCSV(content: string): ImportParseResult {
+  const result: ImportParseResult = { format: 'collectr', rows: [], errors: [] };
+  const [headerRecord] = parseCSVRecords(content);
+  if (!headerRecord) return result;
+
+  const header = headerRecord.fields.map(h => h.trim().toLowerCase());
+  const col = (name: string) => header.indexOf(name);
+  const setIdx = col('set');
+  const nameIdx = col('product name');
+  const numberIdx = col('card number');
+  const varianceIdx = col('variance');
+  const quantityIdx = col('quantity');
+  const gradeIdx = col('grade');
+  const conditionIdx = col('card condition') !== -1 ? col('card condition') : col('condition');
+  const languageIdx = col('language');
+
+  if (nameIdx === -1 || quantityIdx === -1) {
+    result.errors.push({
+      line: headerRecord.line,
+      raw: formatCSVRow(headerRecord.fields),
+      message: 'Missing Product Name or Quantity column',
+    });
+    return result;
+  }
+
+  dataRecords(content).forEach(({ line, raw, fields }) => {
+    const name = fields[nameIdx];
+    if (!name) {
+      result.errors.push({ line, raw, message: 'Missing product name' });
+      return;
+    }
+    const quantity = parseCount(fields[quantityIdx]);
+    const variance = fields[varianceIdx] ?? '';
+    const isFoil = variance.toLowerCase().includes('foil');
+    const cardNumber = numberIdx !== -1 ? fields[numberIdx] : undefined;
+
+    result.rows.push({
+      line,
+      raw,
+      // Card Number falls back to the card ID when no set number is known
+      cardId: cardNumber && /^[A-Za-z]{2,4}-\d{3}/.test(cardNumber) ? cardNumber : undefined,
+      cardNumber: cardNumber || undefined,
+      name,
+      setName: setIdx !== -1 ? fields[setIdx] || undefined : undefined,
+      normalCount: isFoil ? 0 : quantity,
+      foilCount: isFoil ? quantity : 0,
+      variant: parseVariant(variance),
+      attributes: {
+        condition: parseCondition(fields[conditionIdx]),
+        language: parseLanguage(fields[languageIdx]),
+        grade: parseGrade(fields[gradeIdx]),
+      },
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Legacy Format (CSV)
+ * Columns: Normal Count, Foil Count, Card ID
+ */
+export function parseLegacyCSV(content: string): ImportParseResult {
+  const result: ImportParseResult = { format: 'legacy', rows: [], errors: [] };
+
+  dataRecords(content).forEach(({ line, raw, fields }) => {
+    const [normal, foil, cardId] = fields;
+    if (!cardId) {
+      result.errors.push({ line, raw, message: 'Missing card ID' });
+      return;
+    }
+    result.rows.push({
+      line,
+      raw,
+      cardId,
+      normalCount: parseCount(normal),
+      foilCount: parseCount(foil),
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Deck List Text Format
+ * Format: <TotalCopies> <Card Name> (<CARD-ID>); all copies are imported as Normal
+ */
+export function parseDeckListText(content: string): ImportParseResult {
+  const result: ImportParseResult = { format: 'deck', rows: [], errors: [] };
+
+  toLines(content).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+    const match = line.match(DECK_LINE_PATTERN);
+    if (!match) {
+      result.errors.push({ line: i + 1, raw, message: 'Expected "<count> <name> (<ID>)"' });
+      return;
+    }
+    result.rows.push({
+      line: i + 1,
+      raw,
+      cardId: match[3],
+      name: match[2],
+      normalCount: parseCount(match[1]),
+      foilCount: 0,
+    });
+  });
+
+  return result;
+}
+
+const parsers: Record<BuiltInExportFormat, (content: string) => ImportParseResult> = {
+  dotgg: parseDotGGCSV,
+  collectr: parseCollectrCSV,
+  legacy: parseLegacyCSV,
+  text: parseSimpleTextCSV,
+  deck: parseDeckListText,
+};
+
+/**
+ * Parse import content, auto-detecting the format unless one is given
+ */
+export function parseImport(content: string, format?: BuiltInExportFormat): ImportParseResult | null {
+  const resolved = format ?? detectImportFormat(content);
+  if (!resolved) return null;
+  return parsers[resolved](content);
+}
+
+/**
+ * Resolve imported rows against the card database: by ID, then exact name (preferring
+ * the same card number, printing and set), then fuzzy name
+ */
+export function matchImportedRows(rows: ImportedRow[], cards: CardData[]): ImportPreviewRow[] {
+  const helpers = createCardDatabaseHelpers(cards);
+
+  return rows.map(row => {
+    if (row.cardId) {
+      const byId = helpers.findCardById(row.cardId);
+      if (byId) return { row, card: byId, matchedBy: 'id' as const, score: 1 };
+    }
+
+    if (row.name) {
+      const sameName = cards.filter(c => c.name.toLowerCase() === row.name!.toLowerCase());
+      if (sameName.length > 0) {
+        const preferred =
+          sameName.find(c => row.cardNumber && c.cardNumber === row.cardNumber) ??
+          sameName.find(c => row.variant && getVariant(c) === row.variant &&
+            (!row.setName || c.setName.toLowerCase() === row.setName.toLowerCase())) ??
+          sameName.find(c => row.setName && c.setName.toLowerCase() === row.setName.toLowerCase()) ??
+          sameName[0];
+        return { row, card: preferred, matchedBy: 'name' as const, score: 1 };
+      }
+
+      const [best] = helpers.fuzzyMatchCardName(row.name);
+      if (best && best.score >= FUZZY_MATCH_THRESHOLD) {
+        return { row, card: best.card, matchedBy: 'fuzzy' as const, score: best.score };
+      }
+    }
+
+    return { row, card: null, matchedBy: null, score: 0 };
+  });
+}
+
+/**
+ * Combine matched preview rows into collection entries (summing duplicate cards)
+ */
+export function buildImportEntries(preview: ImportPreviewRow[]): CollectionEntry[] {
+  const entries = new Map<string, CollectionEntry>();
+
+  for (const { row, card } of preview) {
+    if (!card || row.normalCount + row.foilCount === 0) continue;
+    let entry = entries.get(card.cardId) ?? { ...card, normalCount: 0, foilCount: 0 };
+    entry = addCopiesToEntry(entry, 'normal', row.normalCount, row.attributes);
+    entry = addCopiesToEntry(entry, 'foil', row.foilCount, row.attributes);
+    entries.set(card.cardId, entry);
+  }
+
+  return Array.from(entries.values());
+}
+
+// Collection entries read from pasted or uploaded export text
+export interface ImportedList {
+  entries: CollectionEntry[];
+  unmatched: number;
+  detected: boolean;
+}
+
+/**
+ * Auto-detect, parse and match export text in one step. Returns null for empty content.
+ */
+export function importFromText(content: string, cards: CardData[]): ImportedList | null {
+  if (!content.trim()) return null;
+  const parsed = parseImport(content);
+  if (!parsed) return { entries: [], unmatched: 0, detected: false };
+  const preview = matchImportedRows(parsed.rows, cards);
+  return {
+    entries: buildImportEntries(preview),
+    unmatched: preview.filter(p => !p.card).length,
+    detected: true,
+  };
+}
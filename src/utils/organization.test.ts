@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { CardData } from '@/data/cardDatabase';
+import { CollectionEntry } from '@/types/collection';
+import { collectTags, hasTag, separateEntryLabels } from '@/utils/organization';
+
+const jinx: CardData = {
+  cardId: 'OGN-002',
+  name: 'Jinx, Rebel',
+  setName: 'Origins',
+  cardType: 'Unit',
+  supertype: 'Champion',
+  tags: ['Jinx'],
+};
+
+function entry(extra: Partial<CollectionEntry> = {}): CollectionEntry {
+  return { ...jinx, normalCount: 1, foilCount: 0, ...extra };
+}
+
+describe('entry labels', () => {
+  it("does not treat the card's own tags as user tags", () => {
+    const collection = [entry(), entry({ cardId: 'OGN-003', labels: ['for trade'] })];
+    expect(collectTags(collection)).toEqual(['for trade']);
+    expect(hasTag(collection[0], 'Jinx')).toBe(false);
+    expect(hasTag(collection[1], 'FOR TRADE')).toBe(true);
+  });
+
+  it('moves user tags saved in the old tags field to labels', () => {
+    const saved = entry({ tags: ['Jinx', 'deck: aggro', 'for trade'] });
+    expect(separateEntryLabels(saved, jinx.tags)).toEqual(entry({ tags: ['Jinx'], labels: ['deck: aggro', 'for trade'] }));
+  });
+
+  it('treats every saved tag as a label when the card has none', () => {
+    const { tags: _tags, ...plain } = entry();
+    expect(separateEntryLabels({ ...plain, tags: ['binder'] })).toEqual({ ...plain, labels: ['binder'] });
+  });
+
+  it('leaves entries without saved tags alone', () => {
+    const { tags: _tags, ...plain } = entry({ labels: ['keep'] });
+    expect(separateEntryLabels(plain, jinx.tags)).toBe(plain);
+  });
+});
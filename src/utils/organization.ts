@@ -0,0 +1,182 @@
+// Where copies are stored (binders, boxes) and user tags on collection entries,
+// plus pick lists that say where to pull cards from
+
+import { CardFinish, CollectionEntry } from '@/types/collection';
+import { getSplits } from '@/utils/copySplits';
+import { formatCardName } from '@/utils/cardVariants';
+
+export const UNASSIGNED_LOCATION_LABEL = 'No location';
+
+// Copies of an entry in one finish and location
+export interface LocatedCopies {
+  location?: string;
+  finish: CardFinish;
+  count: number;
+}
+
+// Copies to pull: exact finish, or either finish (normal first)
+export interface PickRequest {
+  cardId: string;
+  count: number;
+  finish?: CardFinish;
+}
+
+export interface PickListItem {
+  location?: string;
+  card: CollectionEntry;
+  finish: CardFinish;
+  count: number;
+}
+
+/**
+ * Natural order for locations, so "Box 2" sorts before "Box 10"
+ */
+export function compareLocations(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Trim a location; blank means none
+ */
+export function normalizeLocation(location: string | undefined): string | undefined {
+  const trimmed = (location ?? '').trim();
+  return trimmed || undefined;
+}
+
+/**
+ * Trim tags and drop blanks and case-insensitive duplicates
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags) {
+    const trimmed = tag.trim();
+    if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+    seen.add(trimmed.toLowerCase());
+    result.push(trimmed);
+  }
+  return result;
+}
+
+/**
+ * Split the `tags` an entry was saved with before user tags had a field of their
+ * own. Tags the card itself carries (copied in when the entry was built from the
+ * card) stay as card metadata; the rest become the entry's labels.
+ */
+export function separateEntryLabels(entry: CollectionEntry, cardTags: string[] = []): CollectionEntry {
+  if (!entry.tags || entry.tags.length === 0) return entry;
+
+  const isCardTag = (tag: string) => cardTags.some(t => t.toLowerCase() === tag.toLowerCase());
+  const { tags, labels: previous = [], ...rest } = entry;
+  const cardOwn = tags.filter(isCardTag);
+  const labels = normalizeTags([...previous, ...tags.filter(t => !isCardTag(t))]);
+  return {
+    ...rest,
+    ...(cardOwn.length > 0 ? { tags: cardOwn } : {}),
+    ...(labels.length > 0 ? { labels } : {}),
+  };
+}
+
+/**
+ * An entry's copies by location: a split's own location, otherwise the entry's
+ */
+export function getLocatedCopies(entry: CollectionEntry): LocatedCopies[] {
+  const copies = new Map<string, LocatedCopies>();
+  for (const split of getSplits(entry)) {
+    const location = split.location ?? entry.location;
+    const key = `${split.finish}|${location ?? ''}`;
+    const existing = copies.get(key);
+    if (existing) existing.count += split.count;
+    else copies.set(key, { location, finish: split.finish, count: split.count });
+  }
+  return Array.from(copies.values());
+}
+
+/**
+ * Distinct locations holding copies of an entry; undefined stands for copies without one
+ */
+export function getEntryLocations(entry: CollectionEntry): Array<string | undefined> {
+  return [...new Set(getLocatedCopies(entry).map(c => c.location))];
+}
+
+export function collectLocations(collection: CollectionEntry[]): string[] {
+  const locations = new Set<string>();
+  for (const entry of collection) {
+    for (const location of getEntryLocations(entry)) {
+      if (location) locations.add(location);
+    }
+  }
+  return Array.from(locations).sort(compareLocations);
+}
+
+export function collectTags(collection: CollectionEntry[]): string[] {
+  return normalizeTags(collection.flatMap(e => e.labels ?? [])).sort((a, b) => a.localeCompare(b));
+}
+
+export function hasTag(entry: CollectionEntry, tag: string): boolean {
+  return (entry.labels ?? []).some(t => t.toLowerCase() === tag.toLowerCase());
+}
+
+/**
+ * Where to pull each requested card from. A request for a standard printing can
+ * be filled from its alternate printings once the exact card runs out, and
+ * copies with no location come last. Requests the collection can't cover are
+ * filled as far as possible.
+ */
+export function buildPickList(requests: PickRequest[], collection: CollectionEntry[]): PickListItem[] {
+  const remaining = new Map<CollectionEntry, LocatedCopies[]>(
+    collection.map(entry => [entry, getLocatedCopies(entry).map(c => ({ ...c }))])
+  );
+  const items: PickListItem[] = [];
+
+  for (const request of requests) {
+    const id = request.cardId.toUpperCase();
+    const sources = [
+      ...collection.filter(e => e.cardId.toUpperCase() === id),
+      ...collection.filter(e => e.baseCardId?.toUpperCase() === id && e.cardId.toUpperCase() !== id),
+    ];
+    let needed = request.count;
+
+    for (const entry of sources) {
+      const copies = remaining.get(entry)!
+        .filter(c => c.count > 0 && (!request.finish || c.finish === request.finish))
+        .sort((a, b) =>
+          (a.finish === b.finish ? 0 : a.finish === 'normal' ? -1 : 1) ||
+          (a.location ? 0 : 1) - (b.location ? 0 : 1)
+        );
+      for (const copy of copies) {
+        if (needed <= 0) break;
+        const taken = Math.min(copy.count, needed);
+        copy.count -= taken;
+        needed -= taken;
+        items.push({ location: copy.location, card: entry, finish: copy.finish, count: taken });
+      }
+    }
+  }
+
+  return items.sort((a, b) =>
+    (a.location ? 0 : 1) - (b.location ? 0 : 1) ||
+    compareLocations(a.location ?? '', b.location ?? '') ||
+    a.card.name.localeCompare(b.card.name)
+  );
+}
+
+/**
+ * Plain-text pick list grouped by location
+ */
+export function formatPickList(items: PickListItem[], title: string): string {
+  const lines = [title];
+  let current: string | null = null;
+
+  for (const item of items) {
+    const location = item.location ?? UNASSIGNED_LOCATION_LABEL;
+    if (location !== current) {
+      lines.push('', `${location}:`);
+      current = location;
+    }
+    lines.push(`  ${item.count} ${formatCardName(item.card)} (${item.card.cardId})${item.finish === 'foil' ? ' [Foil]' : ''}`);
+  }
+
+  if (items.length === 0) lines.push('', 'Nothing to pull');
+  return lines.join('\n');
+}
@@ -0,0 +1,75 @@
+/**
+ * Photo identification - runs the scanner's recognition pipeline on uploaded image files
+ */
+
+import { EmbeddedCard } from '@/contexts/CardEmbeddingContext';
+import { computeEmbeddingFromCanvas, MODEL_INPUT_SIZE } from '@/embedding/cnnEmbedding';
+import { canvasToThumbnail } from '@/embedding/preprocess';
+import { ScanDetails } from '@/types/scanReview';
+import { loadOpenCV, normalizeCardFromCanvas } from '@/utils/cardNormalization';
+import { multiSignalMatch, MultiSignalMatch } from '@/utils/multiSignalMatcher';
+
+// Phone photos are far larger than edge detection needs
+const MAX_PHOTO_SIDE = 1600;
+const MAX_CANDIDATES = 5;
+
+export interface PhotoIdentification extends ScanDetails {
+  match: MultiSignalMatch | null;
+  cardDetected: boolean;
+  needsConfirmation: boolean;
+  message: string;
+}
+
+async function drawPhoto(file: File): Promise<HTMLCanvasElement> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error('Could not read this image');
+  }
+
+  try {
+    const scale = Math.min(1, MAX_PHOTO_SIDE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Detect, warp, embed and match the card in a photo, the same way a scanned frame is handled
+ */
+export async function identifyCardPhoto(
+  file: File,
+  cardIndex: EmbeddedCard[],
+  enableOCR: boolean = true
+): Promise<PhotoIdentification> {
+  // Without OpenCV no edges are found and the photo is center-cropped
+  await loadOpenCV().catch(err => console.warn('[PhotoImport] OpenCV load failed, will use fallback:', err));
+
+  const photo = await drawPhoto(file);
+  const normalized = normalizeCardFromCanvas(photo);
+
+  const resizedCanvas = document.createElement('canvas');
+  resizedCanvas.width = MODEL_INPUT_SIZE;
+  resizedCanvas.height = MODEL_INPUT_SIZE;
+  resizedCanvas.getContext('2d')!.drawImage(normalized.canvas, 0, 0, MODEL_INPUT_SIZE, MODEL_INPUT_SIZE);
+
+  const embedding = await computeEmbeddingFromCanvas(resizedCanvas);
+  const result = await multiSignalMatch(normalized.canvas, embedding, cardIndex, enableOCR);
+  const match = result.matches[0] ?? null;
+
+  return {
+    match,
+    score: match?.combinedScore,
+    candidates: result.matches.slice(0, MAX_CANDIDATES).map(m => ({ cardId: m.card.cardId, score: m.combinedScore })),
+    thumbnail: canvasToThumbnail(normalized.canvas),
+    cardDetected: normalized.success,
+    needsConfirmation: result.needsConfirmation || result.ambiguous || !normalized.success,
+    message: normalized.success ? result.message : normalized.message,
+  };
+}
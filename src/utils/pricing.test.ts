@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { CollectionEntry } from '@/types/collection';
+import { PriceQuote, PriceTable } from '@/types/pricing';
+import { UTF8_BOM } from '@/utils/csv';
+import {
+  PRICE_FILE_SOURCE_ID,
+  createPriceFileSource,
+  getCollectionValue,
+  getEntryValue,
+  parsePriceFile,
+  priceKey,
+} from '@/utils/pricing';
+
+function entry(cardId: string, normalCount: number, foilCount = 0): CollectionEntry {
+  return { cardId, name: cardId, setName: 'Origins', normalCount, foilCount };
+}
+
+function toTable(quotes: PriceQuote[]): PriceTable {
+  return Object.fromEntries(quotes.map(q => [priceKey(q.cardId, q.finish), q]));
+}
+
+// Prices the way the app gets them: through the price-file source
+async function loadPrices(content: string, cardIds: string[]): Promise<PriceTable> {
+  return toTable(await createPriceFileSource('prices.csv', content).fetchPrices(cardIds));
+}
+
+const prices = (quotes: PriceQuote[]) => quotes.map(q => [q.cardId, q.finish, q.price, q.currency]);
+
+describe('parsePriceFile (CSV)', () => {
+  it('reads aliased columns, currency symbols and decimal commas', () => {
+    const csv = [
+      'Card ID,Market Price,Foil Price,Currency',
+      'ogn-001,$1.50,"4,25",eur',
+      'OGN-002,"1,234.50",,',
+    ].join('\r\n');
+    const { quotes, errors } = parsePriceFile(UTF8_BOM + csv);
+    expect(errors).toEqual([]);
+    expect(prices(quotes)).toEqual([
+      ['OGN-001', 'normal', 1.5, 'EUR'],
+      ['OGN-001', 'foil', 4.25, 'EUR'],
+      ['OGN-002', 'normal', 1234.5, 'USD'],
+    ]);
+    expect(quotes.every(q => q.source === PRICE_FILE_SOURCE_ID)).toBe(true);
+  });
+
+  it('reports malformed rows by line and keeps the rest', () => {
+    const csv = [
+      'id,price,foil,updated',
+      'OGN-001,0.25,,2026-03-01',
+      ',1.00,,',
+      'OGN-003,n/a,,',
+      'OGN-004,-,,',
+      'OGN-005,2,3,not a date',
+    ].join('\n');
+    const { quotes, errors } = parsePriceFile(csv);
+    expect(errors.map(e => e.line)).toEqual([3, 4, 5]);
+    expect(prices(quotes)).toEqual([
+      ['OGN-001', 'normal', 0.25, 'USD'],
+      ['OGN-005', 'normal', 2, 'USD'],
+      ['OGN-005', 'foil', 3, 'USD'],
+    ]);
+    expect(quotes[0].updatedAt).toBe(new Date('2026-03-01').toISOString());
+  });
+
+  it('rejects a file without card ID and price columns', () => {
+    const { quotes, errors } = parsePriceFile('name,qty\nJinx,2');
+    expect(quotes).toEqual([]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].line).toBe(1);
+  });
+});
+
+describe('parsePriceFile (JSON)', () => {
+  it('reads an array of rows', () => {
+    const { quotes, errors } = parsePriceFile(JSON.stringify([
+      { cardId: 'OGN-001', normal: 1, foil: '2.50' },
+      { id: 'OGN-002', price: 0.1, currency: 'gbp' },
+    ]));
+    expect(errors).toEqual([]);
+    expect(prices(quotes)).toEqual([
+      ['OGN-001', 'normal', 1, 'USD'],
+      ['OGN-001', 'foil', 2.5, 'USD'],
+      ['OGN-002', 'normal', 0.1, 'GBP'],
+    ]);
+  });
+
+  it('reads a card ID map inside a wrapper with defaults', () => {
+    const { quotes } = parsePriceFile(JSON.stringify({
+      currency: 'eur',
+      updatedAt: '2026-03-01T00:00:00Z',
+      prices: { 'OGN-001': 1.25, 'OGN-002': { foil: 9 } },
+    }));
+    expect(prices(quotes)).toEqual([
+      ['OGN-001', 'normal', 1.25, 'EUR'],
+      ['OGN-002', 'foil', 9, 'EUR'],
+    ]);
+    expect(quotes.every(q => q.updatedAt === '2026-03-01T00:00:00.000Z')).toBe(true);
+  });
+
+  it('reports malformed entries and invalid JSON', () => {
+    const { quotes, errors } = parsePriceFile(JSON.stringify([{ cardId: 'OGN-001', normal: 1 }, 'oops', { normal: 2 }]));
+    expect(prices(quotes)).toEqual([['OGN-001', 'normal', 1, 'USD']]);
+    expect(errors).toHaveLength(2);
+
+    const invalid = parsePriceFile('{ "prices": [');
+    expect(invalid.quotes).toEqual([]);
+    expect(invalid.errors[0].message).toMatch(/^Invalid JSON/);
+  });
+});
+
+describe('createPriceFileSource', () => {
+  it('only returns quotes for the requested cards, case-insensitively', async () => {
+    const source = createPriceFileSource('prices.csv', 'id,normal\nOGN-001,1\nOGN-002,2');
+    expect(source.id).toBe(PRICE_FILE_SOURCE_ID);
+    expect(source.label).toBe('Price file (prices.csv)');
+    expect(prices(await source.fetchPrices(['ogn-002', 'OGN-999']))).toEqual([['OGN-002', 'normal', 2, 'USD']]);
+  });
+});
+
+describe('valuation with a price file', () => {
+  const CSV = 'id,normal,foil\nOGN-001,1.50,6\nOGN-002,0.25,\nOGN-003,,4';
+
+  it('values each owned finish of an entry', async () => {
+    const table = await loadPrices(CSV, ['OGN-001', 'OGN-002', 'OGN-003']);
+    expect(getEntryValue(entry('OGN-001', 2, 1), table)).toBe(9);
+    // Only the normal finish is owned and priced
+    expect(getEntryValue(entry('OGN-002', 4), table)).toBe(1);
+    // The owned finish has no price
+    expect(getEntryValue(entry('OGN-002', 0, 1), table)).toBeNull();
+    expect(getEntryValue(entry('OGN-004', 1), table)).toBeNull();
+  });
+
+  it('totals a collection and counts unpriced cards', async () => {
+    const collection = [entry('OGN-001', 2, 1), entry('OGN-002', 4), entry('OGN-003', 1), entry('OGN-004', 1)];
+    const table = await loadPrices(CSV, collection.map(e => e.cardId));
+    expect(getCollectionValue(collection, table)).toEqual({
+      total: 10,
+      currency: 'USD',
+      pricedCards: 2,
+      unpricedCards: 2,
+    });
+  });
+
+  it('has no currency for an empty price table', () => {
+    expect(getCollectionValue([entry('OGN-001', 1)], {})).toEqual({
+      total: 0,
+      currency: null,
+      pricedCards: 0,
+      unpricedCards: 1,
+    });
+  });
+});
@@ -0,0 +1,244 @@
+// Price lookup, collection valuation and the local price-file source
+
+import { CardFinish, CollectionEntry } from '@/types/collection';
+import { CollectionValue, PriceQuote, PriceSource, PriceTable } from '@/types/pricing';
+import { UTF8_BOM, parseCSVRecords } from '@/utils/csv';
+
+export const DEFAULT_CURRENCY = 'USD';
+export const PRICE_FILE_SOURCE_ID = 'price-file';
+
+export function priceKey(cardId: string, finish: CardFinish): string {
+  return `${cardId.toUpperCase()}|${finish}`;
+}
+
+export function getQuote(prices: PriceTable, cardId: string, finish: CardFinish): PriceQuote | undefined {
+  return prices[priceKey(cardId, finish)];
+}
+
+/**
+ * Value of every copy in an entry, or null when neither of its owned finishes has a price
+ */
+export function getEntryValue(entry: CollectionEntry, prices: PriceTable): number | null {
+  const normal = getQuote(prices, entry.cardId, 'normal');
+  const foil = getQuote(prices, entry.cardId, 'foil');
+  const hasPrice = (entry.normalCount > 0 && normal) || (entry.foilCount > 0 && foil);
+  if (!hasPrice) return null;
+  return entry.normalCount * (normal?.price ?? 0) + entry.foilCount * (foil?.price ?? 0);
+}
+
+/**
+ * Total value of a collection. Prices are assumed to share one currency; the
+ * first quote found decides which.
+ */
+export function getCollectionValue(collection: CollectionEntry[], prices: PriceTable): CollectionValue {
+  const value: CollectionValue = { total: 0, currency: null, pricedCards: 0, unpricedCards: 0 };
+
+  for (const entry of collection) {
+    const entryValue = getEntryValue(entry, prices);
+    if (entryValue === null) {
+      value.unpricedCards++;
+      continue;
+    }
+    value.pricedCards++;
+    value.total += entryValue;
+    value.currency ??=
+      getQuote(prices, entry.cardId, 'normal')?.currency ?? getQuote(prices, entry.cardId, 'foil')?.currency ?? null;
+  }
+
+  return value;
+}
+
+export function formatPrice(value: number, currency: string | null = DEFAULT_CURRENCY): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency: currency ?? DEFAULT_CURRENCY }).format(value);
+  } catch {
+    // Unknown currency code
+    return `${value.toFixed(2)} ${currency ?? ''}`.trim();
+  }
+}
+
+/**
+ * A price as an export cell: two decimals without a currency symbol, blank when unpriced
+ */
+export function toPriceCell(value: number | null | undefined): string {
+  return value === null || value === undefined ? '' : value.toFixed(2);
+}
+
+// Price file parsing
+
+export interface PriceFileParseResult {
+  quotes: PriceQuote[];
+  errors: Array<{ line: number; message: string }>;
+}
+
+// Read "$1.50", "1,50", "1.5" or a number; blank or unreadable is no price
+function parsePrice(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  const normalized = cleaned.includes('.') ? cleaned.replace(/,/g, '') : cleaned.replace(',', '.');
+  const n = parseFloat(normalized);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+// A price row before it is split into per-finish quotes
+interface PriceRow {
+  cardId?: string;
+  normal?: unknown;
+  foil?: unknown;
+  currency?: unknown;
+  updatedAt?: unknown;
+}
+
+interface PriceDefaults {
+  currency: string;
+  updatedAt: string;
+}
+
+function readCurrency(value: unknown, fallback: string): string {
+  return typeof value === 'string' && value.trim() ? value.trim().toUpperCase() : fallback;
+}
+
+function readTimestamp(value: unknown, fallback: string): string {
+  return typeof value === 'string' && !isNaN(Date.parse(value)) ? new Date(value).toISOString() : fallback;
+}
+
+function rowToQuotes(row: PriceRow, defaults: PriceDefaults): PriceQuote[] {
+  const cardId = row.cardId?.trim().toUpperCase();
+  if (!cardId) return [];
+
+  const currency = readCurrency(row.currency, defaults.currency);
+  const updatedAt = readTimestamp(row.updatedAt, defaults.updatedAt);
+
+  const quotes: PriceQuote[] = [];
+  for (const finish of ['normal', 'foil'] as CardFinish[]) {
+    const price = parsePrice(finish === 'normal' ? row.normal : row.foil);
+    if (price !== null) {
+      quotes.push({ cardId, finish, price, currency, source: PRICE_FILE_SOURCE_ID, updatedAt });
+    }
+  }
+  return quotes;
+}
+
+// Accepted spellings of each column/property, compared lowercased without spaces, dashes or underscores
+const FIELD_ALIASES: Record<keyof PriceRow, string[]> = {
+  cardId: ['cardid', 'id', 'cardnumber', 'card'],
+  normal: ['normal', 'normalprice', 'price', 'marketprice', 'market'],
+  foil: ['foil', 'foilprice'],
+  currency: ['currency'],
+  updatedAt: ['updatedat', 'updated', 'date', 'pricedate'],
+};
+
+function fieldFor(name: string): keyof PriceRow | undefined {
+  const normalized = name.toLowerCase().replace(/[\s_-]/g, '');
+  return (Object.keys(FIELD_ALIASES) as Array<keyof PriceRow>).find(field => FIELD_ALIASES[field].includes(normalized));
+}
+
+function objectToRow(value: Record<string, unknown>, cardId?: string): PriceRow {
+  const row: PriceRow = { cardId };
+  for (const [key, v] of Object.entries(value)) {
+    const field = fieldFor(key);
+    if (field === 'cardId') row.cardId = String(v);
+    else if (field) row[field] = v;
+  }
+  return row;
+}
+
+function parsePriceJSON(content: string, now: string): PriceFileParseResult {
+  const result: PriceFileParseResult = { quotes: [], errors: [] };
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (e) {
+    result.errors.push({ line: 1, message: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}` });
+    return result;
+  }
+
+  // Optional wrapper: { currency, updatedAt, prices: [...] | { ... } }
+  let defaults: PriceDefaults = { currency: DEFAULT_CURRENCY, updatedAt: now };
+  if (data && typeof data === 'object' && !Array.isArray(data) && 'prices' in data) {
+    const wrapper = data as Record<string, unknown>;
+    defaults = {
+      currency: readCurrency(wrapper.currency, DEFAULT_CURRENCY),
+      updatedAt: readTimestamp(wrapper.updatedAt, now),
+    };
+    data = wrapper.prices;
+  }
+
+  const rows: PriceRow[] = [];
+  if (Array.isArray(data)) {
+    // [{ cardId, normal, foil, ... }]
+    data.forEach((item, i) => {
+      if (item && typeof item === 'object') rows.push(objectToRow(item as Record<string, unknown>));
+      else result.errors.push({ line: i + 1, message: 'Expected an object' });
+    });
+  } else if (data && typeof data === 'object') {
+    // { "OGN-001": { normal, foil } } or { "OGN-001": 1.25 }
+    for (const [cardId, value] of Object.entries(data as Record<string, unknown>)) {
+      rows.push(value && typeof value === 'object'
+        ? objectToRow(value as Record<string, unknown>, cardId)
+        : { cardId, normal: value });
+    }
+  } else {
+    result.errors.push({ line: 1, message: 'Expected an array or object of prices' });
+  }
+
+  rows.forEach((row, i) => {
+    const quotes = rowToQuotes(row, defaults);
+    if (quotes.length === 0) result.errors.push({ line: i + 1, message: `No card ID or price for ${row.cardId ?? 'entry'}` });
+    result.quotes.push(...quotes);
+  });
+  return result;
+}
+
+function parsePriceCSV(content: string, now: string): PriceFileParseResult {
+  const result: PriceFileParseResult = { quotes: [], errors: [] };
+  const [header, ...records] = parseCSVRecords(content);
+  if (!header) return result;
+
+  const fields = header.fields.map(fieldFor);
+  if (!fields.includes('cardId') || !(fields.includes('normal') || fields.includes('foil'))) {
+    result.errors.push({ line: header.line, message: 'Expected a card ID column and a Normal/Price or Foil column' });
+    return result;
+  }
+
+  for (const record of records) {
+    const row: PriceRow = {};
+    record.fields.forEach((value, i) => {
+      const field = fields[i];
+      if (field) row[field] = value;
+    });
+    const quotes = rowToQuotes(row, { currency: DEFAULT_CURRENCY, updatedAt: now });
+    if (quotes.length === 0) result.errors.push({ line: record.line, message: 'Missing card ID or price' });
+    result.quotes.push(...quotes);
+  }
+  return result;
+}
+
+/**
+ * Parse a price file: JSON (an array of rows, a map of card ID to prices, or either
+ * wrapped as { currency, updatedAt, prices }) or CSV with a card ID column and
+ * Normal/Price and/or Foil columns. Currency and Updated columns are optional.
+ */
+export function parsePriceFile(content: string): PriceFileParseResult {
+  const now = new Date().toISOString();
+  const trimmed = (content.startsWith(UTF8_BOM) ? content.slice(1) : content).trim();
+  return trimmed.startsWith('{') || trimmed.startsWith('[')
+    ? parsePriceJSON(trimmed, now)
+    : parsePriceCSV(trimmed, now);
+}
+
+/**
+ * A price source backed by a local price file, so valuation works offline
+ */
+export function createPriceFileSource(fileName: string, content: string): PriceSource {
+  const { quotes } = parsePriceFile(content);
+  return {
+    id: PRICE_FILE_SOURCE_ID,
+    label: `Price file (${fileName})`,
+    fetchPrices: async (cardIds) => {
+      const wanted = new Set(cardIds.map(id => id.toUpperCase()));
+      return quotes.filter(q => wanted.has(q.cardId));
+    },
+  };
+}
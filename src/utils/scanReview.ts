@@ -0,0 +1,73 @@
+/**
+ * Scan review helpers - turning reviewed scans into collection entries and a summary
+ */
+
+import { CardData } from '@/data/cardDatabase';
+import { CollectionEntry, NamedCollection } from '@/types/collection';
+import { ReviewItem, ScanDetails, ScanReviewSummary } from '@/types/scanReview';
+import { createId, mergeCollectionEntries } from '@/utils/collectionUtils';
+import { formatCardName } from '@/utils/cardVariants';
+
+// Past review sessions kept for reference
+export const MAX_REVIEW_SUMMARIES = 50;
+
+/**
+ * A confirmed scan as a review item adding one normal copy, like a direct scan does
+ */
+export function createReviewItem(
+  card: Pick<CardData, 'cardId'>,
+  source: 'scan' | 'correction',
+  details: ScanDetails = { candidates: [] }
+): ReviewItem {
+  return {
+    ...details,
+    id: createId(),
+    cardId: card.cardId,
+    detectedCardId: card.cardId,
+    source,
+    normalCount: 1,
+    foilCount: 0,
+    scannedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Whether review changed the item's card or counts
+ */
+export function isFixedInReview(item: ReviewItem): boolean {
+  return item.cardId !== item.detectedCardId || item.normalCount !== 1 || item.foilCount !== 0;
+}
+
+/**
+ * Collection entries for the reviewed items; items with no copies or unknown cards are skipped
+ */
+export function reviewItemsToEntries(items: ReviewItem[], cards: CardData[]): CollectionEntry[] {
+  const cardsById = new Map(cards.map(c => [c.cardId, c]));
+  return mergeCollectionEntries([items.flatMap(item => {
+    const card = cardsById.get(item.cardId);
+    if (!card || item.normalCount + item.foilCount <= 0) return [];
+    return [{ ...card, normalCount: item.normalCount, foilCount: item.foilCount }];
+  })]);
+}
+
+export function summarizeReview(
+  items: ReviewItem[],
+  entries: CollectionEntry[],
+  collection: NamedCollection
+): ScanReviewSummary {
+  return {
+    id: createId(),
+    startedAt: items.reduce((first, item) => item.scannedAt < first ? item.scannedAt : first, items[0]?.scannedAt ?? new Date().toISOString()),
+    committedAt: new Date().toISOString(),
+    collectionId: collection.id,
+    collectionName: collection.name,
+    scanCount: items.length,
+    fixedCount: items.filter(isFixedInReview).length,
+    cards: entries.map(entry => ({
+      cardId: entry.cardId,
+      name: formatCardName(entry),
+      normalCount: entry.normalCount,
+      foilCount: entry.foilCount,
+    })),
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Shared scan session helpers - duplicate detection and the totals a session commits
+ */
+
+import { CardData } from '@/data/cardDatabase';
+import { CollectionEntry } from '@/types/collection';
+import { ReviewedScan, SessionCardTotal, SessionScan } from '@/types/scanSession';
+
+// Two devices scanning the same card this close together are seeing the same physical card.
+// Each device already ignores its own repeats (the scanner's duplicate cooldown).
+export const DUPLICATE_WINDOW_MS = 8000;
+
+/**
+ * Mark scans that repeat another member's scan of the same card within the window.
+ * A member's explicit decision (counted true/false) overrides the check.
+ */
+export function reviewScans(scans: SessionScan[], windowMs: number = DUPLICATE_WINDOW_MS): ReviewedScan[] {
+  const ordered = [...scans].sort((a, b) =>
+    a.scannedAt.localeCompare(b.scannedAt) || a.id.localeCompare(b.id)
+  );
+
+  const reviewed: ReviewedScan[] = [];
+  for (const scan of ordered) {
+    const time = Date.parse(scan.scannedAt);
+    const original = reviewed.find(earlier =>
+      earlier.isCounted &&
+      earlier.cardId === scan.cardId &&
+      earlier.scannedBy !== scan.scannedBy &&
+      time - Date.parse(earlier.scannedAt) <= windowMs
+    );
+    reviewed.push({
+      ...scan,
+      duplicateOf: original?.id ?? null,
+      isCounted: scan.counted ?? !original,
+    });
+  }
+  return reviewed;
+}
+
+/**
+ * Copies per card from the counted scans, most scanned first
+ */
+export function getSessionTotals(scans: ReviewedScan[]): SessionCardTotal[] {
+  const totals = new Map<string, SessionCardTotal>();
+  for (const scan of scans) {
+    if (!scan.isCounted) continue;
+    const total = totals.get(scan.cardId) ?? { cardId: scan.cardId, count: 0, scannedBy: [] };
+    total.count++;
+    if (!total.scannedBy.includes(scan.scannedBy)) total.scannedBy.push(scan.scannedBy);
+    totals.set(scan.cardId, total);
+  }
+  return [...totals.values()].sort((a, b) => b.count - a.count || a.cardId.localeCompare(b.cardId));
+}
+
+/**
+ * Collection entries for the session's totals, as normal copies like a solo scan adds.
+ * Cards missing from the card database are skipped.
+ */
+export function sessionTotalsToEntries(totals: SessionCardTotal[], cards: CardData[]): CollectionEntry[] {
+  const cardsById = new Map(cards.map(c => [c.cardId, c]));
+  return totals.flatMap(total => {
+    const card = cardsById.get(total.cardId);
+    return card ? [{ ...card, normalCount: total.count, foilCount: 0 }] : [];
+  });
+}
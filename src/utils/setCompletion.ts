@@ -0,0 +1,136 @@
+// Set completion: how much of each set a collection owns, and which cards are missing
+
+import { CardData } from '@/data/cardDatabase';
+import { CollectionEntry } from '@/types/collection';
+import { isStandardVariant } from '@/utils/cardVariants';
+
+// Copies of a card needed to complete a playset (the deck-building limit per card)
+export const PLAYSET_SIZE = 3;
+
+export type CompletionMode = 'unique' | 'playset';
+
+export interface CompletionOptions {
+  mode: CompletionMode;
+  // Count alt-art/overnumbered/signature/showcase printings as separate cards to collect.
+  // When off, copies of any printing count towards the standard printing.
+  includeVariants: boolean;
+}
+
+export interface MissingCard {
+  card: CardData;
+  owned: number;
+  needed: number;        // Copies still needed for the current mode
+}
+
+export interface RarityCompletion {
+  rarity: string;
+  total: number;
+  complete: number;
+  percent: number;
+}
+
+export interface SetCompletion {
+  setName: string;
+  total: number;
+  ownedUnique: number;   // Cards with at least one copy
+  ownedPlayset: number;  // Cards with a full playset
+  uniquePercent: number;
+  playsetPercent: number;
+  byRarity: RarityCompletion[];
+  missing: MissingCard[];
+}
+
+const UNKNOWN_RARITY = 'Unknown';
+
+// Usual rarity order; unlisted rarities sort after these, alphabetically
+export const RARITY_ORDER = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary', 'Mythic', 'Showcase'];
+
+export function rarityRank(rarity: string): number {
+  const index = RARITY_ORDER.indexOf(rarity);
+  return index === -1 ? RARITY_ORDER.length : index;
+}
+
+function percent(part: number, total: number): number {
+  return total === 0 ? 0 : Math.round((part / total) * 1000) / 10;
+}
+
+/**
+ * Copies owned per card ID. Without variants, copies of a printing are credited
+ * to its standard printing as well.
+ */
+function countOwned(collection: CollectionEntry[], includeVariants: boolean): Map<string, number> {
+  const owned = new Map<string, number>();
+  const add = (cardId: string, count: number) => owned.set(cardId, (owned.get(cardId) ?? 0) + count);
+
+  for (const entry of collection) {
+    const count = entry.normalCount + entry.foilCount;
+    add(entry.cardId, count);
+    if (!includeVariants && entry.baseCardId) add(entry.baseCardId, count);
+  }
+  return owned;
+}
+
+/**
+ * Completion of every set in the card list against a collection, sorted by set name
+ */
+export function computeSetCompletion(
+  cards: CardData[],
+  collection: CollectionEntry[],
+  options: CompletionOptions
+): SetCompletion[] {
+  const owned = countOwned(collection, options.includeVariants);
+  const target = options.mode === 'playset' ? PLAYSET_SIZE : 1;
+
+  const bySet = new Map<string, CardData[]>();
+  for (const card of cards) {
+    if (!options.includeVariants && !isStandardVariant(card)) continue;
+    const list = bySet.get(card.setName) ?? [];
+    list.push(card);
+    bySet.set(card.setName, list);
+  }
+
+  return Array.from(bySet.entries())
+    .map(([setName, setCards]) => {
+      const rarities = new Map<string, { total: number; complete: number }>();
+      const missing: MissingCard[] = [];
+      let ownedUnique = 0;
+      let ownedPlayset = 0;
+
+      for (const card of setCards) {
+        const count = owned.get(card.cardId) ?? 0;
+        if (count > 0) ownedUnique++;
+        if (count >= PLAYSET_SIZE) ownedPlayset++;
+
+        const rarity = rarities.get(card.rarity || UNKNOWN_RARITY) ?? { total: 0, complete: 0 };
+        rarity.total++;
+        if (count >= target) rarity.complete++;
+        rarities.set(card.rarity || UNKNOWN_RARITY, rarity);
+
+        if (count < target) {
+          missing.push({ card, owned: count, needed: target - count });
+        }
+      }
+
+      return {
+        setName,
+        total: setCards.length,
+        ownedUnique,
+        ownedPlayset,
+        uniquePercent: percent(ownedUnique, setCards.length),
+        playsetPercent: percent(ownedPlayset, setCards.length),
+        byRarity: Array.from(rarities.entries())
+          .map(([rarity, { total, complete }]) => ({ rarity, total, complete, percent: percent(complete, total) }))
+          .sort((a, b) => rarityRank(a.rarity) - rarityRank(b.rarity) || a.rarity.localeCompare(b.rarity)),
+        missing: missing.sort((a, b) => a.card.cardId.localeCompare(b.card.cardId)),
+      };
+    })
+    .sort((a, b) => a.setName.localeCompare(b.setName));
+}
+
+/**
+ * Missing cards as collection entries (needed copies as Normal), so any export
+ * format can write a shopping list
+ */
+export function missingToEntries(missing: MissingCard[]): CollectionEntry[] {
+  return missing.map(({ card, needed }) => ({ ...card, normalCount: needed, foilCount: 0 }));
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SHARE_CODE_VERSION,
+  ShareCodeError,
+  SharedDeck,
+  SharedList,
+  decodeShareCode,
+  encodeShareCode,
+} from '@/utils/shareCodes';
+
+function codeFromBytes(bytes: number[]): string {
+  return Buffer.from(bytes).toString('base64url');
+}
+
+function decodeError(code: string): string {
+  try {
+    decodeShareCode(code);
+  } catch (e) {
+    expect(e).toBeInstanceOf(ShareCodeError);
+    return (e as Error).message;
+  }
+  throw new Error('Expected the share code to be rejected');
+}
+
+const deck: SharedDeck = {
+  kind: 'deck',
+  name: 'Jinx Aggro ⚡',
+  main: [
+    { cardId: 'OGN-001', quantity: 1 },
+    { cardId: 'OGN-007A', quantity: 2 },
+    { cardId: 'OGN-007*', quantity: 1 },
+    { cardId: 'OGN-299', quantity: 3 },
+    { cardId: 'SFD-042B', quantity: 3 },
+  ],
+  sideboard: [{ cardId: 'OGN-120', quantity: 2 }],
+};
+
+describe('share codes', () => {
+  it('round-trips a deck with alt-art letters and signature stars', () => {
+    const code = encodeShareCode(deck);
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeShareCode(code)).toEqual(deck);
+  });
+
+  it('round-trips a card list with normal and foil counts', () => {
+    const list: SharedList = {
+      kind: 'list',
+      name: 'Trade binder',
+      cards: [
+        { cardId: 'OGN-010', normalCount: 4, foilCount: 0 },
+        { cardId: 'OGN-010A', normalCount: 0, foilCount: 1 },
+        { cardId: 'OGN-250*', normalCount: 1, foilCount: 2 },
+        { cardId: 'OGN-300', normalCount: 200, foilCount: 130 },
+      ],
+    };
+    expect(decodeShareCode(encodeShareCode(list))).toEqual(list);
+  });
+
+  it('keeps IDs outside the set-number pattern as raw text', () => {
+    const list: SharedList = {
+      kind: 'list',
+      name: '',
+      cards: [
+        { cardId: 'PROMO-JINX-01', normalCount: 1, foilCount: 0 },
+        { cardId: 'OGN-1234', normalCount: 0, foilCount: 1 },
+        { cardId: 'OGN-001AB', normalCount: 2, foilCount: 0 },
+      ],
+    };
+    expect(decodeShareCode(encodeShareCode(list))).toEqual(list);
+  });
+
+  it('returns cards grouped by set, each set in first-seen order', () => {
+    const mixed: SharedDeck = {
+      kind: 'deck',
+      name: 'Mixed',
+      main: [
+        { cardId: 'OGN-001', quantity: 1 },
+        { cardId: 'SFD-002', quantity: 1 },
+        { cardId: 'OGN-003', quantity: 1 },
+      ],
+      sideboard: [],
+    };
+    expect(decodeShareCode(encodeShareCode(mixed))).toEqual({
+      ...mixed,
+      main: [
+        { cardId: 'OGN-001', quantity: 1 },
+        { cardId: 'OGN-003', quantity: 1 },
+        { cardId: 'SFD-002', quantity: 1 },
+      ],
+    });
+  });
+
+  it('ignores surrounding whitespace', () => {
+    expect(decodeShareCode(`  ${encodeShareCode(deck)}\n`)).toEqual(deck);
+  });
+
+  it('rejects empty and truncated codes', () => {
+    expect(decodeError('   ')).toBe('Share code is empty');
+
+    const code = encodeShareCode(deck);
+    for (const length of [2, 8, code.length - 4]) {
+      expect(decodeError(code.slice(0, length))).toBe('Share code is incomplete');
+    }
+  });
+
+  it('rejects corrupt codes', () => {
+    expect(decodeError('not a code!')).toBe('Share code contains invalid characters');
+    // Bytes left over after the last section
+    const trailing = [...Buffer.from(encodeShareCode(deck), 'base64url'), 0];
+    expect(decodeError(codeFromBytes(trailing))).toBe('Share code is corrupted');
+    // A varint that never ends
+    expect(decodeError(codeFromBytes([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01]))).toBe('Share code is corrupted');
+    // Kind 7 does not exist
+    expect(decodeError(codeFromBytes([SHARE_CODE_VERSION, 7, 0]))).toBe('Unknown share code type');
+  });
+
+  it('rejects codes from a newer version', () => {
+    const bytes = [...Buffer.from(encodeShareCode(deck), 'base64url')];
+    bytes[0] = SHARE_CODE_VERSION + 1;
+    expect(decodeError(codeFromBytes(bytes))).toBe('This share code was made by a newer version of the app');
+  });
+});
@@ -0,0 +1,262 @@
+// Compact share codes for decks and card lists: a small versioned binary format,
+// written as base64url so codes fit in chat messages and URLs.
+//
+// Layout (version 1), integers as unsigned LEB128 varints:
+//   version, kind (0 deck, 1 list), name (length + UTF-8)
+//   then one section per zone (deck: main, sideboard; list: cards), each:
+//     group count, then per group: set code (length + ASCII; length 0 = raw IDs), card count, cards
+//   a card in a set group: (number << 2 | suffix kind), [suffix letter], counts
+//   a card in the raw group: ID (length + UTF-8), counts
+// Deck cards carry one count (quantity); list cards carry two (normal, foil).
+
+import { DeckCard } from '@/types/deck';
+import { copyToClipboard } from '@/utils/exportFormats';
+
+export const SHARE_CODE_VERSION = 1;
+
+export type ShareKind = 'deck' | 'list';
+
+export interface SharedListCard {
+  cardId: string;
+  normalCount: number;
+  foilCount: number;
+}
+
+export interface SharedDeck {
+  kind: 'deck';
+  name: string;
+  main: DeckCard[];
+  sideboard: DeckCard[];
+}
+
+export interface SharedList {
+  kind: 'list';
+  name: string;
+  cards: SharedListCard[];
+}
+
+export type SharedPayload = SharedDeck | SharedList;
+
+export class ShareCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareCodeError';
+  }
+}
+
+const KIND_CODES: Record<ShareKind, number> = { deck: 0, list: 1 };
+
+// Card ID suffix kinds: none, alt-art letter, signature star
+const SUFFIX_NONE = 0;
+const SUFFIX_LETTER = 1;
+const SUFFIX_STAR = 2;
+
+const CARD_ID_PARTS = /^([A-Z]{2,4})-(\d{3})([A-Z]|\*)?$/;
+
+// A card to write: its ID and one count per field
+interface CodedCard {
+  cardId: string;
+  counts: number[];
+}
+
+// Writing
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  varint(value: number): void {
+    let n = Math.max(0, Math.floor(value));
+    do {
+      let byte = n & 0x7f;
+      n = Math.floor(n / 128);
+      if (n > 0) byte |= 0x80;
+      this.bytes.push(byte);
+    } while (n > 0);
+  }
+
+  text(value: string): void {
+    const encoded = new TextEncoder().encode(value);
+    this.varint(encoded.length);
+    this.bytes.push(...encoded);
+  }
+
+  toUint8Array(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+function writeSection(writer: ByteWriter, cards: CodedCard[]): void {
+  // Group by set code so it is written once; IDs that don't fit the pattern go in a raw group
+  const groups = new Map<string, Array<{ card: CodedCard; parts: RegExpMatchArray | null }>>();
+  for (const card of cards) {
+    const parts = card.cardId.toUpperCase().match(CARD_ID_PARTS);
+    const key = parts ? parts[1] : '';
+    const group = groups.get(key) ?? [];
+    group.push({ card, parts });
+    groups.set(key, group);
+  }
+
+  writer.varint(groups.size);
+  for (const [setCode, members] of groups) {
+    writer.text(setCode);
+    writer.varint(members.length);
+    for (const { card, parts } of members) {
+      if (parts) {
+        const suffix = parts[3];
+        const suffixKind = !suffix ? SUFFIX_NONE : suffix === '*' ? SUFFIX_STAR : SUFFIX_LETTER;
+        writer.varint(parseInt(parts[2], 10) * 4 + suffixKind);
+        if (suffixKind === SUFFIX_LETTER) writer.text(suffix);
+      } else {
+        writer.text(card.cardId);
+      }
+      card.counts.forEach(count => writer.varint(count));
+    }
+  }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Encode a deck or card list as a share code
+ */
+export function encodeShareCode(payload: SharedPayload): string {
+  const writer = new ByteWriter();
+  writer.varint(SHARE_CODE_VERSION);
+  writer.varint(KIND_CODES[payload.kind]);
+  writer.text(payload.name);
+
+  if (payload.kind === 'deck') {
+    writeSection(writer, payload.main.map(c => ({ cardId: c.cardId, counts: [c.quantity] })));
+    writeSection(writer, payload.sideboard.map(c => ({ cardId: c.cardId, counts: [c.quantity] })));
+  } else {
+    writeSection(writer, payload.cards.map(c => ({ cardId: c.cardId, counts: [c.normalCount, c.foilCount] })));
+  }
+
+  return toBase64Url(writer.toUint8Array());
+}
+
+// Reading
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (this.offset >= this.bytes.length) throw new ShareCodeError('Share code is incomplete');
+      const byte = this.bytes[this.offset++];
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) return result;
+      multiplier *= 128;
+      if (multiplier > 2 ** 35) throw new ShareCodeError('Share code is corrupted');
+    }
+  }
+
+  text(): string {
+    const length = this.varint();
+    if (this.offset + length > this.bytes.length) throw new ShareCodeError('Share code is incomplete');
+    const value = new TextDecoder().decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+}
+
+function readSection(reader: ByteReader, countFields: number): CodedCard[] {
+  const cards: CodedCard[] = [];
+  const groupCount = reader.varint();
+  for (let g = 0; g < groupCount; g++) {
+    const setCode = reader.text();
+    const cardCount = reader.varint();
+    for (let c = 0; c < cardCount; c++) {
+      let cardId: string;
+      if (setCode) {
+        const packed = reader.varint();
+        const suffixKind = packed % 4;
+        const number = String(Math.floor(packed / 4)).padStart(3, '0');
+        const suffix = suffixKind === SUFFIX_LETTER ? reader.text() : suffixKind === SUFFIX_STAR ? '*' : '';
+        cardId = `${setCode}-${number}${suffix}`;
+      } else {
+        cardId = reader.text();
+      }
+      const counts = Array.from({ length: countFields }, () => reader.varint());
+      cards.push({ cardId, counts });
+    }
+  }
+  return cards;
+}
+
+function fromBase64Url(code: string): Uint8Array {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  let binary: string;
+  try {
+    binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  } catch {
+    throw new ShareCodeError('Share code contains invalid characters');
+  }
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+}
+
+/**
+ * Decode a share code. Throws ShareCodeError for malformed codes and codes
+ * from a newer version of the app.
+ */
+export function decodeShareCode(code: string): SharedPayload {
+  const trimmed = code.trim();
+  if (!trimmed) throw new ShareCodeError('Share code is empty');
+
+  const reader = new ByteReader(fromBase64Url(trimmed));
+  const version = reader.varint();
+  if (version > SHARE_CODE_VERSION) {
+    throw new ShareCodeError('This share code was made by a newer version of the app');
+  }
+
+  const kindCode = reader.varint();
+  const name = reader.text();
+
+  let payload: SharedPayload;
+  if (kindCode === KIND_CODES.deck) {
+    const toDeckCards = (cards: CodedCard[]) => cards.map(c => ({ cardId: c.cardId, quantity: c.counts[0] }));
+    payload = {
+      kind: 'deck',
+      name,
+      main: toDeckCards(readSection(reader, 1)),
+      sideboard: toDeckCards(readSection(reader, 1)),
+    };
+  } else if (kindCode === KIND_CODES.list) {
+    payload = {
+      kind: 'list',
+      name,
+      cards: readSection(reader, 2).map(c => ({ cardId: c.cardId, normalCount: c.counts[0], foilCount: c.counts[1] })),
+    };
+  } else {
+    throw new ShareCodeError('Unknown share code type');
+  }
+
+  if (!reader.done) throw new ShareCodeError('Share code is corrupted');
+  return payload;
+}
+
+/**
+ * Link that opens a share code in the read-only share view
+ */
+export function getShareUrl(code: string): string {
+  return `${window.location.origin}/share/${code}`;
+}
+
+/**
+ * Copy a share link for a deck or card list to the clipboard
+ */
+export function copyShareLink(payload: SharedPayload): Promise<boolean> {
+  return copyToClipboard(getShareUrl(encodeShareCode(payload)));
+}
@@ -0,0 +1,95 @@
+// Trading: tradeable extras, and matching one side's extras against the other side's wants
+
+import { CardFinish, CollectionEntry } from '@/types/collection';
+import { formatCardName } from '@/utils/cardVariants';
+import { PLAYSET_SIZE } from '@/utils/setCompletion';
+
+export const DEFAULT_KEEP_COUNT = PLAYSET_SIZE;
+
+// Copies of one card, in one finish, that one side can give the other
+export interface TradeMatch {
+  card: CollectionEntry;
+  finish: CardFinish;
+  count: number;
+}
+
+export interface TradeComparison {
+  theyGive: TradeMatch[];
+  iGive: TradeMatch[];
+}
+
+/**
+ * Copies above `keepCount` of each card. Normal copies are offered first, so
+ * foils are the last to go.
+ */
+export function computeTradeableExtras(collection: CollectionEntry[], keepCount: number): CollectionEntry[] {
+  const keep = Math.max(0, Math.floor(keepCount));
+
+  return collection
+    .map(entry => {
+      const extra = Math.max(0, entry.normalCount + entry.foilCount - keep);
+      const normalCount = Math.min(entry.normalCount, extra);
+      // Only the counts change; condition/language splits don't describe the extras
+      const { splits: _splits, ...card } = entry;
+      return { ...card, normalCount, foilCount: extra - normalCount };
+    })
+    .filter(entry => entry.normalCount + entry.foilCount > 0);
+}
+
+/**
+ * What `extras` can give towards `wants`, matching card ID and finish
+ */
+export function matchWants(extras: CollectionEntry[], wants: CollectionEntry[]): TradeMatch[] {
+  const available = new Map(extras.map(e => [e.cardId.toUpperCase(), e]));
+  const matches: TradeMatch[] = [];
+
+  for (const want of wants) {
+    const extra = available.get(want.cardId.toUpperCase());
+    if (!extra) continue;
+    const normal = Math.min(extra.normalCount, want.normalCount);
+    const foil = Math.min(extra.foilCount, want.foilCount);
+    if (normal > 0) matches.push({ card: extra, finish: 'normal', count: normal });
+    if (foil > 0) matches.push({ card: extra, finish: 'foil', count: foil });
+  }
+
+  return matches.sort((a, b) => a.card.name.localeCompare(b.card.name));
+}
+
+/**
+ * Both directions of a trade: their extras against my wants, and my extras against theirs
+ */
+export function compareTrade(
+  myExtras: CollectionEntry[],
+  myWants: CollectionEntry[],
+  theirExtras: CollectionEntry[],
+  theirWants: CollectionEntry[]
+): TradeComparison {
+  return {
+    theyGive: matchWants(theirExtras, myWants),
+    iGive: matchWants(myExtras, theirWants),
+  };
+}
+
+export function countMatches(matches: TradeMatch[]): number {
+  return matches.reduce((sum, m) => sum + m.count, 0);
+}
+
+/**
+ * Plain-text summary of a trade, for pasting into chat
+ */
+export function formatTradeSummary(comparison: TradeComparison, partnerName: string): string {
+  const formatMatch = (m: TradeMatch) =>
+    `${m.count} ${formatCardName(m.card)} (${m.card.cardId})${m.finish === 'foil' ? ' [Foil]' : ''}`;
+  const section = (title: string, matches: TradeMatch[]) => [
+    `${title} (${countMatches(matches)}):`,
+    ...(matches.length > 0 ? matches.map(formatMatch) : ['Nothing']),
+  ];
+
+  return [
+    `Trade with ${partnerName}`,
+    '',
+    ...section(`${partnerName} gives`, comparison.theyGive),
+    '',
+    ...section('I give', comparison.iGive),
+  ].join('\n');
+}
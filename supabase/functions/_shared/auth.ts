@@ -0,0 +1,55 @@
+/**
+ * Caller checks for edge functions that write with the service role key.
+ * The caller's JWT comes from the Authorization header that supabase-js sends;
+ * with only the publishable key there is no user and the request is refused.
+ */
+
+import { createClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type AppRole = 'admin';
+
+export type AuthResult =
+  | { user: User; response?: never }
+  | { user?: never; response: Response };
+
+function reject(status: number, error: string, headers: Record<string, string>): { response: Response } {
+  return {
+    response: new Response(JSON.stringify({ error }), {
+      status,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+    }),
+  };
+}
+
+/**
+ * Resolve the signed-in caller, optionally requiring a role. On failure the
+ * result carries a 401/403 response to return as is.
+ */
+export async function requireUser(
+  req: Request,
+  corsHeaders: Record<string, string>,
+  role?: AppRole
+): Promise<AuthResult> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return reject(401, 'Sign in required', corsHeaders);
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: authorization } } }
+  );
+
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return reject(401, 'Sign in required', corsHeaders);
+
+  if (role) {
+    const { data: allowed, error: roleError } = await supabase.rpc('has_role', { _user_id: user.id, _role: role });
+    if (roleError) {
+      console.error('[auth] Role check failed:', roleError);
+      return reject(500, 'Failed to check permissions', corsHeaders);
+    }
+    if (!allowed) return reject(403, `Only ${role}s can do this`, corsHeaders);
+  }
+
+  return { user };
+}
@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.2";
+import { requireUser } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -23,6 +24,9 @@ serve(async (req) => {
   }
 
   try {
+    const auth = await requireUser(req, corsHeaders, 'admin');
+    if (auth.response) return auth.response;
+
     const { offset = 0, setName, cardId } = await req.json().catch(() => ({}));
     console.log(`[sync] Starting at offset ${offset}, setName: ${setName || 'all'}, cardId: ${cardId || 'none'}`);
     
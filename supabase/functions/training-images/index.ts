@@ -26,7 +26,8 @@ serve(async (req: Request) => {
 
     let query = supabase
       .from('training_images')
-      .select('*', { count: 'exact' })
+      // Every column but contributed_by, so contributors' user IDs stay private
+      .select('id, card_id, source, image_url, created_at, used_in_model', { count: 'exact' })
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1);
 
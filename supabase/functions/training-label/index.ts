@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireUser } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -19,6 +20,9 @@ serve(async (req: Request) => {
   }
 
   try {
+    const auth = await requireUser(req, corsHeaders);
+    if (auth.response) return auth.response;
+
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
@@ -81,6 +85,7 @@ serve(async (req: Request) => {
         source,
         image_url,
         used_in_model: false,
+        contributed_by: auth.user.id,
       });
 
     if (insertError) {
@@ -0,0 +1,95 @@
+-- Cloud sync of collections. Each row carries a version stamp (a Lamport clock plus the
+-- writing device's ID); the higher stamp wins, so every device settles on the same state.
+-- Deletions are kept as tombstones so they sync like any other change.
+
+-- Server-side change counter, so devices can pull only rows changed since their last sync
+CREATE SEQUENCE public.sync_revision_seq;
+
+CREATE TABLE public.sync_collections (
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  deleted BOOLEAN NOT NULL DEFAULT false,
+  clock BIGINT NOT NULL,
+  device_id TEXT COLLATE "C" NOT NULL,  -- Byte order, to match the clients' comparison
+  revision BIGINT NOT NULL DEFAULT nextval('public.sync_revision_seq'),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, id)
+);
+
+CREATE TABLE public.sync_collection_entries (
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  collection_id TEXT NOT NULL,
+  card_id TEXT NOT NULL,
+  entry JSONB,                 -- The collection entry; null once removed
+  clock BIGINT NOT NULL,
+  device_id TEXT COLLATE "C" NOT NULL,
+  revision BIGINT NOT NULL DEFAULT nextval('public.sync_revision_seq'),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, collection_id, card_id)
+);
+
+CREATE INDEX idx_sync_collection_entries_revision ON public.sync_collection_entries(user_id, revision);
+
+-- Every write gets a new revision
+CREATE OR REPLACE FUNCTION public.bump_sync_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.revision = nextval('public.sync_revision_seq');
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER bump_sync_collections_revision
+BEFORE UPDATE ON public.sync_collections
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_sync_revision();
+
+CREATE TRIGGER bump_sync_collection_entries_revision
+BEFORE UPDATE ON public.sync_collection_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_sync_revision();
+
+-- Users only ever see and write their own rows
+ALTER TABLE public.sync_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sync_collection_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own synced collections"
+ON public.sync_collections
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users manage their own synced entries"
+ON public.sync_collection_entries
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Write a batch of changes, keeping whichever version has the higher (clock, device_id)
+-- stamp; an equal stamp is the same device retrying, so it overwrites. Runs as the
+-- caller, so the policies above still apply.
+CREATE OR REPLACE FUNCTION public.push_sync_changes(collections JSONB, entries JSONB)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.sync_collections AS existing (id, name, deleted, clock, device_id)
+  SELECT c.id, c.name, c.deleted, c.clock, c.device_id
+  FROM jsonb_to_recordset(collections) AS c(id TEXT, name TEXT, deleted BOOLEAN, clock BIGINT, device_id TEXT)
+  ON CONFLICT (user_id, id) DO UPDATE
+  SET name = excluded.name, deleted = excluded.deleted, clock = excluded.clock, device_id = excluded.device_id
+  WHERE (excluded.clock, excluded.device_id) >= (existing.clock, existing.device_id);
+
+  INSERT INTO public.sync_collection_entries AS existing (collection_id, card_id, entry, clock, device_id)
+  SELECT e.collection_id, e.card_id, e.entry, e.clock, e.device_id
+  FROM jsonb_to_recordset(entries) AS e(collection_id TEXT, card_id TEXT, entry JSONB, clock BIGINT, device_id TEXT)
+  ON CONFLICT (user_id, collection_id, card_id) DO UPDATE
+  SET entry = excluded.entry, clock = excluded.clock, device_id = excluded.device_id
+  WHERE (excluded.clock, excluded.device_id) >= (existing.clock, existing.device_id);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.push_sync_changes(JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.push_sync_changes(JSONB, JSONB) TO authenticated;
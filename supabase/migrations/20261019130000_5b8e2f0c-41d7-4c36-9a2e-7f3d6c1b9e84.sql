@@ -0,0 +1,81 @@
+-- User roles, and write policies tightened to match them. Card data stays publicly
+-- readable; embedding rebuilds and training labels from the web need an admin, scan
+-- feedback needs a signed-in user. Edge functions write with the service role key and
+-- check the caller themselves (see functions/_shared/auth.ts).
+
+CREATE TYPE public.app_role AS ENUM ('admin');
+
+-- Roles are granted from the SQL editor or with the service role key; clients can only
+-- read their own
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own roles"
+ON public.user_roles
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Security definer so policies can check roles without tripping over user_roles' own policies
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = _role
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Cards: embedding rebuilds are admin-only
+DROP POLICY "Anyone can update riftbound_cards" ON public.riftbound_cards;
+
+CREATE POLICY "Admins can update riftbound_cards"
+ON public.riftbound_cards
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Scan samples: recorded by signed-in users, read back for calibration by admins
+ALTER TABLE public.card_scan_samples
+ADD COLUMN user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+
+DROP POLICY "Anyone can insert scan samples" ON public.card_scan_samples;
+DROP POLICY "Anyone can read scan samples" ON public.card_scan_samples;
+
+CREATE POLICY "Users can insert their own scan samples"
+ON public.card_scan_samples
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admins can read scan samples"
+ON public.card_scan_samples
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Training images: written only by the training edge functions, which record the caller
+ALTER TABLE public.training_images
+ADD COLUMN contributed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+DROP POLICY "Anyone can insert training images" ON public.training_images;
+DROP POLICY "Anyone can update training images" ON public.training_images;
+
+CREATE POLICY "Admins can update training images"
+ON public.training_images
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Storage: uploads go through the service role, which bypasses these policies anyway
+DROP POLICY "Service role can upload card images" ON storage.objects;
+DROP POLICY "Service role can update card images" ON storage.objects;
+DROP POLICY "Anyone can upload training images" ON storage.objects;
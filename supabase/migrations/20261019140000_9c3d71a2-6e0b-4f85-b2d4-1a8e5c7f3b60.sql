@@ -0,0 +1,172 @@
+-- Shared scan sessions: several signed-in devices scan into one session, then one of them
+-- commits it to a collection. Members follow each other's scans through realtime.
+
+CREATE TABLE public.scan_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,   -- Short code other devices join with
+  name TEXT NOT NULL,
+  created_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  committed_at TIMESTAMP WITH TIME ZONE,
+  committed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE public.scan_session_members (
+  session_id UUID NOT NULL REFERENCES public.scan_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, user_id)
+);
+
+CREATE TABLE public.scan_session_scans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.scan_sessions(id) ON DELETE CASCADE,
+  card_id TEXT NOT NULL,
+  scanned_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  scanned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  counted BOOLEAN              -- Null: duplicate detection decides; otherwise a member decided
+);
+
+CREATE INDEX idx_scan_session_scans_session ON public.scan_session_scans(session_id, scanned_at);
+
+-- Security definer so the policies below can check membership without recursing into
+-- scan_session_members' own policy
+CREATE OR REPLACE FUNCTION public.is_scan_session_member(_session_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.scan_session_members
+    WHERE session_id = _session_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.scan_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scan_session_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scan_session_scans ENABLE ROW LEVEL SECURITY;
+
+-- Sessions and memberships are created through the functions below
+CREATE POLICY "Members can read their scan sessions"
+ON public.scan_sessions
+FOR SELECT
+TO authenticated
+USING (public.is_scan_session_member(id));
+
+CREATE POLICY "Members can commit their scan sessions"
+ON public.scan_sessions
+FOR UPDATE
+TO authenticated
+USING (public.is_scan_session_member(id) AND committed_at IS NULL)
+WITH CHECK (public.is_scan_session_member(id) AND committed_by = auth.uid());
+
+CREATE POLICY "Members can see who else is in the session"
+ON public.scan_session_members
+FOR SELECT
+TO authenticated
+USING (public.is_scan_session_member(session_id));
+
+CREATE POLICY "Users can leave scan sessions"
+ON public.scan_session_members
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Members can read session scans"
+ON public.scan_session_scans
+FOR SELECT
+TO authenticated
+USING (public.is_scan_session_member(session_id));
+
+CREATE POLICY "Members can add their own scans"
+ON public.scan_session_scans
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  scanned_by = auth.uid()
+  AND public.is_scan_session_member(session_id)
+  AND NOT EXISTS (
+    SELECT 1 FROM public.scan_sessions s
+    WHERE s.id = session_id AND s.committed_at IS NOT NULL
+  )
+);
+
+CREATE POLICY "Members can settle duplicate scans"
+ON public.scan_session_scans
+FOR UPDATE
+TO authenticated
+USING (public.is_scan_session_member(session_id))
+WITH CHECK (public.is_scan_session_member(session_id));
+
+CREATE POLICY "Users can remove their own scans"
+ON public.scan_session_scans
+FOR DELETE
+TO authenticated
+USING (scanned_by = auth.uid());
+
+-- Start a session with a fresh join code and its creator as the first member
+CREATE OR REPLACE FUNCTION public.create_scan_session(_name TEXT, _display_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  new_code TEXT;
+  new_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to start a scan session';
+  END IF;
+
+  LOOP
+    new_code := upper(substr(md5(gen_random_uuid()::text), 1, 6));
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.scan_sessions WHERE code = new_code);
+  END LOOP;
+
+  INSERT INTO public.scan_sessions (code, name, created_by)
+  VALUES (new_code, _name, auth.uid())
+  RETURNING id INTO new_id;
+
+  INSERT INTO public.scan_session_members (session_id, user_id, display_name)
+  VALUES (new_id, auth.uid(), _display_name);
+
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Join a session by its code; joining again only updates the display name
+CREATE OR REPLACE FUNCTION public.join_scan_session(_code TEXT, _display_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  target UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join a scan session';
+  END IF;
+
+  SELECT id INTO target FROM public.scan_sessions
+  WHERE code = upper(trim(_code)) AND committed_at IS NULL;
+  IF target IS NULL THEN
+    RAISE EXCEPTION 'No open scan session with code %', upper(trim(_code));
+  END IF;
+
+  INSERT INTO public.scan_session_members (session_id, user_id, display_name)
+  VALUES (target, auth.uid(), _display_name)
+  ON CONFLICT (session_id, user_id) DO UPDATE SET display_name = excluded.display_name;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Members may only commit a session and settle duplicates, not rewrite what was scanned
+REVOKE UPDATE ON public.scan_sessions FROM authenticated;
+REVOKE UPDATE ON public.scan_session_scans FROM authenticated;
+GRANT UPDATE (committed_at, committed_by) ON public.scan_sessions TO authenticated;
+GRANT UPDATE (counted) ON public.scan_session_scans TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.create_scan_session(TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.join_scan_session(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_scan_session(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.join_scan_session(TEXT, TEXT) TO authenticated;
+
+-- Stream changes to members; full row images so deletes carry the session ID
+ALTER TABLE public.scan_session_scans REPLICA IDENTITY FULL;
+ALTER TABLE public.scan_session_members REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.scan_sessions;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.scan_session_members;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.scan_session_scans;
@@ -0,0 +1,99 @@
+-- Harden scan session join codes: the code is the only thing standing between a signed-in
+-- user and someone else's session, so make it long enough not to guess and cap wrong guesses.
+
+-- Ten characters from a 32-letter alphabet without look-alikes (I, O, 0, 1): 32^10 codes
+CREATE OR REPLACE FUNCTION public.new_scan_session_code()
+RETURNS TEXT AS $$
+DECLARE
+  alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  bytes BYTEA;
+  new_code TEXT;
+BEGIN
+  LOOP
+    -- The first six bytes of a v4 UUID are random; 256 is a multiple of 32, so there is no bias
+    bytes := substr(uuid_send(gen_random_uuid()), 1, 5) || substr(uuid_send(gen_random_uuid()), 1, 5);
+    new_code := '';
+    FOR i IN 0..9 LOOP
+      new_code := new_code || substr(alphabet, get_byte(bytes, i) % 32 + 1, 1);
+    END LOOP;
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.scan_sessions WHERE code = new_code);
+  END LOOP;
+  RETURN new_code;
+END;
+$$ LANGUAGE plpgsql VOLATILE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.new_scan_session_code() FROM PUBLIC, anon, authenticated;
+
+-- Replace the short codes of sessions that are still open; members already in stay in
+UPDATE public.scan_sessions
+SET code = public.new_scan_session_code()
+WHERE committed_at IS NULL;
+
+-- Wrong join codes per user, kept for the lockout window. Only join_scan_session uses it.
+CREATE TABLE public.scan_session_join_failures (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_scan_session_join_failures_user ON public.scan_session_join_failures (user_id, attempted_at);
+
+ALTER TABLE public.scan_session_join_failures ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.create_scan_session(_name TEXT, _display_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to start a scan session';
+  END IF;
+
+  INSERT INTO public.scan_sessions (code, name, created_by)
+  VALUES (public.new_scan_session_code(), _name, auth.uid())
+  RETURNING id INTO new_id;
+
+  INSERT INTO public.scan_session_members (session_id, user_id, display_name)
+  VALUES (new_id, auth.uid(), _display_name);
+
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Join a session by its code; joining again only updates the display name. Returns null
+-- for an unknown code (raising would roll back the recorded failure); after 10 wrong codes
+-- in 15 minutes the caller is locked out until the oldest one expires.
+CREATE OR REPLACE FUNCTION public.join_scan_session(_code TEXT, _display_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  target UUID;
+  recent_failures INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join a scan session';
+  END IF;
+
+  DELETE FROM public.scan_session_join_failures
+  WHERE user_id = auth.uid() AND attempted_at < now() - interval '15 minutes';
+
+  SELECT count(*) INTO recent_failures
+  FROM public.scan_session_join_failures
+  WHERE user_id = auth.uid();
+  IF recent_failures >= 10 THEN
+    RAISE EXCEPTION 'Too many wrong join codes; try again in a few minutes';
+  END IF;
+
+  -- Codes may be typed in lower case or with spaces and dashes
+  SELECT id INTO target FROM public.scan_sessions
+  WHERE code = upper(regexp_replace(_code, '[^A-Za-z0-9]', '', 'g')) AND committed_at IS NULL;
+  IF target IS NULL THEN
+    INSERT INTO public.scan_session_join_failures (user_id) VALUES (auth.uid());
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.scan_session_members (session_id, user_id, display_name)
+  VALUES (target, auth.uid(), _display_name)
+  ON CONFLICT (session_id, user_id) DO UPDATE SET display_name = excluded.display_name;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,61 @@
+-- Pull synced entries in commit order. A revision from a sequence is taken when a row is
+-- written, not when its transaction commits, so two concurrent pushes could commit out of
+-- order and a device that had already pulled the higher revision would never see the
+-- lower one. Rows now record the transaction that wrote them, and a pull hands back the
+-- oldest transaction still running when it read: everything before it is committed and
+-- was visible, everything from it on is pulled again next time.
+
+ALTER TABLE public.sync_collections ADD COLUMN txid BIGINT NOT NULL DEFAULT txid_current();
+ALTER TABLE public.sync_collection_entries ADD COLUMN txid BIGINT NOT NULL DEFAULT txid_current();
+
+DROP INDEX public.idx_sync_collection_entries_revision;
+ALTER TABLE public.sync_collections DROP COLUMN revision;
+ALTER TABLE public.sync_collection_entries DROP COLUMN revision;
+DROP SEQUENCE public.sync_revision_seq;
+
+CREATE INDEX idx_sync_collection_entries_txid
+ON public.sync_collection_entries(user_id, txid, collection_id, card_id);
+
+-- Every write records its transaction
+CREATE OR REPLACE FUNCTION public.bump_sync_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.txid = txid_current();
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- One page of entries written from transaction _since_txid on, plus every entry of
+-- _full_collection_ids, ordered by (txid, collection_id, card_id) and starting after the
+-- given key. Each row carries safe_txid, where the next pull should start. Runs as the
+-- caller, so row-level security still applies.
+CREATE OR REPLACE FUNCTION public.pull_sync_entries(
+  _since_txid BIGINT,
+  _full_collection_ids TEXT[],
+  _after_txid BIGINT,
+  _after_collection_id TEXT,
+  _after_card_id TEXT,
+  _limit INTEGER
+)
+RETURNS TABLE (
+  collection_id TEXT,
+  card_id TEXT,
+  entry JSONB,
+  clock BIGINT,
+  device_id TEXT,
+  txid BIGINT,
+  safe_txid BIGINT
+) AS $$
+  SELECT e.collection_id, e.card_id, e.entry, e.clock, e.device_id, e.txid,
+    txid_snapshot_xmin(txid_current_snapshot())
+  FROM public.sync_collection_entries e
+  WHERE e.user_id = auth.uid()
+    AND (e.txid >= _since_txid OR e.collection_id = ANY(_full_collection_ids))
+    AND (e.txid, e.collection_id, e.card_id) > (_after_txid, _after_collection_id, _after_card_id)
+  ORDER BY e.txid, e.collection_id, e.card_id
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pull_sync_entries(BIGINT, TEXT[], BIGINT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.pull_sync_entries(BIGINT, TEXT[], BIGINT, TEXT, TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,9 @@
+-- Training images stay readable by anyone for the training scripts, but not who
+-- contributed them. A column grant can't narrow a table-wide one, so the table grant is
+-- revoked and SELECT given back on every column except contributed_by. Edge functions
+-- read with the service role key and pick their columns themselves.
+REVOKE SELECT ON public.training_images FROM anon, authenticated;
+
+GRANT SELECT (id, card_id, source, image_url, created_at, used_in_model)
+ON public.training_images
+TO anon, authenticated;